@@ -0,0 +1,61 @@
+// Verifies the audit log's hash chain from outside the browser, e.g. from cron or CI.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run verify:audit [-- <id>:<hash>]
+//
+// The optional checkpoint is a latest event id and hash recorded on an earlier run.
+// The chain alone cannot show that its newest events were removed, so the
+// checkpoint event must still exist with the same hash. Exits 1 when the log
+// fails either check and 2 when it cannot be verified at all.
+import { createClient } from "@supabase/supabase-js"
+
+const url = process.env.SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!url || !serviceRoleKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set")
+  process.exit(2)
+}
+
+const checkpoint = process.argv[2]
+if (checkpoint && !/^\d+:[0-9a-f]{64}$/.test(checkpoint)) {
+  console.error("The checkpoint must look like <event id>:<sha256 hash>")
+  process.exit(2)
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+
+const { data: result, error } = await supabase.rpc("verify_audit_chain")
+if (error) {
+  console.error("Could not verify the audit log:", error.message)
+  process.exit(2)
+}
+
+if (!result.valid) {
+  console.error(`Chain broken at event #${result.broken_at}: ${result.reason}.`)
+  console.error(`${result.checked} earlier events are intact.`)
+  process.exit(1)
+}
+
+if (checkpoint) {
+  const [id, hash] = checkpoint.split(":")
+  const { data: event, error: eventError } = await supabase
+    .from("audit_events")
+    .select("hash")
+    .eq("id", id)
+    .maybeSingle()
+
+  if (eventError) {
+    console.error("Could not read the checkpoint event:", eventError.message)
+    process.exit(2)
+  }
+
+  if (event?.hash !== hash) {
+    console.error(`Checkpoint event #${id} is ${event ? "modified" : "missing"}; newer events may have been removed.`)
+    process.exit(1)
+  }
+}
+
+console.log(`${result.checked} events verified.`)
+if (result.last_hash) {
+  console.log(`Checkpoint for the next run: ${result.last_id}:${result.last_hash}`)
+}
@@ -0,0 +1,243 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { format } from "date-fns"
+import { ChevronLeft, ChevronRight, ShieldCheck, ShieldX } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useAuditEvents } from "@/hooks/useAuditEvents"
+import { AUDIT_ACTIONS, AUDIT_PAGE_SIZE, describeAuditDetails, getAuditActionLabel, type AuditFilters } from "@/lib/audit"
+import { getProfileName } from "@/lib/profiles"
+import type { AuditEvent, Profile } from "@/types/database"
+
+interface AuditLogProps {
+  staff: Profile[]
+}
+
+const ANY = "any"
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const getActorName = (event: AuditEvent) => {
+  if (event.actor) return getProfileName(event.actor)
+  if (event.actor_id) return "Unknown user"
+  return event.action === "token.lookup" || event.details.anonymous ? "Anonymous reporter" : "System"
+}
+
+export function AuditLog({ staff }: AuditLogProps) {
+  const [filters, setFilters] = useState<AuditFilters>({})
+  const [targetText, setTargetText] = useState("")
+  const [page, setPage] = useState(0)
+  const { events, total, loading, verification, verifying, verifyChain } = useAuditEvents(filters, page)
+
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE))
+  const targetValid = !targetText.trim() || UUID_PATTERN.test(targetText.trim())
+
+  const updateFilters = (changes: Partial<AuditFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }))
+    setPage(0)
+  }
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>
+            Every read of and change to a case. Events are chained by hash, so any edit or deletion is detectable.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={verifyChain} disabled={verifying}>
+          {verifying ? <LoadingSpinner size="sm" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+          Verify Chain
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verification && (
+          <Alert variant={verification.valid ? "default" : "destructive"}>
+            {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldX className="h-4 w-4" />}
+            <AlertTitle>
+              {verification.valid ? `${verification.checked} events verified` : `Chain broken at event #${verification.broken_at}`}
+            </AlertTitle>
+            <AlertDescription className="break-all">
+              {verification.valid
+                ? verification.last_hash
+                  ? `Latest event #${verification.last_id} has hash ${verification.last_hash}. Keep a copy outside this system to detect removal of the newest events.`
+                  : "The log is empty."
+                : `${verification.reason}. ${verification.checked} earlier events are intact.`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="audit-action" className="text-xs text-muted-foreground">Action</Label>
+            <Select
+              value={filters.action ?? ANY}
+              onValueChange={(value) => updateFilters({ action: value === ANY ? undefined : value })}
+            >
+              <SelectTrigger id="audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any action</SelectItem>
+                {AUDIT_ACTIONS.map((action) => (
+                  <SelectItem key={action.value} value={action.value}>
+                    {action.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor" className="text-xs text-muted-foreground">Actor</Label>
+            <Select
+              value={filters.actorId ?? ANY}
+              onValueChange={(value) => updateFilters({ actorId: value === ANY ? undefined : value })}
+            >
+              <SelectTrigger id="audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                <SelectItem value="none">Anonymous or system</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {getProfileName(member)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-target" className="text-xs text-muted-foreground">Issue ID</Label>
+            <Input
+              id="audit-target"
+              className="font-mono"
+              placeholder="Any issue"
+              value={targetText}
+              onChange={(e) => {
+                setTargetText(e.target.value)
+                const value = e.target.value.trim()
+                if (!value || UUID_PATTERN.test(value)) updateFilters({ targetId: value || undefined })
+              }}
+            />
+            {!targetValid && <p className="text-xs text-destructive">Paste a full issue ID.</p>}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from ?? ""}
+              onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to ?? ""}
+              onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">#</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Issue</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Client</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="font-mono text-xs text-muted-foreground" title={event.hash}>
+                    {event.id}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {format(new Date(event.occurred_at), "PP p")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {getActorName(event)}
+                    {event.actor_role && <span className="block text-xs text-muted-foreground">{event.actor_role}</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="whitespace-nowrap">
+                      {getAuditActionLabel(event.action)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {event.target_type === "issue" && event.target_id ? (
+                      <Link to={`/issues/${event.target_id}`} className="text-primary hover:underline">
+                        {event.target_id.slice(0, 8)}
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                    {describeAuditDetails(event)}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[12rem] truncate" title={event.client_info?.user_agent}>
+                    {event.client_info?.ip ?? "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {total} event{total === 1 ? "" : "s"}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={page === 0 || loading}
+              onClick={() => setPage((current) => current - 1)}
+              aria-label="Newer events"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={page + 1 >= pageCount || loading}
+              onClick={() => setPage((current) => current + 1)}
+              aria-label="Older events"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react"
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useCategoryFields, type CategoryFieldInput } from "@/hooks/useCategoryFields"
+import { CUSTOM_FIELD_TYPES, toFieldKey } from "@/lib/custom-fields"
+import type { CategoryField, CustomFieldType } from "@/types/database"
+
+interface CategoryFieldsDialogProps {
+  category: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+const FIELD_KEY = /^[a-z][a-z0-9_]{0,39}$/
+
+const EMPTY_FIELD: CategoryFieldInput = {
+  field_key: "",
+  label: "",
+  field_type: "text",
+  options: [],
+  required: false,
+  help_text: "",
+}
+
+export function CategoryFieldsDialog({ category, onOpenChange }: CategoryFieldsDialogProps) {
+  const { getFields, saveField, moveField, deleteField, loading } = useCategoryFields()
+  const [editing, setEditing] = useState<CategoryField | null>(null)
+  const [form, setForm] = useState<CategoryFieldInput>(EMPTY_FIELD)
+  const [optionsText, setOptionsText] = useState("")
+  const [keyTouched, setKeyTouched] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fields = getFields(category?.id)
+
+  const resetForm = (field?: CategoryField) => {
+    setEditing(field ?? null)
+    setForm(field ? { ...field, help_text: field.help_text ?? "" } : EMPTY_FIELD)
+    setOptionsText(field?.options.join(", ") ?? "")
+    setKeyTouched(!!field)
+  }
+
+  useEffect(() => {
+    resetForm()
+  }, [category])
+
+  const options = optionsText
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean)
+
+  const keyValid = FIELD_KEY.test(form.field_key)
+  const optionsValid = form.field_type !== "select" || options.length > 0
+  const canSave = form.label.trim().length > 0 && keyValid && optionsValid
+
+  const handleSave = async () => {
+    if (!category) return
+
+    setSaving(true)
+    try {
+      await saveField(category.id, { ...form, options }, editing?.id)
+      resetForm()
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom fields for "{category?.name}"</DialogTitle>
+          <DialogDescription>
+            Shown in the report form when this category is chosen. Answers are saved with the issue.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : (
+          <div className="space-y-2">
+            {fields.length === 0 && <p className="text-sm text-muted-foreground">No custom fields yet.</p>}
+            {fields.map((field, index) => (
+              <div key={field.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === 0}
+                    onClick={() => moveField(field, -1)}
+                    aria-label={`Move ${field.label} up`}
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === fields.length - 1}
+                    onClick={() => moveField(field, 1)}
+                    aria-label={`Move ${field.label} down`}
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </Button>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium truncate">{field.label}</p>
+                    <Badge variant="outline">
+                      {CUSTOM_FIELD_TYPES.find((type) => type.value === field.field_type)?.label}
+                    </Badge>
+                    {field.required && <Badge variant="secondary">Required</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">{field.field_key}</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => resetForm(field)} aria-label={`Edit ${field.label}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteField(field.id)}
+                  aria-label={`Remove ${field.label}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h4 className="font-medium">{editing ? `Edit "${editing.label}"` : "Add a field"}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="field-label">Label</Label>
+              <Input
+                id="field-label"
+                value={form.label}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    label: e.target.value,
+                    field_key: keyTouched ? prev.field_key : toFieldKey(e.target.value),
+                  }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="field-key">Key</Label>
+              <Input
+                id="field-key"
+                className="font-mono"
+                value={form.field_key}
+                disabled={!!editing}
+                onChange={(e) => {
+                  setKeyTouched(true)
+                  setForm((prev) => ({ ...prev, field_key: e.target.value }))
+                }}
+              />
+              {form.field_key && !keyValid && (
+                <p className="text-sm text-destructive">Lowercase letters, digits and underscores, starting with a letter.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="field-type">Type</Label>
+              <Select
+                value={form.field_type}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, field_type: value as CustomFieldType }))}
+              >
+                <SelectTrigger id="field-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="field-help">Help text</Label>
+              <Input
+                id="field-help"
+                value={form.help_text ?? ""}
+                onChange={(e) => setForm((prev) => ({ ...prev, help_text: e.target.value }))}
+              />
+            </div>
+
+            {form.field_type === "select" && (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="field-options">Options</Label>
+                <Input
+                  id="field-options"
+                  placeholder="once, weekly, daily"
+                  value={optionsText}
+                  onChange={(e) => setOptionsText(e.target.value)}
+                />
+                <p className={`text-sm ${optionsValid ? "text-muted-foreground" : "text-destructive"}`}>
+                  Separate options with commas.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="field-required"
+              checked={form.required}
+              onCheckedChange={(required) => setForm((prev) => ({ ...prev, required }))}
+            />
+            <Label htmlFor="field-required">Required</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <Button variant="outline" onClick={() => resetForm()}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={!canSave || saving}>
+              {saving ? <LoadingSpinner size="sm" /> : editing ? "Save Field" : "Add Field"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
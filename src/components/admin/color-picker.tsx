@@ -0,0 +1,48 @@
+import { Check } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { CATEGORY_COLORS } from "@/lib/category-icons"
+
+interface ColorPickerProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+export function ColorPicker({ value, onChange }: ColorPickerProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {CATEGORY_COLORS.map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => onChange(color)}
+            className={cn(
+              "w-7 h-7 rounded-full flex items-center justify-center border-2 transition-transform hover:scale-110",
+              value.toLowerCase() === color ? "border-foreground" : "border-transparent"
+            )}
+            style={{ backgroundColor: color }}
+            aria-label={`Use color ${color}`}
+          >
+            {value.toLowerCase() === color && <Check className="w-4 h-4 text-white" />}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-10 h-10 rounded-md border bg-transparent cursor-pointer"
+          aria-label="Custom color"
+        />
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-32 font-mono"
+          maxLength={7}
+        />
+      </div>
+    </div>
+  )
+}
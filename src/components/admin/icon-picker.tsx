@@ -0,0 +1,30 @@
+import { cn } from "@/lib/utils"
+import { CATEGORY_ICONS } from "@/lib/category-icons"
+
+interface IconPickerProps {
+  value: string
+  color?: string
+  onChange: (value: string) => void
+}
+
+export function IconPicker({ value, color, onChange }: IconPickerProps) {
+  return (
+    <div className="grid grid-cols-8 gap-2">
+      {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+        <button
+          key={name}
+          type="button"
+          onClick={() => onChange(name)}
+          className={cn(
+            "h-9 rounded-md border flex items-center justify-center hover:bg-muted/50 transition-colors",
+            value === name && "border-primary bg-primary/10"
+          )}
+          title={name}
+          aria-label={name}
+        >
+          <Icon className="w-4 h-4" style={value === name && color ? { color } : undefined} />
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+
+interface MergeItem {
+  id: string
+  name: string
+}
+
+interface MergeDialogProps {
+  source: MergeItem | null
+  targets: MergeItem[]
+  issueCount: number
+  onOpenChange: (open: boolean) => void
+  onMerge: (targetId: string) => Promise<void>
+}
+
+export function MergeDialog({ source, targets, issueCount, onOpenChange, onMerge }: MergeDialogProps) {
+  const [targetId, setTargetId] = useState("")
+  const [merging, setMerging] = useState(false)
+
+  useEffect(() => {
+    setTargetId("")
+  }, [source])
+
+  const handleMerge = async () => {
+    setMerging(true)
+    try {
+      await onMerge(targetId)
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!source} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge "{source?.name}"</DialogTitle>
+          <DialogDescription>
+            {`${issueCount === 1 ? "1 issue" : `${issueCount} issues`} will be moved to the selected target and `}
+            {`"${source?.name}" will be deleted. This cannot be undone.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="merge-target">Merge into</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger id="merge-target">
+              <SelectValue placeholder="Select a target" />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map((target) => (
+                <SelectItem key={target.id} value={target.id}>
+                  {target.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleMerge} disabled={!targetId || merging}>
+            {merging ? <LoadingSpinner size="sm" /> : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
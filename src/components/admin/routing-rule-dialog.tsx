@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { getProfileName } from "@/lib/profiles"
+import type { RoutingRuleInput } from "@/hooks/useRoutingRules"
+import type { IssueSeverity, Profile } from "@/types/database"
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface RoutingRuleDialogProps {
+  open: boolean
+  // Values of the rule being edited; undefined when creating
+  initial?: RoutingRuleInput
+  categories: Option[]
+  departments: Option[]
+  staff: Profile[]
+  onOpenChange: (open: boolean) => void
+  onSave: (input: RoutingRuleInput) => Promise<void>
+}
+
+const RULE_SEVERITIES: { value: IssueSeverity; label: string }[] = [
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+  { value: "critical", label: "Critical" },
+]
+
+// Select items cannot have an empty value
+const NONE = "none"
+
+const EMPTY: RoutingRuleInput = {
+  name: "",
+  description: "",
+  stop_processing: false,
+  category_ids: [],
+  department_ids: [],
+  severities: [],
+  location_pattern: "",
+  keywords: [],
+  assign_to: undefined,
+  set_department_id: undefined,
+  raise_severity_to: undefined,
+  watcher_ids: [],
+}
+
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter((existing) => existing !== value)
+
+function OptionChecklist<T extends string>({
+  id,
+  options,
+  selected,
+  onChange,
+}: {
+  id: string
+  options: { value: T; label: string }[]
+  selected: T[]
+  onChange: (selected: T[]) => void
+}) {
+  if (options.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing to choose from yet.</p>
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto rounded-md border p-3">
+      {options.map((option) => (
+        <div key={option.value} className="flex items-center gap-2">
+          <Checkbox
+            id={`${id}-${option.value}`}
+            checked={selected.includes(option.value)}
+            onCheckedChange={(checked) => onChange(toggle(selected, option.value, checked === true))}
+          />
+          <Label htmlFor={`${id}-${option.value}`} className="font-normal truncate">
+            {option.label}
+          </Label>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function RoutingRuleDialog({
+  open,
+  initial,
+  categories,
+  departments,
+  staff,
+  onOpenChange,
+  onSave,
+}: RoutingRuleDialogProps) {
+  const [form, setForm] = useState<RoutingRuleInput>(EMPTY)
+  const [keywordsText, setKeywordsText] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setForm({ ...EMPTY, ...initial })
+    setKeywordsText(initial?.keywords.join(", ") ?? "")
+  }, [open, initial])
+
+  const keywords = keywordsText
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+
+  const hasAction =
+    !!form.assign_to || !!form.set_department_id || !!form.raise_severity_to || form.watcher_ids.length > 0
+  const canSave = form.name.trim().length > 0 && hasAction
+
+  const categoryOptions = categories.map((category) => ({ value: category.id, label: category.name }))
+  const departmentOptions = departments.map((department) => ({ value: department.id, label: department.name }))
+  const staffOptions = staff.map((member) => ({ value: member.user_id, label: getProfileName(member) }))
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave({ ...form, keywords })
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? "Edit Routing Rule" : "New Routing Rule"}</DialogTitle>
+          <DialogDescription>
+            Applied when an issue is submitted. Leave a condition empty to match any issue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-description">Description</Label>
+            <Textarea
+              id="rule-description"
+              rows={2}
+              value={form.description ?? ""}
+              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h4 className="font-medium">When an issue matches</h4>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <OptionChecklist
+              id="rule-category"
+              options={categoryOptions}
+              selected={form.category_ids}
+              onChange={(category_ids) => setForm((prev) => ({ ...prev, category_ids }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <OptionChecklist
+              id="rule-department"
+              options={departmentOptions}
+              selected={form.department_ids}
+              onChange={(department_ids) => setForm((prev) => ({ ...prev, department_ids }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <OptionChecklist
+              id="rule-severity"
+              options={RULE_SEVERITIES}
+              selected={form.severities}
+              onChange={(severities) => setForm((prev) => ({ ...prev, severities }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-location">Location contains</Label>
+              <Input
+                id="rule-location"
+                placeholder="Warehouse"
+                value={form.location_pattern ?? ""}
+                onChange={(e) => setForm((prev) => ({ ...prev, location_pattern: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-keywords">Any of these keywords</Label>
+              <Input
+                id="rule-keywords"
+                placeholder="harassment, threat"
+                value={keywordsText}
+                onChange={(e) => setKeywordsText(e.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">Matched against the title and description.</p>
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h4 className="font-medium">Then</h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-assign">Assign to</Label>
+              <Select
+                value={form.assign_to ?? NONE}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, assign_to: value === NONE ? undefined : value }))}
+              >
+                <SelectTrigger id="rule-assign">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Don't assign</SelectItem>
+                  {staffOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-department-queue">Route to department</Label>
+              <Select
+                value={form.set_department_id ?? NONE}
+                onValueChange={(value) =>
+                  setForm((prev) => ({ ...prev, set_department_id: value === NONE ? undefined : value }))
+                }
+              >
+                <SelectTrigger id="rule-department-queue">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Keep department</SelectItem>
+                  {departmentOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-severity-raise">Raise severity to</Label>
+              <Select
+                value={form.raise_severity_to ?? NONE}
+                onValueChange={(value) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    raise_severity_to: value === NONE ? undefined : (value as IssueSeverity),
+                  }))
+                }
+              >
+                <SelectTrigger id="rule-severity-raise">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Keep severity</SelectItem>
+                  {RULE_SEVERITIES.filter((severity) => severity.value !== "low").map((severity) => (
+                    <SelectItem key={severity.value} value={severity.value}>
+                      {severity.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Add watchers</Label>
+            <OptionChecklist
+              id="rule-watchers"
+              options={staffOptions}
+              selected={form.watcher_ids}
+              onChange={(watcher_ids) => setForm((prev) => ({ ...prev, watcher_ids }))}
+            />
+          </div>
+
+          {!hasAction && <p className="text-sm text-destructive">Choose at least one action.</p>}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="rule-stop"
+              checked={form.stop_processing}
+              onCheckedChange={(stop_processing) => setForm((prev) => ({ ...prev, stop_processing }))}
+            />
+            <Label htmlFor="rule-stop">Stop evaluating later rules when this one matches</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            {saving ? <LoadingSpinner size="sm" /> : "Save Rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
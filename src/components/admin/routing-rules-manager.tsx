@@ -0,0 +1,189 @@
+import { useState } from "react"
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { EmptyState } from "@/components/ui/empty-state"
+import { RoutingRuleDialog } from "./routing-rule-dialog"
+import { getProfileName } from "@/lib/profiles"
+import type { RoutingRuleInput } from "@/hooks/useRoutingRules"
+import type { Profile, RoutingRule } from "@/types/database"
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface RoutingRulesManagerProps {
+  rules: RoutingRule[]
+  categories: Option[]
+  departments: Option[]
+  staff: Profile[]
+  onSave: (input: RoutingRuleInput, id?: string) => Promise<void>
+  onToggle: (rule: RoutingRule, enabled: boolean) => Promise<void>
+  onMove: (rule: RoutingRule, offset: number) => Promise<void>
+  onDelete: (rule: RoutingRule) => Promise<void>
+}
+
+const listNames = (ids: string[], options: Option[]) =>
+  ids.map((id) => options.find((option) => option.id === id)?.name ?? "Unknown").join(" or ")
+
+export function RoutingRulesManager({
+  rules,
+  categories,
+  departments,
+  staff,
+  onSave,
+  onToggle,
+  onMove,
+  onDelete,
+}: RoutingRulesManagerProps) {
+  const [editing, setEditing] = useState<RoutingRule | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [deleting, setDeleting] = useState<RoutingRule | null>(null)
+
+  const staffOptions = staff.map((member) => ({ id: member.user_id, name: getProfileName(member) }))
+
+  const describeConditions = (rule: RoutingRule) => {
+    const conditions = [
+      rule.category_ids.length > 0 && `category is ${listNames(rule.category_ids, categories)}`,
+      rule.department_ids.length > 0 && `department is ${listNames(rule.department_ids, departments)}`,
+      rule.severities.length > 0 && `severity is ${rule.severities.join(" or ")}`,
+      rule.location_pattern && `location contains "${rule.location_pattern}"`,
+      rule.keywords.length > 0 && `mentions ${rule.keywords.map((keyword) => `"${keyword}"`).join(" or ")}`,
+    ].filter(Boolean)
+
+    return conditions.length > 0 ? `When ${conditions.join(" and ")}` : "Every new issue"
+  }
+
+  const describeActions = (rule: RoutingRule) =>
+    [
+      rule.assign_to && `assign to ${listNames([rule.assign_to], staffOptions)}`,
+      rule.set_department_id && `route to ${listNames([rule.set_department_id], departments)}`,
+      rule.raise_severity_to && `raise severity to ${rule.raise_severity_to}`,
+      rule.watcher_ids.length > 0 && `notify ${rule.watcher_ids.map((id) => listNames([id], staffOptions)).join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join("; ")
+
+  const editorOpen = creating || !!editing
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Routing Rules</CardTitle>
+          <CardDescription>
+            Evaluated top to bottom for every new issue. Each rule that applies is recorded on the issue's timeline.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setCreating(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Rule
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {rules.length === 0 ? (
+          <EmptyState
+            title="No routing rules yet"
+            description="New issues stay unassigned until someone triages them."
+          />
+        ) : (
+          rules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className={`flex items-center gap-3 p-3 border rounded-lg ${rule.enabled ? "" : "opacity-60"}`}
+            >
+              <div className="flex flex-col">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0}
+                  onClick={() => onMove(rule, -1)}
+                  aria-label={`Move ${rule.name} up`}
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === rules.length - 1}
+                  onClick={() => onMove(rule, 1)}
+                  aria-label={`Move ${rule.name} down`}
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-medium truncate">{rule.name}</p>
+                  {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+                  {rule.stop_processing && <Badge variant="secondary">Stops later rules</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeConditions(rule)}: {describeActions(rule)}
+                </p>
+              </div>
+
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onToggle(rule, enabled)}
+                aria-label={`${rule.enabled ? "Disable" : "Enable"} ${rule.name}`}
+              />
+              <Button variant="ghost" size="icon" onClick={() => setEditing(rule)} aria-label={`Edit ${rule.name}`}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setDeleting(rule)} aria-label={`Delete ${rule.name}`}>
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <RoutingRuleDialog
+        open={editorOpen}
+        initial={editing ?? undefined}
+        categories={categories}
+        departments={departments}
+        staff={staff}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false)
+            setEditing(null)
+          }
+        }}
+        onSave={(input) => onSave(input, editing?.id)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              New issues will no longer be routed by this rule. Issues it already routed are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && onDelete(deleting)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { ISSUE_STATUSES, getStatusLabel } from "@/lib/issue-status"
+import type { StatusTransitionInput } from "@/hooks/useStatusTransitionAdmin"
+import type { IssueStatusTransition } from "@/types/database"
+
+interface StatusTransitionDialogProps {
+  open: boolean
+  // The transition being edited; undefined when adding one
+  initial?: IssueStatusTransition
+  // Every transition, so a new one cannot repeat an existing pair of statuses
+  transitions: IssueStatusTransition[]
+  onOpenChange: (open: boolean) => void
+  onSave: (input: StatusTransitionInput) => Promise<void>
+}
+
+const EMPTY: StatusTransitionInput = {
+  from_status: "open",
+  to_status: "triaged",
+  label: "",
+  requires_note: false,
+  note_label: "",
+}
+
+export function StatusTransitionDialog({ open, initial, transitions, onOpenChange, onSave }: StatusTransitionDialogProps) {
+  const [form, setForm] = useState<StatusTransitionInput>(EMPTY)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setForm(initial
+        ? {
+          from_status: initial.from_status,
+          to_status: initial.to_status,
+          label: initial.label,
+          requires_note: initial.requires_note,
+          note_label: initial.note_label ?? "",
+        }
+        : EMPTY)
+    }
+  }, [open, initial])
+
+  const sameStatus = form.from_status === form.to_status
+  const duplicate = !initial && transitions.some(
+    (transition) => transition.from_status === form.from_status && transition.to_status === form.to_status
+  )
+  const canSave = !sameStatus && !duplicate && form.label.trim().length > 0
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(form)
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{initial ? "Edit Transition" : "New Transition"}</DialogTitle>
+          <DialogDescription>
+            {initial
+              ? `Moves issues from ${getStatusLabel(initial.from_status)} to ${getStatusLabel(initial.to_status)}.`
+              : "Allows case handlers to move issues between two statuses."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!initial && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transition-from">From</Label>
+                <Select
+                  value={form.from_status}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, from_status: value as StatusTransitionInput["from_status"] }))}
+                >
+                  <SelectTrigger id="transition-from">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ISSUE_STATUSES.map((status) => (
+                      <SelectItem key={status.value} value={status.value}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="transition-to">To</Label>
+                <Select
+                  value={form.to_status}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, to_status: value as StatusTransitionInput["to_status"] }))}
+                >
+                  <SelectTrigger id="transition-to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ISSUE_STATUSES.map((status) => (
+                      <SelectItem key={status.value} value={status.value}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {sameStatus && <p className="col-span-2 text-sm text-destructive">Pick two different statuses.</p>}
+              {duplicate && <p className="col-span-2 text-sm text-destructive">This transition already exists.</p>}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="transition-label">Action Label</Label>
+            <Input
+              id="transition-label"
+              placeholder="e.g. Start investigation"
+              value={form.label}
+              onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+            />
+            <p className="text-sm text-muted-foreground">Shown on the button that makes the change.</p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="transition-requires-note">Requires a Note</Label>
+              <p className="text-sm text-muted-foreground">The change is refused without an explanation.</p>
+            </div>
+            <Switch
+              id="transition-requires-note"
+              checked={form.requires_note}
+              onCheckedChange={(checked) => setForm((prev) => ({ ...prev, requires_note: checked }))}
+            />
+          </div>
+
+          {form.requires_note && (
+            <div className="space-y-2">
+              <Label htmlFor="transition-note-label">Note Label</Label>
+              <Input
+                id="transition-note-label"
+                placeholder="e.g. Resolution note"
+                value={form.note_label ?? ""}
+                onChange={(e) => setForm((prev) => ({ ...prev, note_label: e.target.value }))}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            {saving ? <LoadingSpinner size="sm" /> : "Save Transition"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
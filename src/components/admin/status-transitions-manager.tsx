@@ -0,0 +1,144 @@
+import { useState } from "react"
+import { ArrowRight, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { EmptyState } from "@/components/ui/empty-state"
+import { StatusTransitionDialog } from "./status-transition-dialog"
+import { getStatusBadgeVariant, getStatusLabel, getStatusStep } from "@/lib/issue-status"
+import type { StatusTransitionInput } from "@/hooks/useStatusTransitionAdmin"
+import type { IssueStatus, IssueStatusTransition } from "@/types/database"
+
+interface StatusTransitionsManagerProps {
+  transitions: IssueStatusTransition[]
+  onSave: (input: StatusTransitionInput, existing: boolean) => Promise<unknown>
+  onDelete: (from: IssueStatus, to: IssueStatus) => Promise<unknown>
+}
+
+// In lifecycle order of the starting status, then of the target
+const byLifecycle = (a: IssueStatusTransition, b: IssueStatusTransition) =>
+  getStatusStep(a.from_status) - getStatusStep(b.from_status) || getStatusStep(a.to_status) - getStatusStep(b.to_status)
+
+export function StatusTransitionsManager({ transitions, onSave, onDelete }: StatusTransitionsManagerProps) {
+  const [editing, setEditing] = useState<IssueStatusTransition | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [deleting, setDeleting] = useState<IssueStatusTransition | null>(null)
+
+  // Swallow errors here; the hook has already reported them
+  const attempt = (action: Promise<unknown>) => action.catch(() => undefined)
+
+  const editorOpen = creating || !!editing
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Status Transitions</CardTitle>
+          <CardDescription>
+            The only status changes case handlers can make. Any change not listed here is refused.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setCreating(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Transition
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {transitions.length === 0 ? (
+          <EmptyState title="No transitions" description="Without transitions no issue can change status." />
+        ) : (
+          [...transitions].sort(byLifecycle).map((transition) => (
+            <div key={`${transition.from_status}-${transition.to_status}`} className="flex items-center gap-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant={getStatusBadgeVariant(transition.from_status)}>{getStatusLabel(transition.from_status)}</Badge>
+                <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                <Badge variant={getStatusBadgeVariant(transition.to_status)}>{getStatusLabel(transition.to_status)}</Badge>
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{transition.label}</p>
+                {transition.requires_note && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    Requires {(transition.note_label || "a note").toLowerCase()}
+                  </p>
+                )}
+              </div>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label={`Actions for ${transition.label}`}>
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setEditing(transition)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setDeleting(transition)} className="text-destructive focus:text-destructive">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <StatusTransitionDialog
+        open={editorOpen}
+        initial={editing ?? undefined}
+        transitions={transitions}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false)
+            setEditing(null)
+          }
+        }}
+        onSave={async (input) => {
+          await onSave(input, !!editing)
+        }}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting &&
+                `Issues will no longer be able to move from ${getStatusLabel(deleting.from_status)} to ${getStatusLabel(deleting.to_status)}. `}
+              Issues already in either status are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && attempt(onDelete(deleting.from_status, deleting.to_status))}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { ColorPicker } from "./color-picker"
+import type { TagInput } from "@/hooks/useTagAdmin"
+
+interface TagEditorDialogProps {
+  open: boolean
+  // Values of the tag being edited; undefined when creating
+  initial?: TagInput
+  onOpenChange: (open: boolean) => void
+  onSave: (input: TagInput) => Promise<void>
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/
+
+const EMPTY: TagInput = { name: "", color: "#64748b", is_curated: true }
+
+export function TagEditorDialog({ open, initial, onOpenChange, onSave }: TagEditorDialogProps) {
+  const [form, setForm] = useState<TagInput>(EMPTY)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setForm({ ...EMPTY, ...initial })
+  }, [open, initial])
+
+  const colorValid = HEX_COLOR.test(form.color)
+  const canSave = form.name.trim().length > 0 && form.name.trim().length <= 40 && colorValid
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(form)
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{initial ? "Edit Tag" : "New Tag"}</DialogTitle>
+          <DialogDescription>Renaming a tag updates every issue that carries it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">Name</Label>
+            <Input
+              id="tag-name"
+              maxLength={40}
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <ColorPicker value={form.color} onChange={(color) => setForm((prev) => ({ ...prev, color }))} />
+            {!colorValid && <p className="text-sm text-destructive">Use a hex color such as #6366f1.</p>}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="tag-curated">Curated</Label>
+              <p className="text-sm text-muted-foreground">Part of the official list, not created on the fly.</p>
+            </div>
+            <Switch
+              id="tag-curated"
+              checked={form.is_curated}
+              onCheckedChange={(checked) => setForm((prev) => ({ ...prev, is_curated: checked }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            {saving ? <LoadingSpinner size="sm" /> : "Save Tag"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
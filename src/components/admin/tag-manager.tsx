@@ -0,0 +1,151 @@
+import { useState } from "react"
+import { GitMerge, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { EmptyState } from "@/components/ui/empty-state"
+import { TagEditorDialog } from "./tag-editor-dialog"
+import { MergeDialog } from "./merge-dialog"
+import type { TagInput } from "@/hooks/useTagAdmin"
+import type { Tag } from "@/types/database"
+
+interface TagManagerProps {
+  tags: Tag[]
+  usage: Record<string, number>
+  onSave: (input: TagInput, id?: string) => Promise<unknown>
+  onMerge: (sourceId: string, targetId: string) => Promise<unknown>
+  onDelete: (id: string) => Promise<unknown>
+}
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`
+
+export function TagManager({ tags, usage, onSave, onMerge, onDelete }: TagManagerProps) {
+  const [editing, setEditing] = useState<Tag | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [merging, setMerging] = useState<Tag | null>(null)
+  const [deleting, setDeleting] = useState<Tag | null>(null)
+
+  // Swallow errors here; the hook has already reported them
+  const attempt = (action: Promise<unknown>) => action.catch(() => undefined)
+
+  const editorOpen = creating || !!editing
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>
+            Internal labels case handlers put on issues. Renames and merges apply to every tagged issue.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setCreating(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Tag
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {tags.length === 0 ? (
+          <EmptyState title="No tags yet" description="Create the first tag, or let case handlers add them as they go." />
+        ) : (
+          tags.map((tag) => (
+            <div key={tag.id} className="flex items-center gap-3 p-3 border rounded-lg">
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-medium truncate">{tag.name}</p>
+                  {tag.is_curated ? <Badge variant="secondary">Curated</Badge> : <Badge variant="outline">Free-form</Badge>}
+                </div>
+              </div>
+
+              <span className="hidden md:inline text-xs text-muted-foreground">
+                {pluralize(usage[tag.id] ?? 0, "issue")}
+              </span>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label={`Actions for ${tag.name}`}>
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setEditing(tag)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={tags.length < 2} onClick={() => setMerging(tag)}>
+                    <GitMerge className="mr-2 h-4 w-4" />
+                    Merge into…
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setDeleting(tag)} className="text-destructive focus:text-destructive">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <TagEditorDialog
+        open={editorOpen}
+        initial={editing ?? undefined}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false)
+            setEditing(null)
+          }
+        }}
+        onSave={async (input) => {
+          await onSave(input, editing?.id)
+        }}
+      />
+
+      <MergeDialog
+        source={merging}
+        targets={tags.filter((tag) => tag.id !== merging?.id)}
+        issueCount={merging ? usage[merging.id] ?? 0 : 0}
+        onOpenChange={(open) => !open && setMerging(null)}
+        onMerge={async (targetId) => {
+          if (merging) await onMerge(merging.id, targetId)
+        }}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`The tag will be removed from ${pluralize(deleting ? usage[deleting.id] ?? 0 : 0, "issue")}. `}
+              To keep those issues grouped, merge it into another tag instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && attempt(onDelete(deleting.id))}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
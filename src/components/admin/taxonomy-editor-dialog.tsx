@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { ColorPicker } from "./color-picker"
+import { IconPicker } from "./icon-picker"
+import { CATEGORY_COLORS, DEFAULT_CATEGORY_ICON } from "@/lib/category-icons"
+import type { TaxonomyInput, TaxonomyKind } from "@/hooks/useTaxonomyAdmin"
+
+interface TaxonomyEditorDialogProps {
+  kind: TaxonomyKind
+  open: boolean
+  // Values of the item being edited; undefined when creating
+  initial?: TaxonomyInput
+  onOpenChange: (open: boolean) => void
+  onSave: (input: TaxonomyInput) => Promise<void>
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/
+
+const EMPTY: TaxonomyInput = { name: "", description: "", color: CATEGORY_COLORS[8], icon: DEFAULT_CATEGORY_ICON }
+
+export function TaxonomyEditorDialog({ kind, open, initial, onOpenChange, onSave }: TaxonomyEditorDialogProps) {
+  const [form, setForm] = useState<TaxonomyInput>(EMPTY)
+  const [saving, setSaving] = useState(false)
+  const label = kind === "department" ? "Department" : "Category"
+
+  useEffect(() => {
+    if (open) setForm({ ...EMPTY, ...initial })
+  }, [open, initial])
+
+  const colorValid = kind === "department" || HEX_COLOR.test(form.color ?? "")
+  const canSave = form.name.trim().length > 0 && colorValid
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(form)
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{initial ? `Edit ${label}` : `New ${label}`}</DialogTitle>
+          <DialogDescription>
+            {kind === "department"
+              ? "Departments route issues and group staff."
+              : "Categories help reporters describe what happened."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="taxonomy-name">Name</Label>
+            <Input
+              id="taxonomy-name"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="taxonomy-description">Description</Label>
+            <Textarea
+              id="taxonomy-description"
+              value={form.description ?? ""}
+              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          {kind === "category" && (
+            <>
+              <div className="space-y-2">
+                <Label>Color</Label>
+                <ColorPicker value={form.color ?? ""} onChange={(color) => setForm((prev) => ({ ...prev, color }))} />
+                {!colorValid && <p className="text-sm text-destructive">Use a hex color such as #6366f1.</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Icon</Label>
+                <IconPicker
+                  value={form.icon ?? DEFAULT_CATEGORY_ICON}
+                  color={colorValid ? form.color : undefined}
+                  onChange={(icon) => setForm((prev) => ({ ...prev, icon }))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            {saving ? <LoadingSpinner size="sm" /> : `Save ${label}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,258 @@
+import { useState } from "react"
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  GitMerge,
+  ListPlus,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { EmptyState } from "@/components/ui/empty-state"
+import { TaxonomyEditorDialog } from "./taxonomy-editor-dialog"
+import { MergeDialog } from "./merge-dialog"
+import { getCategoryIcon } from "@/lib/category-icons"
+import type { TaxonomyInput, TaxonomyKind } from "@/hooks/useTaxonomyAdmin"
+import type { TaxonomyUsage } from "@/types/database"
+
+interface TaxonomyItem {
+  id: string
+  name: string
+  description?: string
+  color?: string
+  icon?: string
+  archived_at?: string
+}
+
+interface TaxonomyManagerProps {
+  kind: TaxonomyKind
+  items: TaxonomyItem[]
+  usage: Record<string, TaxonomyUsage>
+  onSave: (input: TaxonomyInput, id?: string) => Promise<void>
+  onArchive: (id: string, archived: boolean) => Promise<void>
+  onReorder: (ids: string[]) => Promise<void>
+  onMerge: (sourceId: string, targetId: string) => Promise<void>
+  onDelete: (id: string) => Promise<void>
+  // Categories only: opens the custom field editor
+  onManageFields?: (item: TaxonomyItem) => void
+}
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`
+
+export function TaxonomyManager({
+  kind,
+  items,
+  usage,
+  onSave,
+  onArchive,
+  onReorder,
+  onMerge,
+  onDelete,
+  onManageFields,
+}: TaxonomyManagerProps) {
+  const [editing, setEditing] = useState<TaxonomyItem | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [merging, setMerging] = useState<TaxonomyItem | null>(null)
+  const [deleting, setDeleting] = useState<TaxonomyItem | null>(null)
+
+  const label = kind === "department" ? "Department" : "Category"
+  const plural = kind === "department" ? "Departments" : "Categories"
+
+  const getReferences = (id: string) => (usage[id]?.issue_count ?? 0) + (usage[id]?.profile_count ?? 0)
+
+  // Swallow errors here; the hook has already reported them
+  const attempt = (action: Promise<void>) => action.catch(() => undefined)
+
+  const move = (index: number, offset: number) => {
+    const ids = items.map((item) => item.id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, moved)
+    attempt(onReorder(ids))
+  }
+
+  const editorOpen = creating || !!editing
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{plural}</CardTitle>
+          <CardDescription>
+            Archived {plural.toLowerCase()} stay on existing issues but are not offered for new reports.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setCreating(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New {label}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {items.length === 0 ? (
+          <EmptyState title={`No ${plural.toLowerCase()} yet`} description={`Create the first ${label.toLowerCase()}.`} />
+        ) : (
+          items.map((item, index) => {
+            const Icon = getCategoryIcon(item.icon)
+            const references = usage[item.id]
+
+            return (
+              <div
+                key={item.id}
+                className={`flex items-center gap-3 p-3 border rounded-lg ${item.archived_at ? "opacity-60" : ""}`}
+              >
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === 0}
+                    onClick={() => move(index, -1)}
+                    aria-label={`Move ${item.name} up`}
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === items.length - 1}
+                    onClick={() => move(index, 1)}
+                    aria-label={`Move ${item.name} down`}
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                {kind === "category" && (
+                  <div
+                    className="w-9 h-9 rounded-lg flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: item.color }}
+                  >
+                    <Icon className="w-4 h-4 text-white" />
+                  </div>
+                )}
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium truncate">{item.name}</p>
+                    {item.archived_at && <Badge variant="outline">Archived</Badge>}
+                  </div>
+                  {item.description && <p className="text-sm text-muted-foreground truncate">{item.description}</p>}
+                </div>
+
+                <div className="hidden md:flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>{pluralize(references?.issue_count ?? 0, "issue")}</span>
+                  {kind === "department" && <span>· {pluralize(references?.profile_count ?? 0, "member")}</span>}
+                </div>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label={`Actions for ${item.name}`}>
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setEditing(item)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </DropdownMenuItem>
+                    {onManageFields && (
+                      <DropdownMenuItem onClick={() => onManageFields(item)}>
+                        <ListPlus className="mr-2 h-4 w-4" />
+                        Custom fields
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => attempt(onArchive(item.id, !item.archived_at))}>
+                      {item.archived_at ? (
+                        <>
+                          <ArchiveRestore className="mr-2 h-4 w-4" />
+                          Restore
+                        </>
+                      ) : (
+                        <>
+                          <Archive className="mr-2 h-4 w-4" />
+                          Archive
+                        </>
+                      )}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setMerging(item)}>
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Merge into…
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      disabled={getReferences(item.id) > 0}
+                      onClick={() => setDeleting(item)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {getReferences(item.id) > 0 ? "Delete (still in use)" : "Delete"}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+
+      <TaxonomyEditorDialog
+        kind={kind}
+        open={editorOpen}
+        initial={editing ?? undefined}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false)
+            setEditing(null)
+          }
+        }}
+        onSave={(input) => onSave(input, editing?.id)}
+      />
+
+      <MergeDialog
+        source={merging}
+        targets={items.filter((item) => item.id !== merging?.id && !item.archived_at)}
+        issueCount={merging ? usage[merging.id]?.issue_count ?? 0 : 0}
+        onOpenChange={(open) => !open && setMerging(null)}
+        onMerge={(targetId) => (merging ? onMerge(merging.id, targetId) : Promise.resolve())}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Nothing references this {label.toLowerCase()}, so it can be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && attempt(onDelete(deleting.id))}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
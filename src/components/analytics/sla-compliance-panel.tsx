@@ -0,0 +1,109 @@
+import { Timer } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { formatDuration } from "@/lib/analytics"
+import { getComplianceRate } from "@/lib/sla"
+import type { SlaCompliance, SlaComplianceStats } from "@/types/database"
+
+interface SlaCompliancePanelProps {
+  compliance: SlaCompliance | null
+  loading?: boolean
+}
+
+const formatRate = (met: number, breached: number) => {
+  const rate = getComplianceRate(met, breached)
+  return rate === null ? "—" : `${rate}%`
+}
+
+function ComplianceTable({ rows }: { rows: SlaCompliance["by_department"] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No issues in this range.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Issues</TableHead>
+          <TableHead className="text-right">Response SLA</TableHead>
+          <TableHead className="text-right">Resolution SLA</TableHead>
+          <TableHead className="text-right">Avg. resolution</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.id ?? "none"}>
+            <TableCell className="font-medium">{row.name}</TableCell>
+            <TableCell className="text-right">{row.total}</TableCell>
+            <TableCell className="text-right">{formatRate(row.response_met, row.response_breached)}</TableCell>
+            <TableCell className="text-right">{formatRate(row.resolution_met, row.resolution_breached)}</TableCell>
+            <TableCell className="text-right">{formatDuration(row.avg_resolution_hours)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+function OverallMetric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="text-center">
+      <div className="text-2xl font-bold text-foreground">{value}</div>
+      <div className="text-sm text-muted-foreground">{label}</div>
+    </div>
+  )
+}
+
+export function SlaCompliancePanel({ compliance, loading }: SlaCompliancePanelProps) {
+  const overall: Partial<SlaComplianceStats> = compliance?.overall ?? {}
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          SLA Compliance
+        </CardTitle>
+        <CardDescription>
+          Share of decided targets met for issues reported in the selected range.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !compliance ? (
+          <LoadingSpinner />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              <OverallMetric
+                label="First response within target"
+                value={formatRate(overall.response_met ?? 0, overall.response_breached ?? 0)}
+              />
+              <OverallMetric
+                label="Resolved within target"
+                value={formatRate(overall.resolution_met ?? 0, overall.resolution_breached ?? 0)}
+              />
+              <OverallMetric label="Average first response" value={formatDuration(overall.avg_response_hours ?? null)} />
+              <OverallMetric label="Average resolution" value={formatDuration(overall.avg_resolution_hours ?? null)} />
+            </div>
+
+            <Tabs defaultValue="department">
+              <TabsList>
+                <TabsTrigger value="department">By Department</TabsTrigger>
+                <TabsTrigger value="category">By Category</TabsTrigger>
+              </TabsList>
+              <TabsContent value="department">
+                <ComplianceTable rows={compliance.by_department} />
+              </TabsContent>
+              <TabsContent value="category">
+                <ComplianceTable rows={compliance.by_category} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
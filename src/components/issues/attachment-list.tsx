@@ -0,0 +1,49 @@
+import { format } from "date-fns"
+import { Download, FileAudio, FileImage, FileText } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { formatFileSize } from "@/lib/attachments"
+import type { IssueAttachment } from "@/types/database"
+
+type AttachmentSummary = Pick<IssueAttachment, "id" | "name" | "mime_type" | "size" | "uploaded_at"> &
+  Partial<Pick<IssueAttachment, "path">>
+
+interface AttachmentListProps<T extends AttachmentSummary> {
+  attachments: T[]
+  onOpen?: (attachment: T) => void
+}
+
+const getAttachmentIcon = (mimeType: string) => {
+  if (mimeType.startsWith("image/")) return FileImage
+  if (mimeType.startsWith("audio/")) return FileAudio
+  return FileText
+}
+
+export function AttachmentList<T extends AttachmentSummary>({ attachments, onOpen }: AttachmentListProps<T>) {
+  if (attachments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No files attached.</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {attachments.map((attachment) => {
+        const Icon = getAttachmentIcon(attachment.mime_type)
+        return (
+          <li key={attachment.id} className="flex items-center gap-3 rounded-md bg-muted/30 px-3 py-2">
+            <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{attachment.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatFileSize(attachment.size)} · {format(new Date(attachment.uploaded_at), "PPP")}
+              </p>
+            </div>
+            {onOpen && (
+              <Button variant="ghost" size="icon" onClick={() => onOpen(attachment)} aria-label={`Open ${attachment.name}`}>
+                <Download className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,91 @@
+import { useRef, useState } from "react"
+import { Paperclip, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ATTACHMENT_ACCEPT, formatFileSize, validateAttachment } from "@/lib/attachments"
+
+interface AttachmentPickerProps {
+  files: File[]
+  onChange: (files: File[]) => void
+  maxFiles: number
+  disabled?: boolean
+}
+
+export function AttachmentPicker({ files, onChange, maxFiles, disabled }: AttachmentPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const handleSelect = (selected: FileList | null) => {
+    if (!selected) return
+
+    const nextErrors: string[] = []
+    const accepted: File[] = []
+    for (const file of Array.from(selected)) {
+      const error = validateAttachment(file)
+      if (error) {
+        nextErrors.push(error)
+      } else if (files.length + accepted.length >= maxFiles) {
+        nextErrors.push(`${file.name}: you can attach up to ${maxFiles} files`)
+      } else {
+        accepted.push(file)
+      }
+    }
+
+    setErrors(nextErrors)
+    onChange([...files, ...accepted])
+    if (inputRef.current) inputRef.current.value = ""
+  }
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        className="hidden"
+        onChange={(e) => handleSelect(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="gap-2"
+        disabled={disabled || files.length >= maxFiles}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Paperclip className="h-4 w-4" />
+        Add files
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Images, PDFs and MP3/WAV audio. Location data and author details are removed before upload.
+      </p>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2 text-sm">
+              <span className="truncate">{file.name}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={disabled}
+                  onClick={() => onChange(files.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.map((error) => (
+        <p key={error} className="text-sm text-destructive">{error}</p>
+      ))}
+    </div>
+  )
+}
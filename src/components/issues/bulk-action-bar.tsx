@@ -0,0 +1,243 @@
+import { useState } from "react"
+import { Download, Layers, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { TagBadge } from "./tag-badge"
+import { TagPicker } from "./tag-picker"
+import { ISSUE_STATUSES } from "@/lib/issue-status"
+import { getStatusPermission } from "@/lib/permissions"
+import { getProfileName } from "@/lib/profiles"
+import type { BulkIssueChanges, Department, IssueSeverity, Permission, Profile, Tag } from "@/types/database"
+
+const KEEP = "keep"
+const NONE = "none"
+const SEVERITIES: IssueSeverity[] = ["critical", "high", "medium", "low"]
+
+interface BulkOptions {
+  note?: string
+  isPublic?: boolean
+}
+
+interface BulkActionBarProps {
+  selectedCount: number
+  staff: Profile[]
+  departments: Department[]
+  tags: Tag[]
+  can: (permission: Permission) => boolean
+  onApply: (changes: BulkIssueChanges, options: BulkOptions) => Promise<unknown>
+  onExport: () => Promise<unknown>
+  onClear: () => void
+}
+
+export function BulkActionBar({
+  selectedCount,
+  staff,
+  departments,
+  tags,
+  can,
+  onApply,
+  onExport,
+  onClear,
+}: BulkActionBarProps) {
+  const [open, setOpen] = useState(false)
+  const [status, setStatus] = useState(KEEP)
+  const [assignee, setAssignee] = useState(KEEP)
+  const [severity, setSeverity] = useState(KEEP)
+  const [department, setDepartment] = useState(KEEP)
+  const [addTagIds, setAddTagIds] = useState<string[]>([])
+  const [note, setNote] = useState("")
+  const [isPublic, setIsPublic] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const statuses = ISSUE_STATUSES.filter((option) => can(getStatusPermission(option.value)))
+  const canEdit = can("triage") || can("resolve") || can("assign")
+
+  // Only the fields that were touched are sent; the rest stay as they are on each issue
+  const changes: BulkIssueChanges = {}
+  if (status !== KEEP) changes.status = status as BulkIssueChanges["status"]
+  if (assignee !== KEEP) changes.assigned_to = assignee === NONE ? null : assignee
+  if (severity !== KEEP) changes.severity = severity as IssueSeverity
+  if (department !== KEEP) changes.department_id = department === NONE ? null : department
+  if (addTagIds.length > 0) changes.add_tag_ids = addTagIds
+  const hasChanges = Object.keys(changes).length > 0
+
+  const toggleTag = (tag: Tag) =>
+    setAddTagIds((ids) => (ids.includes(tag.id) ? ids.filter((id) => id !== tag.id) : [...ids, tag.id]))
+
+  const openDialog = () => {
+    setStatus(KEEP)
+    setAssignee(KEEP)
+    setSeverity(KEEP)
+    setDepartment(KEEP)
+    setAddTagIds([])
+    setNote("")
+    setIsPublic(false)
+    setOpen(true)
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    setSaving(true)
+    try {
+      await action()
+      setOpen(false)
+    } catch (error) {
+      // Error surfaced by useIssues
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2">
+        <span className="text-sm font-medium">{selectedCount} selected</span>
+        <div className="ml-auto flex flex-wrap gap-2">
+          {canEdit && (
+            <Button size="sm" onClick={openDialog} className="gap-2">
+              <Layers className="w-4 h-4" />
+              Update
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => run(onExport)} disabled={saving} className="gap-2">
+            <Download className="w-4 h-4" />
+            Export CSV
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear} className="gap-2">
+            <X className="w-4 h-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={open} onOpenChange={(value) => !saving && setOpen(value)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update {selectedCount === 1 ? "1 issue" : `${selectedCount} issues`}</DialogTitle>
+            <DialogDescription>
+              Each issue goes through the usual workflow rules. Any that cannot be changed are left as they are.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus} disabled={statuses.length === 0}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  {statuses.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assignee</Label>
+              <Select value={assignee} onValueChange={setAssignee} disabled={!can("assign")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  <SelectItem value={NONE}>Unassigned</SelectItem>
+                  {staff.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{getProfileName(member)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={severity} onValueChange={setSeverity} disabled={!can("triage")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  {SEVERITIES.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={department} onValueChange={setDepartment} disabled={!can("triage")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  <SelectItem value={NONE}>No department</SelectItem>
+                  {departments.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {can("triage") && tags.length > 0 && (
+            <div className="space-y-2">
+              <Label>Add tags</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {tags
+                  .filter((tag) => addTagIds.includes(tag.id))
+                  .map((tag) => (
+                    <TagBadge key={tag.id} tag={tag} onRemove={() => toggleTag(tag)} />
+                  ))}
+                <TagPicker tags={tags} selectedIds={addTagIds} onToggle={toggleTag} />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="bulk-note">Note (optional)</Label>
+            <Textarea
+              id="bulk-note"
+              placeholder="Added to each issue's timeline; required by some status changes..."
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="bulk-note-public"
+                checked={isPublic}
+                onCheckedChange={(checked) => setIsPublic(checked === true)}
+              />
+              <Label htmlFor="bulk-note-public" className="text-sm font-normal">
+                Visible to the reporter
+              </Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={() => run(() => onApply(changes, { note, isPublic }))} disabled={saving || !hasChanges}>
+              {saving ? <LoadingSpinner size="sm" /> : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
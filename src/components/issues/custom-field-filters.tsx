@@ -0,0 +1,60 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CategoryField } from "@/types/database"
+
+interface CustomFieldFiltersProps {
+  fields: CategoryField[]
+  values: Record<string, string>
+  onChange: (values: Record<string, string>) => void
+}
+
+const ANY = "any"
+
+export function CustomFieldFilters({ fields, values, onChange }: CustomFieldFiltersProps) {
+  if (fields.length === 0) return null
+
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value === ANY ? "" : value })
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-1">
+          <Label htmlFor={`filter-${field.field_key}`} className="text-xs text-muted-foreground">
+            {field.label}
+          </Label>
+          {field.field_type === "select" || field.field_type === "boolean" ? (
+            <Select value={values[field.field_key] || ANY} onValueChange={(value) => setValue(field.field_key, value)}>
+              <SelectTrigger id={`filter-${field.field_key}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {field.field_type === "boolean" ? (
+                  <>
+                    <SelectItem value="true">Yes</SelectItem>
+                    <SelectItem value="false">No</SelectItem>
+                  </>
+                ) : (
+                  field.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              id={`filter-${field.field_key}`}
+              type={field.field_type === "text" ? "text" : field.field_type}
+              placeholder={field.field_type === "text" ? "Contains…" : "Equals…"}
+              value={values[field.field_key] ?? ""}
+              onChange={(e) => setValue(field.field_key, e.target.value)}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { formatCustomFieldValue, humanizeFieldKey, type CustomFieldValues } from "@/lib/custom-fields"
+import type { CategoryField } from "@/types/database"
+
+interface CustomFieldListProps {
+  fields: CategoryField[]
+  values: CustomFieldValues
+}
+
+// Values for the category's current fields first, then any left over from removed fields
+export function CustomFieldList({ fields, values }: CustomFieldListProps) {
+  const known = new Set(fields.map((field) => field.field_key))
+  const rows = [
+    ...fields
+      .filter((field) => values[field.field_key] !== undefined)
+      .map((field) => ({
+        key: field.field_key,
+        label: field.label,
+        value: formatCustomFieldValue(values[field.field_key], field.field_type),
+      })),
+    ...Object.entries(values)
+      .filter(([key]) => !known.has(key))
+      .map(([key, value]) => ({ key, label: humanizeFieldKey(key), value: formatCustomFieldValue(value) })),
+  ]
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No additional details were provided.</p>
+  }
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {rows.map((row) => (
+        <div key={row.key}>
+          <dt className="text-sm font-medium">{row.label}</dt>
+          <dd className="text-sm text-muted-foreground">{row.value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
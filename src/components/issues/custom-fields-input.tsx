@@ -0,0 +1,81 @@
+import type { Control, FieldValues, Path } from "react-hook-form"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CategoryField } from "@/types/database"
+
+interface CustomFieldsInputProps<T extends FieldValues> {
+  control: Control<T>
+  fields: CategoryField[]
+  // Form path the values live under, e.g. "custom_fields"
+  name: string
+}
+
+export function CustomFieldsInput<T extends FieldValues>({ control, fields, name }: CustomFieldsInputProps<T>) {
+  if (fields.length === 0) return null
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      {fields.map((definition) => (
+        <FormField
+          key={definition.id}
+          control={control}
+          name={`${name}.${definition.field_key}` as Path<T>}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {definition.label}
+                {!definition.required && " (Optional)"}
+              </FormLabel>
+              {definition.field_type === "select" ? (
+                <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an option" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {definition.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : definition.field_type === "boolean" ? (
+                <FormControl>
+                  <RadioGroup
+                    onValueChange={(value) => field.onChange(value === "yes")}
+                    value={field.value === undefined ? "" : field.value ? "yes" : "no"}
+                    className="flex gap-6"
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="yes" id={`${definition.id}-yes`} />
+                      <Label htmlFor={`${definition.id}-yes`}>Yes</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="no" id={`${definition.id}-no`} />
+                      <Label htmlFor={`${definition.id}-no`}>No</Label>
+                    </div>
+                  </RadioGroup>
+                </FormControl>
+              ) : (
+                <FormControl>
+                  <Input
+                    type={definition.field_type === "text" ? "text" : definition.field_type}
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+              )}
+              {definition.help_text && <FormDescription>{definition.help_text}</FormDescription>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  )
+}
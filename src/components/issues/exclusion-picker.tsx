@@ -0,0 +1,91 @@
+import { useState } from "react"
+import { Search, UserX, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { MIN_EXCLUSION_QUERY_LENGTH, useExclusionCandidates } from "@/hooks/useExclusionCandidates"
+import type { ExclusionCandidate } from "@/types/database"
+
+interface ExclusionPickerProps {
+  value: ExclusionCandidate[]
+  onChange: (value: ExclusionCandidate[]) => void
+  max?: number
+  disabled?: boolean
+}
+
+export function ExclusionPicker({ value, onChange, max = 20, disabled }: ExclusionPickerProps) {
+  const [query, setQuery] = useState("")
+  const { candidates, loading } = useExclusionCandidates(query)
+
+  const results = candidates.filter((candidate) => !value.some((selected) => selected.user_id === candidate.user_id))
+  const full = value.length >= max
+
+  const add = (candidate: ExclusionCandidate) => {
+    onChange([...value, candidate])
+    setQuery("")
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((person) => (
+            <Badge key={person.user_id} variant="secondary" className="gap-1 pr-1">
+              <UserX className="h-3 w-3" />
+              {person.display_name}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-4 w-4"
+                disabled={disabled}
+                onClick={() => onChange(value.filter((selected) => selected.user_id !== person.user_id))}
+                aria-label={`Remove ${person.display_name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder={full ? `Up to ${max} people` : "Search by name..."}
+          className="pl-10"
+          value={query}
+          disabled={disabled || full}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      {query.trim().length >= MIN_EXCLUSION_QUERY_LENGTH && (
+        <div className="rounded-md border divide-y">
+          {loading ? (
+            <div className="p-3">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No matching people.</p>
+          ) : (
+            results.map((candidate) => (
+              <button
+                key={candidate.user_id}
+                type="button"
+                className="w-full text-left p-3 hover:bg-muted/50 transition-colors"
+                onClick={() => add(candidate)}
+              >
+                <p className="text-sm font-medium">{candidate.display_name}</p>
+                {candidate.department_name && (
+                  <p className="text-xs text-muted-foreground">{candidate.department_name}</p>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
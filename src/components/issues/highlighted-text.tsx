@@ -0,0 +1,22 @@
+import { splitHighlights } from "@/lib/search"
+
+interface HighlightedTextProps {
+  value: string
+  className?: string
+}
+
+export function HighlightedText({ value, className }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {splitHighlights(value).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,318 @@
+import { useState, type DragEvent } from "react"
+import { format } from "date-fns"
+import { MoreHorizontal } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { SlaBadge } from "@/components/issues/sla-badge"
+import { ISSUE_STATUSES, findTransition, getAllowedTransitions } from "@/lib/issue-status"
+import { getStatusPermission } from "@/lib/permissions"
+import { getProfileName } from "@/lib/profiles"
+import { getIssueSla } from "@/lib/sla"
+import { cn } from "@/lib/utils"
+import type {
+  IssueSeverity,
+  IssueStatus,
+  IssueStatusTransition,
+  IssueSummary,
+  Permission,
+  SlaTarget,
+} from "@/types/database"
+
+export type IssueBoardSwimlane = "none" | "severity" | "assignee"
+
+const SEVERITIES: IssueSeverity[] = ["critical", "high", "medium", "low"]
+const UNASSIGNED_LANE = "unassigned"
+
+interface MoveOptions {
+  note?: string
+  isPublic?: boolean
+}
+
+interface PendingMove {
+  issue: IssueSummary
+  transition: IssueStatusTransition
+}
+
+interface Lane {
+  key: string
+  label: string
+  issues: IssueSummary[]
+}
+
+interface IssueBoardProps {
+  issues: IssueSummary[]
+  // Matching issues per status, which may exceed the cards loaded
+  totals: Partial<Record<IssueStatus, number>>
+  transitions: IssueStatusTransition[]
+  slaTargets: SlaTarget[]
+  swimlane: IssueBoardSwimlane
+  can: (permission: Permission) => boolean
+  onOpen: (issue: IssueSummary) => void
+  onMove: (issue: IssueSummary, status: IssueStatus, options: MoveOptions) => Promise<unknown>
+}
+
+const getLanes = (issues: IssueSummary[], swimlane: IssueBoardSwimlane): Lane[] => {
+  if (swimlane === "severity") {
+    return SEVERITIES.map((severity) => ({
+      key: severity,
+      label: severity.charAt(0).toUpperCase() + severity.slice(1),
+      issues: issues.filter((issue) => issue.severity === severity),
+    }))
+  }
+
+  if (swimlane === "assignee") {
+    const assignees = new Map<string, string>()
+    issues.forEach((issue) => {
+      if (issue.assigned_to && issue.assigned_user) assignees.set(issue.assigned_to, getProfileName(issue.assigned_user))
+    })
+
+    return [
+      ...[...assignees].sort(([, a], [, b]) => a.localeCompare(b)).map(([id, name]) => ({
+        key: id,
+        label: name,
+        issues: issues.filter((issue) => issue.assigned_to === id),
+      })),
+      { key: UNASSIGNED_LANE, label: "Unassigned", issues: issues.filter((issue) => !issue.assigned_to) },
+    ]
+  }
+
+  return [{ key: "all", label: "", issues }]
+}
+
+export function IssueBoard({
+  issues,
+  totals,
+  transitions,
+  slaTargets,
+  swimlane,
+  can,
+  onOpen,
+  onMove,
+}: IssueBoardProps) {
+  const [dragged, setDragged] = useState<IssueSummary | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingMove | null>(null)
+  const [note, setNote] = useState("")
+  const [isPublic, setIsPublic] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // The same rules as the workflow panel: a configured transition the user has permission for
+  const getTransition = (issue: IssueSummary, status: IssueStatus) => {
+    const transition = findTransition(transitions, issue.status, status)
+    return transition && can(getStatusPermission(status)) ? transition : undefined
+  }
+
+  const move = async (issue: IssueSummary, status: IssueStatus, options: MoveOptions = {}) => {
+    setSaving(true)
+    try {
+      await onMove(issue, status, options)
+      setPending(null)
+    } catch (error) {
+      // Error surfaced by useIssues, which also moves the card back
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Transitions that need a note ask for it before anything moves
+  const requestMove = (issue: IssueSummary, status: IssueStatus) => {
+    const transition = getTransition(issue, status)
+    if (!transition) return
+
+    if (transition.requires_note) {
+      setNote("")
+      setIsPublic(true)
+      setPending({ issue, transition })
+    } else {
+      move(issue, status)
+    }
+  }
+
+  const handleDragOver = (event: DragEvent, status: IssueStatus, cell: string) => {
+    if (!dragged || dragged.status === status || !getTransition(dragged, status)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    setDropTarget(cell)
+  }
+
+  const handleDrop = (event: DragEvent, status: IssueStatus) => {
+    event.preventDefault()
+    setDropTarget(null)
+    if (dragged) requestMove(dragged, status)
+    setDragged(null)
+  }
+
+  const lanes = getLanes(issues, swimlane)
+
+  return (
+    <>
+      <div className="overflow-x-auto pb-2">
+        <div className="grid min-w-[64rem] grid-cols-5 gap-3">
+          {ISSUE_STATUSES.map((status) => {
+            const loaded = issues.filter((issue) => issue.status === status.value).length
+            const total = totals[status.value] ?? loaded
+
+            return (
+              <div key={status.value} className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: status.chartColor }} />
+                  {status.label}
+                </div>
+                <Badge variant="secondary" title={loaded < total ? `Showing ${loaded} of ${total}` : undefined}>
+                  {loaded < total ? `${loaded}/${total}` : total}
+                </Badge>
+              </div>
+            )
+          })}
+
+          {lanes.map((lane) => (
+            <div key={lane.key} className="contents">
+              {lane.label && (
+                <p className="col-span-5 pt-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                  {lane.label} · {lane.issues.length}
+                </p>
+              )}
+              {ISSUE_STATUSES.map((status) => {
+                const cell = `${lane.key}:${status.value}`
+                const cards = lane.issues.filter((issue) => issue.status === status.value)
+
+                return (
+                  <div
+                    key={cell}
+                    className={cn(
+                      "min-h-24 space-y-2 rounded-md border border-dashed border-transparent p-1 transition-colors",
+                      dropTarget === cell && "border-primary bg-primary/5"
+                    )}
+                    onDragOver={(event) => handleDragOver(event, status.value, cell)}
+                    onDragLeave={() => setDropTarget((current) => (current === cell ? null : current))}
+                    onDrop={(event) => handleDrop(event, status.value)}
+                  >
+                    {cards.map((issue) => {
+                      const moves = getAllowedTransitions(transitions, issue.status).filter((transition) =>
+                        can(getStatusPermission(transition.to_status))
+                      )
+
+                      return (
+                        <div
+                          key={issue.id}
+                          draggable={moves.length > 0 && !saving}
+                          onDragStart={(event) => {
+                            event.dataTransfer.effectAllowed = "move"
+                            setDragged(issue)
+                          }}
+                          onDragEnd={() => {
+                            setDragged(null)
+                            setDropTarget(null)
+                          }}
+                          onClick={() => onOpen(issue)}
+                          className={cn(
+                            "cursor-pointer space-y-2 rounded-md border bg-card p-3 text-sm shadow-sm hover:bg-muted/30",
+                            dragged?.id === issue.id && "opacity-50"
+                          )}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <p className="line-clamp-2 font-medium">{issue.title}</p>
+                            {moves.length > 0 && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild onClick={(event) => event.stopPropagation()}>
+                                  <Button variant="ghost" size="icon" className="-mr-1 -mt-1 h-6 w-6 shrink-0" aria-label="Move issue">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+                                  <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                                  {moves.map((transition) => (
+                                    <DropdownMenuItem
+                                      key={transition.to_status}
+                                      disabled={saving}
+                                      onSelect={() => requestMove(issue, transition.to_status)}
+                                    >
+                                      {transition.label}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge variant="outline" className="text-xs capitalize">{issue.severity}</Badge>
+                            <SlaBadge sla={getIssueSla(issue, slaTargets)} />
+                          </div>
+                          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                            <span className="truncate">
+                              {issue.assigned_user ? getProfileName(issue.assigned_user) : "Unassigned"}
+                            </span>
+                            <span className="whitespace-nowrap">{format(new Date(issue.created_at), "MMM d")}</span>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && !saving && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.transition.label}</DialogTitle>
+            <DialogDescription>{pending?.issue.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="board-status-note">
+              {`${pending?.transition.note_label || "Note"} (required)`}
+            </Label>
+            <Textarea
+              id="board-status-note"
+              placeholder="Required for this transition..."
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="board-status-public"
+                checked={isPublic}
+                onCheckedChange={(checked) => setIsPublic(checked === true)}
+              />
+              <Label htmlFor="board-status-public" className="text-sm font-normal">
+                Visible to the reporter
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => pending && move(pending.issue, pending.transition.to_status, { note, isPublic })}
+              disabled={saving || !note.trim()}
+            >
+              {pending?.transition.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
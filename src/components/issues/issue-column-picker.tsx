@@ -0,0 +1,55 @@
+import { Columns3 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { DEFAULT_ISSUE_COLUMNS, ISSUE_COLUMNS, type IssueColumn } from "@/lib/issue-list"
+
+interface IssueColumnPickerProps {
+  columns: IssueColumn[]
+  onChange: (columns: IssueColumn[]) => void
+}
+
+export function IssueColumnPicker({ columns, onChange }: IssueColumnPickerProps) {
+  // Kept in ISSUE_COLUMNS order so the table layout does not depend on click order
+  const toggle = (column: IssueColumn, checked: boolean) =>
+    onChange(
+      ISSUE_COLUMNS.map((option) => option.value).filter((value) =>
+        value === column ? checked : columns.includes(value)
+      )
+    )
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Columns3 className="w-4 h-4" />
+          Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+        {ISSUE_COLUMNS.map((option) => (
+          <DropdownMenuCheckboxItem
+            key={option.value}
+            checked={columns.includes(option.value)}
+            // An empty list reads back as the defaults, so the last column stays
+            disabled={columns.length === 1 && columns.includes(option.value)}
+            onSelect={(event) => event.preventDefault()}
+            onCheckedChange={(checked) => toggle(option.value, checked === true)}
+          >
+            {option.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => onChange(DEFAULT_ISSUE_COLUMNS)}>Reset to default</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,234 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { GitBranch, GitMerge, Link2, Plus, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LinkIssueDialog } from "./link-issue-dialog"
+import { MergeIssueDialog } from "./merge-issue-dialog"
+import { SplitIssueDialog } from "./split-issue-dialog"
+import type { IssueSplit } from "@/hooks/useIssueLinks"
+import { describeIssueLink, type IssueLinkOption } from "@/lib/issue-links"
+import { getStatusBadgeVariant, getStatusLabel } from "@/lib/issue-status"
+import type { Issue, IssueLink, IssueLinkType, SimilarIssue } from "@/types/database"
+
+interface IssueSummary {
+  id: string
+  title: string
+}
+
+interface IssueLinksPanelProps {
+  issue: Issue
+  links: IssueLink[]
+  similar: SimilarIssue[]
+  // Merging closes an issue, so it needs the resolve permission
+  canMerge: boolean
+  onLink: (link: { issueId: string; linkedIssueId: string; linkType: IssueLinkType }) => Promise<unknown>
+  onUnlink: (linkId: string) => Promise<unknown>
+  onMerge: (primaryId: string, issueIds: string[], note?: string) => Promise<unknown>
+  onSplit: (split: IssueSplit) => Promise<unknown>
+}
+
+export function IssueLinksPanel({
+  issue,
+  links,
+  similar,
+  canMerge,
+  onLink,
+  onUnlink,
+  onMerge,
+  onSplit,
+}: IssueLinksPanelProps) {
+  const [linking, setLinking] = useState<{ target?: IssueSummary; option?: string } | null>(null)
+  const [merging, setMerging] = useState<{ duplicates: IssueSummary[]; primary: IssueSummary } | null>(null)
+  const [splitting, setSplitting] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const described = links.map((link) => ({ link, ...describeIssueLink(link, issue.id) }))
+  const primary = issue.merged_into_id
+    ? described.find(({ other }) => other?.id === issue.merged_into_id)?.other
+    : undefined
+
+  const handleLink = (targetId: string, option: IssueLinkOption) =>
+    onLink(
+      option.reverse
+        ? { issueId: targetId, linkedIssueId: issue.id, linkType: option.type }
+        : { issueId: issue.id, linkedIssueId: targetId, linkType: option.type }
+    )
+
+  const handleUnlink = async (linkId: string) => {
+    setRemovingId(linkId)
+    try {
+      await onUnlink(linkId)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  // Offered on duplicate links where neither side has been merged yet
+  const mergeFor = (link: IssueLink, other?: IssueSummary & { merged_into_id?: string }) => {
+    if (!canMerge || link.link_type !== "duplicate" || !other) return null
+    if (issue.merged_into_id || other.merged_into_id) return null
+    const self = { id: issue.id, title: issue.title }
+    return link.issue_id === issue.id ? { duplicates: [self], primary: other } : { duplicates: [other], primary: self }
+  }
+
+  // Every duplicate of this issue at once, when there is more than one
+  const duplicatesHere = described
+    .map(({ link, other }) => mergeFor(link, other))
+    .filter((merge) => merge?.primary.id === issue.id)
+    .flatMap((merge) => merge.duplicates)
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5" />
+            Linked Issues
+          </CardTitle>
+          <div className="flex gap-2">
+            {!issue.merged_into_id && (
+              <Button variant="outline" size="sm" onClick={() => setSplitting(true)}>
+                <GitBranch className="w-4 h-4 mr-1" />
+                Split
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setLinking({})}>
+              <Plus className="w-4 h-4 mr-1" />
+              Link
+            </Button>
+          </div>
+        </div>
+        <CardDescription>Duplicates and related cases. Reporters never see these links.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {issue.merged_into_id && (
+          <div className="flex items-start gap-2 rounded-md border border-dashed p-3 text-sm">
+            <GitMerge className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+            <p>
+              Merged into{" "}
+              <Link to={`/issues/${issue.merged_into_id}`} className="font-medium hover:underline">
+                {primary?.title ?? "another case"}
+              </Link>
+              . Reopening this issue separates it again.
+            </p>
+          </div>
+        )}
+
+        {described.length > 0 ? (
+          <ul className="space-y-2">
+            {described.map(({ link, label, other }) => {
+              const merge = mergeFor(link, other)
+              return (
+                <li key={link.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                      {other ? (
+                        <Link to={`/issues/${other.id}`} className="block truncate text-sm font-medium hover:underline">
+                          {other.title}
+                        </Link>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Issue unavailable</p>
+                      )}
+                    </div>
+                    {other && (
+                      <Badge variant={getStatusBadgeVariant(other.status)} className="shrink-0 text-xs">
+                        {other.merged_into_id ? "Merged" : getStatusLabel(other.status)}
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      aria-label="Remove link"
+                      disabled={removingId === link.id}
+                      onClick={() => handleUnlink(link.id)}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                  {merge && (
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => setMerging(merge)}>
+                      <GitMerge className="w-4 h-4 mr-1" />
+                      {merge.primary.id === issue.id ? "Merge into this issue" : "Merge into linked issue"}
+                    </Button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No linked issues.</p>
+        )}
+
+        {duplicatesHere.length > 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => setMerging({ duplicates: duplicatesHere, primary: { id: issue.id, title: issue.title } })}
+          >
+            <GitMerge className="w-4 h-4 mr-1" />
+            Merge all {duplicatesHere.length} duplicates into this issue
+          </Button>
+        )}
+
+        {!issue.merged_into_id && similar.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Possible duplicates</p>
+            <ul className="space-y-2">
+              {similar.map((match) => (
+                <li key={match.issue_id} className="flex items-center gap-2 text-sm">
+                  <Link to={`/issues/${match.issue_id}`} className="flex-1 truncate hover:underline">
+                    {match.title}
+                  </Link>
+                  <Badge variant={getStatusBadgeVariant(match.status)} className="shrink-0 text-xs">
+                    {getStatusLabel(match.status)}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 shrink-0"
+                    onClick={() =>
+                      setLinking({ target: { id: match.issue_id, title: match.title }, option: "duplicate_of" })
+                    }
+                  >
+                    Link
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <LinkIssueDialog
+        issueId={issue.id}
+        open={!!linking}
+        initialTarget={linking?.target}
+        initialOption={linking?.option}
+        onOpenChange={(open) => !open && setLinking(null)}
+        onLink={handleLink}
+      />
+
+      <MergeIssueDialog
+        duplicates={merging?.duplicates ?? []}
+        primary={merging?.primary ?? null}
+        onOpenChange={(open) => !open && setMerging(null)}
+        onMerge={(note) =>
+          onMerge(
+            merging.primary.id,
+            merging.duplicates.map((duplicate) => duplicate.id),
+            note.trim() || undefined
+          )
+        }
+      />
+
+      <SplitIssueDialog issue={issue} open={splitting} onOpenChange={setSplitting} onSplit={onSplit} />
+    </Card>
+  )
+}
@@ -0,0 +1,65 @@
+import type { MouseEvent } from "react"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { cn } from "@/lib/utils"
+import { getPageWindow } from "@/lib/issue-list"
+
+interface IssuePaginationProps {
+  page: number
+  pageCount: number
+  getHref: (page: number) => string
+  onPageChange: (page: number) => void
+}
+
+// Real links so pages can be opened in a new tab; plain clicks stay in the app
+export function IssuePagination({ page, pageCount, getHref, onPageChange }: IssuePaginationProps) {
+  if (pageCount <= 1) return null
+
+  const go = (target: number) => (event: MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault()
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target)
+  }
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={getHref(Math.max(1, page - 1))}
+            onClick={go(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        {getPageWindow(page, pageCount).map((value, index) =>
+          value === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={value}>
+              <PaginationLink href={getHref(value)} isActive={value === page} onClick={go(value)}>
+                {value}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href={getHref(Math.min(pageCount, page + 1))}
+            onClick={go(page + 1)}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  )
+}
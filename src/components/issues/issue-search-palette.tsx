@@ -0,0 +1,120 @@
+import { useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { format } from "date-fns"
+import { FileText, ListFilter } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HighlightedText } from "@/components/issues/highlighted-text"
+import { useIssueSearch } from "@/hooks/useIssueSearch"
+import { usePermissions } from "@/hooks/usePermissions"
+import { useTags } from "@/hooks/useTags"
+import { getStatusBadgeVariant, getStatusLabel } from "@/lib/issue-status"
+import { DEFAULT_ISSUE_SORT, EMPTY_ISSUE_FILTERS, toIssueListParams } from "@/lib/issue-list"
+
+interface IssueSearchPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function IssueSearchPalette({ open, onOpenChange }: IssueSearchPaletteProps) {
+  const navigate = useNavigate()
+  const [query, setQuery] = useState("")
+  const [tagId, setTagId] = useState<string>()
+  const { can } = usePermissions()
+  const { tags } = useTags(open && can("triage"))
+  const { results, loading } = useIssueSearch(open ? query : "", 10, tagId)
+
+  const search = query.trim()
+
+  const go = (path: string) => {
+    onOpenChange(false)
+    setQuery("")
+    navigate(path)
+  }
+
+  const listParams = toIssueListParams({ filters: { ...EMPTY_ISSUE_FILTERS, search, tagId }, sort: DEFAULT_ISSUE_SORT, page: 1 })
+  listParams.set("tab", "issues")
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput placeholder="Search cases..." value={query} onValueChange={setQuery} />
+      {tags.length > 0 && (
+        <div className="border-b px-3 py-2">
+          <Select value={tagId ?? "all"} onValueChange={(value) => setTagId(value === "all" ? undefined : value)}>
+            <SelectTrigger className="h-8 w-48" aria-label="Tag">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any tag</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <CommandList className="max-h-[420px]">
+        {search.length < 2 ? (
+          <p className="py-6 px-4 text-center text-sm text-muted-foreground">
+            Search titles, descriptions, locations, custom fields and public updates. Use quotes for phrases and a
+            leading - to leave a word out.
+          </p>
+        ) : loading && results.length === 0 ? (
+          <div className="py-6">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : (
+          results.length === 0 && <p className="py-6 text-center text-sm text-muted-foreground">No matching cases.</p>
+        )}
+
+        {results.length > 0 && (
+          <CommandGroup heading="Cases">
+            {results.map((result) => (
+              <CommandItem
+                key={result.issue_id}
+                value={result.issue_id}
+                onSelect={() => go(`/issues/${result.issue_id}`)}
+                className="items-start gap-3"
+              >
+                <FileText className="mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <HighlightedText value={result.title_highlight} className="truncate font-medium" />
+                    <Badge variant={getStatusBadgeVariant(result.status)} className="shrink-0 text-xs">
+                      {getStatusLabel(result.status)}
+                    </Badge>
+                  </div>
+                  <HighlightedText value={result.snippet} className="block text-xs text-muted-foreground line-clamp-2" />
+                  <p className="text-xs text-muted-foreground">
+                    Reported {format(new Date(result.created_at), "MMM d, yyyy")} · {result.severity}
+                  </p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {search.length >= 2 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup>
+              <CommandItem value="all-results" onSelect={() => go(`/dashboard?${listParams}`)}>
+                <ListFilter className="mr-2 text-muted-foreground" />
+                Show all matches in the issue list
+              </CommandItem>
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
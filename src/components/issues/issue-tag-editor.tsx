@@ -0,0 +1,70 @@
+import { useState } from "react"
+import { Tag as TagIcon } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { TagBadge } from "./tag-badge"
+import { TagPicker } from "./tag-picker"
+import type { Tag } from "@/types/database"
+
+interface IssueTagEditorProps {
+  value: Tag[]
+  tags: Tag[]
+  // Free-form tags are off unless the organization allows them or the viewer is an administrator
+  allowCreate: boolean
+  onAdd: (tagId: string) => Promise<unknown>
+  onCreate: (name: string) => Promise<Tag>
+  onRemove: (tagId: string) => Promise<unknown>
+}
+
+export function IssueTagEditor({ value, tags, allowCreate, onAdd, onCreate, onRemove }: IssueTagEditorProps) {
+  const [saving, setSaving] = useState(false)
+  const selectedIds = value.map((tag) => tag.id)
+
+  const run = async (action: () => Promise<unknown>) => {
+    setSaving(true)
+    try {
+      await action()
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggle = (tag: Tag) => run(() => (selectedIds.includes(tag.id) ? onRemove(tag.id) : onAdd(tag.id)))
+
+  const create = (name: string) =>
+    run(async () => {
+      const tag = await onCreate(name)
+      if (!selectedIds.includes(tag.id)) await onAdd(tag.id)
+    })
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TagIcon className="w-5 h-5" />
+          Tags
+        </CardTitle>
+        <CardDescription>Internal labels for grouping and reporting. Reporters never see them.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {value.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {value.map((tag) => (
+              <TagBadge key={tag.id} tag={tag} disabled={saving} onRemove={() => run(() => onRemove(tag.id))} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No tags yet.</p>
+        )}
+        <TagPicker
+          tags={tags}
+          selectedIds={selectedIds}
+          onToggle={toggle}
+          onCreate={allowCreate ? create : undefined}
+          disabled={saving}
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+import { format } from "date-fns"
+import { Link } from "react-router-dom"
+import { ArrowRight, CheckCircle, Eye, EyeOff, FileText, GitBranch, GitMerge, Layers, MessageSquare, RefreshCw, Route, ShieldAlert, UserPlus } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { getStatusLabel } from "@/lib/issue-status"
+import { getProfileName } from "@/lib/profiles"
+import type { Issue, IssueUpdate } from "@/types/database"
+
+interface IssueTimelineProps {
+  issue: Issue
+  updates: IssueUpdate[]
+  className?: string
+}
+
+const updateTypeConfig: Record<IssueUpdate["update_type"], { label: string; icon: typeof FileText; dotClass: string }> = {
+  status_change: { label: "Status changed", icon: RefreshCw, dotClass: "bg-warning" },
+  assignment: { label: "Assignment", icon: UserPlus, dotClass: "bg-primary" },
+  comment: { label: "Comment", icon: MessageSquare, dotClass: "bg-muted-foreground" },
+  resolution: { label: "Resolved", icon: CheckCircle, dotClass: "bg-success" },
+  routing: { label: "Routed automatically", icon: Route, dotClass: "bg-primary" },
+  conflict_override: { label: "Conflict of interest overridden", icon: ShieldAlert, dotClass: "bg-destructive" },
+  bulk_update: { label: "Bulk update", icon: Layers, dotClass: "bg-warning" },
+  merge: { label: "Merged", icon: GitMerge, dotClass: "bg-muted-foreground" },
+  split: { label: "Split", icon: GitBranch, dotClass: "bg-muted-foreground" },
+}
+
+const getAuthorName = (update: IssueUpdate) => (update.author ? getProfileName(update.author) : "System")
+
+export function IssueTimeline({ issue, updates, className }: IssueTimelineProps) {
+  return (
+    <ol className={cn("relative space-y-6 border-l border-border pl-6", className)}>
+      <li className="relative">
+        <span className="absolute -left-[31px] top-1 flex h-4 w-4 items-center justify-center rounded-full bg-primary ring-4 ring-background" />
+        <div className="flex items-center gap-2">
+          <FileText className="h-4 w-4 text-muted-foreground" />
+          <p className="font-medium text-sm">Issue reported</p>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          {format(new Date(issue.created_at), "PPP p")}
+        </p>
+      </li>
+
+      {updates.map((update) => {
+        const config = updateTypeConfig[update.update_type] ?? updateTypeConfig.comment
+        const Icon = config.icon
+
+        return (
+          <li key={update.id} className="relative">
+            <span
+              className={cn(
+                "absolute -left-[31px] top-1 flex h-4 w-4 items-center justify-center rounded-full ring-4 ring-background",
+                config.dotClass
+              )}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Icon className="h-4 w-4 text-muted-foreground" />
+              <p className="font-medium text-sm">{config.label}</p>
+              {update.old_status && update.new_status && update.old_status !== update.new_status && (
+                <span className="flex items-center gap-1 text-xs">
+                  <Badge variant="outline">{getStatusLabel(update.old_status)}</Badge>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <Badge variant="outline">{getStatusLabel(update.new_status)}</Badge>
+                </span>
+              )}
+              {update.is_public ? (
+                <Badge variant="secondary" className="gap-1 text-xs">
+                  <Eye className="h-3 w-3" />
+                  Public
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="gap-1 text-xs">
+                  <EyeOff className="h-3 w-3" />
+                  Internal
+                </Badge>
+              )}
+              {update.merged_from_id && (
+                <Badge variant="outline" className="text-xs">
+                  <Link to={`/issues/${update.merged_from_id}`} className="hover:underline">
+                    From merged case
+                  </Link>
+                </Badge>
+              )}
+            </div>
+            {update.content && (
+              <p className="text-sm text-foreground mt-2 whitespace-pre-wrap">{update.content}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              {getAuthorName(update)} · {format(new Date(update.created_at), "PPP p")}
+            </p>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,208 @@
+import { useState } from "react"
+import { CheckCircle, RefreshCw, ShieldAlert, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { findTransition, getAllowedTransitions, getStatusLabel } from "@/lib/issue-status"
+import { getStatusPermission } from "@/lib/permissions"
+import type { Issue, IssueConflict, IssueStatus, IssueStatusTransition, Permission, Profile } from "@/types/database"
+
+const UNASSIGNED = "unassigned"
+
+interface WorkflowOptions {
+  note?: string
+  isPublic?: boolean
+  overrideReason?: string
+}
+
+interface IssueWorkflowPanelProps {
+  issue: Issue
+  staff: Profile[]
+  // Staff who may not handle this issue; only administrators can override
+  conflicts: IssueConflict[]
+  transitions: IssueStatusTransition[]
+  can: (permission: Permission) => boolean
+  onChangeStatus: (status: IssueStatus, options: WorkflowOptions) => Promise<unknown>
+  onAssign: (assigneeId: string | null, options: WorkflowOptions) => Promise<unknown>
+}
+
+export function IssueWorkflowPanel({
+  issue,
+  staff,
+  conflicts,
+  transitions,
+  can,
+  onChangeStatus,
+  onAssign,
+}: IssueWorkflowPanelProps) {
+  const allowedTransitions = getAllowedTransitions(transitions, issue.status).filter((transition) =>
+    can(getStatusPermission(transition.to_status))
+  )
+  const canChangeStatus = can("triage") || can("resolve")
+  const canAssign = can("assign")
+  const [status, setStatus] = useState<IssueStatus | "">("")
+  const [assigneeId, setAssigneeId] = useState(issue.assigned_to ?? UNASSIGNED)
+  const [note, setNote] = useState("")
+  const [overrideReason, setOverrideReason] = useState("")
+  const [isPublic, setIsPublic] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const run = async (action: () => Promise<unknown>) => {
+    setSaving(true)
+    try {
+      await action()
+      setNote("")
+      setOverrideReason("")
+    } catch (error) {
+      // Error surfaced by useIssues
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selectedTransition = status ? findTransition(transitions, issue.status, status) : undefined
+  const noteRequired = selectedTransition?.requires_note ?? false
+
+  const handleStatusChange = () => {
+    if (!status) return
+    run(() => onChangeStatus(status, { note, isPublic }))
+  }
+
+  const getConflict = (userId: string) =>
+    conflicts.find((conflict) => conflict.user_id === userId && !conflict.overridden)
+  const assigneeConflict = getConflict(assigneeId)
+
+  const handleAssign = () =>
+    run(() =>
+      onAssign(assigneeId === UNASSIGNED ? null : assigneeId, {
+        note,
+        isPublic,
+        overrideReason: assigneeConflict ? overrideReason : undefined,
+      })
+    )
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="w-5 h-5" />
+          Workflow
+        </CardTitle>
+        <CardDescription>
+          Every change is recorded on the case timeline.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canChangeStatus && (
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <div className="flex gap-2">
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as IssueStatus)}
+                disabled={allowedTransitions.length === 0}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={`${getStatusLabel(issue.status)} — choose next step`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {allowedTransitions.map((transition) => (
+                    <SelectItem key={transition.to_status} value={transition.to_status}>
+                      {transition.label} → {getStatusLabel(transition.to_status)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleStatusChange}
+                disabled={saving || !status || (noteRequired && !note.trim())}
+              >
+                {status === "resolved" ? <CheckCircle className="w-4 h-4" /> : <RefreshCw className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {canAssign && (
+          <div className="space-y-2">
+            <Label>Assignee</Label>
+            <div className="flex gap-2">
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {staff.map((member) => (
+                    <SelectItem
+                      key={member.user_id}
+                      value={member.user_id}
+                      disabled={!!getConflict(member.user_id) && !can("administer")}
+                    >
+                      {member.display_name || member.email}
+                      {getConflict(member.user_id) && " — conflict of interest"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={handleAssign}
+                disabled={
+                  saving ||
+                  assigneeId === (issue.assigned_to ?? UNASSIGNED) ||
+                  (!!assigneeConflict && !overrideReason.trim())
+                }
+              >
+                <UserPlus className="w-4 h-4" />
+              </Button>
+            </div>
+            {assigneeConflict && (
+              <div className="space-y-2 rounded-md border border-destructive/50 p-3">
+                <p className="flex items-center gap-2 text-sm text-destructive">
+                  <ShieldAlert className="w-4 h-4" />
+                  {assigneeConflict.display_name} has a conflict of interest with this case.
+                </p>
+                <Label htmlFor="workflow-override-reason">Override reason (required)</Label>
+                <Textarea
+                  id="workflow-override-reason"
+                  placeholder="Why this person should handle the case anyway..."
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="workflow-note">
+            {noteRequired ? `${selectedTransition?.note_label || "Note"} (required)` : "Note (optional)"}
+          </Label>
+          <Textarea
+            id="workflow-note"
+            placeholder={noteRequired ? "Required for this transition..." : "Add context for this change..."}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="workflow-note-public"
+              checked={isPublic}
+              onCheckedChange={(checked) => setIsPublic(checked === true)}
+            />
+            <Label htmlFor="workflow-note-public" className="text-sm font-normal">
+              Visible to the reporter
+            </Label>
+          </div>
+        </div>
+
+        {saving && <LoadingSpinner size="sm" />}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react"
+import { Search } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useIssueSearch } from "@/hooks/useIssueSearch"
+import { ISSUE_LINK_OPTIONS, type IssueLinkOption } from "@/lib/issue-links"
+import { getStatusBadgeVariant, getStatusLabel } from "@/lib/issue-status"
+import { cn } from "@/lib/utils"
+
+interface LinkTarget {
+  id: string
+  title: string
+}
+
+interface LinkIssueDialogProps {
+  issueId: string
+  open: boolean
+  // Preselected target, e.g. a suggested duplicate; otherwise the user searches
+  initialTarget?: LinkTarget
+  initialOption?: string
+  onOpenChange: (open: boolean) => void
+  onLink: (targetId: string, option: IssueLinkOption) => Promise<unknown>
+}
+
+export function LinkIssueDialog({
+  issueId,
+  open,
+  initialTarget,
+  initialOption = "related",
+  onOpenChange,
+  onLink,
+}: LinkIssueDialogProps) {
+  const [query, setQuery] = useState("")
+  const [target, setTarget] = useState<LinkTarget | null>(null)
+  const [optionValue, setOptionValue] = useState(initialOption)
+  const [saving, setSaving] = useState(false)
+  const { results, loading } = useIssueSearch(open && !initialTarget ? query : "", 8)
+
+  useEffect(() => {
+    if (open) {
+      setQuery("")
+      setTarget(initialTarget ?? null)
+      setOptionValue(initialOption)
+    }
+  }, [open, initialTarget, initialOption])
+
+  const option = ISSUE_LINK_OPTIONS.find((candidate) => candidate.value === optionValue)
+  const candidates = results.filter((result) => result.issue_id !== issueId)
+
+  const handleLink = async () => {
+    if (!target || !option) return
+    setSaving(true)
+    try {
+      await onLink(target.id, option)
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !saving && onOpenChange(value)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Link Issue</DialogTitle>
+          <DialogDescription>Links are internal and never shown to reporters.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="link-type">This issue is</Label>
+            <Select value={optionValue} onValueChange={setOptionValue}>
+              <SelectTrigger id="link-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ISSUE_LINK_OPTIONS.map((candidate) => (
+                  <SelectItem key={candidate.value} value={candidate.value}>{candidate.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {initialTarget ? (
+            <p className="rounded-md border p-3 text-sm font-medium">{initialTarget.title}</p>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="link-search">Issue</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="link-search"
+                  placeholder="Search by title or description..."
+                  className="pl-10"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              {query.trim().length >= 2 && (
+                <div className="max-h-60 overflow-y-auto rounded-md border divide-y">
+                  {loading && candidates.length === 0 ? (
+                    <div className="p-3">
+                      <LoadingSpinner size="sm" />
+                    </div>
+                  ) : candidates.length === 0 ? (
+                    <p className="p-3 text-sm text-muted-foreground">No matching issues.</p>
+                  ) : (
+                    candidates.map((result) => (
+                      <button
+                        key={result.issue_id}
+                        type="button"
+                        className={cn(
+                          "flex w-full items-center gap-2 p-3 text-left transition-colors hover:bg-muted/50",
+                          target?.id === result.issue_id && "bg-muted"
+                        )}
+                        onClick={() => setTarget({ id: result.issue_id, title: result.title })}
+                      >
+                        <span className="flex-1 truncate text-sm">{result.title}</span>
+                        <Badge variant={getStatusBadgeVariant(result.status)} className="shrink-0 text-xs">
+                          {getStatusLabel(result.status)}
+                        </Badge>
+                      </button>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleLink} disabled={!target || !option || saving}>
+            {saving ? <LoadingSpinner size="sm" /> : "Link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
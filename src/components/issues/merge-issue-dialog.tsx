@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+
+interface MergeIssue {
+  id: string
+  title: string
+}
+
+interface MergeIssueDialogProps {
+  // The duplicates to close and the issue they are merged into; the dialog is open while both are set
+  duplicates: MergeIssue[]
+  primary: MergeIssue | null
+  onOpenChange: (open: boolean) => void
+  onMerge: (note: string) => Promise<unknown>
+}
+
+export function MergeIssueDialog({ duplicates, primary, onOpenChange, onMerge }: MergeIssueDialogProps) {
+  const [note, setNote] = useState("")
+  const [merging, setMerging] = useState(false)
+  const open = duplicates.length > 0 && !!primary
+  const titles = duplicates.map((duplicate) => `"${duplicate.title}"`).join(", ")
+
+  useEffect(() => {
+    if (open) setNote("")
+  }, [open])
+
+  const handleMerge = async () => {
+    setMerging(true)
+    try {
+      await onMerge(note)
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !merging && onOpenChange(value)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{duplicates.length > 1 ? "Merge duplicates" : "Merge duplicate"}</DialogTitle>
+          <DialogDescription>
+            {`${titles} will be closed as ${duplicates.length > 1 ? "duplicates" : "a duplicate"} of "${primary?.title}". `}
+            Internal notes, files, tags and field values are copied to it, along with the people each reporter
+            excluded. Reporters keep their tracking tokens and are told their report was combined with another.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="merge-note">Internal note (optional)</Label>
+          <Textarea
+            id="merge-note"
+            placeholder="Why these describe the same matter..."
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleMerge} disabled={merging}>
+            {merging ? <LoadingSpinner size="sm" /> : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,92 @@
+import { useState } from "react"
+import { format } from "date-fns"
+import { Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { cn } from "@/lib/utils"
+import { getProfileName } from "@/lib/profiles"
+import type { IssueMessage } from "@/types/database"
+
+interface MessageThreadProps {
+  messages: IssueMessage[]
+  viewer: "reporter" | "staff"
+  onSend: (body: string) => Promise<unknown>
+  loading?: boolean
+  className?: string
+}
+
+const MAX_MESSAGE_LENGTH = 5000
+
+export function MessageThread({ messages, viewer, onSend, loading, className }: MessageThreadProps) {
+  const [body, setBody] = useState("")
+  const [sending, setSending] = useState(false)
+
+  // Reporters never see investigator names, and staff only ever see "Reporter"
+  const getSenderName = (message: IssueMessage) => {
+    if (message.sender_type === viewer) {
+      return viewer === "staff" && message.author ? getProfileName(message.author) : "You"
+    }
+    if (message.sender_type === "reporter") return "Reporter"
+    return viewer === "staff" && message.author ? getProfileName(message.author) : "Investigator"
+  }
+
+  const handleSend = async () => {
+    if (!body.trim()) return
+    setSending(true)
+    try {
+      await onSend(body)
+      setBody("")
+    } catch (error) {
+      // Error surfaced by the messages hook
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {loading ? (
+        <LoadingSpinner />
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No messages yet.</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+          {messages.map((message) => {
+            const own = message.sender_type === viewer
+            return (
+              <div key={message.id} className={cn("flex", own ? "justify-end" : "justify-start")}>
+                <div
+                  className={cn(
+                    "max-w-[80%] rounded-lg px-4 py-2",
+                    own ? "bg-primary text-primary-foreground" : "bg-muted"
+                  )}
+                >
+                  <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  <p className={cn("text-xs mt-1", own ? "text-primary-foreground/70" : "text-muted-foreground")}>
+                    {getSenderName(message)} · {format(new Date(message.created_at), "PPP p")}
+                  </p>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder={viewer === "reporter" ? "Reply to the investigator..." : "Ask the reporter a question..."}
+          value={body}
+          maxLength={MAX_MESSAGE_LENGTH}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button onClick={handleSend} disabled={sending || !body.trim()} className="gap-2">
+            {sending ? <LoadingSpinner size="sm" /> : <Send className="w-4 h-4" />}
+            Send
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import type { SavedViewInput } from "@/hooks/useSavedViews"
+import type { Department, SavedView, UserRole } from "@/types/database"
+
+const PRIVATE = "private"
+const DEPARTMENT_PREFIX = "department:"
+const ROLE_PREFIX = "role:"
+
+const ROLES: { value: UserRole; label: string }[] = [
+  { value: "employee", label: "Employees" },
+  { value: "manager", label: "Managers" },
+  { value: "hr", label: "HR representatives" },
+  { value: "admin", label: "Administrators" },
+]
+
+interface SavedViewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Editing keeps the view's own query; a new view takes the list as it is now
+  view?: SavedView
+  query: string
+  departments: Department[]
+  onSave: (input: SavedViewInput) => Promise<unknown>
+}
+
+const getSharing = (view?: SavedView) => {
+  if (view?.shared_department_id) return `${DEPARTMENT_PREFIX}${view.shared_department_id}`
+  if (view?.shared_role) return `${ROLE_PREFIX}${view.shared_role}`
+  return PRIVATE
+}
+
+export function SavedViewDialog({ open, onOpenChange, view, query, departments, onSave }: SavedViewDialogProps) {
+  const [name, setName] = useState("")
+  const [sharing, setSharing] = useState(PRIVATE)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(view?.name ?? "")
+    setSharing(getSharing(view))
+  }, [open, view])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave({
+        name,
+        query: view?.query ?? query,
+        shared_department_id: sharing.startsWith(DEPARTMENT_PREFIX) ? sharing.slice(DEPARTMENT_PREFIX.length) : undefined,
+        shared_role: sharing.startsWith(ROLE_PREFIX) ? (sharing.slice(ROLE_PREFIX.length) as UserRole) : undefined,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      // Error surfaced by useSavedViews
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !saving && onOpenChange(value)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{view ? "Edit view" : "Save view"}</DialogTitle>
+          <DialogDescription>
+            {view
+              ? "Rename the view or change who it is shared with."
+              : "Saves the current filters, sort, layout and columns."}{" "}
+            Anyone it is shared with only sees the issues they already have access to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              maxLength={80}
+              placeholder="e.g. Open harassment reports"
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-sharing">Shared with</Label>
+            <Select value={sharing} onValueChange={setSharing}>
+              <SelectTrigger id="saved-view-sharing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PRIVATE}>Only me</SelectItem>
+                {departments.map((department) => (
+                  <SelectItem key={department.id} value={`${DEPARTMENT_PREFIX}${department.id}`}>
+                    Department: {department.name}
+                  </SelectItem>
+                ))}
+                {ROLES.map((role) => (
+                  <SelectItem key={role.value} value={`${ROLE_PREFIX}${role.value}`}>
+                    Role: {role.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? <LoadingSpinner size="sm" /> : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from "react"
+import { Bookmark, BookmarkPlus, MoreHorizontal, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { SavedViewDialog } from "@/components/issues/saved-view-dialog"
+import type { SavedViewInput } from "@/hooks/useSavedViews"
+import { cn } from "@/lib/utils"
+import type { Department, SavedView } from "@/types/database"
+
+export interface SavedViewsNavItem {
+  key: string
+  name: string
+  // The list's URL query without the tab
+  query: string
+  count?: number
+  view?: SavedView
+}
+
+interface SavedViewsNavProps {
+  queues: SavedViewsNavItem[]
+  views: SavedViewsNavItem[]
+  currentQuery: string
+  currentUserId?: string
+  departments: Department[]
+  onApply: (query: string) => void
+  onCreate: (input: SavedViewInput) => Promise<unknown>
+  onUpdate: (id: string, input: SavedViewInput) => Promise<unknown>
+  onDelete: (id: string) => Promise<unknown>
+}
+
+export function SavedViewsNav({
+  queues,
+  views,
+  currentQuery,
+  currentUserId,
+  departments,
+  onApply,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: SavedViewsNavProps) {
+  const [creating, setCreating] = useState(false)
+  const [editing, setEditing] = useState<SavedView | null>(null)
+  const [deleting, setDeleting] = useState<SavedView | null>(null)
+
+  const toInput = (view: SavedView, query = view.query): SavedViewInput => ({
+    name: view.name,
+    query,
+    shared_department_id: view.shared_department_id,
+    shared_role: view.shared_role,
+  })
+
+  const renderItem = (item: SavedViewsNavItem) => {
+    const active = item.query === currentQuery
+    const owned = item.view && item.view.owner_id === currentUserId
+
+    return (
+      <div key={item.key} className="flex items-center">
+        <Button
+          variant={active ? "secondary" : "ghost"}
+          size="sm"
+          className={cn("gap-2", owned && "rounded-r-none pr-2")}
+          onClick={() => onApply(item.query)}
+        >
+          {item.view && item.view.owner_id !== currentUserId && (
+            <Users className="w-3 h-3 text-muted-foreground" aria-label="Shared with you" />
+          )}
+          {item.name}
+          <Badge variant="outline" className="px-1.5 font-normal">
+            {item.count ?? "…"}
+          </Badge>
+        </Button>
+        {owned && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant={active ? "secondary" : "ghost"}
+                size="sm"
+                className="rounded-l-none px-1"
+                aria-label={`Manage ${item.name}`}
+              >
+                <MoreHorizontal className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onSelect={() => setEditing(item.view)}>Rename or share</DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={active}
+                onSelect={() => onUpdate(item.view.id, toInput(item.view, currentQuery)).catch(() => undefined)}
+              >
+                Replace with current list
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onSelect={() => setDeleting(item.view)}>
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Queues</span>
+        {queues.map(renderItem)}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="mr-1 flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          <Bookmark className="w-3 h-3" />
+          Views
+        </span>
+        {views.map(renderItem)}
+        <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground" onClick={() => setCreating(true)}>
+          <BookmarkPlus className="w-4 h-4" />
+          Save current view
+        </Button>
+      </div>
+
+      <SavedViewDialog
+        open={creating || !!editing}
+        onOpenChange={(open) => {
+          if (open) return
+          setCreating(false)
+          setEditing(null)
+        }}
+        view={editing ?? undefined}
+        query={currentQuery}
+        departments={departments}
+        onSave={(input) => (editing ? onUpdate(editing.id, input) : onCreate(input))}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The view is removed for everyone it is shared with. No issues are changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && onDelete(deleting.id).catch(() => undefined)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
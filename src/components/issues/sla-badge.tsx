@@ -0,0 +1,25 @@
+import { Timer } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { IssueSla } from "@/lib/sla"
+
+interface SlaBadgeProps {
+  sla: IssueSla | null
+  className?: string
+}
+
+// Renders only when a target has been missed
+export function SlaBadge({ sla, className }: SlaBadgeProps) {
+  if (!sla) return null
+
+  const responseBreached = sla.response.outcome === "breached"
+  const resolutionBreached = sla.resolution.outcome === "breached"
+  if (!responseBreached && !resolutionBreached) return null
+
+  return (
+    <Badge variant="destructive" className={cn("flex items-center gap-1 text-xs", className)}>
+      <Timer className="w-3 h-3" />
+      {resolutionBreached ? "Resolution overdue" : "Response overdue"}
+    </Badge>
+  )
+}
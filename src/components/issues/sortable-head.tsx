@@ -0,0 +1,35 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { TableHead } from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { IssueListSort, IssueSortColumn } from "@/lib/issue-list"
+
+interface SortableHeadProps {
+  label: string
+  column: IssueSortColumn
+  sort: IssueListSort
+  onSort: (column: IssueSortColumn) => void
+  className?: string
+}
+
+export function SortableHead({ label, column, sort, onSort, className }: SortableHeadProps) {
+  const active = sort.column === column
+  const Icon = !active ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (sort.ascending ? "ascending" : "descending") : "none"}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("-ml-3 h-8", active && "text-foreground")}
+        onClick={() => onSort(column)}
+      >
+        {label}
+        <Icon className={cn("ml-2 h-3.5 w-3.5", !active && "opacity-50")} />
+      </Button>
+    </TableHead>
+  )
+}
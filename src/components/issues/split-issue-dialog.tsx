@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import type { IssueSplit } from "@/hooks/useIssueLinks"
+import type { Issue, IssueSeverity } from "@/types/database"
+
+const SEVERITIES: IssueSeverity[] = ["critical", "high", "medium", "low"]
+
+interface SplitIssueDialogProps {
+  issue: Issue
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSplit: (split: IssueSplit) => Promise<unknown>
+}
+
+export function SplitIssueDialog({ issue, open, onOpenChange, onSplit }: SplitIssueDialogProps) {
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const [severity, setSeverity] = useState<IssueSeverity>(issue.severity)
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([])
+  const [note, setNote] = useState("")
+  const [splitting, setSplitting] = useState(false)
+
+  // The description starts from the whole report so the relevant part can be kept
+  useEffect(() => {
+    if (open) {
+      setTitle("")
+      setDescription(issue.description)
+      setSeverity(issue.severity)
+      setAttachmentIds([])
+      setNote("")
+    }
+  }, [open, issue.description, issue.severity])
+
+  const toggleAttachment = (id: string, checked: boolean) =>
+    setAttachmentIds((prev) => (checked ? [...prev, id] : prev.filter((attachmentId) => attachmentId !== id)))
+
+  const handleSplit = async () => {
+    setSplitting(true)
+    try {
+      await onSplit({
+        issueId: issue.id,
+        title: title.trim(),
+        description: description.trim(),
+        severity,
+        attachmentIds,
+        note: note.trim() || undefined,
+      })
+      onOpenChange(false)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSplitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !splitting && onOpenChange(value)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Split issue</DialogTitle>
+          <DialogDescription>
+            Opens a separate case for part of this report, with the same reporter and exclusions. The reporter sees
+            the new case's title and status when tracking their report.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="split-title">Title</Label>
+            <Input id="split-title" value={title} onChange={(event) => setTitle(event.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="split-description">Description</Label>
+            <Textarea
+              id="split-description"
+              rows={6}
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="split-severity">Severity</Label>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as IssueSeverity)}>
+              <SelectTrigger id="split-severity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITIES.map((option) => (
+                  <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {issue.attachments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Files to include</Label>
+              {issue.attachments.map((attachment) => (
+                <div key={attachment.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`split-attachment-${attachment.id}`}
+                    checked={attachmentIds.includes(attachment.id)}
+                    onCheckedChange={(checked) => toggleAttachment(attachment.id, checked === true)}
+                  />
+                  <Label htmlFor={`split-attachment-${attachment.id}`} className="truncate font-normal">
+                    {attachment.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="split-note">Internal note (optional)</Label>
+            <Textarea id="split-note" value={note} onChange={(event) => setNote(event.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={splitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSplit} disabled={!title.trim() || !description.trim() || splitting}>
+            {splitting ? <LoadingSpinner size="sm" /> : "Split"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
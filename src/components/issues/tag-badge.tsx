@@ -0,0 +1,32 @@
+import { X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { Tag } from "@/types/database"
+
+interface TagBadgeProps {
+  tag: Tag
+  onRemove?: () => void
+  disabled?: boolean
+}
+
+export function TagBadge({ tag, onRemove, disabled }: TagBadgeProps) {
+  return (
+    <Badge variant="outline" className={`gap-1.5 font-normal ${onRemove ? "pr-1" : ""}`}>
+      <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+      {onRemove && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-4 w-4"
+          disabled={disabled}
+          onClick={onRemove}
+          aria-label={`Remove tag ${tag.name}`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </Badge>
+  )
+}
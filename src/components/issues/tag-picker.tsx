@@ -0,0 +1,75 @@
+import { useState } from "react"
+import { Check, Plus, Tag as TagIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { Tag } from "@/types/database"
+
+interface TagPickerProps {
+  tags: Tag[]
+  selectedIds: string[]
+  onToggle: (tag: Tag) => void
+  // Offered when nothing matches the search; omitted when only curated tags may be used
+  onCreate?: (name: string) => void
+  label?: string
+  disabled?: boolean
+}
+
+export function TagPicker({ tags, selectedIds, onToggle, onCreate, label = "Add tag", disabled }: TagPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+
+  const name = search.trim()
+  const exists = tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase())
+
+  const create = () => {
+    onCreate?.(name)
+    setSearch("")
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-2" disabled={disabled}>
+          <TagIcon className="w-4 h-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search tags..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{onCreate ? "No matching tags." : "No matching tags. Ask an administrator to add one."}</CommandEmpty>
+            {tags.length > 0 && (
+              <CommandGroup>
+                {tags.map((tag) => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => onToggle(tag)}>
+                    <span className="mr-2 h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+                    <span className="flex-1 truncate">{tag.name}</span>
+                    {selectedIds.includes(tag.id) && <Check className="ml-2 h-4 w-4" />}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {onCreate && name && !exists && (
+              <CommandGroup forceMount>
+                <CommandItem value={`create ${name}`} onSelect={create} forceMount>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create "{name}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,62 @@
+import { useState } from "react"
+import { Check, Copy, KeyRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface TrackingTokenNoticeProps {
+  token: string
+  onTrack: () => void
+  onDone: () => void
+}
+
+// Only a hash of the token is stored, so this is the one chance to record it
+export function TrackingTokenNotice({ token, onTrack, onDone }: TrackingTokenNoticeProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(token)
+      setCopied(true)
+    } catch (error) {
+      // Clipboard access can be blocked; the token stays selectable
+    }
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="rounded-lg bg-primary/10 p-2">
+            <KeyRound className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl">Report submitted</CardTitle>
+            <CardDescription>
+              Save your tracking token now. It cannot be shown again or recovered later.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-2">
+          <code className="flex-1 break-all rounded-lg bg-muted px-4 py-3 text-sm select-all">{token}</code>
+          <Button type="button" variant="outline" size="icon" onClick={handleCopy} aria-label="Copy tracking token">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Use this token on the tracking page to follow progress and reply to investigators.
+          Anyone holding it can read the updates on your report, so keep it private.
+        </p>
+        <div className="flex justify-between">
+          <Button type="button" variant="outline" onClick={onDone}>
+            Back to Dashboard
+          </Button>
+          <Button type="button" onClick={onTrack}>
+            Track this report
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,9 @@
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { useAuth } from "@/hooks/useAuth"
+import { usePermissions } from "@/hooks/usePermissions"
 import { useNavigate } from "react-router-dom"
-import { User, LogOut, Settings, BarChart3, FileText, Search } from "lucide-react"
+import { User, LogOut, Settings, BarChart3, FileText, Search, ShieldCheck, TextSearch } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,10 +13,28 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { IssueSearchPalette } from "@/components/issues/issue-search-palette"
 
 export function AppHeader() {
   const { user, signOut } = useAuth()
+  const { can } = usePermissions()
   const navigate = useNavigate()
+  const [searchOpen, setSearchOpen] = useState(false)
+
+  // Ctrl+K / Cmd+K opens case search from anywhere once signed in
+  useEffect(() => {
+    if (!user) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setSearchOpen((open) => !open)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [user])
 
   const handleSignOut = async () => {
     await signOut()
@@ -72,6 +92,18 @@ export function AppHeader() {
             <Search className="w-4 h-4" />
             <span>Track Issue</span>
           </Button>
+          {user && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSearchOpen(true)}
+              className="flex items-center space-x-2 text-muted-foreground"
+            >
+              <TextSearch className="w-4 h-4" />
+              <span>Search cases</span>
+              <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+            </Button>
+          )}
         </div>
 
         {/* User Menu */}
@@ -109,6 +141,12 @@ export function AppHeader() {
               <Settings className="mr-2 h-4 w-4" />
               <span>Settings</span>
             </DropdownMenuItem>
+            {can('administer') && (
+              <DropdownMenuItem onClick={() => navigate('/admin')}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                <span>Administration</span>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleSignOut}>
               <LogOut className="mr-2 h-4 w-4" />
@@ -117,6 +155,7 @@ export function AppHeader() {
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+      {user && <IssueSearchPalette open={searchOpen} onOpenChange={setSearchOpen} />}
     </header>
   )
 }
\ No newline at end of file
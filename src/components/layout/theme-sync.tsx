@@ -0,0 +1,15 @@
+import { useEffect } from "react"
+import { useTheme } from "next-themes"
+import { useUserPreferences } from "@/hooks/useUserPreferences"
+
+// Applies the saved theme after sign-in so it follows the user across devices
+export function ThemeSync() {
+  const { preferences } = useUserPreferences()
+  const { setTheme } = useTheme()
+
+  useEffect(() => {
+    if (preferences) setTheme(preferences.theme)
+  }, [preferences, setTheme])
+
+  return null
+}
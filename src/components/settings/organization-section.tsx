@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react"
+import { Building2, Save, Timer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useSlaTargets } from "@/hooks/useSlaTargets"
+import { OrganizationSettingsInput } from "@/hooks/useOrganizationSettings"
+import { LANGUAGE_OPTIONS, TIME_ZONE_OPTIONS } from "@/lib/preferences"
+import type { IssueSeverity, OrganizationSettings, SlaTarget } from "@/types/database"
+
+interface OrganizationSectionProps {
+  settings: OrganizationSettings | null
+  onSave: (changes: OrganizationSettingsInput) => Promise<void>
+}
+
+const SEVERITIES: IssueSeverity[] = ["critical", "high", "medium", "low"]
+
+type TargetDraft = Pick<SlaTarget, "severity" | "first_response_hours" | "resolution_hours">
+
+function SlaTargetsEditor() {
+  const { targets, loading, updateTargets } = useSlaTargets()
+  const [drafts, setDrafts] = useState<TargetDraft[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setDrafts(
+      SEVERITIES.map((severity) => {
+        const target = targets.find((t) => t.severity === severity)
+        return {
+          severity,
+          first_response_hours: target?.first_response_hours ?? 24,
+          resolution_hours: target?.resolution_hours ?? 168,
+        }
+      })
+    )
+  }, [targets])
+
+  const updateDraft = (severity: IssueSeverity, field: "first_response_hours" | "resolution_hours", value: string) => {
+    setDrafts((prev) =>
+      prev.map((draft) => (draft.severity === severity ? { ...draft, [field]: Number(value) } : draft))
+    )
+  }
+
+  const invalid = drafts.some(
+    (draft) =>
+      !Number.isInteger(draft.first_response_hours) ||
+      !Number.isInteger(draft.resolution_hours) ||
+      draft.first_response_hours < 1 ||
+      draft.resolution_hours < draft.first_response_hours
+  )
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await updateTargets(drafts)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-candor-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          SLA Targets
+        </CardTitle>
+        <CardDescription>Hours from report to first response and to resolution, per severity.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <LoadingSpinner />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Severity</TableHead>
+                <TableHead>First response (hours)</TableHead>
+                <TableHead>Resolution (hours)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map((draft) => (
+                <TableRow key={draft.severity}>
+                  <TableCell className="font-medium capitalize">{draft.severity}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={draft.first_response_hours}
+                      onChange={(e) => updateDraft(draft.severity, "first_response_hours", e.target.value)}
+                      aria-label={`${draft.severity} first response hours`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={draft.first_response_hours}
+                      value={draft.resolution_hours}
+                      onChange={(e) => updateDraft(draft.severity, "resolution_hours", e.target.value)}
+                      aria-label={`${draft.severity} resolution hours`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {invalid && (
+          <p className="text-sm text-destructive">
+            Use whole hours; resolution targets cannot be shorter than first response targets.
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving || loading || invalid}>
+            {saving ? <LoadingSpinner size="sm" /> : "Save Targets"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function OrganizationSection({ settings, onSave }: OrganizationSectionProps) {
+  const [form, setForm] = useState<OrganizationSettingsInput | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (settings) {
+      const { updated_at, updated_by, ...editable } = settings
+      setForm(editable)
+    }
+  }, [settings])
+
+  if (!form) {
+    return <LoadingSpinner />
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(form)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-candor-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            Organization
+          </CardTitle>
+          <CardDescription>Defaults and policies that apply to everyone.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="organization_name">Organization Name</Label>
+              <Input
+                id="organization_name"
+                value={form.organization_name}
+                onChange={(e) => setForm({ ...form, organization_name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="support_email">Support Email</Label>
+              <Input
+                id="support_email"
+                type="email"
+                value={form.support_email ?? ""}
+                onChange={(e) => setForm({ ...form, support_email: e.target.value })}
+                placeholder="ethics@example.com"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="default_language">Default Language</Label>
+              <Select
+                value={form.default_language}
+                onValueChange={(value) => setForm({ ...form, default_language: value })}
+              >
+                <SelectTrigger id="default_language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="default_time_zone">Default Time Zone</Label>
+              <Select
+                value={form.default_time_zone}
+                onValueChange={(value) => setForm({ ...form, default_time_zone: value })}
+              >
+                <SelectTrigger id="default_time_zone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_ZONE_OPTIONS.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-4 border rounded-lg">
+            <div>
+              <Label htmlFor="allow_free_form_tags" className="font-medium">
+                Free-form Tags
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Let case handlers create new tags while tagging. When off, only administrators add tags.
+              </p>
+            </div>
+            <Switch
+              id="allow_free_form_tags"
+              checked={form.allow_free_form_tags}
+              onCheckedChange={(checked) => setForm({ ...form, allow_free_form_tags: checked })}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving || !form.organization_name.trim()}>
+              {saving ? (
+                <LoadingSpinner size="sm" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Organization Settings
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <SlaTargetsEditor />
+    </div>
+  )
+}
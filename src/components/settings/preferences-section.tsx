@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react"
+import { useTheme } from "next-themes"
+import { Bell, Palette, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useUserPreferences } from "@/hooks/useUserPreferences"
+import {
+  DEFAULT_PREFERENCES,
+  LANGUAGE_OPTIONS,
+  NOTIFICATION_OPTIONS,
+  THEME_OPTIONS,
+  TIME_ZONE_OPTIONS,
+  EditablePreferences,
+  getBrowserTimeZone,
+  getLanguageLabel,
+} from "@/lib/preferences"
+import type { OrganizationSettings, ThemePreference } from "@/types/database"
+
+interface PreferencesSectionProps {
+  organization: OrganizationSettings | null
+}
+
+const ORGANIZATION_DEFAULT = "default"
+
+export function PreferencesSection({ organization }: PreferencesSectionProps) {
+  const { preferences, loading, updatePreferences } = useUserPreferences()
+  const { setTheme } = useTheme()
+  const [form, setForm] = useState<EditablePreferences>(DEFAULT_PREFERENCES)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (preferences) {
+      const { user_id, created_at, updated_at, ...editable } = preferences
+      setForm(editable)
+    }
+  }, [preferences])
+
+  const browserTimeZone = getBrowserTimeZone()
+  const timeZones = TIME_ZONE_OPTIONS.includes(browserTimeZone)
+    ? TIME_ZONE_OPTIONS
+    : [browserTimeZone, ...TIME_ZONE_OPTIONS]
+
+  const handleThemeChange = (theme: ThemePreference) => {
+    setForm((prev) => ({ ...prev, theme }))
+    setTheme(theme)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await updatePreferences(form)
+    } catch {
+      // Reported by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-candor-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="w-5 h-5" />
+            Appearance &amp; Region
+          </CardTitle>
+          <CardDescription>How Candor looks and which language and time zone it uses for you.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="theme">Theme</Label>
+            <Select value={form.theme} onValueChange={(value) => handleThemeChange(value as ThemePreference)}>
+              <SelectTrigger id="theme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THEME_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="language">Language</Label>
+            <Select
+              value={form.language ?? ORGANIZATION_DEFAULT}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, language: value === ORGANIZATION_DEFAULT ? undefined : value }))
+              }
+            >
+              <SelectTrigger id="language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORGANIZATION_DEFAULT}>
+                  Organization default
+                  {organization && ` (${getLanguageLabel(organization.default_language)})`}
+                </SelectItem>
+                {LANGUAGE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="time_zone">Time Zone</Label>
+            <Select
+              value={form.time_zone ?? ORGANIZATION_DEFAULT}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, time_zone: value === ORGANIZATION_DEFAULT ? undefined : value }))
+              }
+            >
+              <SelectTrigger id="time_zone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORGANIZATION_DEFAULT}>
+                  Organization default
+                  {organization && ` (${organization.default_time_zone})`}
+                </SelectItem>
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone}
+                    {zone === browserTimeZone && " (this device)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-candor-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="w-5 h-5" />
+            Notifications
+          </CardTitle>
+          <CardDescription>Choose which email notifications you receive.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {NOTIFICATION_OPTIONS.map((option) => (
+            <div key={option.key} className="flex items-center justify-between p-4 border rounded-lg">
+              <div>
+                <Label htmlFor={option.key} className="font-medium">
+                  {option.label}
+                </Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+              <Switch
+                id={option.key}
+                checked={form[option.key]}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, [option.key]: checked }))}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? (
+            <LoadingSpinner size="sm" />
+          ) : (
+            <>
+              <Save className="w-4 h-4 mr-2" />
+              Save Preferences
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
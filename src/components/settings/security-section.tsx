@@ -0,0 +1,182 @@
+import { useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { formatDistanceToNow } from "date-fns"
+import { KeyRound, LogOut, Monitor } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { useAuth } from "@/hooks/useAuth"
+import { useSessions } from "@/hooks/useSessions"
+import { describeUserAgent } from "@/lib/preferences"
+
+const passwordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+})
+
+type PasswordData = z.infer<typeof passwordSchema>
+
+export function SecuritySection() {
+  const navigate = useNavigate()
+  const { signOut, updatePassword } = useAuth()
+  const { sessions, loading, revokeSession, refetch } = useSessions()
+  const [changingPassword, setChangingPassword] = useState(false)
+
+  const passwordForm = useForm<PasswordData>({
+    resolver: zodResolver(passwordSchema),
+  })
+
+  const handlePasswordChange = async (data: PasswordData) => {
+    setChangingPassword(true)
+    try {
+      await updatePassword(data.password)
+      passwordForm.reset({ password: "", confirmPassword: "" })
+    } catch {
+      // Reported by the hook
+    } finally {
+      setChangingPassword(false)
+    }
+  }
+
+  const handleSignOutOthers = async () => {
+    await signOut("others")
+    await refetch()
+  }
+
+  const handleSignOutEverywhere = async () => {
+    await signOut("global")
+    navigate("/")
+  }
+
+  const otherSessions = sessions.filter((session) => !session.is_current)
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-candor-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            Change Password
+          </CardTitle>
+          <CardDescription>Other devices stay signed in until you sign them out below.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={passwordForm.handleSubmit(handlePasswordChange)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                {...passwordForm.register("password")}
+              />
+              {passwordForm.formState.errors.password && (
+                <p className="text-sm text-destructive">{passwordForm.formState.errors.password.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                {...passwordForm.register("confirmPassword")}
+              />
+              {passwordForm.formState.errors.confirmPassword && (
+                <p className="text-sm text-destructive">{passwordForm.formState.errors.confirmPassword.message}</p>
+              )}
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <Button type="submit" disabled={changingPassword}>
+                {changingPassword ? <LoadingSpinner size="sm" /> : "Update Password"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-candor-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="w-5 h-5" />
+            Active Sessions
+          </CardTitle>
+          <CardDescription>
+            Devices signed in to your account. A signed-out device loses access within the hour.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <LoadingSpinner />
+          ) : (
+            sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between p-4 border rounded-lg gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium truncate">{describeUserAgent(session.user_agent)}</h4>
+                    {session.is_current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {session.ip ? `${session.ip} · ` : ""}
+                    Last active {formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {!session.is_current && (
+                  <Button variant="outline" size="sm" onClick={() => revokeSession(session.id)}>
+                    Sign out
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={handleSignOutOthers} disabled={otherSessions.length === 0}>
+              Sign out other sessions
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive">
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign out everywhere
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Every device, including this one, will need to sign in again.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleSignOutEverywhere}>Sign out everywhere</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getAttachmentRule, validateAttachment } from '@/lib/attachments';
+import { stripAttachmentMetadata } from '@/lib/attachment-metadata';
+import { AttachmentScanner, edgeAttachmentScanner } from '@/lib/attachment-scanner';
+
+// Reporter-side upload, authorised by the tracking token: validate, strip
+// metadata, upload under the token's prefix, link to the issue, then have the
+// server scan the stored file. It stays hidden unless the scan passes.
+export const useAttachmentUpload = (scanner: AttachmentScanner = edgeAttachmentScanner) => {
+  const [uploading, setUploading] = useState(false);
+
+  const uploadAttachment = async (token: string, prefix: string, file: File) => {
+    const validationError = validateAttachment(file);
+    if (validationError) throw new Error(validationError);
+
+    const stripped = await stripAttachmentMetadata(file);
+
+    // Random object names so the path reveals nothing about the reporter
+    const path = `${prefix}/${crypto.randomUUID()}.${getAttachmentRule(stripped.type)!.extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('issue-attachments')
+      .upload(path, stripped, { contentType: stripped.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.rpc('add_issue_attachment', {
+      p_token: token,
+      p_path: path,
+    });
+
+    if (error) throw error;
+
+    const result = await scanner.scan(token, path);
+    if (result.verdict === 'infected') {
+      throw new Error(`${file.name} was blocked by the virus scan`);
+    }
+    if (result.verdict !== 'clean') {
+      throw new Error(`${file.name} could not be scanned, so it was not attached. Please try again later.`);
+    }
+  };
+
+  const uploadAttachments = async (token: string, files: File[]) => {
+    setUploading(true);
+    const failed: File[] = [];
+
+    try {
+      const { data: prefix, error } = await supabase.rpc('get_attachment_upload_prefix', { p_token: token });
+      if (error || !prefix) {
+        console.error('Error preparing attachment upload:', error);
+        toast({
+          title: "Attachments not uploaded",
+          description: "Your files could not be uploaded. You can add them later from the tracking page.",
+          variant: "destructive",
+        });
+        return { uploaded: 0, failed: files };
+      }
+
+      for (const file of files) {
+        try {
+          await uploadAttachment(token, prefix, file);
+        } catch (error) {
+          console.error('Error uploading attachment:', error);
+          failed.push(file);
+          toast({
+            title: "Attachment not uploaded",
+            description: error.message,
+            variant: "destructive",
+          });
+        }
+      }
+    } finally {
+      setUploading(false);
+    }
+
+    return { uploaded: files.length - failed.length, failed };
+  };
+
+  return {
+    uploading,
+    uploadAttachments,
+  };
+};
@@ -0,0 +1,87 @@
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { AuditChainVerification, AuditEvent, UserRole } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { AUDIT_PAGE_SIZE, AuditFilters } from '@/lib/audit';
+import { toProfile } from '@/lib/profiles';
+import { auditKeys } from '@/lib/query-keys';
+
+const fetchAuditPage = async (filters: AuditFilters, page: number) => {
+  let query = supabase
+    .from('audit_events')
+    .select('*', { count: 'exact' })
+    .order('id', { ascending: false })
+    .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actorId === 'none') query = query.is('actor_id', null);
+  else if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.targetId) query = query.eq('target_id', filters.targetId);
+  if (filters.from) query = query.gte('occurred_at', startOfDay(parseISO(filters.from)).toISOString());
+  if (filters.to) query = query.lte('occurred_at', endOfDay(parseISO(filters.to)).toISOString());
+
+  const { data, error, count } = await query;
+
+  if (error) throw error;
+
+  // Actors are auth users, so their profiles are looked up separately
+  const actorIds = [...new Set((data || []).map((event) => event.actor_id).filter(Boolean))];
+  const { data: actors, error: actorsError } = actorIds.length > 0
+    ? await supabase.from('profiles').select('*').in('user_id', actorIds)
+    : { data: [], error: null };
+
+  if (actorsError) throw actorsError;
+
+  const events: AuditEvent[] = (data || []).map((event) => ({
+    ...event,
+    actor_id: event.actor_id ?? undefined,
+    actor_role: (event.actor_role ?? undefined) as UserRole | undefined,
+    target_id: event.target_id ?? undefined,
+    details: (event.details ?? {}) as AuditEvent['details'],
+    client_info: (event.client_info ?? undefined) as AuditEvent['client_info'],
+    prev_hash: event.prev_hash ?? undefined,
+    actor: toProfile((actors || []).find((actor) => actor.user_id === event.actor_id)),
+  }));
+
+  return { events, total: count ?? 0 };
+};
+
+// Newest first, one page at a time; only administrators can read the log
+export const useAuditEvents = (filters: AuditFilters, page: number) => {
+  const eventsQuery = useQuery({
+    queryKey: auditKeys.list({ filters, page }),
+    queryFn: () => fetchAuditPage(filters, page),
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error loading audit log" },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('verify_audit_chain');
+
+      if (error) throw error;
+      return data as unknown as AuditChainVerification;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.valid ? "Audit log intact" : "Audit log has been tampered with",
+        description: result.valid
+          ? `${result.checked} events verified.`
+          : `The chain breaks at event #${result.broken_at}.`,
+        variant: result.valid ? "default" : "destructive",
+      });
+    },
+    meta: { errorTitle: "Could not verify audit log" },
+  });
+
+  return {
+    events: eventsQuery.data?.events ?? [],
+    total: eventsQuery.data?.total ?? 0,
+    loading: eventsQuery.isPending,
+    verification: verifyMutation.data ?? null,
+    verifying: verifyMutation.isPending,
+    verifyChain: () => verifyMutation.mutate(),
+    refetch: eventsQuery.refetch,
+  };
+};
@@ -125,14 +125,19 @@ export const useAuth = () => {
     }
   };
 
-  const signOut = async () => {
+  // 'others' keeps this session, 'global' ends every session including this one
+  const signOut = async (scope: 'local' | 'others' | 'global' = 'local') => {
     try {
-      const { error } = await supabase.auth.signOut();
+      const { error } = await supabase.auth.signOut({ scope });
       if (error) throw error;
 
       toast({
-        title: "Signed out",
-        description: "You have been signed out successfully.",
+        title: scope === 'others' ? "Other sessions signed out" : "Signed out",
+        description: scope === 'local'
+          ? "You have been signed out successfully."
+          : scope === 'others'
+            ? "Every other device has been signed out."
+            : "You have been signed out on every device.",
       });
     } catch (error: any) {
       toast({
@@ -143,11 +148,31 @@ export const useAuth = () => {
     }
   };
 
+  const updatePassword = async (password: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      toast({
+        title: "Password updated",
+        description: "Use your new password the next time you sign in.",
+      });
+    } catch (error) {
+      toast({
+        title: "Password not updated",
+        description: error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
   return {
     ...state,
     signUp,
     signIn,
     signOut,
+    updatePassword,
     resendConfirmation,
   };
 };
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { CategoryField, CustomFieldType } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+
+export type CategoryFieldInput = Pick<
+  CategoryField,
+  'field_key' | 'label' | 'field_type' | 'options' | 'required' | 'help_text'
+>;
+
+// Custom field schemas for every category; the table is small and read by anonymous reporters too
+export const useCategoryFields = () => {
+  const [fields, setFields] = useState<CategoryField[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFields = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('category_fields')
+        .select('*')
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) throw error;
+      setFields((data || []).map((field) => ({
+        ...field,
+        field_type: field.field_type as CustomFieldType,
+        help_text: field.help_text ?? undefined,
+      })));
+    } catch (error) {
+      console.error('Error fetching category fields:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getFields = useCallback(
+    (categoryId?: string) => fields.filter((field) => field.category_id === categoryId),
+    [fields]
+  );
+
+  const saveField = async (categoryId: string, input: CategoryFieldInput, id?: string) => {
+    const values = {
+      ...input,
+      label: input.label.trim(),
+      help_text: input.help_text?.trim() || null,
+      options: input.field_type === 'select' ? input.options : [],
+    };
+
+    try {
+      const siblings = getFields(categoryId);
+      const { error } = id
+        ? await supabase.from('category_fields').update(values).eq('id', id)
+        : await supabase.from('category_fields').insert([{
+            ...values,
+            category_id: categoryId,
+            sort_order: Math.max(0, ...siblings.map((field) => field.sort_order)) + 1,
+          }]);
+
+      if (error) throw error;
+
+      await fetchFields();
+      toast({
+        title: "Field saved",
+        description: `"${values.label}" is ${id ? 'updated' : 'now part of the report form'}.`,
+      });
+    } catch (error) {
+      console.error('Error saving category field:', error);
+      toast({
+        title: "Field not saved",
+        description: error.code === '23505' ? 'Another field in this category already uses that key.' : error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // Moves a field up or down and renumbers the category's fields
+  const moveField = async (field: CategoryField, offset: number) => {
+    const siblings = getFields(field.category_id);
+    const index = siblings.findIndex((sibling) => sibling.id === field.id);
+    if (!siblings[index + offset]) return;
+
+    const ordered = [...siblings];
+    ordered.splice(index, 1);
+    ordered.splice(index + offset, 0, field);
+
+    try {
+      const results = await Promise.all(ordered.map((sibling, position) =>
+        supabase.from('category_fields').update({ sort_order: position + 1 }).eq('id', sibling.id)
+      ));
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      await fetchFields();
+    } catch (error) {
+      console.error('Error reordering category fields:', error);
+      toast({
+        title: "Order not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteField = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('category_fields')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await fetchFields();
+      toast({
+        title: "Field removed",
+        description: "Values already submitted stay on existing issues.",
+      });
+    } catch (error) {
+      console.error('Error deleting category field:', error);
+      toast({
+        title: "Field not removed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  return {
+    fields,
+    loading,
+    getFields,
+    saveField,
+    moveField,
+    deleteField,
+    refetch: fetchFields,
+  };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ExclusionCandidate } from '@/types/database';
+
+const SEARCH_DELAY_MS = 250;
+
+// Shorter queries return nothing from the RPC
+export const MIN_EXCLUSION_QUERY_LENGTH = 3;
+
+// People a reporter, signed in or not, can name as conflicted
+export const useExclusionCandidates = (query: string) => {
+  const [candidates, setCandidates] = useState<ExclusionCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const search = query.trim();
+    if (search.length < MIN_EXCLUSION_QUERY_LENGTH) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('search_exclusion_candidates', { p_query: search });
+
+        if (error) throw error;
+        if (!cancelled) {
+          setCandidates((data || []).map((candidate) => ({
+            ...candidate,
+            department_name: candidate.department_name ?? undefined,
+          })));
+        }
+      } catch (error) {
+        console.error('Error searching people:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return { candidates, loading };
+};
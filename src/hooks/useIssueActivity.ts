@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { issueKeys } from '@/lib/query-keys';
+
+// A status change writes the issue and an update row together, so bursts are refreshed once
+const REFRESH_DELAY_MS = 500;
+
+// Streams changes to the issues the caller can see. Cached lists, counts, details, messages
+// and analytics are refetched rather than patched, so a row can never appear twice. New reports are remembered
+// until acknowledged so the dashboard can point them out.
+export const useIssueActivity = () => {
+  const queryClient = useQueryClient();
+  const [newIssueIds, setNewIssueIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleRefresh = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: issueKeys.all });
+      }, REFRESH_DELAY_MS);
+    };
+
+    const channel = supabase
+      .channel('issue-activity')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'issues' }, ({ new: issue }) => {
+        setNewIssueIds((ids) => (ids.includes(issue.id) ? ids : [...ids, issue.id]));
+        scheduleRefresh();
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'issues' }, scheduleRefresh)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'issue_updates' }, scheduleRefresh)
+      .subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  const acknowledge = useCallback(() => setNewIssueIds([]), []);
+
+  return {
+    newIssueIds,
+    acknowledge,
+  };
+};
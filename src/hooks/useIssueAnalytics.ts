@@ -0,0 +1,47 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AnalyticsBucket, IssueSeverity } from '@/types/database';
+import { getRangeDates, parseIssueAnalytics } from '@/lib/analytics';
+import { issueKeys } from '@/lib/query-keys';
+
+export interface IssueAnalyticsFilters {
+  range: string;
+  bucket: AnalyticsBucket;
+  categoryId?: string;
+  departmentId?: string;
+  severity?: IssueSeverity;
+  tagId?: string;
+}
+
+export const useIssueAnalytics = (filters: IssueAnalyticsFilters) => {
+  const { range, bucket, categoryId, departmentId, severity, tagId } = filters;
+
+  // Cached with the issue queries, so realtime activity refreshes the figures too.
+  // The previous figures stay on screen while a new range or filter loads.
+  const { data, isPending, refetch } = useQuery({
+    queryKey: issueKeys.analytics(filters),
+    queryFn: async () => {
+      const { from, to } = getRangeDates(range);
+      const { data, error } = await supabase.rpc('get_issue_analytics', {
+        p_bucket: bucket,
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+        p_category_id: categoryId,
+        p_department_id: departmentId,
+        p_severity: severity,
+        p_tag_id: tagId,
+      });
+
+      if (error) throw error;
+      return parseIssueAnalytics(data);
+    },
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error loading analytics" },
+  });
+
+  return {
+    analytics: data ?? null,
+    loading: isPending,
+    refetch,
+  };
+};
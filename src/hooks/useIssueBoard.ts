@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { CategoryField, IssueStatus, IssueSummary } from '@/types/database';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { FILTER_DELAY_MS, fetchIssuePage, getTextFieldKeys } from '@/hooks/useIssueList';
+import { IssueListFilters, IssueListSort } from '@/lib/issue-list';
+import { ISSUE_STATUSES } from '@/lib/issue-status';
+import { issueKeys } from '@/lib/query-keys';
+
+export interface IssueBoardData {
+  // Every loaded card across the columns; each column shows the ones in its status
+  issues: IssueSummary[];
+  // Matching issues per status, including any beyond the column limit
+  totals: Partial<Record<IssueStatus, number>>;
+}
+
+export const BOARD_COLUMN_LIMIT = 50;
+
+// The most urgent cards sit at the top of each column
+const BOARD_SORT: IssueListSort = { column: 'severity_order', ascending: false };
+
+// The list filters applied to the board. Each status is its own column, so a status filter is ignored.
+export const useIssueBoard = (
+  filters: IssueListFilters,
+  { customFields = [], enabled = true }: { customFields?: CategoryField[]; enabled?: boolean } = {}
+) => {
+  const textFieldKeys = getTextFieldKeys(customFields);
+
+  const debouncedKey = useDebouncedValue(JSON.stringify({ ...filters, status: undefined }), FILTER_DELAY_MS);
+  const debouncedFilters = useMemo(() => JSON.parse(debouncedKey) as IssueListFilters, [debouncedKey]);
+
+  const query = { filters: debouncedFilters, columnLimit: BOARD_COLUMN_LIMIT, textFieldKeys };
+
+  const { data, isPending, isFetching, refetch } = useQuery({
+    queryKey: issueKeys.board(query),
+    queryFn: async (): Promise<IssueBoardData> => {
+      const columns = await Promise.all(
+        ISSUE_STATUSES.map(({ value }) =>
+          fetchIssuePage({
+            filters: { ...debouncedFilters, status: value },
+            sort: BOARD_SORT,
+            page: 1,
+            pageSize: BOARD_COLUMN_LIMIT,
+            textFieldKeys,
+          })
+        )
+      );
+
+      return {
+        issues: columns.flatMap((column) => column.issues),
+        totals: Object.fromEntries(ISSUE_STATUSES.map(({ value }, index) => [value, columns[index].total])),
+      };
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error loading the board" },
+  });
+
+  return {
+    issues: data?.issues ?? [],
+    totals: data?.totals ?? {},
+    loading: isPending,
+    fetching: isFetching,
+    refetch,
+  };
+};
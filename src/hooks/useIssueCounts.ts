@@ -0,0 +1,27 @@
+import { useQueries } from '@tanstack/react-query';
+import { fetchIssuePage } from '@/hooks/useIssueList';
+import { DEFAULT_ISSUE_SORT, IssueListFilters } from '@/lib/issue-list';
+import { issueKeys } from '@/lib/query-keys';
+
+export interface IssueCountQuery {
+  key: string;
+  filters: IssueListFilters;
+  textFieldKeys?: string;
+}
+
+// Matching issues for each set of filters, keyed by the caller's key. Cached with the
+// other issue queries, so changes and realtime activity refresh them too.
+export const useIssueCounts = (queries: IssueCountQuery[], enabled = true) => {
+  const results = useQueries({
+    queries: queries.map(({ filters, textFieldKeys = '' }) => ({
+      queryKey: issueKeys.count({ filters, textFieldKeys }),
+      queryFn: async () =>
+        (await fetchIssuePage({ filters, sort: DEFAULT_ISSUE_SORT, page: 1, pageSize: 1, textFieldKeys })).total,
+      enabled,
+    })),
+  });
+
+  return Object.fromEntries(
+    queries.map(({ key }, index) => [key, results[index].data])
+  ) as Record<string, number | undefined>;
+};
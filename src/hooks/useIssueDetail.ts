@@ -0,0 +1,142 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Issue, IssueAttachment, IssueConflict, IssueUpdate } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { toAttachments } from '@/lib/attachments';
+import { toProfile } from '@/lib/profiles';
+import { toTags } from '@/lib/tags';
+import { issueKeys } from '@/lib/query-keys';
+
+// Issue and timeline as one cached entry; status changes patch it optimistically
+export interface IssueDetailData {
+  issue: Issue;
+  updates: IssueUpdate[];
+}
+
+// Embeds on an RPC result are not typed by the client, so the shape is spelled out
+type IssueDetailRow = Tables<'issues'> & {
+  category: Tables<'issue_categories'> | null;
+  department: Tables<'departments'> | null;
+  assigned_user: Tables<'profiles'> | null;
+  tags: { tag: Tables<'tags'> | null }[];
+  watchers: (Tables<'issue_watchers'> & { user: Tables<'profiles'> | null })[];
+  updates: (Tables<'issue_updates'> & { author: Tables<'profiles'> | null })[];
+};
+
+export const useIssueDetail = (issueId: string | undefined) => {
+  // get_issue_detail is the only way to read the report and records the view in
+  // the same call; the embedded rows are read under their own RLS
+  const fetchIssue = async (): Promise<IssueDetailData | null> => {
+    const { data, error } = await supabase
+      .rpc('get_issue_detail', { p_issue_id: issueId })
+      .select(`
+        *,
+        category:issue_categories(*),
+        department:departments(*),
+        assigned_user:profiles!assigned_to(*),
+        tags:issue_tags(tag:tags(*)),
+        watchers:issue_watchers(
+          *,
+          user:profiles!user_id(*)
+        ),
+        updates:issue_updates!issue_updates_issue_id_fkey(
+          *,
+          author:profiles!created_by(*)
+        )
+      `)
+      .maybeSingle()
+      .overrideTypes<IssueDetailRow, { merge: false }>();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    // Timeline is rendered oldest first
+    const updates: IssueUpdate[] = (data.updates || [])
+      .map((update) => ({
+        ...update,
+        update_type: update.update_type as IssueUpdate['update_type'],
+        is_public: update.is_public ?? true,
+        merged_from_id: update.merged_from_id ?? undefined,
+        author: toProfile(update.author),
+      }))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+    const { updates: _updates, ...issueData } = data;
+    const issue: Issue = {
+      ...issueData,
+      severity: data.severity as Issue['severity'],
+      status: data.status as Issue['status'],
+      attachments: toAttachments(data.attachments),
+      metadata: typeof data.metadata === 'object' ? data.metadata as Issue['metadata'] : {},
+      assigned_user: toProfile(data.assigned_user),
+      tags: toTags(data.tags),
+      watchers: (data.watchers || []).map((watcher) => ({
+        ...watcher,
+        routing_rule_id: watcher.routing_rule_id ?? undefined,
+        user: toProfile(watcher.user),
+      })),
+    };
+
+    return { issue, updates };
+  };
+
+  // Empty unless the caller is a case handler on this issue
+  const fetchConflicts = async (): Promise<IssueConflict[]> => {
+    const { data, error } = await supabase.rpc('get_issue_conflicts', { p_issue_id: issueId });
+
+    if (error) throw error;
+    return (data || []).map((conflict) => ({
+      ...conflict,
+      relation: conflict.relation as IssueConflict['relation'],
+    }));
+  };
+
+  const detailQuery = useQuery({
+    queryKey: issueKeys.detail(issueId ?? ''),
+    queryFn: fetchIssue,
+    enabled: !!issueId,
+    meta: { errorTitle: "Error loading issue" },
+  });
+
+  const conflictsQuery = useQuery({
+    queryKey: issueKeys.conflicts(issueId ?? ''),
+    queryFn: fetchConflicts,
+    enabled: !!issueId,
+    meta: { errorTitle: "Error loading conflicts of interest" },
+  });
+
+  // Attachments live in a private bucket; links are short-lived
+  const openAttachment = async (attachment: IssueAttachment) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from('issue-attachments')
+        .createSignedUrl(attachment.path, 60);
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      toast({
+        title: "Could not open attachment",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const refetch = async () => {
+    await Promise.all([detailQuery.refetch(), conflictsQuery.refetch()]);
+  };
+
+  const issue = detailQuery.data?.issue ?? null;
+
+  return {
+    issue,
+    updates: detailQuery.data?.updates ?? [],
+    conflicts: conflictsQuery.data ?? [],
+    loading: !!issueId && (detailQuery.isPending || conflictsQuery.isPending),
+    openAttachment,
+    refetch,
+  };
+};
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueLink, IssueLinkType, IssueStatus } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { issueKeys } from '@/lib/query-keys';
+
+interface NewIssueLink {
+  issueId: string;
+  linkedIssueId: string;
+  linkType: IssueLinkType;
+}
+
+interface IssueMerge {
+  primaryId: string;
+  issueIds: string[];
+  note?: string;
+}
+
+export interface IssueSplit {
+  issueId: string;
+  title: string;
+  description: string;
+  severity?: string;
+  attachmentIds: string[];
+  note?: string;
+}
+
+type LinkedIssueRow = { id: string; title: string; status: string; merged_into_id: string | null } | null;
+
+const toLinkedIssue = (row: LinkedIssueRow) =>
+  row ? { ...row, status: row.status as IssueStatus, merged_into_id: row.merged_into_id ?? undefined } : undefined;
+
+// Links from and to one issue, for case handlers; both sides must be visible to the viewer
+export const useIssueLinks = (issueId: string | undefined, enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const linksQuery = useQuery({
+    queryKey: issueKeys.links(issueId ?? ''),
+    queryFn: async (): Promise<IssueLink[]> => {
+      const { data, error } = await supabase
+        .from('issue_links')
+        .select(`
+          *,
+          issue:issues!issue_links_issue_id_fkey(id, title, status, merged_into_id),
+          linked_issue:issues!issue_links_linked_issue_id_fkey(id, title, status, merged_into_id)
+        `)
+        .or(`issue_id.eq.${issueId},linked_issue_id.eq.${issueId}`)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []).map((link) => ({
+        ...link,
+        link_type: link.link_type as IssueLinkType,
+        created_by: link.created_by ?? undefined,
+        issue: toLinkedIssue(link.issue),
+        linked_issue: toLinkedIssue(link.linked_issue),
+      }));
+    },
+    enabled: enabled && !!issueId,
+    meta: { errorTitle: "Error loading linked issues" },
+  });
+
+  // Linking changes which suggestions apply, so they are refreshed too
+  const invalidateLinks = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: [...issueKeys.all, 'links'] }),
+    queryClient.invalidateQueries({ queryKey: [...issueKeys.all, 'similar'] }),
+  ]);
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ issueId, linkedIssueId, linkType }: NewIssueLink) => {
+      const { error } = await supabase
+        .from('issue_links')
+        .insert({ issue_id: issueId, linked_issue_id: linkedIssueId, link_type: linkType });
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateLinks(),
+    meta: { errorTitle: "Error linking issues" },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const { error } = await supabase
+        .from('issue_links')
+        .delete()
+        .eq('id', linkId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateLinks(),
+    meta: { errorTitle: "Error removing link" },
+  });
+
+  // The duplicates are closed and the primary takes on their content, so every view changes
+  const mergeMutation = useMutation({
+    mutationFn: async ({ primaryId, issueIds, note }: IssueMerge) => {
+      const { error } = await supabase.rpc('merge_issues', {
+        p_primary_id: primaryId,
+        p_issue_ids: issueIds,
+        p_note: note,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Issues merged",
+        description: "The duplicate has been combined into the primary case. Its reporter can still follow progress with their tracking token.",
+      });
+
+      return queryClient.invalidateQueries({ queryKey: issueKeys.all });
+    },
+    meta: { errorTitle: "Issues not merged" },
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async ({ issueId, title, description, severity, attachmentIds, note }: IssueSplit) => {
+      const { data, error } = await supabase.rpc('split_issue', {
+        p_issue_id: issueId,
+        p_title: title,
+        p_description: description,
+        p_severity: severity,
+        p_attachment_ids: attachmentIds,
+        p_note: note,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Issue split",
+        description: "A new case has been opened and linked to this one.",
+      });
+
+      return queryClient.invalidateQueries({ queryKey: issueKeys.all });
+    },
+    meta: { errorTitle: "Issue not split" },
+  });
+
+  return {
+    links: linksQuery.data ?? [],
+    loading: enabled && !!issueId && linksQuery.isPending,
+    linkIssues: (link: NewIssueLink) => linkMutation.mutateAsync(link),
+    unlinkIssue: (linkId: string) => unlinkMutation.mutateAsync(linkId),
+    mergeIssues: (primaryId: string, issueIds: string[], note?: string) =>
+      mergeMutation.mutateAsync({ primaryId, issueIds, note }),
+    splitIssue: (split: IssueSplit) => splitMutation.mutateAsync(split),
+  };
+};
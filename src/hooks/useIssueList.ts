@@ -0,0 +1,140 @@
+import { useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { CategoryField, Issue, IssueSummary } from '@/types/database';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { toTags } from '@/lib/tags';
+import { ISSUE_PAGE_SIZE, IssueListFilters, IssueListSort } from '@/lib/issue-list';
+import { issueKeys } from '@/lib/query-keys';
+
+export const FILTER_DELAY_MS = 250;
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Custom field text is matched literally, so LIKE wildcards typed by the user are escaped
+const toContainsPattern = (term: string) => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+export interface IssuePageQuery {
+  filters: IssueListFilters;
+  sort: IssueListSort;
+  page: number;
+  pageSize: number;
+  // Comma-separated keys of text custom fields, which match substrings
+  textFieldKeys: string;
+}
+
+// One page of the issues RLS lets the caller see, filtered and sorted by the database.
+// The summaries leave out the report itself, which only get_issue_detail returns.
+export const fetchIssuePage = async ({ filters, sort, page, pageSize, textFieldKeys }: IssuePageQuery) => {
+  let query = supabase
+    .from('issue_summaries')
+    .select(`
+      *,
+      category:issue_categories(*),
+      department:departments(*),
+      assigned_user:profiles!assigned_to(*),
+      tags:issue_tags(tag:tags(*)),
+      issue_search_index!inner(issue_id)
+    `, { count: 'exact' })
+    .order(sort.column, { ascending: sort.ascending })
+    .order('id')
+    .range((page - 1) * pageSize, page * pageSize - 1);
+
+  // Free text goes through the full-text index, which also covers metadata and public
+  // updates. Every issue has an index row, so the inner join never drops one.
+  const search = filters.search?.trim();
+  if (search) {
+    query = query.textSearch('issue_search_index.document', search, { type: 'websearch', config: 'english' });
+  }
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.severity) query = query.eq('severity', filters.severity);
+  if (filters.categoryId) query = query.eq('category_id', filters.categoryId);
+  if (filters.departmentId) query = query.eq('department_id', filters.departmentId);
+  if (filters.assigneeId === 'none') {
+    query = query.is('assigned_to', null);
+  } else if (filters.assigneeId === 'me') {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return { issues: [] as IssueSummary[], total: 0 };
+    query = query.eq('assigned_to', session.user.id);
+  } else if (filters.assigneeId) {
+    query = query.eq('assigned_to', filters.assigneeId);
+  }
+  // issue_tag_ids is computed per issue by the database
+  if (filters.tagId) query = query.filter('issue_tag_ids', 'cs', `{${filters.tagId}}`);
+  if (filters.unresolved) query = query.not('status', 'in', '(resolved,closed)');
+  if (filters.slaBreaching) query = query.filter('is_breaching_sla', 'is', true);
+  if (filters.awaitingReporter) query = query.filter('is_awaiting_reporter', 'is', true);
+  if (filters.from) query = query.gte('created_at', startOfDay(parseISO(filters.from)).toISOString());
+  if (filters.to) query = query.lte('created_at', endOfDay(parseISO(filters.to)).toISOString());
+
+  // Text custom fields match substrings; every other type must match exactly
+  Object.entries(filters.categoryId ? filters.fields : {}).forEach(([key, value]) => {
+    const filter = value.trim();
+    if (!filter || !FIELD_KEY_PATTERN.test(key)) return;
+    const column = `metadata->custom_fields->>${key}`;
+    query = textFieldKeys.split(',').includes(key)
+      ? query.filter(column, 'ilike', toContainsPattern(filter))
+      : query.filter(column, 'eq', filter);
+  });
+
+  const { data, error, count } = await query;
+
+  if (error) throw error;
+
+  return {
+    issues: (data || []).map(({ issue_search_index: _index, ...item }) => ({
+      ...item,
+      severity: item.severity as Issue['severity'],
+      status: item.status as Issue['status'],
+      metadata: (item.metadata || {}) as Issue['metadata'],
+      tags: toTags(item.tags),
+      assigned_user: item.assigned_user ? {
+        ...item.assigned_user,
+        department: typeof item.assigned_user.department === 'object' ? item.assigned_user.department : undefined
+      } : undefined,
+    })) as IssueSummary[],
+    total: count ?? 0,
+  };
+};
+
+// Compared by value so a new fields array on every render does not refetch
+export const getTextFieldKeys = (customFields: CategoryField[]) =>
+  customFields
+    .filter((field) => field.field_type === 'text')
+    .map((field) => field.field_key)
+    .join(',');
+
+export const useIssueList = (
+  filters: IssueListFilters,
+  sort: IssueListSort,
+  page: number,
+  { customFields = [], pageSize = ISSUE_PAGE_SIZE }: { customFields?: CategoryField[]; pageSize?: number } = {}
+) => {
+  const textFieldKeys = getTextFieldKeys(customFields);
+
+  // Follows the inputs after a short pause so typing sends one request. Compared as JSON
+  // so callers may pass new objects on every render.
+  const debouncedKey = useDebouncedValue(JSON.stringify({ filters, sort, page }), FILTER_DELAY_MS);
+  const { filters: debouncedFilters, sort: debouncedSort, page: debouncedPage } = useMemo(
+    () => JSON.parse(debouncedKey) as { filters: IssueListFilters; sort: IssueListSort; page: number },
+    [debouncedKey]
+  );
+
+  const query = { filters: debouncedFilters, sort: debouncedSort, page: debouncedPage, pageSize, textFieldKeys };
+
+  const { data, isPending, isFetching, refetch } = useQuery({
+    queryKey: issueKeys.list(query),
+    queryFn: () => fetchIssuePage(query),
+    // Keeps the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error loading issues" },
+  });
+
+  return {
+    issues: data?.issues ?? [],
+    total: data?.total ?? 0,
+    loading: isPending,
+    fetching: isFetching,
+    refetch,
+  };
+};
@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueMessage } from '@/types/database';
+import { useAuth } from '@/hooks/useAuth';
+import { toProfile } from '@/lib/profiles';
+import { issueKeys } from '@/lib/query-keys';
+
+// Staff side of the reporter thread
+export const useIssueMessages = (issueId: string | undefined) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const messagesQuery = useQuery({
+    queryKey: issueKeys.messages(issueId ?? ''),
+    queryFn: async (): Promise<IssueMessage[]> => {
+      const { data, error } = await supabase
+        .from('issue_messages')
+        .select(`
+          *,
+          author:profiles!created_by(*)
+        `)
+        .eq('issue_id', issueId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      return (data || []).map((message) => ({
+        ...message,
+        sender_type: message.sender_type as IssueMessage['sender_type'],
+        author: toProfile(message.author),
+      }));
+    },
+    enabled: !!issueId,
+    meta: { errorTitle: "Error loading messages" },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const { error } = await supabase
+        .from('issue_messages')
+        .insert([{
+          issue_id: issueId,
+          sender_type: 'staff',
+          body: body.trim(),
+          created_by: user.id,
+        }]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: issueKeys.messages(issueId ?? '') }),
+    meta: { errorTitle: "Message not sent" },
+  });
+
+  const sendMessage = async (body: string) => {
+    if (!issueId || !user) return;
+    await sendMutation.mutateAsync(body);
+  };
+
+  return {
+    messages: messagesQuery.data ?? [],
+    loading: !!issueId && messagesQuery.isPending,
+    sendMessage,
+    refetch: messagesQuery.refetch,
+  };
+};
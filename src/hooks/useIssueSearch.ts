@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueSearchResult } from '@/types/database';
+
+const SEARCH_DELAY_MS = 250;
+
+// Ranked full-text matches among the issues the caller can view, optionally narrowed to one tag
+export const useIssueSearch = (query: string, limit = 20, tagId?: string) => {
+  const [results, setResults] = useState<IssueSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const search = query.trim();
+    if (search.length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const { data, error } = await supabase.rpc('search_issues', { p_query: search, p_limit: limit, p_tag_id: tagId });
+
+        if (error) throw error;
+        if (!cancelled) setResults((data || []) as IssueSearchResult[]);
+      } catch (error) {
+        console.error('Error searching issues:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, limit, tagId]);
+
+  return { results, loading };
+};
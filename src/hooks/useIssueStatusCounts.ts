@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueStatus } from '@/types/database';
+import { issueKeys } from '@/lib/query-keys';
+
+// Issues per status across everything the caller can see
+export const useIssueStatusCounts = () => {
+  const { data, isPending, refetch } = useQuery({
+    queryKey: issueKeys.statusCounts(),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_issue_status_counts');
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((row) => [row.status, row.count])) as Partial<Record<IssueStatus, number>>;
+    },
+    meta: { errorTitle: "Error loading status counts" },
+  });
+
+  return {
+    counts: data ?? {},
+    loading: isPending,
+    refetch,
+  };
+};
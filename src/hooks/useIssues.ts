@@ -1,258 +1,335 @@
-import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryKey } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Issue, IssueCategory, Department } from '@/types/database';
+import type { Json } from '@/integrations/supabase/types';
+import { BulkIssueChanges, BulkUpdateResult, Issue, IssueStatus, IssueStatusTransition, IssueSummary, TrackedIssue } from '@/types/database';
 import { toast } from '@/hooks/use-toast';
+import type { IssueDetailData } from '@/hooks/useIssueDetail';
+import type { IssueBoardData } from '@/hooks/useIssueBoard';
+import { validateStatusTransition } from '@/lib/issue-status';
+import { downloadFile, toIssuesCsv } from '@/lib/issue-export';
+import { issueKeys, taxonomyKeys } from '@/lib/query-keys';
 
-// Type for database response
-interface DatabaseIssue {
-  id: string;
-  title: string;
-  description: string;
-  category_id: string;
-  department_id?: string;
-  severity: string;
-  status: string;
-  anonymous_token: string;
-  reporter_id?: string;
-  assigned_to?: string;
-  location?: string;
-  attachments: any;
-  metadata: any;
-  created_at: string;
-  updated_at: string;
-  resolved_at?: string;
-  category?: IssueCategory;
-  department?: Department;
-  assigned_user?: any;
+interface IssueListData {
+  issues: IssueSummary[];
+  total: number;
 }
 
-export const useIssues = () => {
-  const [issues, setIssues] = useState<Issue[]>([]);
-  const [categories, setCategories] = useState<IssueCategory[]>([]);
-  const [departments, setDepartments] = useState<Department[]>([]);
-  const [loading, setLoading] = useState(true);
+interface StatusChange {
+  issueId: string;
+  status: IssueStatus;
+  options: { note?: string; isPublic?: boolean };
+}
 
-  const fetchIssues = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('issues')
-        .select(`
-          *,
-          category:issue_categories(*),
-          department:departments(*),
-          assigned_user:profiles!assigned_to(*)
-        `)
-        .order('created_at', { ascending: false });
+interface BulkUpdate {
+  issueIds: string[];
+  changes: BulkIssueChanges;
+  options: { note?: string; isPublic?: boolean };
+}
 
-      if (error) throw error;
-      
-      // Transform database response to proper types
-      const transformedIssues: Issue[] = (data || []).map((item: DatabaseIssue) => ({
-        ...item,
-        severity: item.severity as Issue['severity'],
-        status: item.status as Issue['status'],
-        attachments: Array.isArray(item.attachments) ? item.attachments : [],
-        metadata: item.metadata || {},
-      }));
-      
-      setIssues(transformedIssues);
-    } catch (error: any) {
-      console.error('Error fetching issues:', error);
-      toast({
-        title: "Error loading issues",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  };
+interface Assignment {
+  issueId: string;
+  assigneeId: string | null;
+  options: { note?: string; isPublic?: boolean; overrideReason?: string };
+}
 
-  const fetchCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('issue_categories')
-        .select('*')
-        .order('name');
+const fetchCategories = async () => {
+  const { data, error } = await supabase
+    .from('issue_categories')
+    .select('*')
+    .is('archived_at', null)
+    .order('sort_order')
+    .order('name');
 
-      if (error) throw error;
-      setCategories(data || []);
-    } catch (error: any) {
-      console.error('Error fetching categories:', error);
-    }
-  };
+  if (error) throw error;
+  return data || [];
+};
 
-  const fetchDepartments = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('departments')
-        .select('*')
-        .order('name');
+const fetchDepartments = async () => {
+  const { data, error } = await supabase
+    .from('departments')
+    .select('*')
+    .is('archived_at', null)
+    .order('sort_order')
+    .order('name');
 
-      if (error) throw error;
-      setDepartments(data || []);
-    } catch (error: any) {
-      console.error('Error fetching departments:', error);
-    }
-  };
+  if (error) throw error;
+  return data || [];
+};
 
-  const createIssue = async (issueData: Partial<Issue>) => {
-    try {
-      // Generate anonymous token
-      const { data: tokenData, error: tokenError } = await supabase
-        .rpc('generate_anonymous_token');
-
-      if (tokenError) throw tokenError;
-
-      // Prepare data for database insert
-      const insertData = {
-        title: issueData.title!,
-        description: issueData.description!,
-        category_id: issueData.category_id,
-        department_id: issueData.department_id,
-        severity: issueData.severity!,
-        location: issueData.location,
-        anonymous_token: tokenData,
-      };
+export const fetchStatusTransitions = async (): Promise<IssueStatusTransition[]> => {
+  const { data, error } = await supabase
+    .from('issue_status_transitions')
+    .select('*');
 
-      const { data, error } = await supabase
-        .from('issues')
-        .insert([insertData])
-        .select(`
-          *,
-          category:issue_categories(*),
-          department:departments(*)
-        `)
-        .single();
+  if (error) throw error;
+  return (data || []).map((transition) => ({
+    ...transition,
+    from_status: transition.from_status as IssueStatus,
+    to_status: transition.to_status as IssueStatus,
+  }));
+};
 
-      if (error) throw error;
+// Categories, departments and transitions change rarely, so every page shares one cached copy
+const TAXONOMY_STALE_MS = 5 * 60_000;
+
+export const useIssues = () => {
+  const queryClient = useQueryClient();
+
+  const categoriesQuery = useQuery({
+    queryKey: taxonomyKeys.categories,
+    queryFn: fetchCategories,
+    staleTime: TAXONOMY_STALE_MS,
+    meta: { errorTitle: "Error loading categories" },
+  });
+
+  const departmentsQuery = useQuery({
+    queryKey: taxonomyKeys.departments,
+    queryFn: fetchDepartments,
+    staleTime: TAXONOMY_STALE_MS,
+    meta: { errorTitle: "Error loading departments" },
+  });
+
+  const statusTransitionsQuery = useQuery({
+    queryKey: taxonomyKeys.statusTransitions,
+    queryFn: fetchStatusTransitions,
+    staleTime: TAXONOMY_STALE_MS,
+    meta: { errorTitle: "Error loading status transitions" },
+  });
+
+  const statusTransitions = statusTransitionsQuery.data ?? [];
 
-      // Transform response
-      const transformedIssue: Issue = {
-        ...data,
-        severity: data.severity as Issue['severity'],
-        status: data.status as Issue['status'],
-        attachments: Array.isArray(data.attachments) ? data.attachments : [],
-        metadata: typeof data.metadata === 'object' ? data.metadata as Record<string, any> : {},
-      };
+  // Lists, counts and details all derive from issues, so any change refreshes the whole family
+  const invalidateIssues = () => queryClient.invalidateQueries({ queryKey: issueKeys.all });
 
-      // Store the anonymous token for tracking
-      localStorage.setItem(`issue_token_${data.id}`, tokenData);
+  // The raw tracking token is returned once by submit_issue and only its
+  // salted hash is stored, so the caller must show it to the reporter
+  const createMutation = useMutation({
+    mutationFn: async ({ issueData, anonymous, excludedUserIds }: {
+      issueData: Partial<Issue>;
+      anonymous: boolean;
+      excludedUserIds: string[];
+    }) => {
+      const { data, error } = await supabase.rpc('submit_issue', {
+        p_title: issueData.title!,
+        p_description: issueData.description!,
+        p_severity: issueData.severity!,
+        p_category_id: issueData.category_id,
+        p_department_id: issueData.department_id,
+        p_location: issueData.location,
+        p_metadata: issueData.metadata ?? {},
+        p_anonymous: anonymous,
+        p_excluded_user_ids: excludedUserIds,
+      });
+
+      if (error) throw error;
 
-      setIssues(prev => [transformedIssue, ...prev]);
-      
+      const { issue_id: issueId, token } = data as { issue_id: string; token: string };
+      return { issueId, token };
+    },
+    // The token is shown once by TrackingTokenNotice and never kept on the device
+    onSuccess: ({ token }) => {
       toast({
         title: "Issue reported successfully",
-        description: `Your anonymous tracking ID is: ${tokenData.slice(-8)}`,
+        description: `Your anonymous tracking ID ends in: ${token.slice(-8)}`,
       });
 
-      return { issue: transformedIssue, token: tokenData };
-    } catch (error: any) {
-      console.error('Error creating issue:', error);
+      return invalidateIssues();
+    },
+    meta: { errorTitle: "Error reporting issue" },
+  });
+
+  // Status and assignment go through the workflow actions below so that every
+  // change is recorded in issue_updates
+  const updateMutation = useMutation({
+    mutationFn: async ({ issueId, updates }: {
+      issueId: string;
+      updates: Omit<Partial<Issue>, 'status' | 'assigned_to' | 'resolved_at' | 'attachments'>;
+    }) => {
+      // Nothing is read back: the report fields are only returned by get_issue_detail
+      const { error } = await supabase
+        .from('issues')
+        .update(updates)
+        .eq('id', issueId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
       toast({
-        title: "Error reporting issue",
-        description: error.message,
-        variant: "destructive",
+        title: "Issue updated successfully",
       });
-      throw error;
-    }
-  };
 
-  const updateIssue = async (issueId: string, updates: Partial<Issue>) => {
-    try {
-      const { data, error } = await supabase
+      return invalidateIssues();
+    },
+    meta: { errorTitle: "Error updating issue" },
+  });
+
+  // Applied to the cache straight away and rolled back if the server refuses
+  const statusMutation = useMutation({
+    mutationFn: async ({ issueId, status, options }: StatusChange) => {
+      const { error } = await supabase.rpc('change_issue_status', {
+        p_issue_id: issueId,
+        p_new_status: status,
+        p_note: options.note,
+        p_is_public: options.isPublic ?? true,
+      });
+
+      if (error) throw error;
+    },
+    onMutate: async ({ issueId, status, options }) => {
+      // Checked before touching the cache for a clear message; change_issue_status enforces the same rules
+      const cached = queryClient.getQueryData<IssueDetailData | null>(issueKeys.detail(issueId));
+      const currentStatus = cached?.issue.status ?? (await supabase
         .from('issues')
-        .update(updates)
+        .select('status')
         .eq('id', issueId)
-        .select(`
-          *,
-          category:issue_categories(*),
-          department:departments(*),
-          assigned_user:profiles!assigned_to(*)
-        `)
-        .single();
+        .maybeSingle()).data?.status as IssueStatus | undefined;
+      if (currentStatus) {
+        const validationError = validateStatusTransition(statusTransitions, currentStatus, status, options.note);
+        if (validationError) throw new Error(validationError);
+      }
 
-      if (error) throw error;
+      await queryClient.cancelQueries({ queryKey: issueKeys.all });
+
+      const previous: [QueryKey, unknown][] = [
+        ...queryClient.getQueriesData({ queryKey: issueKeys.details() }),
+        ...queryClient.getQueriesData({ queryKey: issueKeys.lists() }),
+        ...queryClient.getQueriesData({ queryKey: issueKeys.boards() }),
+      ];
 
-      // Transform response
-      const transformedIssue: Issue = {
-        ...data,
-        severity: data.severity as Issue['severity'],
-        status: data.status as Issue['status'],
-        attachments: Array.isArray(data.attachments) ? data.attachments : [],
-        metadata: typeof data.metadata === 'object' ? data.metadata as Record<string, any> : {},
-        assigned_user: data.assigned_user ? {
-          ...data.assigned_user,
-          department: typeof data.assigned_user.department === 'object' ? data.assigned_user.department : undefined
-        } : undefined,
-      };
-
-      setIssues(prev => prev.map(issue => 
-        issue.id === issueId ? transformedIssue : issue
-      ));
+      const withStatus = (issue: Issue): Issue => (issue.id === issueId ? { ...issue, status } : issue);
+      queryClient.setQueryData<IssueDetailData | null>(issueKeys.detail(issueId), (data) =>
+        data ? { ...data, issue: withStatus(data.issue) } : data
+      );
+      queryClient.setQueriesData<IssueListData>({ queryKey: issueKeys.lists() }, (data) =>
+        data ? { ...data, issues: data.issues.map(withStatus) } : data
+      );
+      // Boards group cards by status, so the card changes column and both column counts follow
+      queryClient.setQueriesData<IssueBoardData>({ queryKey: issueKeys.boards() }, (data) => {
+        const moved = data?.issues.find((issue) => issue.id === issueId);
+        if (!moved || moved.status === status) return data;
+
+        return {
+          issues: data.issues.map(withStatus),
+          totals: {
+            ...data.totals,
+            [moved.status]: Math.max((data.totals[moved.status] ?? 1) - 1, 0),
+            [status]: (data.totals[status] ?? 0) + 1,
+          },
+        };
+      });
 
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([key, data]) => queryClient.setQueryData<unknown>(key, data));
+    },
+    onSuccess: (_data, { status }) => {
       toast({
-        title: "Issue updated successfully",
+        title: status === 'resolved' ? "Issue resolved" : "Status updated",
+      });
+    },
+    onSettled: () => invalidateIssues(),
+    meta: { errorTitle: "Error updating status" },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ issueId, assigneeId, options }: Assignment) => {
+      const { error } = await supabase.rpc('assign_issue', {
+        p_issue_id: issueId,
+        p_assignee_id: assigneeId,
+        p_note: options.note,
+        p_is_public: options.isPublic ?? false,
+        p_override_reason: options.overrideReason,
       });
 
-      return transformedIssue;
-    } catch (error: any) {
-      console.error('Error updating issue:', error);
+      if (error) throw error;
+    },
+    onSuccess: (_data, { assigneeId }) => {
       toast({
-        title: "Error updating issue",
-        description: error.message,
-        variant: "destructive",
+        title: assigneeId ? "Issue assigned" : "Assignment removed",
       });
-      throw error;
-    }
-  };
 
-  const trackIssueByToken = async (token: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('issues')
-        .select(`
-          *,
-          category:issue_categories(*),
-          department:departments(*),
-          updates:issue_updates(*)
-        `)
-        .eq('anonymous_token', token)
-        .single();
+      return invalidateIssues();
+    },
+    meta: { errorTitle: "Error assigning issue" },
+  });
+
+  // Issues that fail are reported in the results rather than failing the whole call
+  const bulkMutation = useMutation({
+    mutationFn: async ({ issueIds, changes, options }: BulkUpdate) => {
+      const { data, error } = await supabase.rpc('bulk_update_issues', {
+        p_issue_ids: issueIds,
+        p_changes: changes as Json,
+        p_note: options.note,
+        p_is_public: options.isPublic ?? false,
+      });
 
       if (error) throw error;
-      return data;
-    } catch (error: any) {
-      console.error('Error tracking issue:', error);
+      return (data || []) as BulkUpdateResult[];
+    },
+    onSuccess: (results) => {
+      const updated = results.filter((result) => result.update_id).length;
+      const failed = results.filter((result) => result.error).length;
+
       toast({
-        title: "Issue not found",
-        description: "Please check your tracking token and try again.",
-        variant: "destructive",
+        title: updated === 1 ? "1 issue updated" : `${updated} issues updated`,
+        description: failed > 0 ? `${failed} could not be updated: ${results.find((result) => result.error)?.error}` : undefined,
+        variant: failed > 0 && updated === 0 ? "destructive" : "default",
       });
-      throw error;
-    }
-  };
 
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      await Promise.all([
-        fetchIssues(),
-        fetchCategories(),
-        fetchDepartments(),
-      ]);
-      setLoading(false);
-    };
+      return invalidateIssues();
+    },
+    meta: { errorTitle: "Error updating issues" },
+  });
+
+  // Recorded on the audit trail before the file is built, so no export goes unlogged
+  const exportMutation = useMutation({
+    mutationFn: async (issues: IssueSummary[]) => {
+      const { error } = await supabase.rpc('record_issue_export', {
+        p_issue_ids: issues.map((issue) => issue.id),
+        p_format: 'csv',
+      });
+
+      if (error) throw error;
+
+      downloadFile(`issues-${new Date().toISOString().slice(0, 10)}.csv`, toIssuesCsv(issues), 'text/csv;charset=utf-8');
+    },
+    meta: { errorTitle: "Error exporting issues" },
+  });
+
+  // Reporters look their case up by token, so nothing is cached between lookups
+  const trackMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const { data, error } = await supabase
+        .rpc('track_issue_by_token', { p_token: token.trim() });
+
+      if (error) throw error;
+      if (!data) throw new Error('Invalid tracking token');
 
-    loadData();
-  }, []);
+      return data as unknown as TrackedIssue;
+    },
+    meta: {
+      errorTitle: "Issue not found",
+      errorDescription: "Please check your tracking token and try again.",
+    },
+  });
 
   return {
-    issues,
-    categories,
-    departments,
-    loading,
-    createIssue,
-    updateIssue,
-    trackIssueByToken,
-    refetch: fetchIssues,
+    categories: categoriesQuery.data ?? [],
+    departments: departmentsQuery.data ?? [],
+    statusTransitions,
+    loading: categoriesQuery.isPending || departmentsQuery.isPending || statusTransitionsQuery.isPending,
+    createIssue: (issueData: Partial<Issue>, anonymous = true, excludedUserIds: string[] = []) =>
+      createMutation.mutateAsync({ issueData, anonymous, excludedUserIds }),
+    updateIssue: (issueId: string, updates: Omit<Partial<Issue>, 'status' | 'assigned_to' | 'resolved_at' | 'attachments'>) =>
+      updateMutation.mutateAsync({ issueId, updates }),
+    changeIssueStatus: (issueId: string, status: IssueStatus, options: StatusChange['options'] = {}) =>
+      statusMutation.mutateAsync({ issueId, status, options }),
+    assignIssue: (issueId: string, assigneeId: string | null, options: Assignment['options'] = {}) =>
+      assignMutation.mutateAsync({ issueId, assigneeId, options }),
+    trackIssueByToken: (token: string) => trackMutation.mutateAsync(token),
+    bulkUpdateIssues: (issueIds: string[], changes: BulkIssueChanges, options: BulkUpdate['options'] = {}) =>
+      bulkMutation.mutateAsync({ issueIds, changes, options }),
+    exportIssues: (issues: IssueSummary[]) => exportMutation.mutateAsync(issues),
   };
-};
\ No newline at end of file
+};
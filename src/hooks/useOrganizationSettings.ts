@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { OrganizationSettings } from '@/types/database';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export type OrganizationSettingsInput = Omit<OrganizationSettings, 'updated_at' | 'updated_by'>;
+
+export const useOrganizationSettings = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<OrganizationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('organization_settings')
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setSettings({
+        ...data,
+        support_email: data.support_email ?? undefined,
+        updated_by: data.updated_by ?? undefined,
+      });
+    } catch (error) {
+      console.error('Error fetching organization settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSettings = async (changes: OrganizationSettingsInput) => {
+    try {
+      const { error } = await supabase
+        .from('organization_settings')
+        .update({
+          ...changes,
+          support_email: changes.support_email?.trim() || null,
+          updated_by: user?.id ?? null,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      await fetchSettings();
+      toast({
+        title: "Organization settings saved",
+        description: "Changes apply to everyone in the organization.",
+      });
+    } catch (error) {
+      console.error('Error saving organization settings:', error);
+      toast({
+        title: "Error saving organization settings",
+        description: error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  return {
+    settings,
+    loading,
+    updateSettings,
+    refetch: fetchSettings,
+  };
+};
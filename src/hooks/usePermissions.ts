@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Permission } from '@/types/database';
+import { useAuth } from '@/hooks/useAuth';
+import { permissionKeys } from '@/lib/query-keys';
+
+const PERMISSIONS_STALE_MS = 5 * 60_000;
+
+const NO_PERMISSIONS: Permission[] = [];
+
+// Permissions of the signed-in user's role. Only used to hide actions; RLS
+// enforces the same matrix on the server. Keyed by user, so signing in as
+// someone else never reuses the previous user's permissions.
+export const usePermissions = () => {
+  const { user, loading: authLoading } = useAuth();
+
+  const { data: permissions = NO_PERMISSIONS, isPending } = useQuery({
+    queryKey: permissionKeys.mine(user?.id ?? ''),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_permissions');
+
+      if (error) throw error;
+      return (data || []) as Permission[];
+    },
+    enabled: !authLoading && !!user,
+    staleTime: PERMISSIONS_STALE_MS,
+    meta: { errorTitle: "Error loading permissions" },
+  });
+
+  const can = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
+  const canAny = useCallback(
+    (...required: Permission[]) => required.some((permission) => permissions.includes(permission)),
+    [permissions]
+  );
+
+  return {
+    permissions,
+    loading: authLoading || (!!user && isPending),
+    can,
+    canAny,
+  };
+};
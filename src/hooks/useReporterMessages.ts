@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueMessage } from '@/types/database';
+import { trackingKeys } from '@/lib/query-keys';
+
+// Reporter side of the thread, authorised only by the tracking token
+export const useReporterMessages = (token: string | null) => {
+  const queryClient = useQueryClient();
+
+  const messagesQuery = useQuery({
+    queryKey: trackingKeys.messages(token ?? ''),
+    queryFn: async (): Promise<IssueMessage[]> => {
+      const { data, error } = await supabase
+        .rpc('get_reporter_messages', { p_token: token });
+
+      if (error) throw error;
+
+      return (data || []).map((message) => ({
+        ...message,
+        issue_id: '',
+        sender_type: message.sender_type as IssueMessage['sender_type'],
+      }));
+    },
+    enabled: !!token,
+    meta: { errorTitle: "Error loading messages" },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const { error } = await supabase
+        .rpc('post_reporter_message', { p_token: token, p_body: body.trim() });
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: trackingKeys.messages(token ?? '') }),
+    // The server's message could reveal why the token was refused
+    meta: { errorTitle: "Message not sent", errorDescription: "Please try again in a moment." },
+  });
+
+  const sendMessage = async (body: string) => {
+    if (!token) return;
+    await sendMutation.mutateAsync(body);
+  };
+
+  return {
+    messages: messagesQuery.data ?? [],
+    loading: !!token && messagesQuery.isPending,
+    sendMessage,
+    refetch: messagesQuery.refetch,
+  };
+};
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueSeverity, RoutingRule } from '@/types/database';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export type RoutingRuleInput = Pick<
+  RoutingRule,
+  | 'name'
+  | 'description'
+  | 'stop_processing'
+  | 'category_ids'
+  | 'department_ids'
+  | 'severities'
+  | 'location_pattern'
+  | 'keywords'
+  | 'assign_to'
+  | 'set_department_id'
+  | 'raise_severity_to'
+  | 'watcher_ids'
+>;
+
+// Rules run in priority order when an issue is submitted; only administrators can read them
+export const useRoutingRules = () => {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('routing_rules')
+        .select('*')
+        .order('priority')
+        .order('created_at');
+
+      if (error) throw error;
+      setRules((data || []).map((rule) => ({
+        ...rule,
+        description: rule.description ?? undefined,
+        location_pattern: rule.location_pattern ?? undefined,
+        assign_to: rule.assign_to ?? undefined,
+        set_department_id: rule.set_department_id ?? undefined,
+        raise_severity_to: (rule.raise_severity_to ?? undefined) as IssueSeverity | undefined,
+        severities: rule.severities as IssueSeverity[],
+        created_by: rule.created_by ?? undefined,
+      })));
+    } catch (error) {
+      console.error('Error fetching routing rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveRule = async (input: RoutingRuleInput, id?: string) => {
+    // Listed explicitly so an edited rule's id, priority and timestamps are never written back
+    const values = {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      stop_processing: input.stop_processing,
+      category_ids: input.category_ids,
+      department_ids: input.department_ids,
+      severities: input.severities,
+      location_pattern: input.location_pattern?.trim() || null,
+      keywords: input.keywords.map((keyword) => keyword.trim()).filter(Boolean),
+      assign_to: input.assign_to || null,
+      set_department_id: input.set_department_id || null,
+      raise_severity_to: input.raise_severity_to || null,
+      watcher_ids: input.watcher_ids,
+    };
+
+    try {
+      const { error } = id
+        ? await supabase.from('routing_rules').update(values).eq('id', id)
+        : await supabase.from('routing_rules').insert([{
+            ...values,
+            priority: Math.max(0, ...rules.map((rule) => rule.priority)) + 1,
+            created_by: user?.id,
+          }]);
+
+      if (error) throw error;
+
+      await fetchRules();
+      toast({
+        title: "Routing rule saved",
+        description: `"${values.name}" applies to issues submitted from now on.`,
+      });
+    } catch (error) {
+      console.error('Error saving routing rule:', error);
+      toast({
+        title: "Routing rule not saved",
+        description: error.code === '23514' ? 'A rule needs at least one action.' : error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const setEnabled = async (rule: RoutingRule, enabled: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('routing_rules')
+        .update({ enabled })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+
+      await fetchRules();
+      toast({
+        title: enabled ? "Rule enabled" : "Rule disabled",
+        description: `"${rule.name}" ${enabled ? 'will route new issues' : 'no longer routes new issues'}.`,
+      });
+    } catch (error) {
+      console.error('Error updating routing rule:', error);
+      toast({
+        title: "Rule not updated",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Moves a rule up or down and renumbers every rule's priority
+  const moveRule = async (rule: RoutingRule, offset: number) => {
+    const index = rules.findIndex((candidate) => candidate.id === rule.id);
+    if (!rules[index + offset]) return;
+
+    const ordered = [...rules];
+    ordered.splice(index, 1);
+    ordered.splice(index + offset, 0, rule);
+
+    try {
+      const results = await Promise.all(ordered.map((candidate, position) =>
+        supabase.from('routing_rules').update({ priority: position + 1 }).eq('id', candidate.id)
+      ));
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      await fetchRules();
+    } catch (error) {
+      console.error('Error reordering routing rules:', error);
+      toast({
+        title: "Order not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRule = async (rule: RoutingRule) => {
+    try {
+      const { error } = await supabase
+        .from('routing_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+
+      await fetchRules();
+      toast({
+        title: "Routing rule deleted",
+        description: "Issues it already routed keep their assignments.",
+      });
+    } catch (error) {
+      console.error('Error deleting routing rule:', error);
+      toast({
+        title: "Routing rule not deleted",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return {
+    rules,
+    loading,
+    saveRule,
+    setEnabled,
+    moveRule,
+    deleteRule,
+    refetch: fetchRules,
+  };
+};
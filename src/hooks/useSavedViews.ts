@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SavedView, UserRole } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { savedViewKeys } from '@/lib/query-keys';
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'query' | 'shared_department_id' | 'shared_role'>;
+
+// The caller's own views plus any shared with their department or role
+export const useSavedViews = (enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const { data, isPending } = useQuery({
+    queryKey: savedViewKeys.all,
+    queryFn: async (): Promise<SavedView[]> => {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return (data || []).map((view) => ({
+        ...view,
+        shared_department_id: view.shared_department_id ?? undefined,
+        shared_role: (view.shared_role ?? undefined) as UserRole | undefined,
+      }));
+    },
+    enabled,
+    meta: { errorTitle: "Error loading saved views" },
+  });
+
+  const invalidateViews = () => queryClient.invalidateQueries({ queryKey: savedViewKeys.all });
+
+  // Sharing is all or nothing per view, so clearing one scope is sent explicitly
+  const toRow = ({ name, query, shared_department_id, shared_role }: SavedViewInput) => ({
+    name: name.trim(),
+    query,
+    shared_department_id: shared_department_id ?? null,
+    shared_role: shared_role ?? null,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (view: SavedViewInput) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('You must be signed in to save a view');
+
+      const { data, error } = await supabase
+        .from('saved_views')
+        .insert({ ...toRow(view), owner_id: session.user.id })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: () => {
+      toast({
+        title: "View saved",
+      });
+
+      return invalidateViews();
+    },
+    meta: { errorTitle: "Error saving view" },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, view }: { id: string; view: SavedViewInput }) => {
+      const { error } = await supabase
+        .from('saved_views')
+        .update(toRow(view))
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: "View updated",
+      });
+
+      return invalidateViews();
+    },
+    meta: { errorTitle: "Error updating view" },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: "View deleted",
+      });
+
+      return invalidateViews();
+    },
+    meta: { errorTitle: "Error deleting view" },
+  });
+
+  return {
+    views: data ?? [],
+    loading: isPending,
+    createView: (view: SavedViewInput) => createMutation.mutateAsync(view),
+    updateView: (id: string, view: SavedViewInput) => updateMutation.mutateAsync({ id, view }),
+    deleteView: (id: string) => deleteMutation.mutateAsync(id),
+  };
+};
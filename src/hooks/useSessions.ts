@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { UserSession } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+
+export const useSessions = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_my_sessions');
+
+      if (error) throw error;
+      setSessions((data || []).map((session) => ({
+        ...session,
+        user_agent: session.user_agent ?? undefined,
+        ip: session.ip ?? undefined,
+      })));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const revokeSession = async (sessionId: string) => {
+    try {
+      const { error } = await supabase.rpc('revoke_my_session', {
+        p_session_id: sessionId,
+      });
+
+      if (error) throw error;
+
+      await fetchSessions();
+      toast({
+        title: "Session signed out",
+        description: "That device will need to sign in again.",
+      });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast({
+        title: "Could not sign out session",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  return {
+    sessions,
+    loading,
+    revokeSession,
+    refetch: fetchSessions,
+  };
+};
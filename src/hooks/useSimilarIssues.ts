@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SimilarIssue } from '@/types/database';
+import { issueKeys } from '@/lib/query-keys';
+
+interface SimilarIssuesQuery {
+  title: string;
+  description: string;
+  // The issue being triaged, which would otherwise match itself
+  excludeId?: string;
+}
+
+const SIMILAR_STALE_MS = 60_000;
+
+// Likely duplicates. Case handlers get matches across the issues they can view;
+// reporters only their own earlier reports, and the check is never recorded.
+export const useSimilarIssues = (query: SimilarIssuesQuery, enabled = true, limit = 5) => {
+  const similarQuery = useQuery({
+    queryKey: issueKeys.similar(query),
+    queryFn: async (): Promise<SimilarIssue[]> => {
+      const { data, error } = await supabase.rpc('find_similar_issues', {
+        p_title: query.title,
+        p_description: query.description,
+        p_exclude_id: query.excludeId,
+        p_limit: limit,
+      });
+
+      if (error) throw error;
+      return (data || []) as SimilarIssue[];
+    },
+    enabled: enabled && query.title.trim().length > 0,
+    staleTime: SIMILAR_STALE_MS,
+    meta: { errorTitle: "Error checking for similar issues" },
+  });
+
+  return {
+    similar: similarQuery.data ?? [],
+    loading: similarQuery.isFetching,
+  };
+};
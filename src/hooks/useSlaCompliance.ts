@@ -0,0 +1,30 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SlaCompliance } from '@/types/database';
+import { getRangeDates } from '@/lib/analytics';
+import { issueKeys } from '@/lib/query-keys';
+
+export const useSlaCompliance = (range: string) => {
+  // Refreshed with the issue queries; the previous figures stay on screen while a new range loads
+  const { data, isPending, refetch } = useQuery({
+    queryKey: issueKeys.slaCompliance(range),
+    queryFn: async () => {
+      const { from, to } = getRangeDates(range);
+      const { data, error } = await supabase.rpc('get_sla_compliance', {
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+      });
+
+      if (error) throw error;
+      return data as unknown as SlaCompliance;
+    },
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error loading SLA compliance" },
+  });
+
+  return {
+    compliance: data ?? null,
+    loading: isPending,
+    refetch,
+  };
+};
@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SlaTarget } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { issueKeys, slaKeys } from '@/lib/query-keys';
+
+type SlaTargetChange = Pick<SlaTarget, 'severity' | 'first_response_hours' | 'resolution_hours'>;
+
+const NO_TARGETS: SlaTarget[] = [];
+
+const fetchTargets = async (): Promise<SlaTarget[]> => {
+  const { data, error } = await supabase
+    .from('sla_targets')
+    .select('*');
+
+  if (error) throw error;
+  return (data || []).map((target) => ({
+    ...target,
+    severity: target.severity as SlaTarget['severity'],
+  }));
+};
+
+export const useSlaTargets = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isPending, refetch } = useQuery({
+    queryKey: slaKeys.targets,
+    queryFn: fetchTargets,
+    meta: { errorTitle: "Error loading SLA targets" },
+  });
+
+  // Breach flags and compliance figures are computed from the targets, so issue queries refresh too
+  const updateMutation = useMutation({
+    mutationFn: async (changes: SlaTargetChange[]) => {
+      const { error } = await supabase
+        .from('sla_targets')
+        .upsert(changes);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: "SLA targets saved",
+        description: "New targets apply to compliance reporting immediately.",
+      });
+
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: slaKeys.targets }),
+        queryClient.invalidateQueries({ queryKey: issueKeys.all }),
+      ]);
+    },
+    meta: { errorTitle: "Error saving SLA targets" },
+  });
+
+  return {
+    targets: data ?? NO_TARGETS,
+    loading: isPending,
+    updateTargets: updateMutation.mutateAsync,
+    refetch,
+  };
+};
@@ -0,0 +1,41 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Profile } from '@/types/database';
+import { staffKeys } from '@/lib/query-keys';
+
+// Staff change rarely, so every assignee picker shares one cached copy
+const STAFF_STALE_MS = 5 * 60_000;
+
+const fetchStaff = async (): Promise<Profile[]> => {
+  // Anyone whose role can triage can be assigned cases
+  const { data: roles, error: rolesError } = await supabase
+    .from('role_permissions')
+    .select('role')
+    .eq('permission', 'triage');
+
+  if (rolesError) throw rolesError;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('role', (roles || []).map((row) => row.role))
+    .order('display_name');
+
+  if (error) throw error;
+
+  return (data || []).map((profile) => ({
+    ...profile,
+    department: undefined,
+  }));
+};
+
+export const useStaffMembers = () => {
+  const { data, isPending } = useQuery({
+    queryKey: staffKeys.all,
+    queryFn: fetchStaff,
+    staleTime: STAFF_STALE_MS,
+    meta: { errorTitle: "Error loading staff members" },
+  });
+
+  return { staff: data ?? [], loading: isPending };
+};
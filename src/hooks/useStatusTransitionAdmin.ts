@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { IssueStatus, IssueStatusTransition } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { fetchStatusTransitions } from '@/hooks/useIssues';
+import { getStatusLabel } from '@/lib/issue-status';
+import { taxonomyKeys } from '@/lib/query-keys';
+
+export type StatusTransitionInput = Pick<IssueStatusTransition, 'from_status' | 'to_status' | 'label' | 'requires_note' | 'note_label'>;
+
+const describe = (from: IssueStatus, to: IssueStatus) => `${getStatusLabel(from)} → ${getStatusLabel(to)}`;
+
+// The transition table for the admin console. It shares its cache with the status
+// menus, so an edit applies to the next status change without a reload; the
+// database enforces the same table on every change.
+export const useStatusTransitionAdmin = () => {
+  const queryClient = useQueryClient();
+
+  const transitionsQuery = useQuery({
+    queryKey: taxonomyKeys.statusTransitions,
+    queryFn: fetchStatusTransitions,
+    meta: { errorTitle: "Error loading status transitions" },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: taxonomyKeys.statusTransitions });
+
+  // A transition is identified by its statuses, so editing one keeps them and changes the rest
+  const saveMutation = useMutation({
+    mutationFn: async ({ input, existing }: { input: StatusTransitionInput; existing: boolean }) => {
+      const values = {
+        label: input.label.trim(),
+        requires_note: input.requires_note,
+        note_label: input.requires_note ? input.note_label?.trim() || null : null,
+      };
+      const { error } = existing
+        ? await supabase
+          .from('issue_status_transitions')
+          .update(values)
+          .eq('from_status', input.from_status)
+          .eq('to_status', input.to_status)
+        : await supabase
+          .from('issue_status_transitions')
+          .insert({ ...values, from_status: input.from_status, to_status: input.to_status });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { input, existing }) => {
+      toast({
+        title: "Transition saved",
+        description: `${describe(input.from_status, input.to_status)} has been ${existing ? 'updated' : 'allowed'}.`,
+      });
+
+      return refresh();
+    },
+    meta: { errorTitle: "Transition not saved" },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ from, to }: { from: IssueStatus; to: IssueStatus }) => {
+      const { error } = await supabase
+        .from('issue_status_transitions')
+        .delete()
+        .eq('from_status', from)
+        .eq('to_status', to);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { from, to }) => {
+      toast({
+        title: "Transition removed",
+        description: `Issues can no longer move from ${getStatusLabel(from)} to ${getStatusLabel(to)}.`,
+      });
+
+      return refresh();
+    },
+    meta: { errorTitle: "Transition not removed" },
+  });
+
+  return {
+    transitions: transitionsQuery.data ?? [],
+    loading: transitionsQuery.isPending,
+    saveTransition: (input: StatusTransitionInput, existing: boolean) => saveMutation.mutateAsync({ input, existing }),
+    deleteTransition: (from: IssueStatus, to: IssueStatus) => deleteMutation.mutateAsync({ from, to }),
+  };
+};
@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { issueKeys, tagKeys } from '@/lib/query-keys';
+
+export interface TagInput {
+  name: string;
+  color: string;
+  is_curated: boolean;
+}
+
+// Issue counts per tag across all issues, for the admin console
+export const useTagAdmin = () => {
+  const queryClient = useQueryClient();
+
+  const usageQuery = useQuery({
+    queryKey: tagKeys.usage(),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_tag_usage');
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((row) => [row.tag_id, row.issue_count])) as Record<string, number>;
+    },
+    meta: { errorTitle: "Error loading tag usage" },
+  });
+
+  // Issues show tag names and colors, so they are refreshed along with the tags
+  const refresh = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: tagKeys.all }),
+    queryClient.invalidateQueries({ queryKey: issueKeys.all }),
+  ]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ input, id }: { input: TagInput; id?: string }) => {
+      const values = { ...input, name: input.name.trim() };
+      const { error } = id
+        ? await supabase.from('tags').update(values).eq('id', id)
+        : await supabase.from('tags').insert(values);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { input, id }) => {
+      toast({
+        title: "Tag saved",
+        description: id ? `Every issue tagged "${input.name.trim()}" shows the change.` : `"${input.name.trim()}" has been created.`,
+      });
+
+      return refresh();
+    },
+    meta: { errorTitle: "Tag not saved" },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { data, error } = await supabase.rpc('merge_tags', { p_source_id: sourceId, p_target_id: targetId });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (moved) => {
+      toast({
+        title: "Tags merged",
+        description: moved === 1 ? "1 issue has been retagged." : `${moved} issues have been retagged.`,
+      });
+
+      return refresh();
+    },
+    meta: { errorTitle: "Tags not merged" },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('tags').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tag deleted",
+        description: "It has been removed from every issue.",
+      });
+
+      return refresh();
+    },
+    meta: { errorTitle: "Tag not deleted" },
+  });
+
+  return {
+    usage: usageQuery.data ?? {},
+    loading: usageQuery.isPending,
+    saveTag: (input: TagInput, id?: string) => saveMutation.mutateAsync({ input, id }),
+    mergeTags: (sourceId: string, targetId: string) => mergeMutation.mutateAsync({ sourceId, targetId }),
+    deleteTag: (id: string) => deleteMutation.mutateAsync(id),
+  };
+};
@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tag } from '@/types/database';
+import { issueKeys, tagKeys } from '@/lib/query-keys';
+
+interface IssueTagChange {
+  issueId: string;
+  tagId: string;
+}
+
+const TAGS_STALE_MS = 60_000;
+
+const fetchTags = async (): Promise<Tag[]> => {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map((tag) => ({ ...tag, created_by: tag.created_by ?? undefined }));
+};
+
+// Tags for pickers and filters, and tagging of single issues. Only case handlers
+// can see tags, so callers pass enabled = false for everyone else.
+export const useTags = (enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const tagsQuery = useQuery({
+    queryKey: tagKeys.list(),
+    queryFn: fetchTags,
+    staleTime: TAGS_STALE_MS,
+    enabled,
+    meta: { errorTitle: "Error loading tags" },
+  });
+
+  // Free-form tags; the database refuses them when the organization only allows curated ones
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({ name: name.trim() })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return { ...data, created_by: data.created_by ?? undefined } as Tag;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: tagKeys.all }),
+    meta: { errorTitle: "Error creating tag" },
+  });
+
+  const invalidateIssue = (issueId: string) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: issueKeys.detail(issueId) }),
+    queryClient.invalidateQueries({ queryKey: issueKeys.lists() }),
+    queryClient.invalidateQueries({ queryKey: issueKeys.boards() }),
+  ]);
+
+  const tagMutation = useMutation({
+    mutationFn: async ({ issueId, tagId }: IssueTagChange) => {
+      const { error } = await supabase
+        .from('issue_tags')
+        .insert({ issue_id: issueId, tag_id: tagId });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { issueId }) => invalidateIssue(issueId),
+    meta: { errorTitle: "Error adding tag" },
+  });
+
+  const untagMutation = useMutation({
+    mutationFn: async ({ issueId, tagId }: IssueTagChange) => {
+      const { error } = await supabase
+        .from('issue_tags')
+        .delete()
+        .eq('issue_id', issueId)
+        .eq('tag_id', tagId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { issueId }) => invalidateIssue(issueId),
+    meta: { errorTitle: "Error removing tag" },
+  });
+
+  // Reuses an existing tag of the same name, ignoring case, before creating one
+  const findOrCreateTag = async (name: string) => {
+    const existing = (tagsQuery.data ?? []).find((tag) => tag.name.toLowerCase() === name.trim().toLowerCase());
+    return existing ?? createMutation.mutateAsync(name);
+  };
+
+  return {
+    tags: tagsQuery.data ?? [],
+    loading: enabled && tagsQuery.isPending,
+    findOrCreateTag,
+    tagIssue: (issueId: string, tagId: string) => tagMutation.mutateAsync({ issueId, tagId }),
+    untagIssue: (issueId: string, tagId: string) => untagMutation.mutateAsync({ issueId, tagId }),
+  };
+};
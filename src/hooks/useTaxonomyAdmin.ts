@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Department, IssueCategory, TaxonomyUsage } from '@/types/database';
+import { toast } from '@/hooks/use-toast';
+import { issueKeys, taxonomyKeys } from '@/lib/query-keys';
+
+export type TaxonomyKind = TaxonomyUsage['kind'];
+
+export interface TaxonomyInput {
+  name: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+}
+
+const LABELS: Record<TaxonomyKind, string> = {
+  department: 'Department',
+  category: 'Category',
+};
+
+// Departments and categories including archived ones, with reference counts
+export const useTaxonomyAdmin = () => {
+  const queryClient = useQueryClient();
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [categories, setCategories] = useState<IssueCategory[]>([]);
+  const [usage, setUsage] = useState<Record<string, TaxonomyUsage>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [departmentsResult, categoriesResult, usageResult] = await Promise.all([
+        supabase.from('departments').select('*').order('sort_order').order('name'),
+        supabase.from('issue_categories').select('*').order('sort_order').order('name'),
+        supabase.rpc('get_taxonomy_usage'),
+      ]);
+
+      if (departmentsResult.error) throw departmentsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (usageResult.error) throw usageResult.error;
+
+      setDepartments(departmentsResult.data || []);
+      setCategories(categoriesResult.data || []);
+      setUsage(Object.fromEntries(
+        (usageResult.data || []).map((row) => [row.id, { ...row, kind: row.kind as TaxonomyKind }])
+      ));
+    } catch (error) {
+      console.error('Error fetching departments and categories:', error);
+      toast({
+        title: "Error loading departments and categories",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Runs a mutation, reports failures and reloads everything on success
+  const run = async (action: () => PromiseLike<{ error: unknown }>, title: string, description: string) => {
+    try {
+      const { error } = await action();
+      if (error) throw error;
+
+      await fetchAll();
+      // Pickers elsewhere read the cached active lists; merges also move issues
+      queryClient.invalidateQueries({ queryKey: taxonomyKeys.departments });
+      queryClient.invalidateQueries({ queryKey: taxonomyKeys.categories });
+      queryClient.invalidateQueries({ queryKey: issueKeys.all });
+      toast({ title, description });
+    } catch (error) {
+      console.error(`${title} failed:`, error);
+      toast({
+        title: "Change not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const save = (kind: TaxonomyKind, input: TaxonomyInput, id?: string) => {
+    const values = {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+    };
+    const list = kind === 'department' ? departments : categories;
+    const sortOrder = Math.max(0, ...list.map((item) => item.sort_order)) + 1;
+
+    const action = () => {
+      if (kind === 'department') {
+        return id
+          ? supabase.from('departments').update(values).eq('id', id)
+          : supabase.from('departments').insert([{ ...values, sort_order: sortOrder }]);
+      }
+
+      const categoryValues = { ...values, color: input.color, icon: input.icon };
+      return id
+        ? supabase.from('issue_categories').update(categoryValues).eq('id', id)
+        : supabase.from('issue_categories').insert([{ ...categoryValues, sort_order: sortOrder }]);
+    };
+
+    return run(action, `${LABELS[kind]} saved`, `"${values.name}" has been ${id ? 'updated' : 'created'}.`);
+  };
+
+  const setArchived = (kind: TaxonomyKind, id: string, archived: boolean) => {
+    const values = { archived_at: archived ? new Date().toISOString() : null };
+    const action = () => kind === 'department'
+      ? supabase.from('departments').update(values).eq('id', id)
+      : supabase.from('issue_categories').update(values).eq('id', id);
+
+    return run(
+      action,
+      archived ? `${LABELS[kind]} archived` : `${LABELS[kind]} restored`,
+      archived ? 'It is no longer offered for new reports.' : 'It is offered for new reports again.'
+    );
+  };
+
+  const reorder = (kind: TaxonomyKind, ids: string[]) => {
+    const action = () => kind === 'department'
+      ? supabase.rpc('reorder_departments', { p_ids: ids })
+      : supabase.rpc('reorder_issue_categories', { p_ids: ids });
+
+    return run(action, 'Order saved', 'The new order applies to all forms and filters.');
+  };
+
+  const merge = (kind: TaxonomyKind, sourceId: string, targetId: string) => {
+    const action = () => kind === 'department'
+      ? supabase.rpc('merge_departments', { p_source_id: sourceId, p_target_id: targetId })
+      : supabase.rpc('merge_issue_categories', { p_source_id: sourceId, p_target_id: targetId });
+
+    return run(action, `${LABELS[kind]} merged`, 'Existing issues have been reassigned.');
+  };
+
+  const remove = (kind: TaxonomyKind, id: string) => {
+    const action = () => kind === 'department'
+      ? supabase.from('departments').delete().eq('id', id)
+      : supabase.from('issue_categories').delete().eq('id', id);
+
+    return run(action, `${LABELS[kind]} deleted`, 'It has been removed permanently.');
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  return {
+    departments,
+    categories,
+    usage,
+    loading,
+    save,
+    setArchived,
+    reorder,
+    merge,
+    remove,
+    refetch: fetchAll,
+  };
+};
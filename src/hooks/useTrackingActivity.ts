@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Replies and status changes usually arrive together, so one refresh covers the burst
+const REFRESH_DELAY_MS = 500;
+
+// Calls onActivity when staff change a tracked case. The broadcast topic is only handed
+// out for a valid token and its messages carry no content, so the caller fetches again by token.
+export const useTrackingActivity = (token: string | null, onActivity: () => void) => {
+  const onActivityRef = useRef(onActivity);
+  onActivityRef.current = onActivity;
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let channel: ReturnType<typeof supabase.channel> | undefined;
+
+    const subscribe = async () => {
+      const { data: topic, error } = await supabase.rpc('get_tracking_channel', { p_token: token });
+
+      if (error) {
+        console.error('Error subscribing to tracking updates:', error);
+        return;
+      }
+      if (!topic || cancelled) return;
+
+      channel = supabase
+        .channel(topic)
+        .on('broadcast', { event: 'activity' }, () => {
+          clearTimeout(timer);
+          timer = setTimeout(() => onActivityRef.current(), REFRESH_DELAY_MS);
+        })
+        .subscribe();
+    };
+
+    subscribe();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [token]);
+};
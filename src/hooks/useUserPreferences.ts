@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ThemePreference, UserPreferences } from '@/types/database';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { EditablePreferences } from '@/lib/preferences';
+
+type PreferencesRow = {
+  [K in keyof UserPreferences]: UserPreferences[K] extends string | undefined ? string | null : UserPreferences[K];
+};
+
+const toPreferences = (row: PreferencesRow): UserPreferences => ({
+  ...row,
+  theme: row.theme as ThemePreference,
+  language: row.language ?? undefined,
+  time_zone: row.time_zone ?? undefined,
+});
+
+// preferences stays null until the user saves for the first time
+export const useUserPreferences = () => {
+  const { user, loading: authLoading } = useAuth();
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setPreferences(null);
+      setLoading(false);
+      return;
+    }
+
+    const fetchPreferences = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('user_preferences')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        setPreferences(data ? toPreferences(data) : null);
+      } catch (error) {
+        console.error('Error fetching preferences:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, [user, authLoading]);
+
+  const updatePreferences = useCallback(async (changes: Partial<EditablePreferences>) => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: user.id,
+          ...changes,
+          // An explicit undefined resets the value to the organization default
+          language: ('language' in changes ? changes.language : preferences?.language) ?? null,
+          time_zone: ('time_zone' in changes ? changes.time_zone : preferences?.time_zone) ?? null,
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setPreferences(toPreferences(data));
+
+      toast({
+        title: "Preferences saved",
+        description: "Your preferences have been updated.",
+      });
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+      toast({
+        title: "Error saving preferences",
+        description: error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  }, [user, preferences]);
+
+  return {
+    preferences,
+    loading,
+    updatePreferences,
+  };
+};
@@ -20,21 +20,33 @@ export type Database = {
           expires_at: string
           id: string
           issue_id: string
-          token: string
+          realtime_topic: string
+          token_hash: string
+          token_salt: string
+          token_selector: string
+          upload_prefix: string
         }
         Insert: {
           created_at?: string
           expires_at?: string
           id?: string
           issue_id: string
-          token: string
+          realtime_topic?: string
+          token_hash: string
+          token_salt: string
+          token_selector: string
+          upload_prefix?: string
         }
         Update: {
           created_at?: string
           expires_at?: string
           id?: string
           issue_id?: string
-          token?: string
+          realtime_topic?: string
+          token_hash?: string
+          token_salt?: string
+          token_selector?: string
+          upload_prefix?: string
         }
         Relationships: [
           {
@@ -44,8 +56,57 @@ export type Database = {
             referencedRelation: "issues"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "anonymous_tokens_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      audit_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_role: string | null
+          client_info: Json | null
+          details: Json
+          hash: string
+          id: number
+          occurred_at: string
+          prev_hash: string | null
+          target_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_role?: string | null
+          client_info?: Json | null
+          details?: Json
+          hash: string
+          id?: number
+          occurred_at: string
+          prev_hash?: string | null
+          target_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_role?: string | null
+          client_info?: Json | null
+          details?: Json
+          hash?: string
+          id?: number
+          occurred_at?: string
+          prev_hash?: string | null
+          target_id?: string | null
+          target_type?: string
+        }
+        Relationships: []
+      }
       buildings: {
         Row: {
           address: string
@@ -82,6 +143,56 @@ export type Database = {
         }
         Relationships: []
       }
+      category_fields: {
+        Row: {
+          category_id: string
+          created_at: string
+          field_key: string
+          field_type: string
+          help_text: string | null
+          id: string
+          label: string
+          options: string[]
+          required: boolean
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          field_key: string
+          field_type: string
+          help_text?: string | null
+          id?: string
+          label: string
+          options?: string[]
+          required?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          field_key?: string
+          field_type?: string
+          help_text?: string | null
+          id?: string
+          label?: string
+          options?: string[]
+          required?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_fields_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "issue_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       class_sections: {
         Row: {
           building_id: string | null
@@ -190,22 +301,31 @@ export type Database = {
       }
       departments: {
         Row: {
+          archived_at: string | null
           created_at: string
           description: string | null
           id: string
           name: string
+          sort_order: number
+          updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           description?: string | null
           id?: string
           name: string
+          sort_order?: number
+          updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           description?: string | null
           id?: string
           name?: string
+          sort_order?: number
+          updated_at?: string
         }
         Relationships: []
       }
@@ -319,254 +439,1425 @@ export type Database = {
       }
       issue_categories: {
         Row: {
-          color: string | null
+          archived_at: string | null
+          color: string
           created_at: string
           description: string | null
-          icon: string | null
+          icon: string
           id: string
           name: string
+          sort_order: number
+          updated_at: string
         }
         Insert: {
-          color?: string | null
+          archived_at?: string | null
+          color?: string
           created_at?: string
           description?: string | null
-          icon?: string | null
+          icon?: string
           id?: string
           name: string
+          sort_order?: number
+          updated_at?: string
         }
         Update: {
-          color?: string | null
+          archived_at?: string | null
+          color?: string
           created_at?: string
           description?: string | null
-          icon?: string | null
+          icon?: string
           id?: string
           name?: string
+          sort_order?: number
+          updated_at?: string
         }
         Relationships: []
       }
-      issue_updates: {
+      issue_exclusion_overrides: {
         Row: {
-          content: string
           created_at: string
-          created_by: string | null
-          id: string
-          is_public: boolean | null
           issue_id: string
-          new_status: string | null
-          old_status: string | null
-          update_type: string
+          overridden_by: string | null
+          reason: string
+          user_id: string
         }
         Insert: {
-          content: string
           created_at?: string
-          created_by?: string | null
-          id?: string
-          is_public?: boolean | null
           issue_id: string
-          new_status?: string | null
-          old_status?: string | null
-          update_type: string
+          overridden_by?: string | null
+          reason: string
+          user_id: string
         }
         Update: {
-          content?: string
           created_at?: string
-          created_by?: string | null
-          id?: string
-          is_public?: boolean | null
           issue_id?: string
-          new_status?: string | null
-          old_status?: string | null
-          update_type?: string
+          overridden_by?: string | null
+          reason?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "issue_updates_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "issue_exclusion_overrides_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_exclusion_overrides_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_exclusion_overrides_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+        ]
+      }
+      issue_exclusions: {
+        Row: {
+          created_at: string
+          issue_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          issue_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          issue_id?: string
+          user_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "issue_updates_issue_id_fkey"
+            foreignKeyName: "issue_exclusions_issue_id_fkey"
             columns: ["issue_id"]
             isOneToOne: false
             referencedRelation: "issues"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "issue_exclusions_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_exclusions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
-      issues: {
+      issue_links: {
         Row: {
-          anonymous_token: string
-          assigned_to: string | null
-          attachments: Json | null
-          category_id: string | null
           created_at: string
-          department_id: string | null
-          description: string
+          created_by: string | null
           id: string
-          location: string | null
-          metadata: Json | null
-          reporter_id: string | null
-          resolved_at: string | null
-          severity: string
-          status: string
-          title: string
-          updated_at: string
+          issue_id: string
+          link_type: string
+          linked_issue_id: string
         }
         Insert: {
-          anonymous_token: string
-          assigned_to?: string | null
-          attachments?: Json | null
-          category_id?: string | null
           created_at?: string
-          department_id?: string | null
-          description: string
+          created_by?: string | null
           id?: string
-          location?: string | null
-          metadata?: Json | null
-          reporter_id?: string | null
-          resolved_at?: string | null
-          severity: string
-          status?: string
-          title: string
-          updated_at?: string
+          issue_id: string
+          link_type: string
+          linked_issue_id: string
         }
         Update: {
-          anonymous_token?: string
-          assigned_to?: string | null
-          attachments?: Json | null
-          category_id?: string | null
           created_at?: string
-          department_id?: string | null
-          description?: string
+          created_by?: string | null
           id?: string
-          location?: string | null
-          metadata?: Json | null
-          reporter_id?: string | null
-          resolved_at?: string | null
-          severity?: string
-          status?: string
-          title?: string
-          updated_at?: string
+          issue_id?: string
+          link_type?: string
+          linked_issue_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "issues_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "issue_links_issue_id_fkey"
+            columns: ["issue_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "issues_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "issue_links_issue_id_fkey"
+            columns: ["issue_id"]
             isOneToOne: false
-            referencedRelation: "issue_categories"
+            referencedRelation: "issue_summaries"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "issues_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "issue_links_linked_issue_id_fkey"
+            columns: ["linked_issue_id"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_links_linked_issue_id_fkey"
+            columns: ["linked_issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      issue_messages: {
         Row: {
-          avatar_url: string | null
-          company: string | null
+          body: string
           created_at: string
-          department: string | null
-          department_id: string | null
-          display_name: string | null
-          email: string
-          employee_id: string | null
-          first_name: string | null
-          graduation_year: number | null
+          created_by: string | null
           id: string
-          job_title: string | null
-          last_name: string | null
-          major: string | null
-          manager_id: string | null
-          phone: string | null
-          role: string
-          student_id: string | null
-          updated_at: string
-          user_id: string
+          issue_id: string
+          sender_type: string
         }
         Insert: {
-          avatar_url?: string | null
-          company?: string | null
+          body: string
           created_at?: string
-          department?: string | null
-          department_id?: string | null
-          display_name?: string | null
-          email: string
-          employee_id?: string | null
-          first_name?: string | null
-          graduation_year?: number | null
+          created_by?: string | null
           id?: string
-          job_title?: string | null
-          last_name?: string | null
-          major?: string | null
-          manager_id?: string | null
-          phone?: string | null
-          role: string
-          student_id?: string | null
-          updated_at?: string
-          user_id: string
+          issue_id: string
+          sender_type: string
         }
         Update: {
-          avatar_url?: string | null
-          company?: string | null
+          body?: string
           created_at?: string
-          department?: string | null
-          department_id?: string | null
-          display_name?: string | null
-          email?: string
-          employee_id?: string | null
-          first_name?: string | null
-          graduation_year?: number | null
+          created_by?: string | null
           id?: string
-          job_title?: string | null
-          last_name?: string | null
-          major?: string | null
-          manager_id?: string | null
-          phone?: string | null
-          role?: string
-          student_id?: string | null
-          updated_at?: string
-          user_id?: string
+          issue_id?: string
+          sender_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "issue_messages_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "issue_messages_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_manager_id_fkey"
-            columns: ["manager_id"]
+            foreignKeyName: "issue_messages_issue_id_fkey"
+            columns: ["issue_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      generate_anonymous_token: {
+      issue_search_index: {
+        Row: {
+          document: unknown
+          issue_id: string
+          updated_at: string
+        }
+        Insert: {
+          document: unknown
+          issue_id: string
+          updated_at?: string
+        }
+        Update: {
+          document?: unknown
+          issue_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_search_index_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: true
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_search_index_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: true
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_status_transitions: {
+        Row: {
+          created_at: string
+          from_status: string
+          label: string
+          note_label: string | null
+          requires_note: boolean
+          to_status: string
+        }
+        Insert: {
+          created_at?: string
+          from_status: string
+          label: string
+          note_label?: string | null
+          requires_note?: boolean
+          to_status: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string
+          label?: string
+          note_label?: string | null
+          requires_note?: boolean
+          to_status?: string
+        }
+        Relationships: []
+      }
+      issue_tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          issue_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          issue_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          issue_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_tags_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_tags_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_updates: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_public: boolean | null
+          issue_id: string
+          merged_from_id: string | null
+          new_status: string | null
+          old_status: string | null
+          update_type: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_public?: boolean | null
+          issue_id: string
+          merged_from_id?: string | null
+          new_status?: string | null
+          old_status?: string | null
+          update_type: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_public?: boolean | null
+          issue_id?: string
+          merged_from_id?: string | null
+          new_status?: string | null
+          old_status?: string | null
+          update_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_updates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "issue_updates_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_updates_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_updates_merged_from_id_fkey"
+            columns: ["merged_from_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_updates_merged_from_id_fkey"
+            columns: ["merged_from_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_watchers: {
+        Row: {
+          created_at: string
+          issue_id: string
+          routing_rule_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          issue_id: string
+          routing_rule_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          issue_id?: string
+          routing_rule_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_watchers_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_watchers_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_watchers_routing_rule_id_fkey"
+            columns: ["routing_rule_id"]
+            isOneToOne: false
+            referencedRelation: "routing_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_watchers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      issues: {
+        Row: {
+          assigned_to: string | null
+          attachments: Json
+          category_id: string | null
+          created_at: string
+          department_id: string | null
+          description: string
+          first_response_at: string | null
+          id: string
+          location: string | null
+          merged_into_id: string | null
+          metadata: Json | null
+          reporter_id: string | null
+          resolved_at: string | null
+          severity: string
+          severity_order: number | null
+          split_from_id: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          attachments?: Json
+          category_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          description: string
+          first_response_at?: string | null
+          id?: string
+          location?: string | null
+          merged_into_id?: string | null
+          metadata?: Json | null
+          reporter_id?: string | null
+          resolved_at?: string | null
+          severity: string
+          severity_order?: never
+          split_from_id?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          attachments?: Json
+          category_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          description?: string
+          first_response_at?: string | null
+          id?: string
+          location?: string | null
+          merged_into_id?: string | null
+          metadata?: Json | null
+          reporter_id?: string | null
+          resolved_at?: string | null
+          severity?: string
+          severity_order?: never
+          split_from_id?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issues_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "issues_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "issue_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_split_from_id_fkey"
+            columns: ["split_from_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_split_from_id_fkey"
+            columns: ["split_from_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_settings: {
+        Row: {
+          allow_free_form_tags: boolean
+          default_language: string
+          default_time_zone: string
+          id: boolean
+          organization_name: string
+          support_email: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          allow_free_form_tags?: boolean
+          default_language?: string
+          default_time_zone?: string
+          id?: boolean
+          organization_name?: string
+          support_email?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          allow_free_form_tags?: boolean
+          default_language?: string
+          default_time_zone?: string
+          id?: boolean
+          organization_name?: string
+          support_email?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          company: string | null
+          created_at: string
+          department: string | null
+          department_id: string | null
+          display_name: string | null
+          email: string
+          employee_id: string | null
+          first_name: string | null
+          graduation_year: number | null
+          id: string
+          job_title: string | null
+          last_name: string | null
+          major: string | null
+          manager_id: string | null
+          phone: string | null
+          role: string
+          student_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          company?: string | null
+          created_at?: string
+          department?: string | null
+          department_id?: string | null
+          display_name?: string | null
+          email: string
+          employee_id?: string | null
+          first_name?: string | null
+          graduation_year?: number | null
+          id?: string
+          job_title?: string | null
+          last_name?: string | null
+          major?: string | null
+          manager_id?: string | null
+          phone?: string | null
+          role: string
+          student_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          company?: string | null
+          created_at?: string
+          department?: string | null
+          department_id?: string | null
+          display_name?: string | null
+          email?: string
+          employee_id?: string | null
+          first_name?: string | null
+          graduation_year?: number | null
+          id?: string
+          job_title?: string | null
+          last_name?: string | null
+          major?: string | null
+          manager_id?: string | null
+          phone?: string | null
+          role?: string
+          student_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      routing_rules: {
+        Row: {
+          assign_to: string | null
+          category_ids: string[]
+          created_at: string
+          created_by: string | null
+          department_ids: string[]
+          description: string | null
+          enabled: boolean
+          id: string
+          keywords: string[]
+          location_pattern: string | null
+          name: string
+          priority: number
+          raise_severity_to: string | null
+          set_department_id: string | null
+          severities: string[]
+          stop_processing: boolean
+          updated_at: string
+          watcher_ids: string[]
+        }
+        Insert: {
+          assign_to?: string | null
+          category_ids?: string[]
+          created_at?: string
+          created_by?: string | null
+          department_ids?: string[]
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          keywords?: string[]
+          location_pattern?: string | null
+          name: string
+          priority?: number
+          raise_severity_to?: string | null
+          set_department_id?: string | null
+          severities?: string[]
+          stop_processing?: boolean
+          updated_at?: string
+          watcher_ids?: string[]
+        }
+        Update: {
+          assign_to?: string | null
+          category_ids?: string[]
+          created_at?: string
+          created_by?: string | null
+          department_ids?: string[]
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          keywords?: string[]
+          location_pattern?: string | null
+          name?: string
+          priority?: number
+          raise_severity_to?: string | null
+          set_department_id?: string | null
+          severities?: string[]
+          stop_processing?: boolean
+          updated_at?: string
+          watcher_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_rules_assign_to_fkey"
+            columns: ["assign_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "routing_rules_set_department_id_fkey"
+            columns: ["set_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          query: string
+          shared_department_id: string | null
+          shared_role: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          query?: string
+          shared_department_id?: string | null
+          shared_role?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          query?: string
+          shared_department_id?: string | null
+          shared_role?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_shared_department_id_fkey"
+            columns: ["shared_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_targets: {
+        Row: {
+          first_response_hours: number
+          resolution_hours: number
+          severity: string
+          updated_at: string
+        }
+        Insert: {
+          first_response_hours: number
+          resolution_hours: number
+          severity: string
+          updated_at?: string
+        }
+        Update: {
+          first_response_hours?: number
+          resolution_hours?: number
+          severity?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_curated: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_curated?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_curated?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_preferences: {
+        Row: {
+          created_at: string
+          language: string | null
+          notify_assignment: boolean
+          notify_messages: boolean
+          notify_status_change: boolean
+          notify_weekly_digest: boolean
+          theme: string
+          time_zone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          language?: string | null
+          notify_assignment?: boolean
+          notify_messages?: boolean
+          notify_status_change?: boolean
+          notify_weekly_digest?: boolean
+          theme?: string
+          time_zone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          language?: string | null
+          notify_assignment?: boolean
+          notify_messages?: boolean
+          notify_status_change?: boolean
+          notify_weekly_digest?: boolean
+          theme?: string
+          time_zone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      issue_summaries: {
+        Row: {
+          assigned_to: string | null
+          category_id: string | null
+          created_at: string | null
+          department_id: string | null
+          first_response_at: string | null
+          id: string | null
+          merged_into_id: string | null
+          metadata: Json | null
+          reporter_id: string | null
+          resolved_at: string | null
+          severity: string | null
+          severity_order: number | null
+          split_from_id: string | null
+          status: string | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issues_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "issues_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "issue_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_split_from_id_fkey"
+            columns: ["split_from_id"]
+            isOneToOne: false
+            referencedRelation: "issues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issues_split_from_id_fkey"
+            columns: ["split_from_id"]
+            isOneToOne: false
+            referencedRelation: "issue_summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      add_issue_attachment: {
+        Args: {
+          p_path: string
+          p_token: string
+        }
+        Returns: string
+      }
+      assign_issue: {
+        Args: {
+          p_assignee_id: string
+          p_is_public?: boolean
+          p_issue_id: string
+          p_note?: string
+          p_override_reason?: string
+        }
+        Returns: string
+      }
+      audit_as_anonymous: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      audit_event_hash: {
+        Args: {
+          p_event: Database["public"]["Tables"]["audit_events"]["Row"]
+        }
+        Returns: string
+      }
+      bulk_update_issues: {
+        Args: {
+          p_issue_ids: string[]
+          p_changes: Json
+          p_note?: string
+          p_is_public?: boolean
+        }
+        Returns: {
+          error: string
+          issue_id: string
+          update_id: string
+        }[]
+      }
+      can_read_attachment: {
+        Args: {
+          p_path: string
+        }
+        Returns: boolean
+      }
+      can_view_issue: {
+        Args: {
+          p_issue_id: string
+        }
+        Returns: boolean
+      }
+      change_issue_status: {
+        Args: {
+          p_is_public?: boolean
+          p_issue_id: string
+          p_new_status: string
+          p_note?: string
+        }
+        Returns: string
+      }
+      current_user_department_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      find_similar_issues: {
+        Args: {
+          p_description?: string
+          p_exclude_id?: string
+          p_limit?: number
+          p_title: string
+        }
+        Returns: {
+          created_at: string
+          issue_id: string
+          score: number
+          severity: string
+          status: string
+          title: string
+        }[]
+      }
+      get_attachment_upload_prefix: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      get_issue_analytics: {
+        Args: {
+          p_bucket: string
+          p_category_id?: string
+          p_department_id?: string
+          p_from: string
+          p_severity?: string
+          p_tag_id?: string
+          p_to: string
+        }
+        Returns: Json
+      }
+      get_issue_detail: {
+        Args: {
+          p_issue_id: string
+        }
+        Returns: {
+          assigned_to: string | null
+          attachments: Json
+          category_id: string | null
+          created_at: string
+          department_id: string | null
+          description: string
+          first_response_at: string | null
+          id: string
+          location: string | null
+          merged_into_id: string | null
+          metadata: Json | null
+          reporter_id: string | null
+          resolved_at: string | null
+          severity: string
+          severity_order: number | null
+          split_from_id: string | null
+          status: string
+          title: string
+          updated_at: string
+        }[]
+      }
+      get_issue_status_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          count: number
+          status: string
+        }[]
+      }
+      get_issue_conflicts: {
+        Args: {
+          p_issue_id: string
+        }
+        Returns: {
+          display_name: string
+          overridden: boolean
+          relation: string
+          user_id: string
+        }[]
+      }
+      get_my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          id: string
+          ip: string
+          is_current: boolean
+          updated_at: string
+          user_agent: string
+        }[]
+      }
+      get_pending_attachment_issue: {
+        Args: {
+          p_path: string
+          p_token: string
+        }
+        Returns: string
+      }
+      get_reporter_messages: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          body: string
+          created_at: string
+          id: string
+          sender_type: string
+        }[]
+      }
+      get_sla_compliance: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: Json
+      }
+      get_tag_usage: {
         Args: Record<PropertyKey, never>
+        Returns: {
+          issue_count: number
+          tag_id: string
+        }[]
+      }
+      get_taxonomy_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          issue_count: number
+          kind: string
+          profile_count: number
+        }[]
+      }
+      get_tracking_channel: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      has_issue_conflict: {
+        Args: {
+          p_issue_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      is_attachment_upload_prefix: {
+        Args: {
+          p_prefix: string
+        }
+        Returns: boolean
+      }
+      is_awaiting_reporter: {
+        Args:
+          | {
+              p_issue: Database["public"]["Tables"]["issues"]["Row"]
+            }
+          | {
+              p_issue: Database["public"]["Views"]["issue_summaries"]["Row"]
+            }
+        Returns: boolean
+      }
+      is_breaching_sla: {
+        Args:
+          | {
+              p_issue: Database["public"]["Tables"]["issues"]["Row"]
+            }
+          | {
+              p_issue: Database["public"]["Views"]["issue_summaries"]["Row"]
+            }
+        Returns: boolean
+      }
+      issue_conflict_user_ids: {
+        Args: {
+          p_issue_id: string
+        }
+        Returns: {
+          relation: string
+          user_id: string
+        }[]
+      }
+      issue_tag_ids: {
+        Args:
+          | {
+              p_issue: Database["public"]["Tables"]["issues"]["Row"]
+            }
+          | {
+              p_issue: Database["public"]["Views"]["issue_summaries"]["Row"]
+            }
+        Returns: string[]
+      }
+      merge_departments: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: number
+      }
+      merge_issue_categories: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: number
+      }
+      merge_issues: {
+        Args: {
+          p_issue_ids: string[]
+          p_note?: string
+          p_primary_id: string
+        }
+        Returns: undefined
+      }
+      merge_tags: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: number
+      }
+      post_reporter_message: {
+        Args: {
+          p_body: string
+          p_token: string
+        }
+        Returns: string
+      }
+      record_attachment_scan: {
+        Args: {
+          p_issue_id: string
+          p_path: string
+          p_verdict: string
+        }
+        Returns: undefined
+      }
+      record_audit_event: {
+        Args: {
+          p_action: string
+          p_details?: Json
+          p_target_id: string
+          p_target_type: string
+        }
+        Returns: number
+      }
+      record_issue_export: {
+        Args: {
+          p_format: string
+          p_issue_ids: string[]
+        }
+        Returns: undefined
+      }
+      record_issue_view: {
+        Args: {
+          p_issue_id: string
+        }
+        Returns: undefined
+      }
+      refresh_issue_search_index: {
+        Args: {
+          p_issue_id: string
+        }
+        Returns: undefined
+      }
+      reorder_departments: {
+        Args: {
+          p_ids: string[]
+        }
+        Returns: undefined
+      }
+      reorder_issue_categories: {
+        Args: {
+          p_ids: string[]
+        }
+        Returns: undefined
+      }
+      resolve_tracking_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      revoke_my_session: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: undefined
+      }
+      search_exclusion_candidates: {
+        Args: {
+          p_query: string
+        }
+        Returns: {
+          department_name: string
+          display_name: string
+          user_id: string
+        }[]
+      }
+      search_issues: {
+        Args: {
+          p_limit?: number
+          p_query: string
+          p_tag_id?: string
+        }
+        Returns: {
+          created_at: string
+          issue_id: string
+          rank: number
+          severity: string
+          snippet: string
+          status: string
+          title: string
+          title_highlight: string
+        }[]
+      }
+      severity_rank: {
+        Args: {
+          p_severity: string
+        }
+        Returns: number
+      }
+      split_issue: {
+        Args: {
+          p_attachment_ids?: string[]
+          p_description: string
+          p_issue_id: string
+          p_note?: string
+          p_severity?: string
+          p_title: string
+        }
         Returns: string
       }
+      submit_issue: {
+        Args: {
+          p_anonymous?: boolean
+          p_category_id?: string
+          p_department_id?: string
+          p_description: string
+          p_excluded_user_ids?: string[]
+          p_location?: string
+          p_metadata?: Json
+          p_severity: string
+          p_title: string
+        }
+        Returns: Json
+      }
+      track_issue_by_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      verify_audit_chain: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
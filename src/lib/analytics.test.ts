@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { formatBucketLabel, parseIssueAnalytics } from "@/lib/analytics"
+
+describe("formatBucketLabel", () => {
+  const originalTimeZone = process.env.TZ
+
+  beforeEach(() => {
+    // West of UTC, where local formatting used to move every bucket back a day
+    process.env.TZ = "America/Los_Angeles"
+  })
+
+  afterEach(() => {
+    process.env.TZ = originalTimeZone
+  })
+
+  it("labels buckets by their UTC date", () => {
+    expect(formatBucketLabel("2025-08-01T00:00:00+00:00", "day")).toBe("Aug 1")
+    expect(formatBucketLabel("2025-07-28T00:00:00+00:00", "week")).toBe("Wk of Jul 28")
+    expect(formatBucketLabel("2025-08-01T00:00:00+00:00", "month")).toBe("Aug 2025")
+  })
+})
+
+describe("parseIssueAnalytics", () => {
+  const totals = { total: 3, open: 1, active: 1, resolved: 1, critical: 0, avg_resolution_hours: null }
+  const analytics = {
+    trend: [{ bucket: "2025-08-01T00:00:00+00:00", created: 3, resolved: 1 }],
+    totals: { current: totals, previous: { ...totals, avg_resolution_hours: 12.5 } },
+    severity: [{ severity: "high", count: 3 }],
+    tags: [{ tag_id: "tag-1", name: "Safety", color: "#64748b", count: 2, open: 1 }],
+  }
+
+  it("accepts the shape get_issue_analytics returns", () => {
+    expect(parseIssueAnalytics(analytics)).toEqual(analytics)
+  })
+
+  it("rejects anything else", () => {
+    expect(() => parseIssueAnalytics(null)).toThrow()
+    expect(() => parseIssueAnalytics({ ...analytics, severity: [{ severity: "urgent", count: 1 }] })).toThrow()
+    expect(() => parseIssueAnalytics({ ...analytics, totals: { current: totals } })).toThrow()
+  })
+})
@@ -0,0 +1,86 @@
+import { format, startOfDay, subDays, subMonths } from "date-fns"
+import { z } from "zod"
+import type { AnalyticsBucket, IssueAnalytics } from "@/types/database"
+
+interface AnalyticsRange {
+  value: string
+  label: string
+  defaultBucket: AnalyticsBucket
+  getStart: (now: Date) => Date
+}
+
+export const ANALYTICS_RANGES: AnalyticsRange[] = [
+  { value: "7d", label: "Last 7 days", defaultBucket: "day", getStart: (now) => subDays(startOfDay(now), 6) },
+  { value: "30d", label: "Last 30 days", defaultBucket: "day", getStart: (now) => subDays(startOfDay(now), 29) },
+  { value: "90d", label: "Last 90 days", defaultBucket: "week", getStart: (now) => subDays(startOfDay(now), 89) },
+  { value: "6m", label: "Last 6 months", defaultBucket: "month", getStart: (now) => subMonths(startOfDay(now), 6) },
+  { value: "12m", label: "Last 12 months", defaultBucket: "month", getStart: (now) => subMonths(startOfDay(now), 12) },
+]
+
+export const ANALYTICS_BUCKETS: { value: AnalyticsBucket; label: string }[] = [
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+]
+
+export const DEFAULT_ANALYTICS_RANGE = "6m"
+
+export const getAnalyticsRange = (value: string) =>
+  ANALYTICS_RANGES.find((range) => range.value === value) ?? ANALYTICS_RANGES[0]
+
+// The range always runs up to now so the current bucket is included
+export const getRangeDates = (value: string, now = new Date()) => ({
+  from: getAnalyticsRange(value).getStart(now),
+  to: now,
+})
+
+// Buckets are truncated in the database's time zone, UTC, so they are labelled by
+// their UTC calendar date; local time would shift them back a day west of UTC
+export const formatBucketLabel = (bucket: string, granularity: AnalyticsBucket) => {
+  const utc = new Date(bucket)
+  const date = new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate())
+  switch (granularity) {
+    case "day":
+      return format(date, "MMM d")
+    case "week":
+      return `Wk of ${format(date, "MMM d")}`
+    case "month":
+      return format(date, "MMM yyyy")
+  }
+}
+
+const analyticsTotalsSchema = z.object({
+  total: z.number(),
+  open: z.number(),
+  active: z.number(),
+  resolved: z.number(),
+  critical: z.number(),
+  avg_resolution_hours: z.number().nullable(),
+})
+
+const issueAnalyticsSchema = z.object({
+  trend: z.array(z.object({ bucket: z.string(), created: z.number(), resolved: z.number() })),
+  totals: z.object({ current: analyticsTotalsSchema, previous: analyticsTotalsSchema }),
+  severity: z.array(z.object({ severity: z.enum(["low", "medium", "high", "critical"]), count: z.number() })),
+  tags: z.array(z.object({
+    tag_id: z.string(),
+    name: z.string(),
+    color: z.string(),
+    count: z.number(),
+    open: z.number(),
+  })),
+})
+
+// get_issue_analytics returns untyped JSON; a shape the charts do not expect fails loudly here instead.
+// Without strict null checks zod infers every key as optional, hence the cast after parsing.
+export const parseIssueAnalytics = (data: unknown) => issueAnalyticsSchema.parse(data) as IssueAnalytics
+
+// Percentage change against the previous period; undefined when there is nothing to compare with
+export const getPercentChange = (current: number, previous: number) =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 100) : undefined
+
+export const formatDuration = (hours: number | null) => {
+  if (hours === null) return "—"
+  if (hours < 48) return `${Math.round(hours)} hours`
+  return `${(hours / 24).toFixed(1)} days`
+}
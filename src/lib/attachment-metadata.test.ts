@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { blankPdfMetadata, stripAttachmentMetadata } from "@/lib/attachment-metadata"
+
+const encode = (text: string) => new Uint8Array([...text].map((char) => char.charCodeAt(0)))
+const decode = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes)
+
+const PDF = [
+  "%PDF-1.4",
+  "1 0 obj",
+  "<< /Author (Jane \\(HR\\) Doe) /Producer <4A616E65> /Title (Ladder) >>",
+  "endobj",
+  "2 0 obj",
+  "<< /Type /Metadata /Subtype /XML /Length 120 >>",
+  "stream",
+  '<rdf:Description pdf:Producer="Writer"><dc:creator>Jane Doe</dc:creator></rdf:Description>',
+  "endstream",
+  "endobj",
+  "%%EOF",
+].join("\n")
+
+describe("blankPdfMetadata", () => {
+  it("blanks identifying values in place", () => {
+    const result = decode(blankPdfMetadata(encode(PDF)))
+
+    expect(result).toHaveLength(PDF.length)
+    expect(result).not.toContain("Jane")
+    expect(result).not.toContain("Writer")
+    expect(result).toContain("/Producer <00000000>")
+    expect(result).toContain("<dc:creator>        </dc:creator>")
+    expect(result).toContain("/Title (Ladder)")
+  })
+
+  it("rejects object streams, which can hold the document info", () => {
+    const pdf = PDF.replace("<< /Author", "<< /Type /ObjStm /N 1 >>\nstream\nendstream\n<< /Author")
+
+    expect(() => blankPdfMetadata(encode(pdf))).toThrow(/compressed streams/)
+  })
+
+  it("rejects compressed XMP", () => {
+    const pdf = PDF.replace("/Subtype /XML /Length", "/Subtype /XML /Filter /FlateDecode /Length")
+
+    expect(() => blankPdfMetadata(encode(pdf))).toThrow(/compressed streams/)
+  })
+})
+
+describe("stripAttachmentMetadata", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("replaces the file name with a generic one", async () => {
+    const file = new File([encode(PDF)], "Jane Doe complaint.pdf", { type: "application/pdf" })
+
+    const stripped = await stripAttachmentMetadata(file)
+
+    expect(stripped.name).toBe("attachment.pdf")
+    expect(stripped.type).toBe("application/pdf")
+    expect(stripped.lastModified).toBe(0)
+  })
+
+  it("re-encodes images through a canvas so only the pixels are kept", async () => {
+    const bitmap = { width: 4, height: 3, close: vi.fn() }
+    const drawImage = vi.fn()
+    const canvas = {
+      width: 0,
+      height: 0,
+      getContext: () => ({ drawImage }),
+      toBlob: (callback: (blob: Blob) => void, type: string) => callback(new Blob(["pixels"], { type })),
+    }
+    vi.stubGlobal("createImageBitmap", vi.fn().mockResolvedValue(bitmap))
+    vi.stubGlobal("document", { createElement: () => canvas })
+
+    const file = new File(["\xff\xd8 Exif GPS 52.37N 4.89E"], "IMG_0042.jpg", { type: "image/jpeg" })
+    const stripped = await stripAttachmentMetadata(file)
+
+    expect(createImageBitmap).toHaveBeenCalledWith(file, { imageOrientation: "from-image" })
+    expect(drawImage).toHaveBeenCalledWith(bitmap, 0, 0)
+    expect(bitmap.close).toHaveBeenCalled()
+    expect([canvas.width, canvas.height]).toEqual([4, 3])
+    expect(await stripped.text()).toBe("pixels")
+    expect(stripped.name).toBe("attachment.jpg")
+    expect(stripped.type).toBe("image/jpeg")
+  })
+})
@@ -0,0 +1,168 @@
+import { getAttachmentRule } from "@/lib/attachments"
+
+// Identifying metadata is removed in the browser so that it never reaches storage.
+// Anything we cannot strip is rejected rather than uploaded as-is, and the
+// original file name is replaced with a generic one.
+
+const PDF_INFO_KEYS = "Author|Creator|Producer|Subject|Keywords"
+const XMP_ELEMENTS = "dc:creator|xmp:CreatorTool|pdf:Producer|pdf:Author"
+
+const SPACE = 0x20
+
+// Images: re-encoding through a canvas keeps only the pixels, which drops EXIF
+// (including GPS), XMP and ICC comments
+const reencodeImage = async (file: File, mimeType: string): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  const canvas = document.createElement("canvas")
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Image processing is not available in this browser")
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not process image"))),
+      mimeType,
+      0.92
+    )
+  })
+}
+
+// A compressed XMP stream, found from the header of the object holding /Type /Metadata
+const hasCompressedXmp = (text: string) =>
+  [...text.matchAll(/\/Type\s*\/Metadata\b/g)].some((match) => {
+    const start = Math.max(text.lastIndexOf("obj", match.index), 0)
+    const ends = [text.indexOf("stream", match.index), text.indexOf("endobj", match.index)].filter((end) => end >= 0)
+    return text.slice(start, Math.min(...ends)).includes("/Filter")
+  })
+
+// PDFs: blank the values in place, byte for byte, so the cross-reference table
+// stays valid. Object streams and compressed XMP cannot be edited that way, so
+// files using them are rejected.
+export const blankPdfMetadata = (bytes: Uint8Array) => {
+  const result = bytes.slice()
+  // One char per byte, so string offsets are byte offsets
+  const text = new TextDecoder("latin1").decode(bytes)
+
+  if (/\/ObjStm\b/.test(text) || hasCompressedXmp(text)) {
+    throw new Error(
+      "This PDF keeps its metadata in compressed streams that cannot be cleaned. Print or export it to a new PDF and try again"
+    )
+  }
+
+  const blank = (start: number, end: number, fill = SPACE) => {
+    for (let i = start; i < end; i++) result[i] = fill
+  }
+
+  const literal = new RegExp(`/(?:${PDF_INFO_KEYS})\\s*\\(((?:\\\\[\\s\\S]|[^\\\\)])*)\\)`, "g")
+  for (const match of text.matchAll(literal)) {
+    const start = match.index + match[0].length - match[1].length - 1
+    blank(start, start + match[1].length)
+  }
+
+  const hex = new RegExp(`/(?:${PDF_INFO_KEYS})\\s*<([0-9A-Fa-f\\s]*)>`, "g")
+  for (const match of text.matchAll(hex)) {
+    const start = match.index + match[0].length - match[1].length - 1
+    blank(start, start + match[1].length, 0x30)
+  }
+
+  const element = new RegExp(`<(${XMP_ELEMENTS})>([\\s\\S]*?)</\\1>`, "g")
+  for (const match of text.matchAll(element)) {
+    const start = match.index + match[1].length + 2
+    blank(start, start + match[2].length)
+  }
+
+  const attribute = new RegExp(`(?:${XMP_ELEMENTS})="([^"]*)"`, "g")
+  for (const match of text.matchAll(attribute)) {
+    const start = match.index + match[0].length - match[1].length - 1
+    blank(start, start + match[1].length)
+  }
+
+  return result
+}
+
+const hasTag = (bytes: Uint8Array, offset: number, tag: string) =>
+  [...tag].every((char, i) => bytes[offset + i] === char.charCodeAt(0))
+
+// MP3: drop leading ID3v2 tags and a trailing ID3v1 tag
+const stripId3 = (bytes: Uint8Array) => {
+  let start = 0
+  while (bytes.length - start > 10 && hasTag(bytes, start, "ID3")) {
+    const size =
+      ((bytes[start + 6] & 0x7f) << 21) |
+      ((bytes[start + 7] & 0x7f) << 14) |
+      ((bytes[start + 8] & 0x7f) << 7) |
+      (bytes[start + 9] & 0x7f)
+    const footer = bytes[start + 5] & 0x10 ? 10 : 0
+    start += 10 + size + footer
+  }
+
+  let end = bytes.length
+  if (end - start >= 128 && hasTag(bytes, end - 128, "TAG")) end -= 128
+
+  if (start >= end) throw new Error("Audio file contains no audio data")
+  return bytes.slice(start, end)
+}
+
+// WAV: rebuild the RIFF container with only the chunks needed for playback,
+// which drops LIST/INFO, id3, bext and iXML
+const WAV_CHUNKS = ["fmt ", "fact", "data"]
+
+const stripWavChunks = (bytes: Uint8Array) => {
+  if (!hasTag(bytes, 0, "RIFF") || !hasTag(bytes, 8, "WAVE")) {
+    throw new Error("Not a valid WAV file")
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const kept: Uint8Array[] = []
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4))
+    const size = view.getUint32(offset + 4, true)
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length)
+    if (WAV_CHUNKS.includes(id)) kept.push(bytes.subarray(offset, end))
+    offset = end
+  }
+
+  const bodyLength = kept.reduce((total, chunk) => total + chunk.length, 0)
+  const result = new Uint8Array(12 + bodyLength)
+  result.set(bytes.subarray(0, 12))
+  new DataView(result.buffer).setUint32(4, 4 + bodyLength, true)
+
+  let position = 12
+  for (const chunk of kept) {
+    result.set(chunk, position)
+    position += chunk.length
+  }
+  return result
+}
+
+export const stripAttachmentMetadata = async (file: File): Promise<File> => {
+  const rule = getAttachmentRule(file.type)
+  if (!rule) throw new Error(`${file.name} is not a supported file type`)
+
+  let content: Blob | Uint8Array
+  if (rule.mimeType.startsWith("image/")) {
+    content = await reencodeImage(file, rule.mimeType)
+  } else {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    switch (rule.mimeType) {
+      case "application/pdf":
+        content = blankPdfMetadata(bytes)
+        break
+      case "audio/mpeg":
+        content = stripId3(bytes)
+        break
+      case "audio/wav":
+        content = stripWavChunks(bytes)
+        break
+      default:
+        throw new Error(`${file.name} is not a supported file type`)
+    }
+  }
+
+  return new File([content], `attachment.${rule.extension}`, { type: rule.mimeType, lastModified: 0 })
+}
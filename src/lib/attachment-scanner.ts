@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client"
+
+export type ScanVerdict = "clean" | "infected" | "unavailable"
+
+export interface ScanResult {
+  verdict: ScanVerdict
+  signature?: string
+}
+
+// Scan step run on every attachment once it is uploaded and linked. The file
+// stays hidden until the server records a clean verdict, so the client only
+// asks for the scan and reports the outcome.
+export interface AttachmentScanner {
+  scan: (token: string, path: string) => Promise<ScanResult>
+}
+
+// Asks the scan-attachment edge function to scan the stored object
+export const edgeAttachmentScanner: AttachmentScanner = {
+  scan: async (token, path) => {
+    const { data, error } = await supabase.functions.invoke("scan-attachment", {
+      body: { token, path },
+    })
+
+    if (error || !data) {
+      console.error("Attachment scan failed:", error)
+      return { verdict: "unavailable" }
+    }
+
+    return data as ScanResult
+  },
+}
@@ -0,0 +1,57 @@
+import type { IssueAttachment } from "@/types/database"
+
+interface AttachmentRule {
+  mimeType: string
+  extension: string
+  label: string
+  maxSize: number
+}
+
+const MB = 1024 * 1024
+
+// Only formats whose metadata we know how to strip. Keep in sync with the
+// allowed_mime_types of the issue-attachments bucket.
+export const ATTACHMENT_RULES: AttachmentRule[] = [
+  { mimeType: "image/jpeg", extension: "jpg", label: "JPEG image", maxSize: 10 * MB },
+  { mimeType: "image/png", extension: "png", label: "PNG image", maxSize: 10 * MB },
+  { mimeType: "image/webp", extension: "webp", label: "WebP image", maxSize: 10 * MB },
+  { mimeType: "application/pdf", extension: "pdf", label: "PDF document", maxSize: 20 * MB },
+  { mimeType: "audio/mpeg", extension: "mp3", label: "MP3 audio", maxSize: 25 * MB },
+  { mimeType: "audio/wav", extension: "wav", label: "WAV audio", maxSize: 25 * MB },
+]
+
+export const MAX_ATTACHMENTS = 10
+
+export const ATTACHMENT_ACCEPT = ATTACHMENT_RULES.map((rule) => rule.mimeType).join(",")
+
+// Browsers report WAV under several names
+const normaliseMimeType = (mimeType: string) =>
+  mimeType === "audio/x-wav" || mimeType === "audio/wave" ? "audio/wav" : mimeType
+
+export const getAttachmentRule = (mimeType: string) =>
+  ATTACHMENT_RULES.find((rule) => rule.mimeType === normaliseMimeType(mimeType))
+
+// Returns an error message, or null when the file may be uploaded
+export const validateAttachment = (file: File): string | null => {
+  const rule = getAttachmentRule(file.type)
+  if (!rule) {
+    return `${file.name}: only images (JPEG, PNG, WebP), PDFs and MP3/WAV audio can be attached`
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`
+  }
+  if (file.size > rule.maxSize) {
+    return `${file.name} is larger than the ${formatFileSize(rule.maxSize)} limit for a ${rule.label}`
+  }
+  return null
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / MB).toFixed(1)} MB`
+}
+
+// Files waiting for the server-side scan stay hidden until they pass
+export const toAttachments = (value: unknown): IssueAttachment[] =>
+  Array.isArray(value) ? (value as IssueAttachment[]).filter((attachment) => attachment.scan_status === "clean") : []
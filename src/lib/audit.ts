@@ -0,0 +1,66 @@
+import type { AuditEvent } from "@/types/database"
+
+export const AUDIT_ACTIONS: { value: string; label: string }[] = [
+  { value: "issue.create", label: "Issue reported" },
+  { value: "issue.view", label: "Issue viewed" },
+  { value: "issue.update", label: "Issue edited" },
+  { value: "issue.assign", label: "Assignment changed" },
+  { value: "issue.status_change", label: "Status changed" },
+  { value: "issue.export", label: "Issue exported" },
+  { value: "update.create", label: "Timeline entry added" },
+  { value: "message.create", label: "Message sent" },
+  { value: "watcher.add", label: "Watcher added" },
+  { value: "watcher.remove", label: "Watcher removed" },
+  { value: "tag.add", label: "Tag added" },
+  { value: "tag.remove", label: "Tag removed" },
+  { value: "link.add", label: "Issue linked" },
+  { value: "link.remove", label: "Link removed" },
+  { value: "exclusion.override", label: "Conflict overridden" },
+  { value: "token.lookup", label: "Tracking token used" },
+]
+
+export const AUDIT_PAGE_SIZE = 50
+
+export interface AuditFilters {
+  action?: string
+  // 'none' matches events without an actor: anonymous reporters and automation
+  actorId?: string
+  targetId?: string
+  // Calendar days as yyyy-MM-dd, inclusive, in the viewer's time zone
+  from?: string
+  to?: string
+}
+
+export const getAuditActionLabel = (action: string) =>
+  AUDIT_ACTIONS.find((option) => option.value === action)?.label ?? action
+
+// One line for the viewer; the raw details stay available for export and inspection
+export const describeAuditDetails = (event: AuditEvent) => {
+  const details = event.details
+  const changes = details.changes as Record<string, unknown> | undefined
+
+  switch (event.action) {
+    case "issue.update":
+    case "issue.assign":
+    case "issue.status_change":
+      return changes ? `Changed ${Object.keys(changes).join(", ").replace(/_/g, " ")}` : ""
+    case "update.create":
+      return `${String(details.update_type ?? "").replace(/_/g, " ")}${details.is_public ? " (public)" : ""}`
+    case "message.create":
+      return `From ${details.sender_type}`
+    case "tag.add":
+    case "tag.remove":
+      return String(details.tag ?? "")
+    case "link.add":
+    case "link.remove":
+      return `${String(details.link_type ?? "")} link`
+    case "exclusion.override":
+      return String(details.reason ?? "")
+    case "issue.export":
+      return `As ${String(details.format ?? "").toUpperCase()}`
+    case "token.lookup":
+      return details.found ? "Valid token" : "Unknown token"
+    default:
+      return ""
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  AlertCircle,
+  AlertTriangle,
+  Ban,
+  BookOpen,
+  Briefcase,
+  Building,
+  Clock,
+  DollarSign,
+  Eye,
+  FileWarning,
+  Gavel,
+  HardHat,
+  Heart,
+  Laptop,
+  Leaf,
+  Lock,
+  MessageCircle,
+  MoreHorizontal,
+  Scale,
+  Shield,
+  ShieldAlert,
+  Truck,
+  UserX,
+  Users,
+  type LucideIcon,
+} from "lucide-react"
+
+// Icons offered by the category icon picker, keyed by the name stored in issue_categories.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  AlertCircle,
+  AlertTriangle,
+  Ban,
+  BookOpen,
+  Briefcase,
+  Building,
+  Clock,
+  DollarSign,
+  Eye,
+  FileWarning,
+  Gavel,
+  HardHat,
+  Heart,
+  Laptop,
+  Leaf,
+  Lock,
+  MessageCircle,
+  MoreHorizontal,
+  Scale,
+  Shield,
+  ShieldAlert,
+  Truck,
+  UserX,
+  Users,
+}
+
+export const DEFAULT_CATEGORY_ICON = "AlertCircle"
+
+export const getCategoryIcon = (name?: string) => CATEGORY_ICONS[name ?? ""] ?? AlertCircle
+
+export const CATEGORY_COLORS = [
+  "#ef4444",
+  "#dc2626",
+  "#f97316",
+  "#f59e0b",
+  "#84cc16",
+  "#10b981",
+  "#06b6d4",
+  "#3b82f6",
+  "#6366f1",
+  "#8b5cf6",
+  "#ec4899",
+  "#6b7280",
+]
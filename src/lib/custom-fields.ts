@@ -0,0 +1,86 @@
+import { format, isValid, parseISO } from "date-fns"
+import { z } from "zod"
+import type { CategoryField, CustomFieldType, CustomFieldValue, Issue } from "@/types/database"
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Select" },
+  { value: "boolean", label: "Yes / No" },
+]
+
+export type CustomFieldValues = Record<string, CustomFieldValue>
+
+// Form inputs hand over "" for untouched text, number and date fields
+const emptyToUndefined = (value: unknown) => (value === "" || value === null ? undefined : value)
+
+const buildFieldSchema = (field: CategoryField): z.ZodTypeAny => {
+  const required = `${field.label} is required`
+
+  switch (field.field_type) {
+    case "number": {
+      const schema = z.number({ required_error: required, invalid_type_error: `${field.label} must be a number` })
+      return z.preprocess((value) => {
+        const present = emptyToUndefined(value)
+        return typeof present === "string" ? Number(present) : present
+      }, field.required ? schema : schema.optional())
+    }
+    case "date": {
+      const schema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${field.label} must be a valid date`)
+      return z.preprocess(emptyToUndefined, field.required ? z.string({ required_error: required }).pipe(schema) : schema.optional())
+    }
+    case "select": {
+      const schema = z.string({ required_error: required }).refine((value) => field.options.includes(value), {
+        message: `Choose one of the options for ${field.label}`,
+      })
+      return z.preprocess(emptyToUndefined, field.required ? schema : schema.optional())
+    }
+    case "boolean": {
+      const schema = z.boolean({ required_error: required })
+      return field.required ? schema : schema.optional()
+    }
+    default: {
+      const schema = z.string().trim().max(500, `${field.label} must be 500 characters or fewer`)
+      return z.preprocess(
+        emptyToUndefined,
+        field.required ? z.string({ required_error: required }).trim().min(1, required).pipe(schema) : schema.optional()
+      )
+    }
+  }
+}
+
+// Mirrors validate_custom_fields on the server
+export const buildCustomFieldsSchema = (fields: CategoryField[]) =>
+  z.object(Object.fromEntries(fields.map((field) => [field.field_key, buildFieldSchema(field)])))
+
+// Drops unanswered fields so metadata only holds real values
+export const toCustomFieldValues = (values: Record<string, unknown> | undefined, fields: CategoryField[]) =>
+  fields.reduce<CustomFieldValues>((result, field) => {
+    const value = values?.[field.field_key]
+    if (value === undefined || value === null || value === "") return result
+    result[field.field_key] = field.field_type === "number" ? Number(value) : (value as CustomFieldValue)
+    return result
+  }, {})
+
+export const getCustomFieldValues = (issue: Pick<Issue, "metadata">): CustomFieldValues => {
+  const values = issue.metadata?.custom_fields
+  return values && typeof values === "object" && !Array.isArray(values) ? values : {}
+}
+
+export const formatCustomFieldValue = (value: CustomFieldValue, type?: CustomFieldType) => {
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  if (type === "date" && typeof value === "string" && isValid(parseISO(value))) return format(parseISO(value), "PPP")
+  return String(value)
+}
+
+// Turns field_key style keys into labels for values whose field no longer exists
+export const humanizeFieldKey = (key: string) =>
+  key.replace(/_/g, " ").replace(/^\w/, (letter) => letter.toUpperCase())
+
+export const toFieldKey = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 40)
@@ -0,0 +1,40 @@
+import { format } from "date-fns"
+import { getStatusLabel } from "@/lib/issue-status"
+import { getProfileName } from "@/lib/profiles"
+import type { IssueSummary } from "@/types/database"
+
+const formatDate = (value?: string) => (value ? format(new Date(value), "yyyy-MM-dd HH:mm") : "")
+
+const COLUMNS: { header: string; value: (issue: IssueSummary) => string | undefined }[] = [
+  { header: "ID", value: (issue) => issue.id },
+  { header: "Title", value: (issue) => issue.title },
+  { header: "Status", value: (issue) => getStatusLabel(issue.status) },
+  { header: "Severity", value: (issue) => issue.severity },
+  { header: "Category", value: (issue) => issue.category?.name },
+  { header: "Department", value: (issue) => issue.department?.name },
+  { header: "Assignee", value: (issue) => (issue.assigned_user ? getProfileName(issue.assigned_user) : "") },
+  { header: "Tags", value: (issue) => issue.tags?.map((tag) => tag.name).join("; ") },
+  { header: "Created", value: (issue) => formatDate(issue.created_at) },
+  { header: "Updated", value: (issue) => formatDate(issue.updated_at) },
+  { header: "Resolved", value: (issue) => formatDate(issue.resolved_at) },
+]
+
+// Reporters write the titles, so anything a spreadsheet would run as a formula is quoted
+const toCell = (value = "") => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export const toIssuesCsv = (issues: IssueSummary[]) =>
+  [COLUMNS.map((column) => column.header), ...issues.map((issue) => COLUMNS.map((column) => column.value(issue)))]
+    .map((row) => row.map(toCell).join(","))
+    .join("\r\n")
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
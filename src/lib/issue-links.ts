@@ -0,0 +1,30 @@
+import type { IssueLink, IssueLinkType } from "@/types/database"
+
+export interface IssueLinkOption {
+  value: string
+  label: string
+  type: IssueLinkType
+  // Stored with the two issues swapped, e.g. "Parent of" is the other issue's "Child of"
+  reverse: boolean
+}
+
+// How a link reads from the issue being viewed
+export const ISSUE_LINK_OPTIONS: IssueLinkOption[] = [
+  { value: "duplicate_of", label: "Duplicate of", type: "duplicate", reverse: false },
+  { value: "duplicated_by", label: "Duplicated by", type: "duplicate", reverse: true },
+  { value: "related", label: "Related to", type: "related", reverse: false },
+  { value: "child_of", label: "Child of", type: "parent", reverse: false },
+  { value: "parent_of", label: "Parent of", type: "parent", reverse: true },
+]
+
+export const describeIssueLink = (link: IssueLink, issueId: string) => {
+  const reverse = link.issue_id !== issueId
+  const option = ISSUE_LINK_OPTIONS.find((candidate) =>
+    candidate.type === link.link_type && (candidate.reverse === reverse || link.link_type === "related")
+  )
+
+  return {
+    label: option?.label ?? link.link_type,
+    other: reverse ? link.issue : link.linked_issue,
+  }
+}
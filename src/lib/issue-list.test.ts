@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_ISSUE_SORT,
+  EMPTY_ISSUE_FILTERS,
+  parseIssueListParams,
+  toIssueListParams,
+  type IssueListState,
+} from "@/lib/issue-list"
+
+const roundTrip = (state: IssueListState) => parseIssueListParams(toIssueListParams(state))
+
+describe("toIssueListParams and parseIssueListParams", () => {
+  it("round-trips every filter, the sort and the page", () => {
+    const state: IssueListState = {
+      filters: {
+        search: "broken ladder",
+        status: "investigating",
+        severity: "high",
+        categoryId: "category-1",
+        departmentId: "department-1",
+        assigneeId: "me",
+        tagId: "tag-1",
+        unresolved: true,
+        slaBreaching: true,
+        awaitingReporter: true,
+        from: "2025-01-01",
+        to: "2025-01-31",
+        fields: { room_number: "B-205", witnesses: "true" },
+      },
+      sort: { column: "title", ascending: false },
+      page: 3,
+    }
+
+    expect(roundTrip(state)).toEqual(state)
+  })
+
+  it("leaves defaults out of the URL", () => {
+    const params = toIssueListParams({ filters: EMPTY_ISSUE_FILTERS, sort: DEFAULT_ISSUE_SORT, page: 1 })
+
+    expect(params.toString()).toBe("")
+    expect(parseIssueListParams(params)).toEqual({
+      filters: EMPTY_ISSUE_FILTERS,
+      sort: DEFAULT_ISSUE_SORT,
+      page: 1,
+    })
+  })
+
+  it("only writes the direction when it differs from the sort's default", () => {
+    expect(
+      toIssueListParams({ filters: EMPTY_ISSUE_FILTERS, sort: { column: "title", ascending: true }, page: 1 }).toString()
+    ).toBe("sort=title")
+    expect(
+      toIssueListParams({ filters: EMPTY_ISSUE_FILTERS, sort: { column: "created_at", ascending: true }, page: 1 }).toString()
+    ).toBe("sort=created&dir=asc")
+  })
+
+  it("drops custom field filters without a category", () => {
+    const state: IssueListState = {
+      filters: { fields: { room_number: "B-205" } },
+      sort: DEFAULT_ISSUE_SORT,
+      page: 1,
+    }
+
+    expect(toIssueListParams(state).has("field.room_number")).toBe(false)
+    expect(parseIssueListParams(new URLSearchParams("field.room_number=B-205")).filters.fields).toEqual({})
+  })
+
+  it("ignores malformed values", () => {
+    const { filters, sort, page } = parseIssueListParams(
+      new URLSearchParams("status=pending&severity=urgent&from=yesterday&to=2025-13&sort=priority&page=-2")
+    )
+
+    expect(filters.status).toBeUndefined()
+    expect(filters.severity).toBeUndefined()
+    expect(filters.from).toBeUndefined()
+    expect(filters.to).toBeUndefined()
+    expect(sort).toEqual(DEFAULT_ISSUE_SORT)
+    expect(page).toBe(1)
+  })
+})
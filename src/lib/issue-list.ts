@@ -0,0 +1,156 @@
+import type { IssueSeverity, IssueStatus } from "@/types/database"
+import { ISSUE_STATUSES } from "@/lib/issue-status"
+
+export const ISSUE_PAGE_SIZE = 25
+
+const SEVERITIES: IssueSeverity[] = ["critical", "high", "medium", "low"]
+const FIELD_PARAM_PREFIX = "field."
+
+export interface IssueListFilters {
+  search?: string
+  status?: IssueStatus
+  severity?: IssueSeverity
+  categoryId?: string
+  departmentId?: string
+  // 'none' matches unassigned issues and 'me' the viewer's, so shared views work for everyone
+  assigneeId?: string
+  tagId?: string
+  // Leaves out resolved and closed issues
+  unresolved?: boolean
+  // Computed on the server by is_breaching_sla and is_awaiting_reporter
+  slaBreaching?: boolean
+  awaitingReporter?: boolean
+  // Calendar days as yyyy-MM-dd, inclusive, in the viewer's time zone
+  from?: string
+  to?: string
+  // Custom field filters by field_key; only sent while a single category is selected
+  fields: Record<string, string>
+}
+
+export type IssueSortColumn = "created_at" | "updated_at" | "severity_order" | "title"
+
+export interface IssueListSort {
+  column: IssueSortColumn
+  ascending: boolean
+}
+
+export const ISSUE_SORTS: { value: string; column: IssueSortColumn; label: string; defaultAscending: boolean }[] = [
+  { value: "created", column: "created_at", label: "Created", defaultAscending: false },
+  { value: "updated", column: "updated_at", label: "Updated", defaultAscending: false },
+  { value: "severity", column: "severity_order", label: "Severity", defaultAscending: false },
+  { value: "title", column: "title", label: "Title", defaultAscending: true },
+]
+
+export const EMPTY_ISSUE_FILTERS: IssueListFilters = { fields: {} }
+export const DEFAULT_ISSUE_SORT: IssueListSort = { column: "created_at", ascending: false }
+
+export interface IssueListState {
+  filters: IssueListFilters
+  sort: IssueListSort
+  page: number
+}
+
+const isDay = (value: string | null) => (value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined)
+
+// Reads list state from the URL, ignoring anything malformed so shared links never break the page
+export const parseIssueListParams = (params: URLSearchParams): IssueListState => {
+  const status = params.get("status")
+  const severity = params.get("severity")
+  const sortOption = ISSUE_SORTS.find((option) => option.value === params.get("sort"))
+  const direction = params.get("dir")
+  const page = Number(params.get("page"))
+  const categoryId = params.get("category") || undefined
+
+  const fields: Record<string, string> = {}
+  if (categoryId) {
+    params.forEach((value, key) => {
+      if (key.startsWith(FIELD_PARAM_PREFIX) && value) fields[key.slice(FIELD_PARAM_PREFIX.length)] = value
+    })
+  }
+
+  return {
+    filters: {
+      search: params.get("q") || undefined,
+      status: ISSUE_STATUSES.some((option) => option.value === status) ? (status as IssueStatus) : undefined,
+      severity: SEVERITIES.includes(severity as IssueSeverity) ? (severity as IssueSeverity) : undefined,
+      categoryId,
+      departmentId: params.get("department") || undefined,
+      assigneeId: params.get("assignee") || undefined,
+      tagId: params.get("tag") || undefined,
+      unresolved: params.get("unresolved") === "1" || undefined,
+      slaBreaching: params.get("sla") === "breaching" || undefined,
+      awaitingReporter: params.get("awaiting") === "reporter" || undefined,
+      from: isDay(params.get("from")),
+      to: isDay(params.get("to")),
+      fields,
+    },
+    sort: sortOption
+      ? { column: sortOption.column, ascending: direction ? direction === "asc" : sortOption.defaultAscending }
+      : DEFAULT_ISSUE_SORT,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  }
+}
+
+// Inverse of parseIssueListParams; defaults are left out to keep links short
+export const toIssueListParams = ({ filters, sort, page }: IssueListState) => {
+  const params = new URLSearchParams()
+  const set = (key: string, value: string | undefined) => {
+    if (value) params.set(key, value)
+  }
+
+  set("q", filters.search)
+  set("status", filters.status)
+  set("severity", filters.severity)
+  set("category", filters.categoryId)
+  set("department", filters.departmentId)
+  set("assignee", filters.assigneeId)
+  set("tag", filters.tagId)
+  set("unresolved", filters.unresolved ? "1" : undefined)
+  set("sla", filters.slaBreaching ? "breaching" : undefined)
+  set("awaiting", filters.awaitingReporter ? "reporter" : undefined)
+  set("from", filters.from)
+  set("to", filters.to)
+  if (filters.categoryId) {
+    Object.entries(filters.fields).forEach(([key, value]) => set(`${FIELD_PARAM_PREFIX}${key}`, value))
+  }
+
+  const sortOption = ISSUE_SORTS.find((option) => option.column === sort.column)
+  if (sortOption && (sort.column !== DEFAULT_ISSUE_SORT.column || sort.ascending !== DEFAULT_ISSUE_SORT.ascending)) {
+    params.set("sort", sortOption.value)
+    if (sort.ascending !== sortOption.defaultAscending) params.set("dir", sort.ascending ? "asc" : "desc")
+  }
+  if (page > 1) params.set("page", String(page))
+
+  return params
+}
+
+export type IssueColumn = "status" | "severity" | "category" | "department" | "assignee" | "created" | "updated"
+
+// Optional list columns; the issue title is always shown
+export const ISSUE_COLUMNS: { value: IssueColumn; label: string }[] = [
+  { value: "status", label: "Status" },
+  { value: "severity", label: "Severity" },
+  { value: "category", label: "Category" },
+  { value: "department", label: "Department" },
+  { value: "assignee", label: "Assignee" },
+  { value: "created", label: "Created" },
+  { value: "updated", label: "Updated" },
+]
+
+export const DEFAULT_ISSUE_COLUMNS: IssueColumn[] = ["status", "severity", "category", "assignee", "created", "updated"]
+
+// Columns as a comma-separated list in the URL; unknown names are dropped and an empty list means the defaults
+export const parseIssueColumns = (value: string | null): IssueColumn[] => {
+  const columns = (value ?? "")
+    .split(",")
+    .filter((column): column is IssueColumn => ISSUE_COLUMNS.some((option) => option.value === column))
+  return columns.length > 0 ? columns : DEFAULT_ISSUE_COLUMNS
+}
+
+// Page numbers to show around the current page, with null marking a gap
+export const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1])
+  const visible = [...pages].filter((value) => value >= 1 && value <= pageCount).sort((a, b) => a - b)
+
+  return visible.flatMap((value, index) => (index > 0 && value - visible[index - 1] > 1 ? [null, value] : [value]))
+}
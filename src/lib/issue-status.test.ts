@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { validateStatusTransition } from "@/lib/issue-status"
+import type { IssueStatusTransition } from "@/types/database"
+
+const transition = (overrides: Partial<IssueStatusTransition>): IssueStatusTransition => ({
+  from_status: "open",
+  to_status: "triaged",
+  label: "Triage",
+  requires_note: false,
+  created_at: "2025-01-01T00:00:00Z",
+  ...overrides,
+})
+
+const TRANSITIONS = [
+  transition({}),
+  transition({
+    from_status: "investigating",
+    to_status: "resolved",
+    label: "Resolve",
+    requires_note: true,
+    note_label: "Resolution note",
+  }),
+  transition({ from_status: "resolved", to_status: "investigating", label: "Reopen", requires_note: true }),
+]
+
+describe("validateStatusTransition", () => {
+  it("allows a listed transition", () => {
+    expect(validateStatusTransition(TRANSITIONS, "open", "triaged")).toBeNull()
+  })
+
+  it("rejects a transition that is not listed", () => {
+    expect(validateStatusTransition(TRANSITIONS, "open", "closed")).toBe("Cannot move an issue from Open to Closed")
+  })
+
+  it("requires the note when the transition asks for one", () => {
+    expect(validateStatusTransition(TRANSITIONS, "investigating", "resolved")).toBe(
+      "Resolution note is required to resolve this issue"
+    )
+    expect(validateStatusTransition(TRANSITIONS, "investigating", "resolved", "   ")).toBe(
+      "Resolution note is required to resolve this issue"
+    )
+    expect(validateStatusTransition(TRANSITIONS, "investigating", "resolved", "Fixed the ladder")).toBeNull()
+  })
+
+  it("falls back to a generic label for the note", () => {
+    expect(validateStatusTransition(TRANSITIONS, "resolved", "investigating")).toBe(
+      "A note is required to reopen this issue"
+    )
+  })
+})
@@ -0,0 +1,95 @@
+import type { IssueStatus, IssueStatusTransition } from "@/types/database"
+
+interface IssueStatusConfig {
+  value: IssueStatus
+  label: string
+  badgeVariant: "default" | "secondary" | "destructive" | "outline"
+  chartColor: string
+  reporterDescription: string
+}
+
+// Ordered by lifecycle position
+export const ISSUE_STATUSES: IssueStatusConfig[] = [
+  {
+    value: "open",
+    label: "Open",
+    badgeVariant: "destructive",
+    chartColor: "#ef4444",
+    reporterDescription: "Your issue has been received and is awaiting review.",
+  },
+  {
+    value: "triaged",
+    label: "Triaged",
+    badgeVariant: "default",
+    chartColor: "#6366f1",
+    reporterDescription: "Your issue has been reviewed and routed to the right team.",
+  },
+  {
+    value: "investigating",
+    label: "Investigating",
+    badgeVariant: "default",
+    chartColor: "#f59e0b",
+    reporterDescription: "Your issue is being actively investigated by our team.",
+  },
+  {
+    value: "resolved",
+    label: "Resolved",
+    badgeVariant: "secondary",
+    chartColor: "#10b981",
+    reporterDescription: "Your issue has been resolved. Please verify the solution.",
+  },
+  {
+    value: "closed",
+    label: "Closed",
+    badgeVariant: "outline",
+    chartColor: "#6b7280",
+    reporterDescription: "Your issue has been closed.",
+  },
+]
+
+const statusConfig = (status: string) => ISSUE_STATUSES.find((s) => s.value === status)
+
+export const getStatusLabel = (status: string) => statusConfig(status)?.label ?? status.replace("_", " ")
+
+export const getStatusBadgeVariant = (status: string) => statusConfig(status)?.badgeVariant ?? "secondary"
+
+export const getStatusChartColor = (status: string) => statusConfig(status)?.chartColor ?? "#6b7280"
+
+export const getReporterStatusDescription = (status: string) =>
+  statusConfig(status)?.reporterDescription ?? "Status unknown."
+
+// Position in the lifecycle, used for progress displays
+export const getStatusStep = (status: string) => ISSUE_STATUSES.findIndex((s) => s.value === status)
+
+export const isActiveStatus = (status: string) => status === "triaged" || status === "investigating"
+
+export const getAllowedTransitions = (transitions: IssueStatusTransition[], from: IssueStatus) =>
+  transitions
+    .filter((t) => t.from_status === from)
+    .sort((a, b) => getStatusStep(a.to_status) - getStatusStep(b.to_status))
+
+export const findTransition = (transitions: IssueStatusTransition[], from: IssueStatus, to: IssueStatus) =>
+  transitions.find((t) => t.from_status === from && t.to_status === to)
+
+/**
+ * Mirrors the database trigger so invalid moves fail before the round trip.
+ * Returns an error message, or null when the transition is allowed.
+ */
+export const validateStatusTransition = (
+  transitions: IssueStatusTransition[],
+  from: IssueStatus,
+  to: IssueStatus,
+  note?: string
+) => {
+  const transition = findTransition(transitions, from, to)
+
+  if (!transition) {
+    return `Cannot move an issue from ${getStatusLabel(from)} to ${getStatusLabel(to)}`
+  }
+
+  if (transition.requires_note && !note?.trim()) {
+    return `${transition.note_label || "A note"} is required to ${transition.label.toLowerCase()} this issue`
+  }
+
+  return null
+}
@@ -0,0 +1,25 @@
+import type { IssueStatus, Permission } from "@/types/database"
+
+interface PermissionConfig {
+  value: Permission
+  label: string
+  description: string
+}
+
+// Mirrors the permission CHECK on role_permissions; the matrix itself lives in the database
+export const PERMISSIONS: PermissionConfig[] = [
+  { value: "view_own", label: "View own", description: "See issues you reported or are assigned to" },
+  { value: "view_department", label: "View department", description: "See issues raised in your department" },
+  { value: "view_all", label: "View all", description: "See every issue in the organisation" },
+  { value: "triage", label: "Triage", description: "Review, route and investigate issues" },
+  { value: "assign", label: "Assign", description: "Assign issues to case handlers" },
+  { value: "resolve", label: "Resolve", description: "Resolve, dismiss and close issues" },
+  { value: "administer", label: "Administer", description: "Manage roles, workflow and organisation settings" },
+]
+
+export const getPermissionLabel = (permission: Permission) =>
+  PERMISSIONS.find((p) => p.value === permission)?.label ?? permission
+
+// Same rule as the enforce_issue_permissions trigger
+export const getStatusPermission = (status: IssueStatus): Permission =>
+  status === "resolved" || status === "closed" ? "resolve" : "triage"
@@ -0,0 +1,85 @@
+import type { ThemePreference, UserPreferences } from "@/types/database"
+
+export const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: "system", label: "System" },
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+]
+
+export const LANGUAGE_OPTIONS = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+  { value: "fr", label: "Français" },
+  { value: "de", label: "Deutsch" },
+  { value: "pt", label: "Português" },
+]
+
+export const TIME_ZONE_OPTIONS = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+]
+
+export const NOTIFICATION_OPTIONS: { key: NotificationKey; label: string; description: string }[] = [
+  { key: "notify_assignment", label: "Assignments", description: "When an issue is assigned to you" },
+  { key: "notify_status_change", label: "Status changes", description: "When an issue you handle changes status" },
+  { key: "notify_messages", label: "Reporter messages", description: "When a reporter replies on an issue you handle" },
+  { key: "notify_weekly_digest", label: "Weekly digest", description: "A summary of open and overdue issues every Monday" },
+]
+
+export type NotificationKey = "notify_assignment" | "notify_status_change" | "notify_messages" | "notify_weekly_digest"
+
+export type EditablePreferences = Omit<UserPreferences, "user_id" | "created_at" | "updated_at">
+
+// Used until the user saves preferences for the first time
+export const DEFAULT_PREFERENCES: EditablePreferences = {
+  theme: "system",
+  notify_assignment: true,
+  notify_status_change: true,
+  notify_messages: true,
+  notify_weekly_digest: false,
+}
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const getLanguageLabel = (value: string) =>
+  LANGUAGE_OPTIONS.find((option) => option.value === value)?.label ?? value
+
+// Coarse "Browser on OS" label for the sessions list
+export const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent) return "Unknown device"
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser"
+
+  const os =
+    [
+      ["Windows", "Windows"],
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Android", "Android"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "unknown OS"
+
+  return `${browser} on ${os}`
+}
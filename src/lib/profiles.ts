@@ -0,0 +1,17 @@
+import type { Profile } from "@/types/database"
+
+type ProfileRow = Omit<Profile, "department"> & { department?: unknown }
+
+// profiles.department is a legacy text column; only joined departments are objects
+export const toProfile = (profile: ProfileRow | null | undefined): Profile | undefined =>
+  profile
+    ? {
+        ...profile,
+        department: typeof profile.department === "object" ? (profile.department as Profile["department"]) : undefined,
+      }
+    : undefined
+
+export const getProfileName = (profile: Pick<Profile, "display_name" | "first_name" | "last_name" | "email">) =>
+  profile.display_name ||
+  `${profile.first_name ?? ""} ${profile.last_name ?? ""}`.trim() ||
+  profile.email
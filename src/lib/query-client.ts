@@ -0,0 +1,44 @@
+import { MutationCache, QueryCache, QueryClient } from "@tanstack/react-query"
+import { toast } from "@/hooks/use-toast"
+
+// Queries and mutations describe their failures here instead of toasting themselves
+interface AppMeta extends Record<string, unknown> {
+  errorTitle?: string
+  // Replaces the server's message when it would confuse the reader
+  errorDescription?: string
+}
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: AppMeta
+    mutationMeta: AppMeta
+  }
+}
+
+const reportError = (error: Error, meta: AppMeta | undefined, fallbackTitle: string) => {
+  console.error(`${meta?.errorTitle ?? fallbackTitle}:`, error)
+  toast({
+    title: meta?.errorTitle ?? fallbackTitle,
+    description: meta?.errorDescription ?? error.message,
+    variant: "destructive",
+  })
+}
+
+export const createQueryClient = () =>
+  new QueryClient({
+    queryCache: new QueryCache({
+      // Only the first failure is worth a toast; background refetch errors keep the cached data on screen
+      onError: (error, query) => {
+        if (query.state.data === undefined) reportError(error, query.meta, "Error loading data")
+      },
+    }),
+    mutationCache: new MutationCache({
+      onError: (error, _variables, _context, mutation) => reportError(error, mutation.meta, "Something went wrong"),
+    }),
+    defaultOptions: {
+      queries: {
+        staleTime: 30_000,
+        retry: 1,
+      },
+    },
+  })
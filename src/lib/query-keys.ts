@@ -0,0 +1,72 @@
+import type { AuditFilters } from "@/lib/audit"
+import type { IssueListFilters, IssueListSort } from "@/lib/issue-list"
+import type { AnalyticsBucket, IssueSeverity } from "@/types/database"
+
+// Hierarchical keys so a whole family can be invalidated at once, e.g. every issue list after a status change
+export const issueKeys = {
+  all: ["issues"] as const,
+  lists: () => [...issueKeys.all, "list"] as const,
+  list: (query: { filters: IssueListFilters; sort: IssueListSort; page: number; pageSize: number; textFieldKeys: string }) =>
+    [...issueKeys.lists(), query] as const,
+  statusCounts: () => [...issueKeys.all, "status-counts"] as const,
+  count: (query: { filters: IssueListFilters; textFieldKeys: string }) => [...issueKeys.all, "count", query] as const,
+  boards: () => [...issueKeys.all, "board"] as const,
+  board: (query: { filters: IssueListFilters; columnLimit: number; textFieldKeys: string }) =>
+    [...issueKeys.boards(), query] as const,
+  details: () => [...issueKeys.all, "detail"] as const,
+  detail: (issueId: string) => [...issueKeys.details(), issueId] as const,
+  conflicts: (issueId: string) => [...issueKeys.all, "conflicts", issueId] as const,
+  links: (issueId: string) => [...issueKeys.all, "links", issueId] as const,
+  similar: (query: { title: string; description: string; excludeId?: string }) =>
+    [...issueKeys.all, "similar", query] as const,
+  messages: (issueId: string) => [...issueKeys.all, "messages", issueId] as const,
+  // Figures derived from issues live under the same root so issue changes refresh them too
+  analytics: (query: {
+    range: string
+    bucket: AnalyticsBucket
+    categoryId?: string
+    departmentId?: string
+    severity?: IssueSeverity
+    tagId?: string
+  }) => [...issueKeys.all, "analytics", query] as const,
+  slaCompliance: (range: string) => [...issueKeys.all, "sla-compliance", range] as const,
+}
+
+// Reporter side, keyed by the tracking token that authorises it
+export const trackingKeys = {
+  all: ["tracking"] as const,
+  messages: (token: string) => [...trackingKeys.all, "messages", token] as const,
+}
+
+export const staffKeys = {
+  all: ["staff"] as const,
+}
+
+export const permissionKeys = {
+  mine: (userId: string) => ["permissions", userId] as const,
+}
+
+export const slaKeys = {
+  targets: ["sla-targets"] as const,
+}
+
+export const taxonomyKeys = {
+  categories: ["issue-categories"] as const,
+  departments: ["departments"] as const,
+  statusTransitions: ["issue-status-transitions"] as const,
+}
+
+export const savedViewKeys = {
+  all: ["saved-views"] as const,
+}
+
+export const tagKeys = {
+  all: ["tags"] as const,
+  list: () => [...tagKeys.all, "list"] as const,
+  usage: () => [...tagKeys.all, "usage"] as const,
+}
+
+export const auditKeys = {
+  all: ["audit-events"] as const,
+  list: (query: { filters: AuditFilters; page: number }) => [...auditKeys.all, "list", query] as const,
+}
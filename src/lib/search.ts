@@ -0,0 +1,23 @@
+// search_issues wraps matched terms in these markers rather than HTML, so
+// issue text is never rendered as markup
+const HIGHLIGHT_START = "[[["
+const HIGHLIGHT_END = "]]]"
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+export const splitHighlights = (value: string): HighlightSegment[] =>
+  value
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, match: false }]
+      const end = part.indexOf(HIGHLIGHT_END)
+      if (end === -1) return [{ text: part, match: false }]
+      return [
+        { text: part.slice(0, end), match: true },
+        { text: part.slice(end + HIGHLIGHT_END.length), match: false },
+      ]
+    })
+    .filter((segment) => segment.text.length > 0)
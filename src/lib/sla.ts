@@ -0,0 +1,53 @@
+import { addHours, differenceInMinutes } from "date-fns"
+import type { Issue, SlaTarget } from "@/types/database"
+
+export type SlaOutcome = "met" | "breached" | "pending" | "not_applicable"
+
+export interface SlaMeasure {
+  outcome: SlaOutcome
+  dueAt: Date
+  // Hours from report to response/resolution, once it has happened
+  elapsedHours: number | null
+}
+
+export interface IssueSla {
+  response: SlaMeasure
+  resolution: SlaMeasure
+}
+
+type SlaIssue = Pick<Issue, "severity" | "status" | "created_at" | "first_response_at" | "resolved_at">
+
+const hoursBetween = (from: Date, to: Date) => differenceInMinutes(to, from) / 60
+
+const measure = (createdAt: Date, targetHours: number, doneAt: string | undefined, now: Date): SlaMeasure => {
+  const dueAt = addHours(createdAt, targetHours)
+  const done = doneAt ? new Date(doneAt) : null
+
+  let outcome: SlaOutcome = "pending"
+  if (done && done <= dueAt) outcome = "met"
+  else if ((done ?? now) > dueAt) outcome = "breached"
+
+  return { outcome, dueAt, elapsedHours: done ? hoursBetween(createdAt, done) : null }
+}
+
+// Same rules as get_sla_compliance
+export const getIssueSla = (issue: SlaIssue, targets: SlaTarget[], now = new Date()): IssueSla | null => {
+  const target = targets.find((t) => t.severity === issue.severity)
+  if (!target) return null
+
+  const createdAt = new Date(issue.created_at)
+  const resolution = measure(createdAt, target.resolution_hours, issue.resolved_at, now)
+
+  return {
+    response: measure(createdAt, target.first_response_hours, issue.first_response_at, now),
+    resolution:
+      issue.status === "closed" && !issue.resolved_at ? { ...resolution, outcome: "not_applicable" } : resolution,
+  }
+}
+
+export const isSlaBreached = (sla: IssueSla | null) =>
+  sla?.response.outcome === "breached" || sla?.resolution.outcome === "breached"
+
+// Share of decided targets that were met; null while nothing has been decided
+export const getComplianceRate = (met: number, breached: number) =>
+  met + breached > 0 ? Math.round((met / (met + breached)) * 100) : null
@@ -0,0 +1,9 @@
+import type { Tag } from "@/types/database"
+
+type TagRow = Omit<Tag, "created_by"> & { created_by: string | null }
+
+// Tags embedded through issue_tags, alphabetically. RLS hides them from anyone who cannot see tags.
+export const toTags = (rows: { tag: TagRow | null }[] | null | undefined): Tag[] =>
+  (rows ?? [])
+    .flatMap(({ tag }) => (tag ? [{ ...tag, created_by: tag.created_by ?? undefined }] : []))
+    .sort((a, b) => a.name.localeCompare(b.name))
@@ -0,0 +1,36 @@
+import { DEFAULT_ISSUE_SORT, EMPTY_ISSUE_FILTERS, type IssueListFilters, type IssueListSort } from "@/lib/issue-list"
+
+export interface WorkQueue {
+  id: string
+  name: string
+  filters: IssueListFilters
+  sort: IssueListSort
+}
+
+// Built-in queues every case handler gets; saved views are listed after them
+export const WORK_QUEUES: WorkQueue[] = [
+  {
+    id: "assigned-to-me",
+    name: "Assigned to me",
+    filters: { ...EMPTY_ISSUE_FILTERS, assigneeId: "me", unresolved: true },
+    sort: { column: "severity_order", ascending: false },
+  },
+  {
+    id: "unassigned-critical",
+    name: "Unassigned critical",
+    filters: { ...EMPTY_ISSUE_FILTERS, assigneeId: "none", severity: "critical", unresolved: true },
+    sort: DEFAULT_ISSUE_SORT,
+  },
+  {
+    id: "breaching-sla",
+    name: "Breaching SLA",
+    filters: { ...EMPTY_ISSUE_FILTERS, slaBreaching: true },
+    sort: { column: "created_at", ascending: true },
+  },
+  {
+    id: "awaiting-reporter",
+    name: "Awaiting reporter reply",
+    filters: { ...EMPTY_ISSUE_FILTERS, awaitingReporter: true },
+    sort: { column: "updated_at", ascending: true },
+  },
+]
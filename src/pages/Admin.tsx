@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { MainLayout } from '@/components/layout/main-layout';
+import { TaxonomyManager } from '@/components/admin/taxonomy-manager';
+import { CategoryFieldsDialog } from '@/components/admin/category-fields-dialog';
+import { RoutingRulesManager } from '@/components/admin/routing-rules-manager';
+import { TagManager } from '@/components/admin/tag-manager';
+import { StatusTransitionsManager } from '@/components/admin/status-transitions-manager';
+import { AuditLog } from '@/components/admin/audit-log';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useTaxonomyAdmin } from '@/hooks/useTaxonomyAdmin';
+import { useRoutingRules } from '@/hooks/useRoutingRules';
+import { useStaffMembers } from '@/hooks/useStaffMembers';
+import { useTags } from '@/hooks/useTags';
+import { useTagAdmin } from '@/hooks/useTagAdmin';
+import { useStatusTransitionAdmin } from '@/hooks/useStatusTransitionAdmin';
+import { ArrowLeft, Building, GitBranch, Route, ScrollText, ShieldAlert, Tag, Tags } from 'lucide-react';
+
+const AdminConsole = () => {
+  const { departments, categories, usage, loading, save, setArchived, reorder, merge, remove } = useTaxonomyAdmin();
+  const { rules, loading: rulesLoading, saveRule, setEnabled, moveRule, deleteRule } = useRoutingRules();
+  const { staff, loading: staffLoading } = useStaffMembers();
+  const { tags, loading: tagsLoading } = useTags();
+  const { usage: tagUsage, loading: tagUsageLoading, saveTag, mergeTags, deleteTag } = useTagAdmin();
+  const { transitions, loading: transitionsLoading, saveTransition, deleteTransition } = useStatusTransitionAdmin();
+  const [fieldsCategory, setFieldsCategory] = useState<{ id: string; name: string } | null>(null);
+
+  if (loading || rulesLoading || staffLoading || tagsLoading || tagUsageLoading || transitionsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[40vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="departments" className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="departments" className="flex items-center gap-2">
+          <Building className="w-4 h-4" />
+          Departments
+        </TabsTrigger>
+        <TabsTrigger value="categories" className="flex items-center gap-2">
+          <Tags className="w-4 h-4" />
+          Categories
+        </TabsTrigger>
+        <TabsTrigger value="tags" className="flex items-center gap-2">
+          <Tag className="w-4 h-4" />
+          Tags
+        </TabsTrigger>
+        <TabsTrigger value="transitions" className="flex items-center gap-2">
+          <GitBranch className="w-4 h-4" />
+          Transitions
+        </TabsTrigger>
+        <TabsTrigger value="routing" className="flex items-center gap-2">
+          <Route className="w-4 h-4" />
+          Routing
+        </TabsTrigger>
+        <TabsTrigger value="audit" className="flex items-center gap-2">
+          <ScrollText className="w-4 h-4" />
+          Audit Log
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="departments">
+        <TaxonomyManager
+          kind="department"
+          items={departments}
+          usage={usage}
+          onSave={(input, id) => save('department', input, id)}
+          onArchive={(id, archived) => setArchived('department', id, archived)}
+          onReorder={(ids) => reorder('department', ids)}
+          onMerge={(sourceId, targetId) => merge('department', sourceId, targetId)}
+          onDelete={(id) => remove('department', id)}
+        />
+      </TabsContent>
+
+      <TabsContent value="categories">
+        <TaxonomyManager
+          kind="category"
+          items={categories}
+          usage={usage}
+          onSave={(input, id) => save('category', input, id)}
+          onArchive={(id, archived) => setArchived('category', id, archived)}
+          onReorder={(ids) => reorder('category', ids)}
+          onMerge={(sourceId, targetId) => merge('category', sourceId, targetId)}
+          onDelete={(id) => remove('category', id)}
+          onManageFields={setFieldsCategory}
+        />
+        <CategoryFieldsDialog
+          category={fieldsCategory}
+          onOpenChange={(open) => !open && setFieldsCategory(null)}
+        />
+      </TabsContent>
+
+      <TabsContent value="tags">
+        <TagManager
+          tags={tags}
+          usage={tagUsage}
+          onSave={saveTag}
+          onMerge={mergeTags}
+          onDelete={deleteTag}
+        />
+      </TabsContent>
+
+      <TabsContent value="transitions">
+        <StatusTransitionsManager
+          transitions={transitions}
+          onSave={saveTransition}
+          onDelete={deleteTransition}
+        />
+      </TabsContent>
+
+      <TabsContent value="routing">
+        <RoutingRulesManager
+          rules={rules}
+          categories={categories.filter((category) => !category.archived_at)}
+          departments={departments.filter((department) => !department.archived_at)}
+          staff={staff}
+          onSave={saveRule}
+          onToggle={setEnabled}
+          onMove={moveRule}
+          onDelete={deleteRule}
+        />
+      </TabsContent>
+
+      <TabsContent value="audit">
+        <AuditLog staff={staff} />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { can, loading: permissionsLoading } = usePermissions();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  if (authLoading || permissionsLoading) {
+    return (
+      <MainLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <LoadingSpinner size="lg" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="hover:bg-muted/50"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Administration</h1>
+          <p className="text-muted-foreground">
+            Manage the departments and categories offered when reporting issues, the tags used to label them, the status changes case handlers can make, how new issues are routed, and review the audit log.
+          </p>
+        </div>
+
+        {can('administer') ? (
+          <AdminConsole />
+        ) : (
+          <EmptyState
+            icon={<ShieldAlert className="w-8 h-8 text-muted-foreground" />}
+            title="Administrators only"
+            description="Ask an administrator if a department, category, tag, status transition or routing rule needs to change."
+            action={{ label: 'Back to Dashboard', onClick: () => navigate('/dashboard') }}
+          />
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Admin;
@@ -4,7 +4,6 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
 import { useForm } from 'react-hook-form';
@@ -23,9 +22,6 @@ const signUpSchema = z.object({
   confirmPassword: z.string(),
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
-  role: z.enum(['employee', 'manager', 'hr'], {
-    required_error: 'Please select your role',
-  }),
   company: z.string().min(1, 'Company name is required'),
   jobTitle: z.string().min(1, 'Job title is required'),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -75,7 +71,6 @@ const Auth = () => {
       const result = await signUp(data.email, data.password, {
         first_name: data.firstName,
         last_name: data.lastName,
-        role: data.role,
         company: data.company,
         job_title: data.jobTitle,
         display_name: `${data.firstName} ${data.lastName}`,
@@ -252,25 +247,6 @@ const Auth = () => {
                     )}
                   </div>
 
-                  <div>
-                    <Label htmlFor="role">Role</Label>
-                    <Select onValueChange={(value) => signUpForm.setValue('role', value as any)}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select your role" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="employee">Employee</SelectItem>
-                        <SelectItem value="manager">Manager</SelectItem>
-                        <SelectItem value="hr">HR Representative</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    {signUpForm.formState.errors.role && (
-                      <p className="text-sm text-destructive mt-1">
-                        {signUpForm.formState.errors.role.message}
-                      </p>
-                    )}
-                  </div>
-
                   <div>
                     <Label htmlFor="signup-password">Password</Label>
                     <Input
@@ -310,6 +286,10 @@ const Auth = () => {
                   >
                     {loading ? 'Creating Account...' : 'Create Account'}
                   </Button>
+
+                  <p className="text-xs text-muted-foreground text-center">
+                    New accounts start as employees. An administrator assigns manager and HR access.
+                  </p>
                   
                   {emailForConfirmation && (
                     <div className="mt-4 p-4 bg-muted/50 rounded-lg text-center">
@@ -1,16 +1,71 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useIssues } from '@/hooks/useIssues';
+import { getTextFieldKeys, useIssueList } from '@/hooks/useIssueList';
+import { useIssueCounts } from '@/hooks/useIssueCounts';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useIssueStatusCounts } from '@/hooks/useIssueStatusCounts';
+import { useIssueActivity } from '@/hooks/useIssueActivity';
+import { useIssueBoard } from '@/hooks/useIssueBoard';
+import { useStaffMembers } from '@/hooks/useStaffMembers';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useIssueAnalytics } from '@/hooks/useIssueAnalytics';
+import { useSlaTargets } from '@/hooks/useSlaTargets';
+import { useSlaCompliance } from '@/hooks/useSlaCompliance';
+import { useCategoryFields } from '@/hooks/useCategoryFields';
+import { useTags } from '@/hooks/useTags';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Checkbox } from '@/components/ui/checkbox';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { StatsCard } from '@/components/ui/stats-card';
 import { MainLayout } from '@/components/layout/main-layout';
+import { SlaBadge } from '@/components/issues/sla-badge';
+import { CustomFieldFilters } from '@/components/issues/custom-field-filters';
+import { SortableHead } from '@/components/issues/sortable-head';
+import { IssuePagination } from '@/components/issues/issue-pagination';
+import { IssueBoard, type IssueBoardSwimlane } from '@/components/issues/issue-board';
+import { BulkActionBar } from '@/components/issues/bulk-action-bar';
+import { IssueColumnPicker } from '@/components/issues/issue-column-picker';
+import { SavedViewsNav } from '@/components/issues/saved-views-nav';
+import { TagBadge } from '@/components/issues/tag-badge';
+import { SlaCompliancePanel } from '@/components/analytics/sla-compliance-panel';
+import { ISSUE_STATUSES, getStatusBadgeVariant, getStatusLabel } from '@/lib/issue-status';
+import {
+  ANALYTICS_BUCKETS,
+  ANALYTICS_RANGES,
+  DEFAULT_ANALYTICS_RANGE,
+  formatBucketLabel,
+  formatDuration,
+  getAnalyticsRange,
+  getPercentChange,
+} from '@/lib/analytics';
+import { getIssueSla } from '@/lib/sla';
+import { getProfileName } from '@/lib/profiles';
+import {
+  DEFAULT_ISSUE_COLUMNS,
+  DEFAULT_ISSUE_SORT,
+  EMPTY_ISSUE_FILTERS,
+  ISSUE_PAGE_SIZE,
+  ISSUE_SORTS,
+  parseIssueColumns,
+  parseIssueListParams,
+  toIssueListParams,
+  type IssueColumn,
+  type IssueListFilters,
+  type IssueListState,
+  type IssueSortColumn,
+} from '@/lib/issue-list';
+import { WORK_QUEUES } from '@/lib/work-queues';
+import type { AnalyticsBucket, BulkIssueChanges, IssueSeverity } from '@/types/database';
 import { 
   AlertCircle, 
   Clock, 
@@ -19,12 +74,17 @@ import {
   Users, 
   AlertTriangle,
   FileText,
+  ListChecks,
   Search,
-  Filter,
+  X,
   Calendar,
   BarChart3,
   PieChart,
-  Activity
+  Activity,
+  BellDot,
+  List,
+  SquareKanban,
+  Tag
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { 
@@ -45,11 +105,65 @@ import {
 const Dashboard = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
-  const { issues, loading, categories, refetch } = useIssues();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [severityFilter, setSeverityFilter] = useState('all');
-  const [activeTab, setActiveTab] = useState('overview');
+  const {
+    loading,
+    categories,
+    departments,
+    statusTransitions,
+    changeIssueStatus,
+    bulkUpdateIssues,
+    exportIssues,
+  } = useIssues();
+  const { can, canAny, loading: permissionsLoading } = usePermissions();
+  const canSelectIssues = canAny('triage', 'assign', 'resolve');
+  const { tags } = useTags(can('triage'));
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [analyticsRange, setAnalyticsRange] = useState(DEFAULT_ANALYTICS_RANGE);
+  const [analyticsBucket, setAnalyticsBucket] = useState<AnalyticsBucket>(getAnalyticsRange(DEFAULT_ANALYTICS_RANGE).defaultBucket);
+  const [analyticsCategory, setAnalyticsCategory] = useState('all');
+  const [analyticsDepartment, setAnalyticsDepartment] = useState('all');
+  const [analyticsSeverity, setAnalyticsSeverity] = useState('all');
+  const [analyticsTag, setAnalyticsTag] = useState('all');
+  const { analytics } = useIssueAnalytics({
+    range: analyticsRange,
+    bucket: analyticsBucket,
+    categoryId: analyticsCategory === 'all' ? undefined : analyticsCategory,
+    departmentId: analyticsDepartment === 'all' ? undefined : analyticsDepartment,
+    severity: analyticsSeverity === 'all' ? undefined : analyticsSeverity as IssueSeverity,
+    tagId: analyticsTag === 'all' ? undefined : analyticsTag,
+  });
+  const { targets: slaTargets } = useSlaTargets();
+  const { compliance, loading: complianceLoading } = useSlaCompliance(analyticsRange);
+  const { getFields } = useCategoryFields();
+  const { staff } = useStaffMembers();
+  const { counts: statusCounts } = useIssueStatusCounts();
+
+  // The tab and the issue list's filters, sort and page live in the URL so views can be shared and bookmarked
+  const listState = useMemo(() => parseIssueListParams(searchParams), [searchParams]);
+  const { filters, sort, page } = listState;
+  const activeTab = searchParams.get('tab') || 'overview';
+  const issueView = searchParams.get('view') === 'board' ? 'board' : 'list';
+  const swimlane: IssueBoardSwimlane = ['severity', 'assignee'].includes(searchParams.get('lanes'))
+    ? searchParams.get('lanes') as IssueBoardSwimlane
+    : 'none';
+  const columns = parseIssueColumns(searchParams.get('cols'));
+
+  // Custom field filters apply once a single category is selected
+  const filterFields = filters.categoryId ? getFields(filters.categoryId) : [];
+
+  const { issues, total, loading: issuesLoading, fetching: issuesFetching } = useIssueList(filters, sort, page, { customFields: filterFields });
+  const { issues: recentIssues } = useIssueList(EMPTY_ISSUE_FILTERS, DEFAULT_ISSUE_SORT, 1, { pageSize: 5 });
+  // Selection covers the current page and is cleared whenever the page or filters change
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  useEffect(() => setSelectedIds([]), [listState]);
+
+  const board = useIssueBoard(filters, {
+    customFields: filterFields,
+    enabled: activeTab === 'issues' && issueView === 'board',
+  });
+
+  // Lists, counts and analytics share the issue cache, so activity refreshes them all
+  const { newIssueIds, acknowledge: acknowledgeNewIssues } = useIssueActivity();
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -60,21 +174,89 @@ const Dashboard = () => {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'open': return <AlertCircle className="w-4 h-4" />;
-      case 'in_progress': return <Clock className="w-4 h-4" />;
+      case 'triaged': return <ListChecks className="w-4 h-4" />;
+      case 'investigating': return <Clock className="w-4 h-4" />;
       case 'resolved': return <CheckCircle className="w-4 h-4" />;
       case 'closed': return <CheckCircle className="w-4 h-4" />;
       default: return <AlertCircle className="w-4 h-4" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'open': return 'destructive';
-      case 'in_progress': return 'warning';
-      case 'resolved': return 'success';
-      case 'closed': return 'secondary';
-      default: return 'secondary';
-    }
+  const buildParams = (state: IssueListState, { tab = activeTab, view = issueView, lanes = swimlane, cols = columns } = {}) => {
+    const params = toIssueListParams(state);
+    if (tab !== 'overview') params.set('tab', tab);
+    if (view !== 'list') params.set('view', view);
+    if (lanes !== 'none') params.set('lanes', lanes);
+    if (cols.join(',') !== DEFAULT_ISSUE_COLUMNS.join(',')) params.set('cols', cols.join(','));
+    return params;
+  };
+
+  // Typing in a filter replaces the history entry; paging and switching tabs or views add one
+  const writeParams = (
+    state: IssueListState,
+    { tab = activeTab, view = issueView, lanes = swimlane, cols = columns, replace = false } = {}
+  ) => setSearchParams(buildParams(state, { tab, view, lanes, cols }), { replace });
+
+  // Queues and saved views are list queries without the tab or page, so the one matching the list is highlighted
+  const getListQuery = (state: IssueListState) => buildParams({ ...state, page: 1 }, { tab: 'overview' }).toString();
+  const currentListQuery = getListQuery(listState);
+
+  const { views: savedViews, createView, updateView, deleteView } = useSavedViews(canSelectIssues);
+  const queueItems = WORK_QUEUES.map((queue) => ({
+    key: `queue:${queue.id}`,
+    name: queue.name,
+    query: getListQuery({ filters: queue.filters, sort: queue.sort, page: 1 }),
+    filters: queue.filters,
+  }));
+  const viewItems = savedViews.map((view) => ({
+    key: `view:${view.id}`,
+    name: view.name,
+    query: view.query,
+    filters: parseIssueListParams(new URLSearchParams(view.query)).filters,
+    view,
+  }));
+  const navCounts = useIssueCounts(
+    [...queueItems, ...viewItems].map(({ key, filters: itemFilters }) => ({
+      key,
+      filters: itemFilters,
+      textFieldKeys: getTextFieldKeys(itemFilters.categoryId ? getFields(itemFilters.categoryId) : []),
+    })),
+    canSelectIssues
+  );
+
+  const applyListQuery = (query: string) => {
+    const params = new URLSearchParams(query);
+    params.set('tab', 'issues');
+    setSearchParams(params);
+  };
+
+  const updateFilters = (changes: Partial<IssueListFilters>) =>
+    writeParams({ filters: { ...filters, ...changes }, sort, page: 1 }, { replace: true });
+
+  const changeSort = (column: IssueSortColumn) => {
+    const option = ISSUE_SORTS.find((candidate) => candidate.column === column);
+    const ascending = sort.column === column ? !sort.ascending : option?.defaultAscending ?? false;
+    writeParams({ filters, sort: { column, ascending }, page: 1 }, { replace: true });
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_ISSUE_FILTERS);
+
+  const toggleSelected = (issueId: string, selected: boolean) =>
+    setSelectedIds((ids) => (selected ? [...ids, issueId] : ids.filter((id) => id !== issueId)));
+
+  const allSelected = issues.length > 0 && issues.every((issue) => selectedIds.includes(issue.id));
+  const selectedIssues = issues.filter((issue) => selectedIds.includes(issue.id));
+
+  // Issues that could not be changed stay selected so they can be looked at or retried
+  const applyBulkUpdate = async (changes: BulkIssueChanges, options: { note?: string; isPublic?: boolean }) => {
+    const results = await bulkUpdateIssues(selectedIds, changes, options);
+    setSelectedIds(results.filter((result) => result.error).map((result) => result.issue_id));
+  };
+
+  // New reports sort first by default, so jumping to them only resets the sort and page
+  const showNewIssues = () => {
+    acknowledgeNewIssues();
+    writeParams({ filters, sort: DEFAULT_ISSUE_SORT, page: 1 }, { tab: 'issues' });
   };
 
   const getSeverityColor = (severity: string) => {
@@ -87,7 +269,7 @@ const Dashboard = () => {
     }
   };
 
-  if (authLoading || loading) {
+  if (authLoading || loading || permissionsLoading) {
     return (
       <MainLayout>
         <div className="flex items-center justify-center min-h-[60vh]">
@@ -97,44 +279,46 @@ const Dashboard = () => {
     );
   }
 
-  const totalIssues = issues.length;
-  const openIssues = issues.filter(issue => issue.status === 'open').length;
-  const inProgressIssues = issues.filter(issue => issue.status === 'in_progress').length;
-  const resolvedIssues = issues.filter(issue => issue.status === 'resolved').length;
-  const criticalIssues = issues.filter(issue => issue.severity === 'critical').length;
-
-  // Filter issues based on search and filters
-  const filteredIssues = issues.filter(issue => {
-    const matchesSearch = issue.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         issue.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || issue.status === statusFilter;
-    const matchesSeverity = severityFilter === 'all' || issue.severity === severityFilter;
-    return matchesSearch && matchesStatus && matchesSeverity;
-  });
+  // Organisation-wide analytics are only meaningful beyond your own reports
+  const canViewAnalytics = canAny('view_department', 'view_all');
+
+  // Stats cards and analytics charts come from get_issue_analytics for the selected range and filters
+  const current = analytics?.totals.current;
+  const previous = analytics?.totals.previous;
+  const rangeLabel = getAnalyticsRange(analyticsRange).label;
+
+  const getTrend = (key: 'total' | 'open' | 'active' | 'critical') => {
+    const value = current && previous ? getPercentChange(current[key], previous[key]) : undefined;
+    return value === undefined ? undefined : { value, label: "vs previous period" };
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / ISSUE_PAGE_SIZE));
+  const showColumn = (column: IssueColumn) => columns.includes(column);
 
   // Analytics data
-  const statusData = [
-    { name: 'Open', value: openIssues, color: '#ef4444' },
-    { name: 'In Progress', value: inProgressIssues, color: '#f59e0b' },
-    { name: 'Resolved', value: resolvedIssues, color: '#10b981' },
-  ];
+  const statusData = ISSUE_STATUSES.map(status => ({
+    name: status.label,
+    value: statusCounts[status.value] ?? 0,
+    color: status.chartColor,
+  }));
+
+  const getSeverityCount = (severity: IssueSeverity) =>
+    analytics?.severity.find(s => s.severity === severity)?.count ?? 0;
 
   const severityData = [
-    { name: 'Critical', value: issues.filter(i => i.severity === 'critical').length, color: '#ef4444' },
-    { name: 'High', value: issues.filter(i => i.severity === 'high').length, color: '#f59e0b' },
-    { name: 'Medium', value: issues.filter(i => i.severity === 'medium').length, color: '#3b82f6' },
-    { name: 'Low', value: issues.filter(i => i.severity === 'low').length, color: '#10b981' },
+    { name: 'Critical', value: getSeverityCount('critical'), color: '#ef4444' },
+    { name: 'High', value: getSeverityCount('high'), color: '#f59e0b' },
+    { name: 'Medium', value: getSeverityCount('medium'), color: '#3b82f6' },
+    { name: 'Low', value: getSeverityCount('low'), color: '#10b981' },
   ];
 
-  // Trend data (mock for now - in real app, this would come from analytics)
-  const trendData = [
-    { month: 'Jan', issues: 12, resolved: 8 },
-    { month: 'Feb', issues: 15, resolved: 12 },
-    { month: 'Mar', issues: 18, resolved: 15 },
-    { month: 'Apr', issues: 14, resolved: 16 },
-    { month: 'May', issues: 22, resolved: 18 },
-    { month: 'Jun', issues: totalIssues, resolved: resolvedIssues },
-  ];
+  const tagData = analytics?.tags ?? [];
+
+  const trendData = (analytics?.trend ?? []).map(point => ({
+    period: formatBucketLabel(point.bucket, analyticsBucket),
+    issues: point.created,
+    resolved: point.resolved,
+  }));
 
   return (
     <MainLayout>
@@ -163,37 +347,37 @@ const Dashboard = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <StatsCard
             title="Total Issues"
-            value={totalIssues}
-            description="All time"
+            value={current?.total ?? 0}
+            description={rangeLabel}
             icon={<FileText />}
-            trend={{ value: 12, label: "vs last month" }}
+            trend={getTrend('total')}
           />
           <StatsCard
             title="Open Issues"
-            value={openIssues}
+            value={current?.open ?? 0}
             description="Needs attention"
             icon={<AlertCircle />}
-            trend={{ value: -5, label: "vs last week" }}
+            trend={getTrend('open')}
           />
           <StatsCard
             title="In Progress"
-            value={inProgressIssues}
+            value={current?.active ?? 0}
             description="Being worked on"
             icon={<Clock />}
-            trend={{ value: 8, label: "vs last week" }}
+            trend={getTrend('active')}
           />
           <StatsCard
             title="Critical Issues"
-            value={criticalIssues}
+            value={current?.critical ?? 0}
             description="Urgent attention"
             icon={<AlertTriangle />}
-            trend={{ value: -2, label: "vs last week" }}
+            trend={getTrend('critical')}
           />
         </div>
 
         {/* Main Content Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:grid-cols-3">
+        <Tabs value={activeTab} onValueChange={(tab) => writeParams(listState, { tab })} className="space-y-6">
+          <TabsList className={`grid w-full lg:w-auto ${canViewAnalytics ? 'grid-cols-3 lg:grid-cols-3' : 'grid-cols-2 lg:grid-cols-2'}`}>
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <Activity className="w-4 h-4" />
               Overview
@@ -201,11 +385,16 @@ const Dashboard = () => {
             <TabsTrigger value="issues" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               Issues
+              {newIssueIds.length > 0 && (
+                <span className="w-2 h-2 rounded-full bg-primary" aria-label={`${newIssueIds.length} new`} />
+              )}
             </TabsTrigger>
-            <TabsTrigger value="analytics" className="flex items-center gap-2">
-              <BarChart3 className="w-4 h-4" />
-              Analytics
-            </TabsTrigger>
+            {canViewAnalytics && (
+              <TabsTrigger value="analytics" className="flex items-center gap-2">
+                <BarChart3 className="w-4 h-4" />
+                Analytics
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Overview Tab */}
@@ -217,15 +406,29 @@ const Dashboard = () => {
                   <CardTitle className="flex items-center gap-2">
                     <Clock className="w-5 h-5" />
                     Recent Issues
+                    {newIssueIds.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="ml-auto cursor-pointer gap-1 font-normal text-primary"
+                        onClick={showNewIssues}
+                      >
+                        <BellDot className="w-3 h-3" />
+                        {newIssueIds.length} new
+                      </Badge>
+                    )}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {issues.slice(0, 5).map((issue) => (
-                      <div key={issue.id} className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
-                        <Badge variant={getStatusColor(issue.status) as any} className="flex items-center gap-1">
+                    {recentIssues.map((issue) => (
+                      <div
+                        key={issue.id}
+                        className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+                        onClick={() => navigate(`/issues/${issue.id}`)}
+                      >
+                        <Badge variant={getStatusBadgeVariant(issue.status)} className="flex items-center gap-1">
                           {getStatusIcon(issue.status)}
-                          {issue.status.replace('_', ' ')}
+                          {getStatusLabel(issue.status)}
                         </Badge>
                         <div className="flex-1 min-w-0">
                           <p className="font-medium text-sm truncate">{issue.title}</p>
@@ -233,6 +436,7 @@ const Dashboard = () => {
                             {format(new Date(issue.created_at), 'MMM d, yyyy')}
                           </p>
                         </div>
+                        <SlaBadge sla={getIssueSla(issue, slaTargets)} />
                         <Badge className={`text-xs ${getSeverityColor(issue.severity)}`}>
                           {issue.severity}
                         </Badge>
@@ -276,31 +480,53 @@ const Dashboard = () => {
 
           {/* Issues Tab */}
           <TabsContent value="issues" className="space-y-6">
+            {/* Work Queues and Saved Views */}
+            {canSelectIssues && (
+              <SavedViewsNav
+                queues={queueItems.map((item) => ({ ...item, count: navCounts[item.key] }))}
+                views={viewItems.map((item) => ({ ...item, count: navCounts[item.key] }))}
+                currentQuery={currentListQuery}
+                currentUserId={user?.id}
+                departments={departments}
+                onApply={applyListQuery}
+                onCreate={createView}
+                onUpdate={updateView}
+                onDelete={deleteView}
+              />
+            )}
+
             {/* Filters */}
             <Card className="shadow-candor-md">
-              <CardContent className="pt-6">
+              <CardContent className="pt-6 space-y-4">
                 <div className="flex flex-col sm:flex-row gap-4">
-                  <div className="flex-1">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search issues..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full"
+                      placeholder="Search issues and their public updates..."
+                      value={filters.search ?? ''}
+                      onChange={(e) => updateFilters({ search: e.target.value || undefined })}
+                      className="w-full pl-10"
                     />
                   </div>
-                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <Select
+                    value={filters.status ?? 'all'}
+                    disabled={issueView === 'board'}
+                    onValueChange={(value) => updateFilters({ status: value === 'all' ? undefined : value as IssueListFilters['status'] })}
+                  >
                     <SelectTrigger className="w-full sm:w-40">
                       <SelectValue placeholder="Status" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="open">Open</SelectItem>
-                      <SelectItem value="in_progress">In Progress</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                      <SelectItem value="closed">Closed</SelectItem>
+                      {ISSUE_STATUSES.map(status => (
+                        <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
-                  <Select value={severityFilter} onValueChange={setSeverityFilter}>
+                  <Select
+                    value={filters.severity ?? 'all'}
+                    onValueChange={(value) => updateFilters({ severity: value === 'all' ? undefined : value as IssueSeverity })}
+                  >
                     <SelectTrigger className="w-full sm:w-40">
                       <SelectValue placeholder="Severity" />
                     </SelectTrigger>
@@ -312,133 +538,541 @@ const Dashboard = () => {
                       <SelectItem value="low">Low</SelectItem>
                     </SelectContent>
                   </Select>
+                  <Select
+                    value={filters.categoryId ?? 'all'}
+                    onValueChange={(value) => updateFilters({ categoryId: value === 'all' ? undefined : value, fields: {} })}
+                  >
+                    <SelectTrigger className="w-full sm:w-48">
+                      <SelectValue placeholder="Category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Categories</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              </CardContent>
-            </Card>
-
-            {/* Issues List */}
-            <Card className="shadow-candor-lg">
-              <CardHeader>
-                <CardTitle>Issues ({filteredIssues.length})</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {filteredIssues.map((issue) => (
-                    <div key={issue.id} className="border border-border rounded-lg p-4 hover:bg-muted/30 transition-colors">
-                      <div className="flex items-start gap-4">
-                        <div className="flex-1 space-y-2">
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <h3 className="font-semibold text-foreground">{issue.title}</h3>
-                            <Badge variant={getStatusColor(issue.status) as any} className="flex items-center gap-1">
-                              {getStatusIcon(issue.status)}
-                              {issue.status.replace('_', ' ')}
-                            </Badge>
-                            <Badge className={`${getSeverityColor(issue.severity)}`}>
-                              {issue.severity}
-                            </Badge>
-                          </div>
-                          <p className="text-muted-foreground text-sm line-clamp-2">
-                            {issue.description}
-                          </p>
-                          <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                            <span>Created {format(new Date(issue.created_at), 'MMM d, yyyy')}</span>
-                            {issue.category && (
-                              <span>Category: {issue.category.name}</span>
-                            )}
-                            {issue.location && (
-                              <span>Location: {issue.location}</span>
-                            )}
-                          </div>
-                        </div>
-                      </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="issue-department" className="text-xs text-muted-foreground">Department</Label>
+                    <Select
+                      value={filters.departmentId ?? 'all'}
+                      onValueChange={(value) => updateFilters({ departmentId: value === 'all' ? undefined : value })}
+                    >
+                      <SelectTrigger id="issue-department">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Departments</SelectItem>
+                        {departments.map((department) => (
+                          <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {canViewAnalytics && (
+                    <div className="space-y-1">
+                      <Label htmlFor="issue-assignee" className="text-xs text-muted-foreground">Assignee</Label>
+                      <Select
+                        value={filters.assigneeId ?? 'all'}
+                        onValueChange={(value) => updateFilters({ assigneeId: value === 'all' ? undefined : value })}
+                      >
+                        <SelectTrigger id="issue-assignee">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Anyone</SelectItem>
+                          <SelectItem value="me">Assigned to me</SelectItem>
+                          <SelectItem value="none">Unassigned</SelectItem>
+                          {staff.map((member) => (
+                            <SelectItem key={member.user_id} value={member.user_id}>{getProfileName(member)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                  ))}
-                  {filteredIssues.length === 0 && (
-                    <div className="text-center py-8 text-muted-foreground">
-                      No issues found matching your filters.
+                  )}
+                  {tags.length > 0 && (
+                    <div className="space-y-1">
+                      <Label htmlFor="issue-tag" className="text-xs text-muted-foreground">Tag</Label>
+                      <Select
+                        value={filters.tagId ?? 'all'}
+                        onValueChange={(value) => updateFilters({ tagId: value === 'all' ? undefined : value })}
+                      >
+                        <SelectTrigger id="issue-tag">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Any Tag</SelectItem>
+                          {tags.map((tag) => (
+                            <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   )}
+                  <div className="space-y-1">
+                    <Label htmlFor="issue-from" className="text-xs text-muted-foreground">Reported from</Label>
+                    <Input
+                      id="issue-from"
+                      type="date"
+                      value={filters.from ?? ''}
+                      onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="issue-to" className="text-xs text-muted-foreground">Reported to</Label>
+                    <Input
+                      id="issue-to"
+                      type="date"
+                      value={filters.to ?? ''}
+                      onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+                    />
+                  </div>
+                  {hasFilters && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => writeParams({ filters: EMPTY_ISSUE_FILTERS, sort, page: 1 }, { replace: true })}
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Clear filters
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="issue-unresolved"
+                      checked={!!filters.unresolved}
+                      onCheckedChange={(checked) => updateFilters({ unresolved: checked === true || undefined })}
+                    />
+                    <Label htmlFor="issue-unresolved" className="text-sm font-normal">Open work only</Label>
+                  </div>
+                  {filters.slaBreaching && (
+                    <Badge variant="outline" className="gap-1 font-normal">
+                      Breaching SLA
+                      <button onClick={() => updateFilters({ slaBreaching: undefined })} aria-label="Remove filter">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  )}
+                  {filters.awaitingReporter && (
+                    <Badge variant="outline" className="gap-1 font-normal">
+                      Awaiting reporter reply
+                      <button onClick={() => updateFilters({ awaitingReporter: undefined })} aria-label="Remove filter">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  )}
                 </div>
+                {filterFields.length > 0 && (
+                  <CustomFieldFilters
+                    fields={filterFields}
+                    values={filters.fields}
+                    onChange={(fields) => updateFilters({ fields })}
+                  />
+                )}
               </CardContent>
             </Card>
+
+            {/* View Options */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={issueView}
+                onValueChange={(view) => view && writeParams(listState, { view })}
+              >
+                <ToggleGroupItem value="list" className="gap-2">
+                  <List className="w-4 h-4" />
+                  List
+                </ToggleGroupItem>
+                <ToggleGroupItem value="board" className="gap-2">
+                  <SquareKanban className="w-4 h-4" />
+                  Board
+                </ToggleGroupItem>
+              </ToggleGroup>
+              {issueView === 'board' && (
+                <Select
+                  value={swimlane}
+                  onValueChange={(lanes) => writeParams(listState, { lanes: lanes as IssueBoardSwimlane, replace: true })}
+                >
+                  <SelectTrigger className="w-full sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No swimlanes</SelectItem>
+                    <SelectItem value="severity">Swimlanes by severity</SelectItem>
+                    <SelectItem value="assignee">Swimlanes by assignee</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {issueView === 'list' && (
+                <div className="sm:ml-auto">
+                  <IssueColumnPicker columns={columns} onChange={(cols) => writeParams(listState, { cols, replace: true })} />
+                </div>
+              )}
+            </div>
+
+            {issueView === 'board' ? (
+              /* Issues Board */
+              <Card className="shadow-candor-lg">
+                <CardContent className="pt-6">
+                  {board.loading ? (
+                    <LoadingSpinner />
+                  ) : (
+                    <div className={board.fetching ? 'opacity-60 transition-opacity' : undefined}>
+                      <IssueBoard
+                        issues={board.issues}
+                        totals={board.totals}
+                        transitions={statusTransitions}
+                        slaTargets={slaTargets}
+                        swimlane={swimlane}
+                        can={can}
+                        onOpen={(issue) => navigate(`/issues/${issue.id}`)}
+                        onMove={(issue, status, options) => changeIssueStatus(issue.id, status, options)}
+                      />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              /* Issues List */
+              <Card className="shadow-candor-lg">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Issues ({total})</CardTitle>
+                  {newIssueIds.length > 0 && (
+                    <Button variant="ghost" size="sm" className="gap-2 text-primary" onClick={showNewIssues}>
+                      <BellDot className="w-4 h-4" />
+                      {newIssueIds.length === 1 ? '1 new report' : `${newIssueIds.length} new reports`}
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {selectedIds.length > 0 && (
+                    <BulkActionBar
+                      selectedCount={selectedIds.length}
+                      staff={staff}
+                      departments={departments}
+                      tags={tags}
+                      can={can}
+                      onApply={applyBulkUpdate}
+                      onExport={() => exportIssues(selectedIssues)}
+                      onClear={() => setSelectedIds([])}
+                    />
+                  )}
+                  {issuesLoading && issues.length === 0 ? (
+                    <LoadingSpinner />
+                  ) : (
+                    <Table className={issuesFetching ? 'opacity-60 transition-opacity' : undefined}>
+                      <TableHeader>
+                        <TableRow>
+                          {canSelectIssues && (
+                            <TableHead className="w-10">
+                              <Checkbox
+                                checked={allSelected}
+                                onCheckedChange={(checked) => setSelectedIds(checked === true ? issues.map((issue) => issue.id) : [])}
+                                aria-label="Select all issues on this page"
+                              />
+                            </TableHead>
+                          )}
+                          <SortableHead label="Issue" column="title" sort={sort} onSort={changeSort} />
+                          {showColumn('status') && <TableHead>Status</TableHead>}
+                          {showColumn('severity') && (
+                            <SortableHead label="Severity" column="severity_order" sort={sort} onSort={changeSort} />
+                          )}
+                          {showColumn('category') && <TableHead className="hidden lg:table-cell">Category</TableHead>}
+                          {showColumn('department') && <TableHead className="hidden lg:table-cell">Department</TableHead>}
+                          {showColumn('assignee') && <TableHead className="hidden lg:table-cell">Assignee</TableHead>}
+                          {showColumn('created') && (
+                            <SortableHead label="Created" column="created_at" sort={sort} onSort={changeSort} />
+                          )}
+                          {showColumn('updated') && (
+                            <SortableHead label="Updated" column="updated_at" sort={sort} onSort={changeSort} className="hidden md:table-cell" />
+                          )}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {issues.map((issue) => (
+                          <TableRow
+                            key={issue.id}
+                            className="cursor-pointer"
+                            data-state={selectedIds.includes(issue.id) ? 'selected' : undefined}
+                            onClick={() => navigate(`/issues/${issue.id}`)}
+                          >
+                            {canSelectIssues && (
+                              <TableCell onClick={(e) => e.stopPropagation()}>
+                                <Checkbox
+                                  checked={selectedIds.includes(issue.id)}
+                                  onCheckedChange={(checked) => toggleSelected(issue.id, checked === true)}
+                                  aria-label={`Select ${issue.title}`}
+                                />
+                              </TableCell>
+                            )}
+                            <TableCell className="max-w-md">
+                              <p className="font-medium text-foreground truncate">
+                                {newIssueIds.includes(issue.id) && (
+                                  <span className="inline-block w-2 h-2 mr-2 rounded-full bg-primary align-middle" aria-label="New" />
+                                )}
+                                {issue.title}
+                              </p>
+                              {issue.tags?.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {issue.tags.map((tag) => <TagBadge key={tag.id} tag={tag} />)}
+                                </div>
+                              )}
+                            </TableCell>
+                            {showColumn('status') && (
+                              <TableCell>
+                                <div className="flex flex-col items-start gap-1">
+                                  <Badge variant={getStatusBadgeVariant(issue.status)} className="flex items-center gap-1">
+                                    {getStatusIcon(issue.status)}
+                                    {getStatusLabel(issue.status)}
+                                  </Badge>
+                                  <SlaBadge sla={getIssueSla(issue, slaTargets)} />
+                                </div>
+                              </TableCell>
+                            )}
+                            {showColumn('severity') && (
+                              <TableCell>
+                                <Badge className={`${getSeverityColor(issue.severity)}`}>
+                                  {issue.severity}
+                                </Badge>
+                              </TableCell>
+                            )}
+                            {showColumn('category') && (
+                              <TableCell className="hidden lg:table-cell text-sm">{issue.category?.name ?? '—'}</TableCell>
+                            )}
+                            {showColumn('department') && (
+                              <TableCell className="hidden lg:table-cell text-sm">{issue.department?.name ?? '—'}</TableCell>
+                            )}
+                            {showColumn('assignee') && (
+                              <TableCell className="hidden lg:table-cell text-sm">
+                                {issue.assigned_user ? getProfileName(issue.assigned_user) : 'Unassigned'}
+                              </TableCell>
+                            )}
+                            {showColumn('created') && (
+                              <TableCell className="whitespace-nowrap text-sm">
+                                {format(new Date(issue.created_at), 'MMM d, yyyy')}
+                              </TableCell>
+                            )}
+                            {showColumn('updated') && (
+                              <TableCell className="hidden md:table-cell whitespace-nowrap text-sm">
+                                {format(new Date(issue.updated_at), 'MMM d, yyyy')}
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        ))}
+                        {issues.length === 0 && (
+                          <TableRow>
+                            <TableCell colSpan={columns.length + (canSelectIssues ? 2 : 1)} className="text-center py-8 text-muted-foreground">
+                              No issues found matching your filters.
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  )}
+                  <IssuePagination
+                    page={page}
+                    pageCount={pageCount}
+                    getHref={(target) => `?${buildParams({ filters, sort, page: target })}`}
+                    onPageChange={(target) => writeParams({ filters, sort, page: target })}
+                  />
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Analytics Tab */}
-          <TabsContent value="analytics" className="space-y-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Issues Trend */}
+          {canViewAnalytics && (
+            <TabsContent value="analytics" className="space-y-6">
+              {/* Analytics Filters */}
               <Card className="shadow-candor-lg">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <TrendingUp className="w-5 h-5" />
-                    Issues Trend
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <LineChart data={trendData}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="month" />
-                      <YAxis />
-                      <Tooltip />
-                      <Line type="monotone" dataKey="issues" stroke="#3b82f6" strokeWidth={2} />
-                      <Line type="monotone" dataKey="resolved" stroke="#10b981" strokeWidth={2} />
-                    </LineChart>
-                  </ResponsiveContainer>
+                <CardContent className="pt-6">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
+                    <Select
+                      value={analyticsRange}
+                      onValueChange={(value) => {
+                        setAnalyticsRange(value);
+                        setAnalyticsBucket(getAnalyticsRange(value).defaultBucket);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <Calendar className="w-4 h-4 mr-2" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ANALYTICS_RANGES.map((range) => (
+                          <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={analyticsBucket} onValueChange={(value) => setAnalyticsBucket(value as AnalyticsBucket)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ANALYTICS_BUCKETS.map((bucket) => (
+                          <SelectItem key={bucket.value} value={bucket.value}>{bucket.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={analyticsCategory} onValueChange={setAnalyticsCategory}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Categories</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={analyticsDepartment} onValueChange={setAnalyticsDepartment}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Departments</SelectItem>
+                        {departments.map((department) => (
+                          <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={analyticsSeverity} onValueChange={setAnalyticsSeverity}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Severity" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Severities</SelectItem>
+                        <SelectItem value="critical">Critical</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="low">Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={analyticsTag} onValueChange={setAnalyticsTag}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Tag" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Tags</SelectItem>
+                        {tags.map((tag) => (
+                          <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </CardContent>
               </Card>
 
-              {/* Severity Distribution */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Issues Trend */}
+                <Card className="shadow-candor-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="w-5 h-5" />
+                      Issues Trend
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <LineChart data={trendData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="period" />
+                        <YAxis />
+                        <Tooltip />
+                        <Line type="monotone" dataKey="issues" name="Reported" stroke="#3b82f6" strokeWidth={2} />
+                        <Line type="monotone" dataKey="resolved" name="Resolved" stroke="#10b981" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+
+                {/* Severity Distribution */}
+                <Card className="shadow-candor-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <BarChart3 className="w-5 h-5" />
+                      Severity Distribution
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <BarChart data={severityData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis />
+                        <Tooltip />
+                        <Bar dataKey="value" fill="#3b82f6" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Top Tags */}
+              {tagData.length > 0 && (
+                <Card className="shadow-candor-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Tag className="w-5 h-5" />
+                      Top Tags
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={Math.max(160, tagData.length * 40)}>
+                      <BarChart data={tagData} layout="vertical" margin={{ left: 24 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" allowDecimals={false} />
+                        <YAxis type="category" dataKey="name" width={120} />
+                        <Tooltip />
+                        <Bar dataKey="count" name="Reported">
+                          {tagData.map((entry) => (
+                            <Cell key={entry.tag_id} fill={entry.color} />
+                          ))}
+                        </Bar>
+                        <Bar dataKey="open" name="Still open" fill="#94a3b8" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Performance Metrics */}
               <Card className="shadow-candor-lg">
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <BarChart3 className="w-5 h-5" />
-                    Severity Distribution
-                  </CardTitle>
+                  <CardTitle>Performance Metrics</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <BarChart data={severityData}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="name" />
-                      <YAxis />
-                      <Tooltip />
-                      <Bar dataKey="value" fill="#3b82f6" />
-                    </BarChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* Performance Metrics */}
-            <Card className="shadow-candor-lg">
-              <CardHeader>
-                <CardTitle>Performance Metrics</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  <div className="text-center">
-                    <div className="text-3xl font-bold text-primary">
-                      {resolvedIssues > 0 ? Math.round((resolvedIssues / totalIssues) * 100) : 0}%
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="text-center">
+                      <div className="text-3xl font-bold text-primary">
+                        {current && current.total > 0 ? Math.round((current.resolved / current.total) * 100) : 0}%
+                      </div>
+                      <div className="text-sm text-muted-foreground">Resolution Rate</div>
                     </div>
-                    <div className="text-sm text-muted-foreground">Resolution Rate</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-3xl font-bold text-success">
-                      2.4 days
+                    <div className="text-center">
+                      <div className="text-3xl font-bold text-success">
+                        {formatDuration(current?.avg_resolution_hours ?? null)}
+                      </div>
+                      <div className="text-sm text-muted-foreground">Average Resolution Time</div>
                     </div>
-                    <div className="text-sm text-muted-foreground">Average Resolution Time</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-3xl font-bold text-warning">
-                      {openIssues + inProgressIssues}
+                    <div className="text-center">
+                      <div className="text-3xl font-bold text-warning">
+                        {(current?.open ?? 0) + (current?.active ?? 0)}
+                      </div>
+                      <div className="text-sm text-muted-foreground">Active Issues</div>
                     </div>
-                    <div className="text-sm text-muted-foreground">Active Issues</div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
+                </CardContent>
+              </Card>
+
+              {/* SLA Compliance */}
+              <SlaCompliancePanel compliance={compliance} loading={complianceLoading} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </MainLayout>
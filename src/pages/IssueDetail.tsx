@@ -0,0 +1,434 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useIssueDetail } from '@/hooks/useIssueDetail';
+import { useIssues } from '@/hooks/useIssues';
+import { useStaffMembers } from '@/hooks/useStaffMembers';
+import { useIssueMessages } from '@/hooks/useIssueMessages';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useSlaTargets } from '@/hooks/useSlaTargets';
+import { useCategoryFields } from '@/hooks/useCategoryFields';
+import { useTags } from '@/hooks/useTags';
+import { useOrganizationSettings } from '@/hooks/useOrganizationSettings';
+import { useIssueLinks } from '@/hooks/useIssueLinks';
+import { useSimilarIssues } from '@/hooks/useSimilarIssues';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { MainLayout } from '@/components/layout/main-layout';
+import { IssueTimeline } from '@/components/issues/issue-timeline';
+import { IssueWorkflowPanel } from '@/components/issues/issue-workflow-panel';
+import { MessageThread } from '@/components/issues/message-thread';
+import { AttachmentList } from '@/components/issues/attachment-list';
+import { SlaBadge } from '@/components/issues/sla-badge';
+import { CustomFieldList } from '@/components/issues/custom-field-list';
+import { IssueTagEditor } from '@/components/issues/issue-tag-editor';
+import { IssueLinksPanel } from '@/components/issues/issue-links-panel';
+import { getStatusBadgeVariant, getStatusLabel } from '@/lib/issue-status';
+import { getProfileName } from '@/lib/profiles';
+import { getIssueSla, SlaMeasure } from '@/lib/sla';
+import { formatDuration } from '@/lib/analytics';
+import { getCustomFieldValues } from '@/lib/custom-fields';
+import {
+  ArrowLeft,
+  AlertCircle,
+  AlertTriangle,
+  Building,
+  Calendar,
+  CheckCircle,
+  Clock,
+  Eye,
+  FileText,
+  ListChecks,
+  ListPlus,
+  MapPin,
+  MessageSquare,
+  Paperclip,
+  Timer,
+  User,
+  UserX,
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+const IssueDetail = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const { issue, updates, conflicts, loading, openAttachment } = useIssueDetail(id);
+  const { changeIssueStatus, assignIssue, statusTransitions } = useIssues();
+  const { staff } = useStaffMembers();
+  const { messages, loading: messagesLoading, sendMessage } = useIssueMessages(id);
+  const { can, canAny, loading: permissionsLoading } = usePermissions();
+  const { targets: slaTargets } = useSlaTargets();
+  const { getFields } = useCategoryFields();
+  const { tags, findOrCreateTag, tagIssue, untagIssue } = useTags(can('triage'));
+  const { settings: organization } = useOrganizationSettings();
+  const { links, linkIssues, unlinkIssue, mergeIssues, splitIssue } = useIssueLinks(id, can('triage'));
+  const { similar } = useSimilarIssues(
+    { title: issue?.title ?? '', description: issue?.description ?? '', excludeId: issue?.id },
+    can('triage') && !issue?.merged_into_id
+  );
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'open': return <AlertCircle className="w-4 h-4" />;
+      case 'triaged': return <ListChecks className="w-4 h-4" />;
+      case 'investigating': return <Clock className="w-4 h-4" />;
+      case 'resolved': return <CheckCircle className="w-4 h-4" />;
+      case 'closed': return <CheckCircle className="w-4 h-4" />;
+      default: return <AlertCircle className="w-4 h-4" />;
+    }
+  };
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'critical': return 'bg-destructive text-destructive-foreground';
+      case 'high': return 'bg-warning text-warning-foreground';
+      case 'medium': return 'bg-primary text-primary-foreground';
+      case 'low': return 'bg-success text-success-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  const describeSla = (measure: SlaMeasure) => {
+    switch (measure.outcome) {
+      case 'met': return `Within target (${formatDuration(measure.elapsedHours)})`;
+      case 'breached': return measure.elapsedHours === null
+        ? `Overdue since ${format(measure.dueAt, 'PPP p')}`
+        : `Missed target (${formatDuration(measure.elapsedHours)})`;
+      case 'pending': return `Due ${format(measure.dueAt, 'PPP p')}`;
+      default: return 'Not applicable';
+    }
+  };
+
+  if (authLoading || loading || permissionsLoading) {
+    return (
+      <MainLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <LoadingSpinner size="lg" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!issue) {
+    return (
+      <MainLayout>
+        <EmptyState
+          icon={<FileText className="w-8 h-8 text-muted-foreground" />}
+          title="Issue not found"
+          description="This issue does not exist or you do not have access to it."
+          action={{ label: 'Back to Dashboard', onClick: () => navigate('/dashboard') }}
+        />
+      </MainLayout>
+    );
+  }
+
+  const assigneeName = issue.assigned_user ? getProfileName(issue.assigned_user) : null;
+  const namedConflicts = conflicts.filter((conflict) => conflict.relation === 'named');
+  const chainConflictCount = conflicts.length - namedConflicts.length;
+  const watcherNames = (issue.watchers || [])
+    .map((watcher) => (watcher.user ? getProfileName(watcher.user) : null))
+    .filter(Boolean);
+  const sla = getIssueSla(issue, slaTargets);
+  const categoryFields = getFields(issue.category_id);
+  const customValues = getCustomFieldValues(issue);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="hover:bg-muted/50"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant={getStatusBadgeVariant(issue.status)} className="flex items-center gap-1">
+              {getStatusIcon(issue.status)}
+              {getStatusLabel(issue.status)}
+            </Badge>
+            <Badge className={getSeverityColor(issue.severity)}>
+              {issue.severity}
+            </Badge>
+            <SlaBadge sla={sla} />
+            {issue.category && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: issue.category.color }}
+                />
+                {issue.category.name}
+              </Badge>
+            )}
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">{issue.title}</h1>
+          <p className="text-muted-foreground">
+            Reported {format(new Date(issue.created_at), 'PPP p')}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Description */}
+            <Card className="shadow-candor-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5" />
+                  Report
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-foreground leading-relaxed whitespace-pre-wrap">{issue.description}</p>
+              </CardContent>
+            </Card>
+
+            {/* Category-specific details */}
+            {(categoryFields.length > 0 || Object.keys(customValues).length > 0) && (
+              <Card className="shadow-candor-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListPlus className="w-5 h-5" />
+                    Additional Details
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CustomFieldList fields={categoryFields} values={customValues} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Evidence */}
+            {issue.attachments.length > 0 && (
+              <Card className="shadow-candor-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Paperclip className="w-5 h-5" />
+                    Evidence
+                  </CardTitle>
+                  <CardDescription>
+                    Identifying metadata was removed before upload.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AttachmentList attachments={issue.attachments} onOpen={openAttachment} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Timeline */}
+            <Card className="shadow-candor-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  Case Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <IssueTimeline issue={issue} updates={updates} />
+              </CardContent>
+            </Card>
+
+            {/* Reporter Messages */}
+            {can('triage') && (
+              <Card className="shadow-candor-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5" />
+                    Reporter Messages
+                  </CardTitle>
+                  <CardDescription>
+                    Secure thread with the reporter. Their identity is never shown here.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MessageThread
+                    messages={messages}
+                    viewer="staff"
+                    loading={messagesLoading}
+                    onSend={sendMessage}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {canAny('triage', 'assign', 'resolve') && (
+              <IssueWorkflowPanel
+                key={issue.updated_at}
+                issue={issue}
+                staff={staff}
+                conflicts={conflicts}
+                transitions={statusTransitions}
+                can={can}
+                onChangeStatus={async (status, options) => {
+                  await changeIssueStatus(issue.id, status, options);
+                }}
+                onAssign={async (assigneeId, options) => {
+                  await assignIssue(issue.id, assigneeId, options);
+                }}
+              />
+            )}
+
+            {can('triage') && (
+              <IssueTagEditor
+                value={issue.tags ?? []}
+                tags={tags}
+                allowCreate={can('administer') || !!organization?.allow_free_form_tags}
+                onAdd={(tagId) => tagIssue(issue.id, tagId)}
+                onCreate={findOrCreateTag}
+                onRemove={(tagId) => untagIssue(issue.id, tagId)}
+              />
+            )}
+
+            {can('triage') && (
+              <IssueLinksPanel
+                issue={issue}
+                links={links}
+                similar={similar}
+                canMerge={can('resolve')}
+                onLink={linkIssues}
+                onUnlink={unlinkIssue}
+                onMerge={mergeIssues}
+                onSplit={splitIssue}
+              />
+            )}
+
+            {/* Case Details */}
+            <Card className="shadow-candor-lg">
+              <CardHeader>
+                <CardTitle>Case Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <User className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">Assigned To</p>
+                    <p className="text-sm text-muted-foreground">{assigneeName || 'Unassigned'}</p>
+                  </div>
+                </div>
+
+                {watcherNames.length > 0 && (
+                  <div className="flex items-center gap-3">
+                    <Eye className="w-4 h-4 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">Watchers</p>
+                      <p className="text-sm text-muted-foreground">{watcherNames.join(', ')}</p>
+                    </div>
+                  </div>
+                )}
+
+                {namedConflicts.length > 0 && (
+                  <div className="flex items-center gap-3">
+                    <UserX className="w-4 h-4 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">Excluded by Reporter</p>
+                      <p className="text-sm text-muted-foreground">
+                        {namedConflicts.map((conflict) => conflict.display_name).join(', ')}
+                      </p>
+                      {chainConflictCount > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Plus {chainConflictCount} in their management chain
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                  <Building className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">Department</p>
+                    <p className="text-sm text-muted-foreground">{issue.department?.name || 'Not set'}</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <AlertTriangle className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">Category</p>
+                    <p className="text-sm text-muted-foreground">{issue.category?.name || 'Uncategorized'}</p>
+                  </div>
+                </div>
+
+                {issue.location && (
+                  <div className="flex items-center gap-3">
+                    <MapPin className="w-4 h-4 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">Location</p>
+                      <p className="text-sm text-muted-foreground">{issue.location}</p>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                  <Calendar className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">Last Updated</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(issue.updated_at), 'PPP p')}
+                    </p>
+                  </div>
+                </div>
+
+                {sla && (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <Timer className="w-4 h-4 text-muted-foreground" />
+                      <div>
+                        <p className="text-sm font-medium">First Response</p>
+                        <p className={`text-sm ${sla.response.outcome === 'breached' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {describeSla(sla.response)}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <Timer className="w-4 h-4 text-muted-foreground" />
+                      <div>
+                        <p className="text-sm font-medium">Resolution</p>
+                        <p className={`text-sm ${sla.resolution.outcome === 'breached' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {describeSla(sla.resolution)}
+                        </p>
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {issue.resolved_at && (
+                  <div className="flex items-center gap-3">
+                    <CheckCircle className="w-4 h-4 text-success" />
+                    <div>
+                      <p className="text-sm font-medium">Resolved</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(issue.resolved_at), 'PPP p')}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default IssueDetail;
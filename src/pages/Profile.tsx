@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { MainLayout } from '@/components/layout/main-layout';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { 
@@ -22,10 +23,12 @@ import {
   Shield
 } from 'lucide-react';
 import type { Profile } from '@/types/database';
+import { getPermissionLabel } from '@/lib/permissions';
 
 const ProfilePage = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { permissions, can } = usePermissions();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -448,9 +451,27 @@ const ProfilePage = () => {
               <div className="flex items-center justify-between p-4 border rounded-lg">
                 <div>
                   <h4 className="font-medium">Profile Visibility</h4>
-                  <p className="text-sm text-muted-foreground">Your profile is visible to organization members</p>
+                  <p className="text-sm text-muted-foreground">Your profile is visible to case handlers and administrators</p>
+                </div>
+                <Badge variant="outline">Restricted</Badge>
+              </div>
+
+              <div className="p-4 border rounded-lg space-y-3">
+                <div>
+                  <h4 className="font-medium">Permissions</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {can('administer')
+                      ? 'Granted by your role. Administrators manage roles for everyone.'
+                      : 'Granted by your role. Contact an administrator to change your role.'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {permissions.map((permission) => (
+                    <Badge key={permission} variant="secondary">
+                      {getPermissionLabel(permission)}
+                    </Badge>
+                  ))}
                 </div>
-                <Badge variant="outline">Public</Badge>
               </div>
             </div>
           </CardContent>
@@ -1,8 +1,9 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -12,8 +13,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/hooks/useAuth";
 import { useIssues } from "@/hooks/useIssues";
-import { toast } from "@/hooks/use-toast";
-import { ArrowLeft, Upload, Shield, AlertTriangle, Building, MapPin } from "lucide-react";
+import { useAttachmentUpload } from "@/hooks/useAttachmentUpload";
+import { useCategoryFields } from "@/hooks/useCategoryFields";
+import { useSimilarIssues } from "@/hooks/useSimilarIssues";
+import { TrackingTokenNotice } from "@/components/issues/tracking-token-notice";
+import { AttachmentPicker } from "@/components/issues/attachment-picker";
+import { CustomFieldsInput } from "@/components/issues/custom-fields-input";
+import { ExclusionPicker } from "@/components/issues/exclusion-picker";
+import { MAX_ATTACHMENTS } from "@/lib/attachments";
+import { getCategoryIcon } from "@/lib/category-icons";
+import { getStatusBadgeVariant, getStatusLabel } from "@/lib/issue-status";
+import { buildCustomFieldsSchema, formatCustomFieldValue, toCustomFieldValues } from "@/lib/custom-fields";
+import type { CategoryField, ExclusionCandidate } from "@/types/database";
+import { ArrowLeft, Upload, Shield, AlertTriangle, Building, MapPin, UserX, Layers } from "lucide-react";
 
 const reportSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
@@ -23,19 +35,31 @@ const reportSchema = z.object({
   severity: z.enum(["low", "medium", "high", "critical"]),
   location: z.string().optional(),
   anonymous: z.boolean().default(false),
+  custom_fields: z.record(z.unknown()).default({}),
+  excluded_people: z.array(z.custom<ExclusionCandidate>()).max(20, "You can name up to 20 people").default([]),
 });
 
 type ReportData = z.infer<typeof reportSchema>;
 
+// Custom fields depend on the chosen category, so their rules are merged in per validation
+const buildReportSchema = (fields: CategoryField[]) =>
+  reportSchema.extend({ custom_fields: buildCustomFieldsSchema(fields) });
+
 const ReportIssue = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { categories, departments, createIssue } = useIssues();
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState(1);
+  const [trackingToken, setTrackingToken] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const { uploading, uploadAttachments } = useAttachmentUpload();
+  const { getFields } = useCategoryFields();
+  const categoryFieldsRef = useRef<CategoryField[]>([]);
 
   const form = useForm<ReportData>({
-    resolver: zodResolver(reportSchema),
+    resolver: (values, context, options) =>
+      zodResolver(buildReportSchema(categoryFieldsRef.current))(values, context, options),
     defaultValues: {
       title: "",
       description: "",
@@ -44,9 +68,26 @@ const ReportIssue = () => {
       severity: "medium",
       location: "",
       anonymous: false,
+      custom_fields: {},
+      excluded_people: [],
     },
   });
 
+  const categoryFields = getFields(form.watch("category_id"));
+  categoryFieldsRef.current = categoryFields;
+  const customValues = toCustomFieldValues(form.watch("custom_fields"), categoryFields);
+  // Only the reporter's own earlier reports are matched, so nothing about other cases is revealed
+  const { similar: ownSimilarReports } = useSimilarIssues(
+    { title: form.watch("title"), description: form.watch("description") },
+    step === 3 && !!user
+  );
+
+  const goToFinalDetails = async () => {
+    if (await form.trigger(["category_id", "severity", "custom_fields"])) {
+      setStep(3);
+    }
+  };
+
   const handleSubmit = async (data: ReportData) => {
     setLoading(true);
     try {
@@ -57,31 +98,26 @@ const ReportIssue = () => {
         department_id: data.department_id || undefined,
         severity: data.severity,
         location: data.location || undefined,
-        reporter_id: data.anonymous ? undefined : user?.id,
-        status: 'open' as const,
         metadata: {
           submitted_via: "web_form",
           anonymous_submission: data.anonymous,
           timestamp: new Date().toISOString(),
+          custom_fields: toCustomFieldValues(data.custom_fields, categoryFields),
         },
       };
 
-      await createIssue(issueData);
-      
-      toast({
-        title: "Report submitted successfully",
-        description: data.anonymous 
-          ? "Your anonymous report has been submitted. Save your tracking token for updates."
-          : "Your report has been submitted and assigned a tracking number.",
-      });
-
-      navigate("/dashboard");
+      const { token } = await createIssue(
+        issueData,
+        data.anonymous || !user,
+        data.excluded_people.map((person) => person.user_id)
+      );
+      // Failed files are reported individually and can be added later from the tracking page
+      if (files.length > 0) {
+        await uploadAttachments(token, files);
+      }
+      setTrackingToken(token);
     } catch (error) {
-      toast({
-        title: "Failed to submit report",
-        description: "Please try again or contact support if the problem persists.",
-        variant: "destructive",
-      });
+      // Reported by useIssues
     } finally {
       setLoading(false);
     }
@@ -124,303 +160,385 @@ const ReportIssue = () => {
         </div>
 
         {/* Main Form */}
-        <Card className="shadow-lg">
-          <CardHeader className="space-y-4">
-            <div className="flex items-center gap-3">
-              <div className="rounded-lg bg-primary/10 p-2">
-                <AlertTriangle className="h-6 w-6 text-primary" />
-              </div>
-              <div>
-                <CardTitle className="text-2xl">Report an Issue</CardTitle>
-                <CardDescription>
-                  Help us improve by reporting problems, safety concerns, or suggestions
-                </CardDescription>
+        {trackingToken ? (
+          <TrackingTokenNotice
+            token={trackingToken}
+            onTrack={() => navigate("/track")}
+            onDone={() => navigate("/dashboard")}
+          />
+        ) : (
+          <Card className="shadow-lg">
+            <CardHeader className="space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="rounded-lg bg-primary/10 p-2">
+                  <AlertTriangle className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl">Report an Issue</CardTitle>
+                  <CardDescription>
+                    Help us improve by reporting problems, safety concerns, or suggestions
+                  </CardDescription>
+                </div>
               </div>
-            </div>
-            
-            {/* Progress Steps */}
-            <div className="flex items-center justify-center space-x-4">
-              {[1, 2, 3].map((s) => (
-                <div key={s} className="flex items-center">
-                  <div
-                    className={`rounded-full h-8 w-8 flex items-center justify-center text-sm font-medium transition-all ${
-                      step >= s
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted text-muted-foreground"
-                    }`}
-                  >
-                    {s}
-                  </div>
-                  {s < 3 && (
+              
+              {/* Progress Steps */}
+              <div className="flex items-center justify-center space-x-4">
+                {[1, 2, 3].map((s) => (
+                  <div key={s} className="flex items-center">
                     <div
-                      className={`w-12 h-0.5 mx-2 transition-all ${
-                        step > s ? "bg-primary" : "bg-muted"
+                      className={`rounded-full h-8 w-8 flex items-center justify-center text-sm font-medium transition-all ${
+                        step >= s
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted text-muted-foreground"
                       }`}
-                    />
-                  )}
-                </div>
-              ))}
-            </div>
-          </CardHeader>
-
-          <CardContent className="space-y-6">
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-                {step === 1 && (
-                  <div className="space-y-4 animate-fade-in">
-                    <h3 className="text-lg font-medium">What's the issue?</h3>
-                    
-                    <FormField
-                      control={form.control}
-                      name="title"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Issue Summary</FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="Brief description of the issue..." 
-                              {...field} 
-                              className="transition-all focus:ring-2 focus:ring-primary/20"
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            A clear, concise title that describes the problem
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="description"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Detailed Description</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Please provide as much detail as possible about the issue, including when it occurred, what you were doing, and any other relevant information..."
-                              className="min-h-32 transition-all focus:ring-2 focus:ring-primary/20"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            The more details you provide, the faster we can resolve the issue
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <div className="flex justify-end">
-                      <Button 
-                        type="button" 
-                        onClick={() => setStep(2)}
-                        disabled={!form.watch("title") || !form.watch("description")}
-                      >
-                        Next: Categorize
-                      </Button>
+                    >
+                      {s}
                     </div>
+                    {s < 3 && (
+                      <div
+                        className={`w-12 h-0.5 mx-2 transition-all ${
+                          step > s ? "bg-primary" : "bg-muted"
+                        }`}
+                      />
+                    )}
                   </div>
-                )}
-
-                {step === 2 && (
-                  <div className="space-y-4 animate-fade-in">
-                    <h3 className="text-lg font-medium">Help us categorize this issue</h3>
+                ))}
+              </div>
+            </CardHeader>
 
-                    <FormField
-                      control={form.control}
-                      name="category_id"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Category</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+            <CardContent className="space-y-6">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+                  {step === 1 && (
+                    <div className="space-y-4 animate-fade-in">
+                      <h3 className="text-lg font-medium">What's the issue?</h3>
+                      
+                      <FormField
+                        control={form.control}
+                        name="title"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Issue Summary</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select the most appropriate category" />
-                              </SelectTrigger>
+                              <Input 
+                                placeholder="Brief description of the issue..." 
+                                {...field} 
+                                className="transition-all focus:ring-2 focus:ring-primary/20"
+                              />
                             </FormControl>
-                            <SelectContent>
-                              {categories.map((category) => (
-                                <SelectItem key={category.id} value={category.id}>
-                                  <div className="flex items-center gap-2">
-                                    <div 
-                                      className="w-3 h-3 rounded-full" 
-                                      style={{ backgroundColor: category.color }}
-                                    />
-                                    {category.name}
-                                  </div>
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormDescription>
+                              A clear, concise title that describes the problem
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={form.control}
-                      name="department_id"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Department (Optional)</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormField
+                        control={form.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Detailed Description</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Which department should handle this?" />
-                              </SelectTrigger>
+                              <Textarea 
+                                placeholder="Please provide as much detail as possible about the issue, including when it occurred, what you were doing, and any other relevant information..."
+                                className="min-h-32 transition-all focus:ring-2 focus:ring-primary/20"
+                                {...field}
+                              />
                             </FormControl>
-                            <SelectContent>
-                              {departments.map((dept) => (
-                                <SelectItem key={dept.id} value={dept.id}>
-                                  <div className="flex items-center gap-2">
-                                    <Building className="w-4 h-4" />
-                                    {dept.name}
-                                  </div>
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormDescription>
-                            Help us route your issue to the right team
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormDescription>
+                              The more details you provide, the faster we can resolve the issue
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={form.control}
-                      name="severity"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Severity Level</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {[
-                                { value: "low", label: "Low Priority" },
-                                { value: "medium", label: "Medium Priority" },
-                                { value: "high", label: "High Priority" },
-                                { value: "critical", label: "Critical" },
-                              ].map((severity) => (
-                                <SelectItem key={severity.value} value={severity.value}>
-                                  <div className="flex items-center gap-2">
-                                    <div className={`w-3 h-3 rounded-full ${getSeverityColor(severity.value).replace('text-', 'bg-')}`} />
-                                    <div>
-                                      <div className={getSeverityColor(severity.value)}>{severity.label}</div>
-                                      <div className="text-xs text-muted-foreground">
-                                        {getSeverityDescription(severity.value)}
+                      <div className="flex justify-end">
+                        <Button 
+                          type="button" 
+                          onClick={() => setStep(2)}
+                          disabled={!form.watch("title") || !form.watch("description")}
+                        >
+                          Next: Categorize
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {step === 2 && (
+                    <div className="space-y-4 animate-fade-in">
+                      <h3 className="text-lg font-medium">Help us categorize this issue</h3>
+
+                      <FormField
+                        control={form.control}
+                        name="category_id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Category</FormLabel>
+                            <Select
+                              onValueChange={(value) => {
+                                field.onChange(value);
+                                form.setValue("custom_fields", {});
+                                form.clearErrors("custom_fields");
+                              }}
+                              defaultValue={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select the most appropriate category" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {categories.map((category) => {
+                                  const CategoryIcon = getCategoryIcon(category.icon);
+                                  return (
+                                    <SelectItem key={category.id} value={category.id}>
+                                      <div className="flex items-center gap-2">
+                                        <CategoryIcon className="w-4 h-4" style={{ color: category.color }} />
+                                        {category.name}
                                       </div>
+                                    </SelectItem>
+                                  );
+                                })}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <CustomFieldsInput control={form.control} fields={categoryFields} name="custom_fields" />
+
+                      <FormField
+                        control={form.control}
+                        name="department_id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Department (Optional)</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Which department should handle this?" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {departments.map((dept) => (
+                                  <SelectItem key={dept.id} value={dept.id}>
+                                    <div className="flex items-center gap-2">
+                                      <Building className="w-4 h-4" />
+                                      {dept.name}
                                     </div>
-                                  </div>
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Help us route your issue to the right team
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <div className="flex justify-between">
-                      <Button type="button" variant="outline" onClick={() => setStep(1)}>
-                        Previous
-                      </Button>
-                      <Button 
-                        type="button" 
-                        onClick={() => setStep(3)}
-                        disabled={!form.watch("category_id") || !form.watch("severity")}
-                      >
-                        Next: Final Details
-                      </Button>
+                      <FormField
+                        control={form.control}
+                        name="severity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Severity Level</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {[
+                                  { value: "low", label: "Low Priority" },
+                                  { value: "medium", label: "Medium Priority" },
+                                  { value: "high", label: "High Priority" },
+                                  { value: "critical", label: "Critical" },
+                                ].map((severity) => (
+                                  <SelectItem key={severity.value} value={severity.value}>
+                                    <div className="flex items-center gap-2">
+                                      <div className={`w-3 h-3 rounded-full ${getSeverityColor(severity.value).replace('text-', 'bg-')}`} />
+                                      <div>
+                                        <div className={getSeverityColor(severity.value)}>{severity.label}</div>
+                                        <div className="text-xs text-muted-foreground">
+                                          {getSeverityDescription(severity.value)}
+                                        </div>
+                                      </div>
+                                    </div>
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="flex justify-between">
+                        <Button type="button" variant="outline" onClick={() => setStep(1)}>
+                          Previous
+                        </Button>
+                        <Button 
+                          type="button" 
+                          onClick={goToFinalDetails}
+                          disabled={!form.watch("category_id") || !form.watch("severity")}
+                        >
+                          Next: Final Details
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                {step === 3 && (
-                  <div className="space-y-4 animate-fade-in">
-                    <h3 className="text-lg font-medium">Additional details</h3>
+                  {step === 3 && (
+                    <div className="space-y-4 animate-fade-in">
+                      <h3 className="text-lg font-medium">Additional details</h3>
 
-                    <FormField
-                      control={form.control}
-                      name="location"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Location (Optional)</FormLabel>
-                          <FormControl>
-                            <div className="relative">
-                              <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                              <Input 
-                                placeholder="Building, floor, room number, or specific area..."
-                                className="pl-10"
-                                {...field}
-                              />
-                            </div>
-                          </FormControl>
-                          <FormDescription>
-                            Help us locate the issue quickly
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                      <FormField
+                        control={form.control}
+                        name="location"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Location (Optional)</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                <Input 
+                                  placeholder="Building, floor, room number, or specific area..."
+                                  className="pl-10"
+                                  {...field}
+                                />
+                              </div>
+                            </FormControl>
+                            <FormDescription>
+                              Help us locate the issue quickly
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={form.control}
-                      name="anonymous"
-                      render={({ field }) => (
-                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-                          <FormControl>
-                            <Checkbox
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
-                          </FormControl>
-                          <div className="space-y-1 leading-none">
+                      <FormField
+                        control={form.control}
+                        name="excluded_people"
+                        render={({ field }) => (
+                          <FormItem>
                             <FormLabel className="flex items-center gap-2">
-                              <Shield className="h-4 w-4" />
-                              Submit this report anonymously
+                              <UserX className="h-4 w-4" />
+                              People who must not see this report (Optional)
                             </FormLabel>
+                            <ExclusionPicker value={field.value} onChange={field.onChange} disabled={loading} />
                             <FormDescription>
-                              Your identity will be protected. You'll receive a tracking token to check the status of your report.
+                              They, their managers and anyone reporting to them will not be able to see or handle
+                              this case. Naming someone is never shared with them.
                             </FormDescription>
-                          </div>
-                        </FormItem>
-                      )}
-                    />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <div className="bg-muted/50 rounded-lg p-4">
-                      <h4 className="font-medium mb-2">Report Summary</h4>
-                      <div className="space-y-1 text-sm text-muted-foreground">
-                        <div><strong>Title:</strong> {form.watch("title")}</div>
-                        <div><strong>Category:</strong> {categories.find(c => c.id === form.watch("category_id"))?.name}</div>
-                        <div><strong>Severity:</strong> <span className={getSeverityColor(form.watch("severity"))}>{form.watch("severity")}</span></div>
-                        {form.watch("location") && <div><strong>Location:</strong> {form.watch("location")}</div>}
-                        <div><strong>Submission:</strong> {form.watch("anonymous") ? "Anonymous" : "With your identity"}</div>
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">Evidence (Optional)</p>
+                        <AttachmentPicker
+                          files={files}
+                          onChange={setFiles}
+                          maxFiles={MAX_ATTACHMENTS}
+                          disabled={loading}
+                        />
                       </div>
-                    </div>
 
-                    <div className="flex justify-between">
-                      <Button type="button" variant="outline" onClick={() => setStep(2)}>
-                        Previous
-                      </Button>
-                      <Button type="submit" disabled={loading} className="gap-2">
-                        {loading ? "Submitting..." : "Submit Report"}
-                        <Upload className="h-4 w-4" />
-                      </Button>
+                      <FormField
+                        control={form.control}
+                        name="anonymous"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel className="flex items-center gap-2">
+                                <Shield className="h-4 w-4" />
+                                Submit this report anonymously
+                              </FormLabel>
+                              <FormDescription>
+                                Your identity will be protected. You'll receive a tracking token to check the status of your report.
+                              </FormDescription>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="bg-muted/50 rounded-lg p-4">
+                        <h4 className="font-medium mb-2">Report Summary</h4>
+                        <div className="space-y-1 text-sm text-muted-foreground">
+                          <div><strong>Title:</strong> {form.watch("title")}</div>
+                          <div><strong>Category:</strong> {categories.find(c => c.id === form.watch("category_id"))?.name}</div>
+                          <div><strong>Severity:</strong> <span className={getSeverityColor(form.watch("severity"))}>{form.watch("severity")}</span></div>
+                          {form.watch("location") && <div><strong>Location:</strong> {form.watch("location")}</div>}
+                          {categoryFields.filter((field) => customValues[field.field_key] !== undefined).map((field) => (
+                            <div key={field.id}>
+                              <strong>{field.label}:</strong> {formatCustomFieldValue(customValues[field.field_key], field.field_type)}
+                            </div>
+                          ))}
+                          {form.watch("excluded_people").length > 0 && (
+                            <div>
+                              <strong>Hidden from:</strong>{" "}
+                              {form.watch("excluded_people").map((person) => person.display_name).join(", ")}
+                            </div>
+                          )}
+                          <div><strong>Submission:</strong> {form.watch("anonymous") ? "Anonymous" : "With your identity"}</div>
+                          {files.length > 0 && <div><strong>Attachments:</strong> {files.length}</div>}
+                        </div>
+                      </div>
+
+                      {ownSimilarReports.length > 0 && (
+                        <div className="rounded-lg border p-4">
+                          <h4 className="font-medium mb-1 flex items-center gap-2">
+                            <Layers className="h-4 w-4" />
+                            You may have reported this before
+                          </h4>
+                          <p className="text-sm text-muted-foreground mb-3">
+                            These earlier reports of yours look similar. If this is the same matter, you can add to the existing case instead. Only you can see this suggestion.
+                          </p>
+                          <ul className="space-y-2">
+                            {ownSimilarReports.map((report) => (
+                              <li key={report.issue_id} className="flex items-center gap-2 text-sm">
+                                <Link to={`/issues/${report.issue_id}`} className="flex-1 truncate hover:underline">
+                                  {report.title}
+                                </Link>
+                                <Badge variant={getStatusBadgeVariant(report.status)} className="shrink-0 text-xs">
+                                  {getStatusLabel(report.status)}
+                                </Badge>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      <div className="flex justify-between">
+                        <Button type="button" variant="outline" onClick={() => setStep(2)}>
+                          Previous
+                        </Button>
+                        <Button type="submit" disabled={loading} className="gap-2">
+                          {uploading ? "Uploading files..." : loading ? "Submitting..." : "Submit Report"}
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                )}
-              </form>
-            </Form>
-          </CardContent>
-        </Card>
+                  )}
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
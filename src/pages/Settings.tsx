@@ -0,0 +1,96 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { MainLayout } from '@/components/layout/main-layout';
+import { PreferencesSection } from '@/components/settings/preferences-section';
+import { SecuritySection } from '@/components/settings/security-section';
+import { OrganizationSection } from '@/components/settings/organization-section';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useOrganizationSettings } from '@/hooks/useOrganizationSettings';
+import { ArrowLeft, Building2, Shield, SlidersHorizontal } from 'lucide-react';
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const { settings: organization, updateSettings } = useOrganizationSettings();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  if (authLoading || permissionsLoading) {
+    return (
+      <MainLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <LoadingSpinner size="lg" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="hover:bg-muted/50"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+          <p className="text-muted-foreground">
+            Manage your preferences, account security{can('administer') && ' and organization configuration'}.
+          </p>
+        </div>
+
+        <Tabs defaultValue="preferences" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="preferences" className="flex items-center gap-2">
+              <SlidersHorizontal className="w-4 h-4" />
+              Preferences
+            </TabsTrigger>
+            <TabsTrigger value="security" className="flex items-center gap-2">
+              <Shield className="w-4 h-4" />
+              Security
+            </TabsTrigger>
+            {can('administer') && (
+              <TabsTrigger value="organization" className="flex items-center gap-2">
+                <Building2 className="w-4 h-4" />
+                Organization
+              </TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="preferences">
+            <PreferencesSection organization={organization} />
+          </TabsContent>
+
+          <TabsContent value="security">
+            <SecuritySection />
+          </TabsContent>
+
+          {can('administer') && (
+            <TabsContent value="organization">
+              <OrganizationSection settings={organization} onSave={updateSettings} />
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Settings;
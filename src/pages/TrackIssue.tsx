@@ -8,6 +8,12 @@ import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { MainLayout } from '@/components/layout/main-layout';
 import { useIssues } from '@/hooks/useIssues';
+import { useReporterMessages } from '@/hooks/useReporterMessages';
+import { useTrackingActivity } from '@/hooks/useTrackingActivity';
+import { useAttachmentUpload } from '@/hooks/useAttachmentUpload';
+import { MessageThread } from '@/components/issues/message-thread';
+import { AttachmentList } from '@/components/issues/attachment-list';
+import { AttachmentPicker } from '@/components/issues/attachment-picker';
 import { 
   ArrowLeft, 
   Search, 
@@ -18,18 +24,45 @@ import {
   MapPin, 
   Calendar,
   FileText,
-  AlertTriangle
+  AlertTriangle,
+  ListChecks,
+  MessageSquare,
+  Paperclip,
+  Upload,
+  BellDot,
+  Layers,
+  GitBranch
 } from 'lucide-react';
 import { format } from 'date-fns';
-import type { Issue } from '@/types/database';
+import type { TrackedIssue } from '@/types/database';
+import { MAX_ATTACHMENTS } from '@/lib/attachments';
+import { ISSUE_STATUSES, getReporterStatusDescription, getStatusBadgeVariant, getStatusLabel, getStatusStep } from '@/lib/issue-status';
 
 const TrackIssue = () => {
   const navigate = useNavigate();
   const { trackIssueByToken } = useIssues();
   const [token, setToken] = useState('');
-  const [issue, setIssue] = useState<Issue | null>(null);
+  const [issue, setIssue] = useState<TrackedIssue | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [trackedToken, setTrackedToken] = useState<string | null>(null);
+  const { messages, loading: messagesLoading, sendMessage, refetch: refetchMessages } = useReporterMessages(trackedToken);
+  const { uploading, uploadAttachments } = useAttachmentUpload();
+  const [files, setFiles] = useState<File[]>([]);
+  const [hasNewActivity, setHasNewActivity] = useState(false);
+
+  // Staff changes stream in while the case is open, without asking for the token again
+  useTrackingActivity(trackedToken, async () => {
+    if (!trackedToken) return;
+
+    try {
+      setIssue(await trackIssueByToken(trackedToken));
+      await refetchMessages();
+      setHasNewActivity(true);
+    } catch (err) {
+      // The current view stays until the next successful refresh
+    }
+  });
 
   const handleTrack = async () => {
     if (!token.trim()) {
@@ -42,44 +75,43 @@ const TrackIssue = () => {
     
     try {
       const trackedIssue = await trackIssueByToken(token);
-      if (trackedIssue) {
-        setIssue({
-          ...trackedIssue,
-          severity: trackedIssue.severity as 'low' | 'medium' | 'high' | 'critical',
-          status: trackedIssue.status as 'open' | 'in_progress' | 'resolved' | 'closed',
-          attachments: Array.isArray(trackedIssue.attachments) ? trackedIssue.attachments : [],
-          metadata: typeof trackedIssue.metadata === 'object' ? trackedIssue.metadata as Record<string, any> : {}
-        });
-      } else {
-        setError('Issue not found. Please check your tracking token.');
-      }
+      setIssue(trackedIssue);
+      setTrackedToken(token.trim());
+      setFiles([]);
+      setHasNewActivity(false);
     } catch (err) {
-      setError('Failed to track issue. Please try again.');
+      setIssue(null);
+      setTrackedToken(null);
+      setError('Issue not found. Please check your tracking token.');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleUpload = async () => {
+    if (!trackedToken || files.length === 0) return;
+
+    const { failed } = await uploadAttachments(trackedToken, files);
+    setFiles(failed);
+
+    try {
+      setIssue(await trackIssueByToken(trackedToken));
+    } catch (err) {
+      // Attachment list refreshes on the next track
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'open': return <AlertCircle className="w-5 h-5 text-destructive" />;
-      case 'in_progress': return <Clock className="w-5 h-5 text-warning" />;
+      case 'triaged': return <ListChecks className="w-5 h-5 text-primary" />;
+      case 'investigating': return <Clock className="w-5 h-5 text-warning" />;
       case 'resolved': return <CheckCircle className="w-5 h-5 text-success" />;
       case 'closed': return <CheckCircle className="w-5 h-5 text-muted-foreground" />;
       default: return <AlertCircle className="w-5 h-5" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'open': return 'destructive';
-      case 'in_progress': return 'warning';
-      case 'resolved': return 'success';
-      case 'closed': return 'secondary';
-      default: return 'secondary';
-    }
-  };
-
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'bg-destructive text-destructive-foreground';
@@ -90,16 +122,6 @@ const TrackIssue = () => {
     }
   };
 
-  const getStatusDescription = (status: string) => {
-    switch (status) {
-      case 'open': return 'Your issue has been received and is awaiting review.';
-      case 'in_progress': return 'Your issue is being actively worked on by our team.';
-      case 'resolved': return 'Your issue has been resolved. Please verify the solution.';
-      case 'closed': return 'Your issue has been closed and resolved.';
-      default: return 'Status unknown.';
-    }
-  };
-
   return (
     <MainLayout>
       <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
@@ -175,24 +197,75 @@ const TrackIssue = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-3">
                   {getStatusIcon(issue.status)}
-                  Issue Status: {issue.status.replace('_', ' ').toUpperCase()}
+                  Issue Status: {getStatusLabel(issue.status).toUpperCase()}
+                  {hasNewActivity && (
+                    <Badge
+                      variant="outline"
+                      className="ml-auto cursor-pointer gap-1 font-normal text-primary"
+                      title="Dismiss"
+                      onClick={() => setHasNewActivity(false)}
+                    >
+                      <BellDot className="w-3 h-3" />
+                      New activity
+                    </Badge>
+                  )}
                 </CardTitle>
                 <CardDescription>
-                  {getStatusDescription(issue.status)}
+                  {getReporterStatusDescription(issue.status)}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="flex items-center gap-2">
-                  <Badge variant={getStatusColor(issue.status) as any} className="text-sm">
-                    {issue.status.replace('_', ' ')}
+                  <Badge variant={getStatusBadgeVariant(issue.status)} className="text-sm">
+                    {getStatusLabel(issue.status)}
                   </Badge>
                   <Badge className={`text-sm ${getSeverityColor(issue.severity)}`}>
                     {issue.severity} priority
                   </Badge>
                 </div>
+                {issue.merged && (
+                  <div className="mt-4 flex items-start gap-3 rounded-lg bg-muted/50 p-3">
+                    <Layers className="w-4 h-4 mt-0.5 text-muted-foreground" />
+                    <p className="text-sm text-muted-foreground">
+                      Your report was combined with another report about the same matter, so it is handled as one case.
+                      The status shown here is for that case. Your report, files and messages remain private to you
+                      and the case handlers.
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
+            {/* Cases split out of this report */}
+            {issue.split_cases.length > 0 && (
+              <Card className="shadow-candor-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitBranch className="w-5 h-5" />
+                    Separate Cases
+                  </CardTitle>
+                  <CardDescription>
+                    Part of your report is being handled as a separate case. You can follow it here with the same token.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {issue.split_cases.map((splitCase) => (
+                    <div key={splitCase.created_at + splitCase.title} className="flex items-center gap-4 p-3 bg-muted/30 rounded-lg">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{splitCase.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Updated {format(new Date(splitCase.updated_at), 'PPP p')}
+                        </p>
+                      </div>
+                      <Badge variant={getStatusBadgeVariant(splitCase.status)} className="text-xs">
+                        {getStatusLabel(splitCase.status)}
+                      </Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Issue Information */}
             <Card className="shadow-candor-lg">
               <CardHeader>
@@ -288,45 +361,93 @@ const TrackIssue = () => {
                     </div>
                   </div>
 
-                  {issue.status !== 'open' && (
-                    <div className="flex items-center gap-4 p-3 bg-muted/30 rounded-lg">
-                      <div className="w-3 h-3 bg-warning rounded-full"></div>
-                      <div className="flex-1">
-                        <p className="font-medium text-sm">Under Review</p>
-                        <p className="text-xs text-muted-foreground">
-                          Issue is being reviewed by our team
-                        </p>
-                      </div>
-                    </div>
-                  )}
+                  {ISSUE_STATUSES.slice(1).map((status, index) => {
+                    const reached = getStatusStep(issue.status) >= index + 1;
+                    if (!reached) return null;
 
-                  {issue.status === 'in_progress' && (
-                    <div className="flex items-center gap-4 p-3 bg-muted/30 rounded-lg">
-                      <div className="w-3 h-3 bg-primary rounded-full"></div>
-                      <div className="flex-1">
-                        <p className="font-medium text-sm">In Progress</p>
-                        <p className="text-xs text-muted-foreground">
-                          Actively being worked on
-                        </p>
+                    return (
+                      <div
+                        key={status.value}
+                        className={`flex items-center gap-4 p-3 rounded-lg ${status.value === 'resolved' ? 'bg-success/10' : 'bg-muted/30'}`}
+                      >
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: status.chartColor }}></div>
+                        <div className="flex-1">
+                          <p className="font-medium text-sm">{status.label}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {status.value === 'resolved' && issue.resolved_at
+                              ? format(new Date(issue.resolved_at), 'PPP p')
+                              : status.reporterDescription}
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    );
+                  })}
 
-                  {(issue.status === 'resolved' || issue.status === 'closed') && (
-                    <div className="flex items-center gap-4 p-3 bg-success/10 rounded-lg">
-                      <div className="w-3 h-3 bg-success rounded-full"></div>
+                  {issue.updates.filter((update) => update.content).map((update) => (
+                    <div key={update.id} className="flex items-start gap-4 p-3 bg-muted/30 rounded-lg">
+                      <MessageSquare className="w-4 h-4 mt-0.5 text-muted-foreground" />
                       <div className="flex-1">
-                        <p className="font-medium text-sm">Resolved</p>
+                        <p className="text-sm">{update.content}</p>
                         <p className="text-xs text-muted-foreground">
-                          {issue.resolved_at ? format(new Date(issue.resolved_at), 'PPP p') : 'Recently resolved'}
+                          {format(new Date(update.created_at), 'PPP p')}
                         </p>
                       </div>
                     </div>
-                  )}
+                  ))}
                 </div>
               </CardContent>
             </Card>
 
+            {/* Evidence */}
+            <Card className="shadow-candor-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Paperclip className="w-5 h-5" />
+                  Evidence
+                </CardTitle>
+                <CardDescription>
+                  Add photos, documents or recordings that support your report.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <AttachmentList attachments={issue.attachments} />
+                <AttachmentPicker
+                  files={files}
+                  onChange={setFiles}
+                  maxFiles={MAX_ATTACHMENTS - issue.attachments.length}
+                  disabled={uploading}
+                />
+                {files.length > 0 && (
+                  <Button onClick={handleUpload} disabled={uploading} className="gap-2">
+                    {uploading ? <LoadingSpinner size="sm" /> : <Upload className="w-4 h-4" />}
+                    Upload {files.length === 1 ? 'file' : `${files.length} files`}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Secure Messages */}
+            <Card className="shadow-candor-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="w-5 h-5" />
+                  Secure Messages
+                </CardTitle>
+                <CardDescription>
+                  Investigators may ask follow-up questions here. Your replies stay anonymous:
+                  no name, account or network details are attached to them.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MessageThread
+                  messages={messages}
+                  viewer="reporter"
+                  loading={messagesLoading}
+                  onSend={sendMessage}
+                />
+              </CardContent>
+            </Card>
+
             {/* Actions */}
             <Card className="shadow-candor-lg">
               <CardHeader>
@@ -2,7 +2,10 @@ export interface Department {
   id: string;
   name: string;
   description?: string;
+  sort_order: number;
+  archived_at?: string;
   created_at: string;
+  updated_at: string;
 }
 
 export interface IssueCategory {
@@ -11,7 +14,46 @@ export interface IssueCategory {
   description?: string;
   color: string;
   icon: string;
+  sort_order: number;
+  archived_at?: string;
   created_at: string;
+  updated_at: string;
+}
+
+export interface CategoryField {
+  id: string;
+  category_id: string;
+  field_key: string;
+  label: string;
+  field_type: CustomFieldType;
+  // Choices for select fields
+  options: string[];
+  required: boolean;
+  help_text?: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomFieldValue = string | number | boolean;
+
+// Row returned by get_taxonomy_usage
+export interface TaxonomyUsage {
+  kind: 'department' | 'category';
+  id: string;
+  issue_count: number;
+  profile_count: number;
+}
+
+// Internal label on issues; curated tags are maintained by administrators
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  is_curated: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Issue {
@@ -21,43 +63,280 @@ export interface Issue {
   category_id: string;
   department_id?: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
-  anonymous_token: string;
+  status: IssueStatus;
   reporter_id?: string;
   assigned_to?: string;
   location?: string;
-  attachments: any[];
+  attachments: IssueAttachment[];
   metadata: Record<string, any>;
   created_at: string;
   updated_at: string;
   resolved_at?: string;
+  first_response_at?: string;
+  // Set when the issue was closed as a duplicate of another
+  merged_into_id?: string;
+  // Set on a case split out of another report
+  split_from_id?: string;
   
   // Joined data
   category?: IssueCategory;
   department?: Department;
   assigned_user?: Profile;
+  watchers?: IssueWatcher[];
+  // Empty for anyone who cannot see tags
+  tags?: Tag[];
+}
+
+// Issue as listed: the report itself is only returned with the issue detail
+export type IssueSummary = Omit<Issue, 'description' | 'location' | 'attachments'>;
+
+export interface IssueAttachment {
+  id: string;
+  path: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  scan_status: AttachmentScanStatus;
+  uploaded_at: string;
+  // Issue the file was carried over from when that issue was merged in
+  merged_from?: string;
 }
 
 export interface IssueUpdate {
   id: string;
   issue_id: string;
-  update_type: 'status_change' | 'comment' | 'assignment' | 'resolution';
+  update_type: 'status_change' | 'comment' | 'assignment' | 'resolution' | 'routing' | 'conflict_override' | 'bulk_update' | 'merge' | 'split';
   content: string;
   old_status?: string;
   new_status?: string;
   created_by?: string;
   is_public: boolean;
   created_at: string;
+  // Issue the entry was copied from when that issue was merged in
+  merged_from_id?: string;
+
+  // Joined data
+  author?: Profile;
+}
+
+export interface IssueWatcher {
+  issue_id: string;
+  user_id: string;
+  routing_rule_id?: string;
+  created_at: string;
+
+  // Joined data
+  user?: Profile;
+}
+
+// Empty condition lists and an unset location pattern match any issue
+export interface RoutingRule {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  priority: number;
+  stop_processing: boolean;
+  category_ids: string[];
+  department_ids: string[];
+  severities: IssueSeverity[];
+  location_pattern?: string;
+  keywords: string[];
+  assign_to?: string;
+  set_department_id?: string;
+  raise_severity_to?: IssueSeverity;
+  watcher_ids: string[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Someone a reporter named, or their management chain, who must not handle or see the issue
+export interface IssueConflict {
+  user_id: string;
+  display_name: string;
+  relation: 'named' | 'manager' | 'report';
+  overridden: boolean;
+}
+
+// Only what a reporter needs to recognise someone, so the search cannot be used to read the staff directory
+export interface ExclusionCandidate {
+  user_id: string;
+  display_name: string;
+  department_name?: string;
+}
+
+// Row returned by search_issues; highlights are marked as described in lib/search
+export interface IssueSearchResult {
+  issue_id: string;
+  title: string;
+  status: IssueStatus;
+  severity: IssueSeverity;
+  created_at: string;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+// Row returned by find_similar_issues; score runs from 0 to 1
+export interface SimilarIssue {
+  issue_id: string;
+  title: string;
+  status: IssueStatus;
+  severity: IssueSeverity;
+  created_at: string;
+  score: number;
+}
+
+export type LinkedIssue = Pick<Issue, 'id' | 'title' | 'status' | 'merged_into_id'>;
+
+// issue_id is the duplicate, related issue or child; linked_issue_id the primary, other issue or parent
+export interface IssueLink {
+  id: string;
+  issue_id: string;
+  linked_issue_id: string;
+  link_type: IssueLinkType;
+  created_by?: string;
+  created_at: string;
+  issue?: LinkedIssue;
+  linked_issue?: LinkedIssue;
+}
+
+// Changes bulk_update_issues applies to every selected issue; absent keys are left alone
+export interface BulkIssueChanges {
+  status?: IssueStatus;
+  // null unassigns
+  assigned_to?: string | null;
+  severity?: IssueSeverity;
+  department_id?: string | null;
+  // Added to each issue; tags it already carries are left alone
+  add_tag_ids?: string[];
+}
+
+// Row returned by bulk_update_issues: update_id is set when the issue changed, error when it could not be
+export interface BulkUpdateResult {
+  issue_id: string;
+  update_id?: string;
+  error?: string;
+}
+
+// A named issue list; query holds the list's URL parameters (filters, sort, layout, columns)
+export interface SavedView {
+  id: string;
+  owner_id: string;
+  name: string;
+  query: string;
+  // At most one of these is set; neither means the view is private
+  shared_department_id?: string;
+  shared_role?: UserRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IssueStatusTransition {
+  from_status: IssueStatus;
+  to_status: IssueStatus;
+  label: string;
+  requires_note: boolean;
+  note_label?: string;
+  created_at: string;
+}
+
+export interface IssueMessage {
+  id: string;
+  issue_id: string;
+  sender_type: 'reporter' | 'staff';
+  body: string;
+  created_by?: string;
+  created_at: string;
+
+  // Joined data
+  author?: Profile;
+}
+
+// Only the selector and salted hash are stored; the raw token is never persisted
+export interface IssueAnalyticsTotals {
+  total: number;
+  open: number;
+  active: number;
+  resolved: number;
+  critical: number;
+  avg_resolution_hours: number | null;
+}
+
+// Shape returned by get_issue_analytics
+export interface IssueAnalytics {
+  trend: { bucket: string; created: number; resolved: number }[];
+  totals: {
+    current: IssueAnalyticsTotals;
+    previous: IssueAnalyticsTotals;
+  };
+  severity: { severity: IssueSeverity; count: number }[];
+  // Most used tags, with how many of their issues are still open
+  tags: { tag_id: string; name: string; color: string; count: number; open: number }[];
+}
+
+export interface SlaTarget {
+  severity: IssueSeverity;
+  first_response_hours: number;
+  resolution_hours: number;
+  updated_at: string;
+}
+
+export interface SlaComplianceStats {
+  total: number;
+  response_met: number;
+  response_breached: number;
+  resolution_met: number;
+  resolution_breached: number;
+  avg_response_hours: number | null;
+  avg_resolution_hours: number | null;
+}
+
+// Shape returned by get_sla_compliance
+export interface SlaCompliance {
+  overall: SlaComplianceStats;
+  by_department: (SlaComplianceStats & { id: string | null; name: string })[];
+  by_category: (SlaComplianceStats & { id: string | null; name: string })[];
 }
 
 export interface AnonymousToken {
   id: string;
-  token: string;
   issue_id: string;
+  token_selector: string;
+  token_salt: string;
+  token_hash: string;
   expires_at: string;
   created_at: string;
 }
 
+// Reporter-safe projection returned by track_issue_by_token
+export interface TrackedIssue {
+  title: string;
+  description: string;
+  severity: IssueSeverity;
+  status: IssueStatus;
+  location?: string;
+  created_at: string;
+  updated_at: string;
+  resolved_at?: string;
+  category?: Pick<IssueCategory, 'name' | 'color' | 'icon'>;
+  department?: Pick<Department, 'name'>;
+  attachments: Pick<IssueAttachment, 'id' | 'name' | 'mime_type' | 'size' | 'uploaded_at'>[];
+  updates: Pick<IssueUpdate, 'id' | 'update_type' | 'content' | 'old_status' | 'new_status' | 'created_at'>[];
+  // The report was combined with another; status and dates are the combined case's
+  merged: boolean;
+  split_cases: TrackedSplitCase[];
+}
+
+// A case opened from part of a tracked report
+export interface TrackedSplitCase {
+  title: string;
+  status: IssueStatus;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Profile {
   id: string;
   user_id: string;
@@ -79,6 +358,82 @@ export interface Profile {
   department?: Department;
 }
 
+export interface UserPreferences {
+  user_id: string;
+  theme: ThemePreference;
+  // Unset values fall back to the organization defaults
+  language?: string;
+  time_zone?: string;
+  notify_assignment: boolean;
+  notify_status_change: boolean;
+  notify_messages: boolean;
+  notify_weekly_digest: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrganizationSettings {
+  organization_name: string;
+  support_email?: string;
+  default_language: string;
+  default_time_zone: string;
+  // Whether case handlers may create tags while tagging, or only pick curated ones
+  allow_free_form_tags: boolean;
+  updated_by?: string;
+  updated_at: string;
+}
+
+// Row returned by get_my_sessions
+export interface UserSession {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  user_agent?: string;
+  ip?: string;
+  is_current: boolean;
+}
+
+// Append-only; each hash covers the event and the hash before it
+export interface AuditEvent {
+  id: number;
+  occurred_at: string;
+  actor_id?: string;
+  actor_role?: UserRole;
+  action: string;
+  target_type: string;
+  target_id?: string;
+  details: Record<string, unknown>;
+  client_info?: { ip?: string; user_agent?: string };
+  prev_hash?: string;
+  hash: string;
+
+  // Joined data
+  actor?: Profile;
+}
+
+// Result of verify_audit_chain
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  broken_at?: number;
+  reason?: string;
+  last_id?: number;
+  last_hash?: string;
+}
+
 export type UserRole = 'employee' | 'manager' | 'hr' | 'admin';
 export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
-export type IssueStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
\ No newline at end of file
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+export type ThemePreference = 'system' | 'light' | 'dark';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+export type AttachmentScanStatus = 'clean' | 'pending';
+export type IssueStatus = 'open' | 'triaged' | 'investigating' | 'resolved' | 'closed';
+export type IssueLinkType = 'duplicate' | 'related' | 'parent';
+export type Permission =
+  | 'view_own'
+  | 'view_department'
+  | 'view_all'
+  | 'triage'
+  | 'assign'
+  | 'resolve'
+  | 'administer';
\ No newline at end of file
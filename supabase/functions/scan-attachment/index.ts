@@ -0,0 +1,128 @@
+// Scans an attachment after the reporter has uploaded and linked it. The
+// request names the object ({ token, path }); the bytes are read from storage
+// with the service role, so the client cannot choose what gets scanned.
+// With SCANNER_URL set, the file is forwarded to that service (for example a
+// ClamAV REST wrapper) which must answer { infected: boolean, signature?: string }.
+// Without it every file is treated as unscannable and rejected, unless
+// ALLOW_TEST_SCANNER=true enables the EICAR-only check for local development.
+// Only a clean verdict releases the file; otherwise it is unlinked and deleted.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BUCKET = "issue-attachments";
+
+const MAX_SIZE = 25 * 1024 * 1024;
+
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+type ScanResult = { verdict: "clean" | "infected" | "unavailable"; signature?: string };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const scan = async (bytes: Uint8Array): Promise<ScanResult> => {
+  if (bytes.length === 0 || bytes.length > MAX_SIZE) {
+    return { verdict: "unavailable" };
+  }
+
+  const scannerUrl = Deno.env.get("SCANNER_URL");
+  if (!scannerUrl) {
+    if (Deno.env.get("ALLOW_TEST_SCANNER") !== "true") {
+      console.error("SCANNER_URL is not configured");
+      return { verdict: "unavailable" };
+    }
+
+    const text = new TextDecoder("latin1").decode(bytes);
+    return text.includes(EICAR)
+      ? { verdict: "infected", signature: "EICAR-Test-File" }
+      : { verdict: "clean" };
+  }
+
+  try {
+    const response = await fetch(scannerUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: bytes,
+    });
+
+    if (!response.ok) throw new Error(`Scanner responded with ${response.status}`);
+
+    const result = await response.json();
+    if (typeof result.infected !== "boolean") throw new Error("Scanner gave no verdict");
+
+    return result.infected
+      ? { verdict: "infected", signature: result.signature }
+      : { verdict: "clean" };
+  } catch (error) {
+    console.error("Scan failed:", error);
+    return { verdict: "unavailable" };
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const { token, path } = await req.json().catch(() => ({}));
+  if (typeof token !== "string" || typeof path !== "string") {
+    return json({ error: "token and path are required" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    { auth: { persistSession: false } },
+  );
+
+  const { data: issueId, error: lookupError } = await supabase.rpc("get_pending_attachment_issue", {
+    p_token: token,
+    p_path: path,
+  });
+
+  if (lookupError) {
+    console.error("Attachment lookup failed:", lookupError);
+    return json({ error: "Attachment lookup failed" }, 500);
+  }
+
+  if (!issueId) {
+    return json({ error: "No attachment is waiting for a scan" }, 404);
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage.from(BUCKET).download(path);
+  if (downloadError) console.error("Attachment download failed:", downloadError);
+
+  const result = file
+    ? await scan(new Uint8Array(await file.arrayBuffer()))
+    : { verdict: "unavailable" } as ScanResult;
+
+  const { error: recordError } = await supabase.rpc("record_attachment_scan", {
+    p_issue_id: issueId,
+    p_path: path,
+    p_verdict: result.verdict,
+  });
+
+  if (recordError) {
+    console.error("Recording the scan failed:", recordError);
+    return json({ error: "Recording the scan failed" }, 500);
+  }
+
+  if (result.verdict !== "clean") {
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove([path]);
+    if (removeError) console.error("Removing the rejected file failed:", removeError);
+  }
+
+  return json(result);
+});
@@ -0,0 +1,12 @@
+-- Allow staff to read internal (non-public) issue updates for the case timeline
+CREATE POLICY "Staff can view all updates" ON public.issue_updates FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('manager', 'hr', 'admin')
+  )
+);
+
+-- Timeline queries always filter by issue and order by creation time
+CREATE INDEX IF NOT EXISTS idx_issue_updates_issue_id_created_at
+  ON public.issue_updates (issue_id, created_at);
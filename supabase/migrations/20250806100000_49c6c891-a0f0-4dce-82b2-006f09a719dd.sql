@@ -0,0 +1,138 @@
+-- Workflow actions: change the issue and record the matching issue_updates row
+-- in a single transaction. Both functions run as the caller so the existing
+-- RLS policies on issues and issue_updates still decide who may act.
+
+CREATE OR REPLACE FUNCTION public.change_issue_status(
+  p_issue_id UUID,
+  p_new_status TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT true
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old_status TEXT;
+  v_update_id UUID;
+BEGIN
+  SELECT status INTO v_old_status
+  FROM public.issues
+  WHERE id = p_issue_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_old_status = p_new_status THEN
+    RAISE EXCEPTION 'Issue is already %', p_new_status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.issues
+  SET
+    status = p_new_status,
+    resolved_at = CASE
+      WHEN p_new_status = 'resolved' THEN now()
+      WHEN p_new_status IN ('open', 'in_progress') THEN NULL
+      ELSE resolved_at
+    END
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update issue %', p_issue_id USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.issue_updates (
+    issue_id,
+    update_type,
+    content,
+    old_status,
+    new_status,
+    created_by,
+    is_public
+  ) VALUES (
+    p_issue_id,
+    CASE WHEN p_new_status = 'resolved' THEN 'resolution' ELSE 'status_change' END,
+    COALESCE(
+      NULLIF(btrim(p_note), ''),
+      format('Status changed from %s to %s', replace(v_old_status, '_', ' '), replace(p_new_status, '_', ' '))
+    ),
+    v_old_status,
+    p_new_status,
+    auth.uid(),
+    p_is_public
+  )
+  RETURNING id INTO v_update_id;
+
+  RETURN v_update_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_issue(
+  p_issue_id UUID,
+  p_assignee_id UUID,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old_assignee UUID;
+  v_assignee_name TEXT;
+  v_update_id UUID;
+BEGIN
+  SELECT assigned_to INTO v_old_assignee
+  FROM public.issues
+  WHERE id = p_issue_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_old_assignee IS NOT DISTINCT FROM p_assignee_id THEN
+    RAISE EXCEPTION 'Issue already has this assignee' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_assignee_id IS NOT NULL THEN
+    SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_assignee_name
+    FROM public.profiles
+    WHERE user_id = p_assignee_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignee % has no profile', p_assignee_id USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  UPDATE public.issues
+  SET assigned_to = p_assignee_id
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update issue %', p_issue_id USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.issue_updates (
+    issue_id,
+    update_type,
+    content,
+    created_by,
+    is_public
+  ) VALUES (
+    p_issue_id,
+    'assignment',
+    COALESCE(
+      NULLIF(btrim(p_note), ''),
+      CASE WHEN p_assignee_id IS NULL THEN 'Assignment removed' ELSE format('Assigned to %s', v_assignee_name) END
+    ),
+    auth.uid(),
+    p_is_public
+  )
+  RETURNING id INTO v_update_id;
+
+  RETURN v_update_id;
+END;
+$$;
@@ -0,0 +1,162 @@
+-- Issue lifecycle: open -> triaged -> investigating -> resolved -> closed, with reopen.
+-- Allowed transitions live in a table so admins can change them without a deploy.
+
+-- Move existing data onto the new lifecycle
+ALTER TABLE public.issues DROP CONSTRAINT IF EXISTS issues_status_check;
+
+UPDATE public.issues SET status = 'investigating' WHERE status = 'in_progress';
+UPDATE public.issue_updates SET old_status = 'investigating' WHERE old_status = 'in_progress';
+UPDATE public.issue_updates SET new_status = 'investigating' WHERE new_status = 'in_progress';
+
+ALTER TABLE public.issues ADD CONSTRAINT issues_status_check
+  CHECK (status IN ('open', 'triaged', 'investigating', 'resolved', 'closed'));
+
+-- Create status transitions table
+CREATE TABLE public.issue_status_transitions (
+  from_status TEXT NOT NULL CHECK (from_status IN ('open', 'triaged', 'investigating', 'resolved', 'closed')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('open', 'triaged', 'investigating', 'resolved', 'closed')),
+  label TEXT NOT NULL,
+  requires_note BOOLEAN NOT NULL DEFAULT false,
+  note_label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+ALTER TABLE public.issue_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions" ON public.issue_status_transitions FOR SELECT USING (true);
+CREATE POLICY "Admins can manage status transitions" ON public.issue_status_transitions FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role = 'admin'
+  )
+) WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role = 'admin'
+  )
+);
+
+-- Insert default transitions
+INSERT INTO public.issue_status_transitions (from_status, to_status, label, requires_note, note_label) VALUES
+('open', 'triaged', 'Triage', false, NULL),
+('open', 'closed', 'Dismiss', true, 'Reason for dismissal'),
+('triaged', 'investigating', 'Start investigation', false, NULL),
+('triaged', 'resolved', 'Resolve', true, 'Resolution note'),
+('triaged', 'closed', 'Dismiss', true, 'Reason for dismissal'),
+('investigating', 'resolved', 'Resolve', true, 'Resolution note'),
+('resolved', 'closed', 'Close', false, NULL),
+('resolved', 'investigating', 'Reopen', true, 'Reason for reopening'),
+('closed', 'investigating', 'Reopen', true, 'Reason for reopening');
+
+-- Reject any status change that is not in the transition table. Transitions that
+-- require a note can only be made through change_issue_status, which sets
+-- candor.status_note for the current transaction.
+CREATE OR REPLACE FUNCTION public.enforce_issue_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transition public.issue_status_transitions;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_transition
+  FROM public.issue_status_transitions
+  WHERE from_status = OLD.status
+  AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move an issue from % to %', OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+
+  IF v_transition.requires_note AND COALESCE(current_setting('candor.status_note', true), '') = '' THEN
+    RAISE EXCEPTION '% is required to move an issue from % to %',
+      COALESCE(v_transition.note_label, 'A note'), OLD.status, NEW.status
+      USING ERRCODE = '23502';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_issue_status_transition
+  BEFORE UPDATE OF status ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_issue_status_transition();
+
+-- Recreate change_issue_status for the new lifecycle
+CREATE OR REPLACE FUNCTION public.change_issue_status(
+  p_issue_id UUID,
+  p_new_status TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT true
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old_status TEXT;
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_update_id UUID;
+BEGIN
+  SELECT status INTO v_old_status
+  FROM public.issues
+  WHERE id = p_issue_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_old_status = p_new_status THEN
+    RAISE EXCEPTION 'Issue is already %', p_new_status USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('candor.status_note', COALESCE(v_note, ''), true);
+
+  UPDATE public.issues
+  SET
+    status = p_new_status,
+    resolved_at = CASE
+      WHEN p_new_status = 'resolved' THEN now()
+      WHEN p_new_status IN ('open', 'triaged', 'investigating') THEN NULL
+      ELSE resolved_at
+    END
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update issue %', p_issue_id USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('candor.status_note', '', true);
+
+  INSERT INTO public.issue_updates (
+    issue_id,
+    update_type,
+    content,
+    old_status,
+    new_status,
+    created_by,
+    is_public
+  ) VALUES (
+    p_issue_id,
+    CASE WHEN p_new_status = 'resolved' THEN 'resolution' ELSE 'status_change' END,
+    COALESCE(v_note, format('Status changed from %s to %s', v_old_status, p_new_status)),
+    v_old_status,
+    p_new_status,
+    auth.uid(),
+    p_is_public
+  )
+  RETURNING id INTO v_update_id;
+
+  RETURN v_update_id;
+END;
+$$;
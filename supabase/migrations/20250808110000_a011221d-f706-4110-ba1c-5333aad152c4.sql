@@ -0,0 +1,98 @@
+-- Secure message thread between an anonymous reporter and investigators.
+-- Reporter messages never carry an author: the reporter is identified only by
+-- possession of the tracking token, and no account, IP or client data is stored.
+
+CREATE TABLE public.issue_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  sender_type TEXT NOT NULL CHECK (sender_type IN ('reporter', 'staff')),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000),
+  created_by UUID REFERENCES public.profiles(user_id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (sender_type = 'reporter' AND created_by IS NULL)
+    OR (sender_type = 'staff' AND created_by IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_issue_messages_issue_id_created_at
+  ON public.issue_messages (issue_id, created_at);
+
+ALTER TABLE public.issue_messages ENABLE ROW LEVEL SECURITY;
+
+-- Staff read and reply directly; reporters only go through the token functions below
+CREATE POLICY "Staff can view messages" ON public.issue_messages FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('manager', 'hr', 'admin')
+  )
+);
+CREATE POLICY "Staff can send messages" ON public.issue_messages FOR INSERT WITH CHECK (
+  sender_type = 'staff'
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('manager', 'hr', 'admin')
+  )
+);
+
+-- Reporter view of the thread: no staff identities are returned
+CREATE OR REPLACE FUNCTION public.get_reporter_messages(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  sender_type TEXT,
+  body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+BEGIN
+  SELECT i.id INTO v_issue_id
+  FROM public.issues i
+  WHERE i.anonymous_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.sender_type, m.body, m.created_at
+  FROM public.issue_messages m
+  WHERE m.issue_id = v_issue_id
+  ORDER BY m.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_reporter_message(p_token TEXT, p_body TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_message_id UUID;
+BEGIN
+  SELECT i.id INTO v_issue_id
+  FROM public.issues i
+  WHERE i.anonymous_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- created_by stays NULL even for signed-in reporters
+  INSERT INTO public.issue_messages (issue_id, sender_type, body)
+  VALUES (v_issue_id, 'reporter', btrim(p_body))
+  RETURNING id INTO v_message_id;
+
+  RETURN v_message_id;
+END;
+$$;
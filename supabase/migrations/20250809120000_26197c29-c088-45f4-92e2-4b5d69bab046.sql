@@ -0,0 +1,236 @@
+-- Store tracking tokens only as salted hashes.
+-- A token is looked up by its first 12 characters (the selector) and verified
+-- against sha256(salt || token). The raw token is returned exactly once, by
+-- submit_issue, and is never written to the database.
+
+ALTER TABLE public.anonymous_tokens
+  ADD COLUMN token_selector TEXT,
+  ADD COLUMN token_salt TEXT,
+  ADD COLUMN token_hash TEXT;
+
+-- Issues created through the app never got an anonymous_tokens row
+INSERT INTO public.anonymous_tokens (token, issue_id)
+SELECT i.anonymous_token, i.id
+FROM public.issues i
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.anonymous_tokens t WHERE t.issue_id = i.id
+);
+
+UPDATE public.anonymous_tokens
+SET token_salt = encode(extensions.gen_random_bytes(16), 'hex');
+
+UPDATE public.anonymous_tokens
+SET
+  token_selector = left(token, 12),
+  token_hash = encode(extensions.digest(token_salt || token, 'sha256'), 'hex');
+
+ALTER TABLE public.anonymous_tokens
+  ALTER COLUMN token_selector SET NOT NULL,
+  ALTER COLUMN token_salt SET NOT NULL,
+  ALTER COLUMN token_hash SET NOT NULL,
+  ADD CONSTRAINT anonymous_tokens_token_selector_key UNIQUE (token_selector),
+  DROP COLUMN token;
+
+ALTER TABLE public.issues DROP COLUMN anonymous_token;
+
+-- Nobody reads tokens or inserts issues directly any more
+DROP POLICY IF EXISTS "Anyone can view their token" ON public.anonymous_tokens;
+DROP POLICY IF EXISTS "Anyone can create issues" ON public.issues;
+DROP POLICY IF EXISTS "Anyone can view issues" ON public.issues;
+CREATE POLICY "Authenticated users can view issues" ON public.issues FOR SELECT TO authenticated USING (true);
+
+DROP FUNCTION IF EXISTS public.generate_anonymous_token();
+
+-- Resolve a raw token to its issue. Internal: only called by other functions.
+CREATE OR REPLACE FUNCTION public.resolve_tracking_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_token public.anonymous_tokens;
+BEGIN
+  IF p_token IS NULL OR char_length(p_token) < 16 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_token
+  FROM public.anonymous_tokens
+  WHERE token_selector = left(p_token, 12);
+
+  IF NOT FOUND
+    OR v_token.token_hash <> encode(extensions.digest(v_token.token_salt || p_token, 'sha256'), 'hex') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_token.issue_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_tracking_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create an issue together with its tracking token
+CREATE OR REPLACE FUNCTION public.submit_issue(
+  p_title TEXT,
+  p_description TEXT,
+  p_severity TEXT,
+  p_category_id UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_anonymous BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_token TEXT;
+  v_salt TEXT := encode(extensions.gen_random_bytes(16), 'hex');
+BEGIN
+  -- 32 random bytes as unpadded base64url
+  v_token := rtrim(translate(encode(extensions.gen_random_bytes(32), 'base64'), E'+/\n', '-_'), '=');
+
+  INSERT INTO public.issues (
+    title,
+    description,
+    severity,
+    category_id,
+    department_id,
+    location,
+    metadata,
+    reporter_id
+  ) VALUES (
+    p_title,
+    p_description,
+    p_severity,
+    p_category_id,
+    p_department_id,
+    NULLIF(btrim(p_location), ''),
+    COALESCE(p_metadata, '{}'),
+    CASE WHEN p_anonymous THEN NULL ELSE auth.uid() END
+  )
+  RETURNING id INTO v_issue_id;
+
+  INSERT INTO public.anonymous_tokens (issue_id, token_selector, token_salt, token_hash)
+  VALUES (
+    v_issue_id,
+    left(v_token, 12),
+    v_salt,
+    encode(extensions.digest(v_salt || v_token, 'sha256'), 'hex')
+  );
+
+  RETURN jsonb_build_object('issue_id', v_issue_id, 'token', v_token);
+END;
+$$;
+
+-- Reporter-safe projection of an issue: no ids, people, metadata or internal updates
+CREATE OR REPLACE FUNCTION public.track_issue_by_token(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_result JSONB;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'title', i.title,
+    'description', i.description,
+    'severity', i.severity,
+    'status', i.status,
+    'location', i.location,
+    'created_at', i.created_at,
+    'updated_at', i.updated_at,
+    'resolved_at', i.resolved_at,
+    'category', (
+      SELECT jsonb_build_object('name', c.name, 'color', c.color, 'icon', c.icon)
+      FROM public.issue_categories c
+      WHERE c.id = i.category_id
+    ),
+    'department', (
+      SELECT jsonb_build_object('name', d.name)
+      FROM public.departments d
+      WHERE d.id = i.department_id
+    ),
+    'updates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'update_type', u.update_type,
+        'content', u.content,
+        'old_status', u.old_status,
+        'new_status', u.new_status,
+        'created_at', u.created_at
+      ) ORDER BY u.created_at)
+      FROM public.issue_updates u
+      WHERE u.issue_id = i.id
+      AND u.is_public = true
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.issues i
+  WHERE i.id = v_issue_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Message thread functions verify the hashed token as well
+CREATE OR REPLACE FUNCTION public.get_reporter_messages(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  sender_type TEXT,
+  body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.sender_type, m.body, m.created_at
+  FROM public.issue_messages m
+  WHERE m.issue_id = v_issue_id
+  ORDER BY m.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_reporter_message(p_token TEXT, p_body TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_message_id UUID;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- created_by stays NULL even for signed-in reporters
+  INSERT INTO public.issue_messages (issue_id, sender_type, body)
+  VALUES (v_issue_id, 'reporter', btrim(p_body))
+  RETURNING id INTO v_message_id;
+
+  RETURN v_message_id;
+END;
+$$;
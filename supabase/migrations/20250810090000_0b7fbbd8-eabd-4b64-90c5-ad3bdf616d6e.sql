@@ -0,0 +1,292 @@
+-- Role/permission matrix for the roles the app actually uses
+-- (employee, manager, hr, admin). Policies check permissions, never role names.
+
+-- Legacy roles ('staff', 'faculty', ...) never matched the sign-up form
+UPDATE public.profiles
+SET role = 'employee'
+WHERE role IS NULL OR role NOT IN ('employee', 'manager', 'hr', 'admin');
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('employee', 'manager', 'hr', 'admin'));
+
+CREATE TABLE public.role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('employee', 'manager', 'hr', 'admin')),
+  permission TEXT NOT NULL CHECK (permission IN (
+    'view_own',
+    'view_department',
+    'view_all',
+    'triage',
+    'assign',
+    'resolve',
+    'administer'
+  )),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions" ON public.role_permissions
+  FOR SELECT TO authenticated USING (true);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+('employee', 'view_own'),
+('manager', 'view_own'),
+('manager', 'view_department'),
+('manager', 'triage'),
+('hr', 'view_own'),
+('hr', 'view_all'),
+('hr', 'triage'),
+('hr', 'assign'),
+('hr', 'resolve'),
+('admin', 'view_own'),
+('admin', 'view_all'),
+('admin', 'triage'),
+('admin', 'assign'),
+('admin', 'resolve'),
+('admin', 'administer');
+
+-- Permission helpers. SECURITY DEFINER so that policies on profiles can use them
+-- without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.user_id = auth.uid()
+    AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT rp.permission
+  FROM public.profiles p
+  JOIN public.role_permissions rp ON rp.role = p.role
+  WHERE p.user_id = auth.uid()
+  ORDER BY rp.permission;
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_department_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT department_id FROM public.profiles WHERE user_id = auth.uid();
+$$;
+
+-- Whether the current user may see an issue at all: their own reports and
+-- assignments, their department's issues, or everything
+CREATE OR REPLACE FUNCTION public.can_view_issue(p_issue_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.id = p_issue_id
+    AND (
+      public.has_permission('view_all')
+      OR (
+        public.has_permission('view_own')
+        AND auth.uid() IN (i.reporter_id, i.assigned_to)
+      )
+      OR (
+        public.has_permission('view_department')
+        AND i.department_id IS NOT NULL
+        AND i.department_id = public.current_user_department_id()
+      )
+    )
+  );
+$$;
+
+-- issues
+DROP POLICY IF EXISTS "Authenticated users can view issues" ON public.issues;
+DROP POLICY IF EXISTS "Staff can update issues" ON public.issues;
+
+CREATE POLICY "Users can view permitted issues" ON public.issues FOR SELECT USING (
+  public.can_view_issue(id)
+);
+CREATE POLICY "Case handlers can update permitted issues" ON public.issues FOR UPDATE USING (
+  public.can_view_issue(id)
+  AND (public.has_permission('triage') OR public.has_permission('assign') OR public.has_permission('resolve'))
+);
+
+-- Fine-grained checks on what an update changes. Requests without a user
+-- (service role, migrations) are not restricted.
+CREATE OR REPLACE FUNCTION public.enforce_issue_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to AND NOT public.has_permission('assign') THEN
+    RAISE EXCEPTION 'You do not have permission to assign issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('resolved', 'closed') AND NOT public.has_permission('resolve') THEN
+      RAISE EXCEPTION 'You do not have permission to resolve or close issues' USING ERRCODE = '42501';
+    ELSIF NEW.status NOT IN ('resolved', 'closed') AND NOT public.has_permission('triage') THEN
+      RAISE EXCEPTION 'You do not have permission to triage issues' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_issue_permissions
+  BEFORE UPDATE ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_issue_permissions();
+
+-- issue_updates: reporters see public updates on their own issues, case
+-- handlers see the full timeline
+DROP POLICY IF EXISTS "Anyone can view public updates" ON public.issue_updates;
+DROP POLICY IF EXISTS "Staff can view all updates" ON public.issue_updates;
+DROP POLICY IF EXISTS "Staff can create updates" ON public.issue_updates;
+
+CREATE POLICY "Users can view public updates on permitted issues" ON public.issue_updates FOR SELECT USING (
+  is_public = true
+  AND public.can_view_issue(issue_id)
+);
+CREATE POLICY "Case handlers can view all updates" ON public.issue_updates FOR SELECT USING (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+);
+CREATE POLICY "Case handlers can create updates" ON public.issue_updates FOR INSERT WITH CHECK (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+  AND created_by = auth.uid()
+);
+
+-- issue_messages follow the same rule as internal updates
+DROP POLICY IF EXISTS "Staff can view messages" ON public.issue_messages;
+DROP POLICY IF EXISTS "Staff can send messages" ON public.issue_messages;
+
+CREATE POLICY "Case handlers can view messages" ON public.issue_messages FOR SELECT USING (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+);
+CREATE POLICY "Case handlers can send messages" ON public.issue_messages FOR INSERT WITH CHECK (
+  sender_type = 'staff'
+  AND created_by = auth.uid()
+  AND public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+);
+
+-- issue_status_transitions
+DROP POLICY IF EXISTS "Admins can manage status transitions" ON public.issue_status_transitions;
+
+CREATE POLICY "Administrators can manage status transitions" ON public.issue_status_transitions
+  FOR ALL
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+
+-- profiles: replace whatever policies exist with the matrix
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'profiles'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.profiles', v_policy.policyname);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile" ON public.profiles FOR SELECT USING (
+  user_id = auth.uid()
+);
+CREATE POLICY "Case handlers can view profiles" ON public.profiles FOR SELECT USING (
+  public.has_permission('triage')
+  OR public.has_permission('administer')
+);
+CREATE POLICY "Users can create their own profile" ON public.profiles FOR INSERT WITH CHECK (
+  user_id = auth.uid()
+  AND role = 'employee'
+);
+CREATE POLICY "Users can update their own profile" ON public.profiles FOR UPDATE USING (
+  user_id = auth.uid()
+);
+CREATE POLICY "Administrators can update profiles" ON public.profiles FOR UPDATE USING (
+  public.has_permission('administer')
+);
+
+-- Only administrators change roles
+CREATE OR REPLACE FUNCTION public.prevent_role_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Only administrators can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_role_self_assignment
+  BEFORE UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_self_assignment();
+
+-- Sign-up may request employee, manager or hr; admin is only ever granted by
+-- an existing administrator
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (
+    user_id,
+    email,
+    role,
+    display_name,
+    first_name,
+    last_name,
+    company,
+    job_title
+  )
+  VALUES (
+    NEW.id,
+    NEW.email,
+    CASE
+      WHEN NEW.raw_user_meta_data ->> 'role' IN ('employee', 'manager', 'hr') THEN NEW.raw_user_meta_data ->> 'role'
+      ELSE 'employee'
+    END,
+    COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1)),
+    NEW.raw_user_meta_data ->> 'first_name',
+    NEW.raw_user_meta_data ->> 'last_name',
+    NEW.raw_user_meta_data ->> 'company',
+    NEW.raw_user_meta_data ->> 'job_title'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
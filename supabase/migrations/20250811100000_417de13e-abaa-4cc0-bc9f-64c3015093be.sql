@@ -0,0 +1,169 @@
+-- Evidence attachments. Files live in a private bucket; issues.attachments holds
+-- one entry per file: {id, path, name, mime_type, size, scan_status, uploaded_at}.
+-- Metadata is stripped and the scan runs in the client before upload.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'issue-attachments',
+  'issue-attachments',
+  false,
+  26214400,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'application/pdf',
+    'audio/mpeg',
+    'audio/wav'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Reporters may be anonymous, so anyone can upload. Objects are unreadable until
+-- add_issue_attachment links them to an issue the reader is allowed to see.
+CREATE POLICY "Anyone can upload issue attachments" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'issue-attachments'
+);
+CREATE POLICY "Users can read attachments of permitted issues" ON storage.objects FOR SELECT USING (
+  bucket_id = 'issue-attachments'
+  AND EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.attachments @> jsonb_build_array(jsonb_build_object('path', storage.objects.name))
+    AND public.can_view_issue(i.id)
+  )
+);
+
+UPDATE public.issues SET attachments = '[]' WHERE attachments IS NULL;
+ALTER TABLE public.issues
+  ALTER COLUMN attachments SET NOT NULL,
+  ADD CONSTRAINT issues_attachments_is_array CHECK (jsonb_typeof(attachments) = 'array');
+
+-- Link an uploaded object to the issue behind a tracking token. Size and type
+-- come from the stored object, not from the caller.
+CREATE OR REPLACE FUNCTION public.add_issue_attachment(
+  p_token TEXT,
+  p_path TEXT,
+  p_name TEXT,
+  p_scan_status TEXT DEFAULT 'unscanned'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_object storage.objects;
+  v_attachment_id UUID := gen_random_uuid();
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_scan_status NOT IN ('clean', 'unscanned') THEN
+    RAISE EXCEPTION 'Files that failed the scan cannot be attached' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_object
+  FROM storage.objects o
+  WHERE o.bucket_id = 'issue-attachments'
+  AND o.name = p_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Uploaded file not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE attachments @> jsonb_build_array(jsonb_build_object('path', p_path))
+  ) THEN
+    RAISE EXCEPTION 'This file is already attached to an issue' USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.issues
+  SET attachments = attachments || jsonb_build_array(jsonb_build_object(
+    'id', v_attachment_id,
+    'path', p_path,
+    'name', left(btrim(p_name), 255),
+    'mime_type', v_object.metadata ->> 'mimetype',
+    'size', (v_object.metadata ->> 'size')::BIGINT,
+    'scan_status', p_scan_status,
+    'uploaded_at', now()
+  ))
+  WHERE id = v_issue_id
+  AND jsonb_array_length(attachments) < 10;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'An issue can have at most 10 attachments' USING ERRCODE = '54000';
+  END IF;
+
+  RETURN v_attachment_id;
+END;
+$$;
+
+-- Reporters also see which files they have attached
+CREATE OR REPLACE FUNCTION public.track_issue_by_token(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_result JSONB;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'title', i.title,
+    'description', i.description,
+    'severity', i.severity,
+    'status', i.status,
+    'location', i.location,
+    'created_at', i.created_at,
+    'updated_at', i.updated_at,
+    'resolved_at', i.resolved_at,
+    'category', (
+      SELECT jsonb_build_object('name', c.name, 'color', c.color, 'icon', c.icon)
+      FROM public.issue_categories c
+      WHERE c.id = i.category_id
+    ),
+    'department', (
+      SELECT jsonb_build_object('name', d.name)
+      FROM public.departments d
+      WHERE d.id = i.department_id
+    ),
+    'attachments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a ->> 'id',
+        'name', a ->> 'name',
+        'mime_type', a ->> 'mime_type',
+        'size', (a ->> 'size')::BIGINT,
+        'uploaded_at', a ->> 'uploaded_at'
+      ))
+      FROM jsonb_array_elements(i.attachments) a
+    ), '[]'::jsonb),
+    'updates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'update_type', u.update_type,
+        'content', u.content,
+        'old_status', u.old_status,
+        'new_status', u.new_status,
+        'created_at', u.created_at
+      ) ORDER BY u.created_at)
+      FROM public.issue_updates u
+      WHERE u.issue_id = i.id
+      AND u.is_public = true
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.issues i
+  WHERE i.id = v_issue_id;
+
+  RETURN v_result;
+END;
+$$;
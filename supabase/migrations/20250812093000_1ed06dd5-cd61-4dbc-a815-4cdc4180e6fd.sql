@@ -0,0 +1,115 @@
+-- Issue analytics for the dashboard. SECURITY INVOKER, so each caller only
+-- aggregates the issues RLS lets them see.
+--
+-- Returns:
+--   trend:    [{bucket, created, resolved}] for every bucket in the range
+--   totals:   {current, previous} counts for the range and the equally long
+--             range before it
+--   severity: [{severity, count}] for issues created in the range
+CREATE OR REPLACE FUNCTION public.get_issue_analytics(
+  p_bucket TEXT,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_category_id UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL,
+  p_severity TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step INTERVAL;
+  v_result JSONB;
+BEGIN
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Bucket must be day, week or month' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'The end of the range must be after the start' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to - p_from > INTERVAL '3 years' THEN
+    RAISE EXCEPTION 'The range can be at most three years' USING ERRCODE = '22023';
+  END IF;
+
+  v_step := ('1 ' || p_bucket)::INTERVAL;
+
+  WITH filtered AS (
+    SELECT i.severity, i.status, i.created_at, i.resolved_at
+    FROM public.issues i
+    WHERE (p_category_id IS NULL OR i.category_id = p_category_id)
+    AND (p_department_id IS NULL OR i.department_id = p_department_id)
+    AND (p_severity IS NULL OR i.severity = p_severity)
+  ),
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_from),
+      p_to - INTERVAL '1 microsecond',
+      v_step
+    ) AS bucket
+  ),
+  created AS (
+    SELECT date_trunc(p_bucket, created_at) AS bucket, count(*) AS total
+    FROM filtered
+    WHERE created_at >= p_from AND created_at < p_to
+    GROUP BY 1
+  ),
+  resolved AS (
+    SELECT date_trunc(p_bucket, resolved_at) AS bucket, count(*) AS total
+    FROM filtered
+    WHERE resolved_at >= p_from AND resolved_at < p_to
+    GROUP BY 1
+  ),
+  periods AS (
+    SELECT 'current' AS period, p_from AS starts, p_to AS ends
+    UNION ALL
+    SELECT 'previous', p_from - (p_to - p_from), p_from
+  )
+  SELECT jsonb_build_object(
+    'trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'bucket', b.bucket,
+        'created', COALESCE(c.total, 0),
+        'resolved', COALESCE(r.total, 0)
+      ) ORDER BY b.bucket), '[]'::jsonb)
+      FROM buckets b
+      LEFT JOIN created c ON c.bucket = b.bucket
+      LEFT JOIN resolved r ON r.bucket = b.bucket
+    ),
+    'totals', (
+      SELECT jsonb_object_agg(p.period, (
+        SELECT jsonb_build_object(
+          'total', count(*),
+          'open', count(*) FILTER (WHERE f.status = 'open'),
+          'active', count(*) FILTER (WHERE f.status IN ('triaged', 'investigating')),
+          'resolved', count(*) FILTER (WHERE f.status IN ('resolved', 'closed')),
+          'critical', count(*) FILTER (WHERE f.severity = 'critical'),
+          'avg_resolution_hours', round((avg(EXTRACT(EPOCH FROM f.resolved_at - f.created_at)) / 3600)::NUMERIC, 1)
+        )
+        FROM filtered f
+        WHERE f.created_at >= p.starts AND f.created_at < p.ends
+      ))
+      FROM periods p
+    ),
+    'severity', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('severity', s.severity, 'count', s.total)), '[]'::jsonb)
+      FROM (
+        SELECT severity, count(*) AS total
+        FROM filtered
+        WHERE created_at >= p_from AND created_at < p_to
+        GROUP BY severity
+      ) s
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Range scans on the two timestamps the analytics bucket by
+CREATE INDEX IF NOT EXISTS idx_issues_created_at ON public.issues (created_at);
+CREATE INDEX IF NOT EXISTS idx_issues_resolved_at ON public.issues (resolved_at) WHERE resolved_at IS NOT NULL;
@@ -0,0 +1,163 @@
+-- SLA targets per severity: hours until the first response and until resolution
+CREATE TABLE public.sla_targets (
+  severity TEXT NOT NULL PRIMARY KEY CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  first_response_hours INTEGER NOT NULL CHECK (first_response_hours > 0),
+  resolution_hours INTEGER NOT NULL CHECK (resolution_hours > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (resolution_hours >= first_response_hours)
+);
+
+ALTER TABLE public.sla_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view SLA targets" ON public.sla_targets
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Administrators can manage SLA targets" ON public.sla_targets
+  FOR ALL
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+
+CREATE TRIGGER update_sla_targets_updated_at
+  BEFORE UPDATE ON public.sla_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.sla_targets (severity, first_response_hours, resolution_hours) VALUES
+('critical', 4, 24),
+('high', 24, 72),
+('medium', 48, 168),
+('low', 72, 336);
+
+-- First response: the first workflow action or message from a case handler
+ALTER TABLE public.issues ADD COLUMN first_response_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.issues i
+SET first_response_at = r.first_at
+FROM (
+  SELECT issue_id, min(created_at) AS first_at
+  FROM (
+    SELECT issue_id, created_at FROM public.issue_updates WHERE created_by IS NOT NULL
+    UNION ALL
+    SELECT issue_id, created_at FROM public.issue_messages WHERE sender_type = 'staff'
+  ) responses
+  GROUP BY issue_id
+) r
+WHERE r.issue_id = i.id;
+
+-- Issues resolved before resolved_at was maintained
+UPDATE public.issues
+SET resolved_at = updated_at
+WHERE status = 'resolved' AND resolved_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.record_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.issues
+  SET first_response_at = NEW.created_at
+  WHERE id = NEW.issue_id
+  AND first_response_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_first_response
+  AFTER INSERT ON public.issue_updates
+  FOR EACH ROW
+  WHEN (NEW.created_by IS NOT NULL)
+  EXECUTE FUNCTION public.record_first_response();
+
+CREATE TRIGGER record_first_response
+  AFTER INSERT ON public.issue_messages
+  FOR EACH ROW
+  WHEN (NEW.sender_type = 'staff')
+  EXECUTE FUNCTION public.record_first_response();
+
+-- SLA compliance for issues created in a range, overall and broken down by
+-- department and category. A target is "met" or "breached" once it is decided;
+-- issues still inside their window are "pending". Issues closed without being
+-- resolved have no resolution outcome. src/lib/sla.ts applies the same rules.
+CREATE OR REPLACE FUNCTION public.get_sla_compliance(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'The end of the range must be after the start' USING ERRCODE = '22023';
+  END IF;
+
+  WITH measured AS (
+    SELECT
+      i.department_id,
+      i.category_id,
+      EXTRACT(EPOCH FROM i.first_response_at - i.created_at) / 3600 AS response_hours,
+      EXTRACT(EPOCH FROM i.resolved_at - i.created_at) / 3600 AS resolution_hours,
+      CASE
+        WHEN i.first_response_at IS NOT NULL
+          AND i.first_response_at <= i.created_at + make_interval(hours => t.first_response_hours) THEN 'met'
+        WHEN COALESCE(i.first_response_at, now()) > i.created_at + make_interval(hours => t.first_response_hours) THEN 'breached'
+        ELSE 'pending'
+      END AS response_state,
+      CASE
+        WHEN i.resolved_at IS NOT NULL
+          AND i.resolved_at <= i.created_at + make_interval(hours => t.resolution_hours) THEN 'met'
+        WHEN i.status = 'closed' AND i.resolved_at IS NULL THEN 'not_applicable'
+        WHEN COALESCE(i.resolved_at, now()) > i.created_at + make_interval(hours => t.resolution_hours) THEN 'breached'
+        ELSE 'pending'
+      END AS resolution_state
+    FROM public.issues i
+    JOIN public.sla_targets t ON t.severity = i.severity
+    WHERE i.created_at >= p_from AND i.created_at < p_to
+  ),
+  grouped AS (
+    SELECT
+      GROUPING(department_id) AS by_department,
+      GROUPING(category_id) AS by_category,
+      department_id,
+      category_id,
+      jsonb_build_object(
+        'total', count(*),
+        'response_met', count(*) FILTER (WHERE response_state = 'met'),
+        'response_breached', count(*) FILTER (WHERE response_state = 'breached'),
+        'resolution_met', count(*) FILTER (WHERE resolution_state = 'met'),
+        'resolution_breached', count(*) FILTER (WHERE resolution_state = 'breached'),
+        'avg_response_hours', round(avg(response_hours)::NUMERIC, 1),
+        'avg_resolution_hours', round(avg(resolution_hours)::NUMERIC, 1)
+      ) AS stats
+    FROM measured
+    GROUP BY GROUPING SETS ((), (department_id), (category_id))
+  )
+  SELECT jsonb_build_object(
+    'overall', COALESCE((
+      SELECT stats FROM grouped WHERE by_department = 1 AND by_category = 1
+    ), '{}'::jsonb),
+    'by_department', COALESCE((
+      SELECT jsonb_agg(g.stats || jsonb_build_object('id', g.department_id, 'name', COALESCE(d.name, 'Unassigned'))
+        ORDER BY d.name NULLS LAST)
+      FROM grouped g
+      LEFT JOIN public.departments d ON d.id = g.department_id
+      WHERE g.by_department = 0
+    ), '[]'::jsonb),
+    'by_category', COALESCE((
+      SELECT jsonb_agg(g.stats || jsonb_build_object('id', g.category_id, 'name', COALESCE(c.name, 'Uncategorised'))
+        ORDER BY c.name NULLS LAST)
+      FROM grouped g
+      LEFT JOIN public.issue_categories c ON c.id = g.category_id
+      WHERE g.by_category = 0
+    ), '[]'::jsonb)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
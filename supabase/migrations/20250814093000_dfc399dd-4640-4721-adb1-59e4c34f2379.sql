@@ -0,0 +1,168 @@
+-- Personal preferences, one row per user, created on first save
+CREATE TABLE public.user_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  theme TEXT NOT NULL DEFAULT 'system' CHECK (theme IN ('system', 'light', 'dark')),
+  -- NULL falls back to the organization default
+  language TEXT,
+  time_zone TEXT,
+  notify_assignment BOOLEAN NOT NULL DEFAULT true,
+  notify_status_change BOOLEAN NOT NULL DEFAULT true,
+  notify_messages BOOLEAN NOT NULL DEFAULT true,
+  notify_weekly_digest BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own preferences" ON public.user_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own preferences" ON public.user_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own preferences" ON public.user_preferences
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+  BEFORE UPDATE ON public.user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Organization-wide configuration; a single row keyed by id = true
+CREATE TABLE public.organization_settings (
+  id BOOLEAN NOT NULL PRIMARY KEY DEFAULT true CHECK (id),
+  organization_name TEXT NOT NULL DEFAULT 'Candor',
+  support_email TEXT,
+  default_language TEXT NOT NULL DEFAULT 'en',
+  default_time_zone TEXT NOT NULL DEFAULT 'UTC',
+  tracking_token_days INTEGER NOT NULL DEFAULT 90 CHECK (tracking_token_days BETWEEN 7 AND 365),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view organization settings" ON public.organization_settings
+  FOR SELECT USING (true);
+CREATE POLICY "Administrators can update organization settings" ON public.organization_settings
+  FOR UPDATE
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+
+CREATE TRIGGER update_organization_settings_updated_at
+  BEFORE UPDATE ON public.organization_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.organization_settings (id) VALUES (true);
+
+-- Tracking tokens now expire after the configured number of days
+CREATE OR REPLACE FUNCTION public.submit_issue(
+  p_title TEXT,
+  p_description TEXT,
+  p_severity TEXT,
+  p_category_id UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_anonymous BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_token TEXT;
+  v_salt TEXT := encode(extensions.gen_random_bytes(16), 'hex');
+  v_token_days INTEGER;
+BEGIN
+  SELECT tracking_token_days INTO v_token_days FROM public.organization_settings WHERE id;
+
+  -- 32 random bytes as unpadded base64url
+  v_token := rtrim(translate(encode(extensions.gen_random_bytes(32), 'base64'), E'+/\n', '-_'), '=');
+
+  INSERT INTO public.issues (
+    title,
+    description,
+    severity,
+    category_id,
+    department_id,
+    location,
+    metadata,
+    reporter_id
+  ) VALUES (
+    p_title,
+    p_description,
+    p_severity,
+    p_category_id,
+    p_department_id,
+    NULLIF(btrim(p_location), ''),
+    COALESCE(p_metadata, '{}'),
+    CASE WHEN p_anonymous THEN NULL ELSE auth.uid() END
+  )
+  RETURNING id INTO v_issue_id;
+
+  INSERT INTO public.anonymous_tokens (issue_id, token_selector, token_salt, token_hash, expires_at)
+  VALUES (
+    v_issue_id,
+    left(v_token, 12),
+    v_salt,
+    encode(extensions.digest(v_salt || v_token, 'sha256'), 'hex'),
+    now() + make_interval(days => COALESCE(v_token_days, 90))
+  );
+
+  RETURN jsonb_build_object('issue_id', v_issue_id, 'token', v_token);
+END;
+$$;
+
+-- Active sessions of the calling user; is_current matches the session in the JWT
+CREATE OR REPLACE FUNCTION public.get_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at, s.updated_at) AS updated_at,
+    s.user_agent,
+    host(s.ip) AS ip,
+    s.id::text = (auth.jwt() ->> 'session_id') AS is_current
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY COALESCE(s.refreshed_at, s.updated_at) DESC NULLS LAST;
+$$;
+
+-- Ends another session of the calling user. Its refresh tokens go with it;
+-- an already issued access token stays valid until it expires.
+CREATE OR REPLACE FUNCTION public.revoke_my_session(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_session_id::text = (auth.jwt() ->> 'session_id') THEN
+    RAISE EXCEPTION 'Use sign out to end the current session' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = p_session_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
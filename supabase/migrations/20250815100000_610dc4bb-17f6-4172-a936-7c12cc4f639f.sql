@@ -0,0 +1,247 @@
+-- Ordering and archiving for departments and issue categories
+ALTER TABLE public.departments
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.issue_categories
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.departments d
+SET sort_order = o.position
+FROM (SELECT id, row_number() OVER (ORDER BY name) AS position FROM public.departments) o
+WHERE o.id = d.id;
+
+-- Keep the seeded "Other" category last
+UPDATE public.issue_categories c
+SET sort_order = o.position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY name = 'Other', name) AS position
+  FROM public.issue_categories
+) o
+WHERE o.id = c.id;
+
+UPDATE public.issue_categories SET color = '#6366f1' WHERE color IS NULL OR color !~ '^#[0-9a-fA-F]{6}$';
+UPDATE public.issue_categories SET icon = 'AlertCircle' WHERE icon IS NULL;
+
+ALTER TABLE public.issue_categories
+  ALTER COLUMN color SET NOT NULL,
+  ALTER COLUMN icon SET NOT NULL,
+  ADD CONSTRAINT issue_categories_color_check CHECK (color ~ '^#[0-9a-fA-F]{6}$');
+
+CREATE UNIQUE INDEX departments_active_name_key
+  ON public.departments (lower(name)) WHERE archived_at IS NULL;
+CREATE UNIQUE INDEX issue_categories_active_name_key
+  ON public.issue_categories (lower(name)) WHERE archived_at IS NULL;
+
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_issue_categories_updated_at
+  BEFORE UPDATE ON public.issue_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Administrators can create departments" ON public.departments
+  FOR INSERT WITH CHECK (public.has_permission('administer'));
+CREATE POLICY "Administrators can update departments" ON public.departments
+  FOR UPDATE
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+CREATE POLICY "Administrators can delete departments" ON public.departments
+  FOR DELETE USING (public.has_permission('administer'));
+
+CREATE POLICY "Administrators can create issue categories" ON public.issue_categories
+  FOR INSERT WITH CHECK (public.has_permission('administer'));
+CREATE POLICY "Administrators can update issue categories" ON public.issue_categories
+  FOR UPDATE
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+CREATE POLICY "Administrators can delete issue categories" ON public.issue_categories
+  FOR DELETE USING (public.has_permission('administer'));
+
+-- Deleting is only allowed once nothing points at the row; merge or archive instead
+CREATE OR REPLACE FUNCTION public.prevent_referenced_taxonomy_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issues INTEGER;
+  v_profiles INTEGER := 0;
+BEGIN
+  IF TG_TABLE_NAME = 'departments' THEN
+    SELECT count(*) INTO v_issues FROM public.issues WHERE department_id = OLD.id;
+    SELECT count(*) INTO v_profiles FROM public.profiles WHERE department_id = OLD.id;
+  ELSE
+    SELECT count(*) INTO v_issues FROM public.issues WHERE category_id = OLD.id;
+  END IF;
+
+  IF v_issues > 0 OR v_profiles > 0 THEN
+    RAISE EXCEPTION '"%" is still referenced by % issue(s) and % profile(s); merge or archive it instead',
+      OLD.name, v_issues, v_profiles
+      USING ERRCODE = '23503';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_referenced_department_delete
+  BEFORE DELETE ON public.departments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_referenced_taxonomy_delete();
+
+CREATE TRIGGER prevent_referenced_category_delete
+  BEFORE DELETE ON public.issue_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_referenced_taxonomy_delete();
+
+-- Reference counts for the admin console, across all issues regardless of RLS
+CREATE OR REPLACE FUNCTION public.get_taxonomy_usage()
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  issue_count INTEGER,
+  profile_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage departments and categories' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'department'::text,
+    d.id,
+    (SELECT count(*)::integer FROM public.issues i WHERE i.department_id = d.id),
+    (SELECT count(*)::integer FROM public.profiles p WHERE p.department_id = d.id)
+  FROM public.departments d
+  UNION ALL
+  SELECT
+    'category'::text,
+    c.id,
+    (SELECT count(*)::integer FROM public.issues i WHERE i.category_id = c.id),
+    0
+  FROM public.issue_categories c;
+END;
+$$;
+
+-- Sets sort_order from the position of each id in p_ids
+CREATE OR REPLACE FUNCTION public.reorder_departments(p_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage departments' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.departments d
+  SET sort_order = o.position
+  FROM unnest(p_ids) WITH ORDINALITY AS o(id, position)
+  WHERE d.id = o.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_issue_categories(p_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage issue categories' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.issue_categories c
+  SET sort_order = o.position
+  FROM unnest(p_ids) WITH ORDINALITY AS o(id, position)
+  WHERE c.id = o.id;
+END;
+$$;
+
+-- Moves every issue and profile from the source department to the target,
+-- then deletes the source. Returns the number of issues moved.
+CREATE OR REPLACE FUNCTION public.merge_departments(p_source_id UUID, p_target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_moved INTEGER;
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage departments' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a department into itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.departments WHERE id = p_source_id) THEN
+    RAISE EXCEPTION 'Department not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.departments WHERE id = p_target_id AND archived_at IS NULL) THEN
+    RAISE EXCEPTION 'Target department not found or archived' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.issues SET department_id = p_target_id WHERE department_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE public.profiles SET department_id = p_target_id WHERE department_id = p_source_id;
+
+  DELETE FROM public.departments WHERE id = p_source_id;
+
+  RETURN v_moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_issue_categories(p_source_id UUID, p_target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_moved INTEGER;
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage issue categories' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.issue_categories WHERE id = p_source_id) THEN
+    RAISE EXCEPTION 'Category not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.issue_categories WHERE id = p_target_id AND archived_at IS NULL) THEN
+    RAISE EXCEPTION 'Target category not found or archived' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.issues SET category_id = p_target_id WHERE category_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  DELETE FROM public.issue_categories WHERE id = p_source_id;
+
+  RETURN v_moved;
+END;
+$$;
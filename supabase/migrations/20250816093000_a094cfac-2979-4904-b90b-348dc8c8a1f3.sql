@@ -0,0 +1,99 @@
+-- Custom fields per issue category. Values are stored in issues.metadata -> 'custom_fields'
+-- keyed by field_key, so the schema can change without migrating issues.
+CREATE TABLE public.category_fields (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES public.issue_categories(id) ON DELETE CASCADE,
+  field_key TEXT NOT NULL CHECK (field_key ~ '^[a-z][a-z0-9_]{0,39}$'),
+  label TEXT NOT NULL CHECK (length(btrim(label)) > 0),
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'boolean')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  required BOOLEAN NOT NULL DEFAULT false,
+  help_text TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (category_id, field_key),
+  CHECK (field_type <> 'select' OR cardinality(options) > 0)
+);
+
+CREATE INDEX idx_category_fields_category_id ON public.category_fields(category_id, sort_order);
+
+ALTER TABLE public.category_fields ENABLE ROW LEVEL SECURITY;
+
+-- Reporters need the schema to fill in the wizard, signed in or not
+CREATE POLICY "Anyone can view category fields" ON public.category_fields
+  FOR SELECT USING (true);
+CREATE POLICY "Administrators can manage category fields" ON public.category_fields
+  FOR ALL
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+
+CREATE TRIGGER update_category_fields_updated_at
+  BEFORE UPDATE ON public.category_fields
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Checks custom field values against the category schema when an issue is reported.
+-- Later schema changes do not invalidate existing issues.
+CREATE OR REPLACE FUNCTION public.validate_custom_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_values JSONB := COALESCE(NEW.metadata -> 'custom_fields', '{}');
+  v_field RECORD;
+  v_value JSONB;
+BEGIN
+  IF jsonb_typeof(v_values) <> 'object' THEN
+    RAISE EXCEPTION 'custom_fields must be an object' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_field IN
+    SELECT field_key, label, field_type, options, required
+    FROM public.category_fields
+    WHERE category_id = NEW.category_id
+  LOOP
+    v_value := v_values -> v_field.field_key;
+
+    IF v_value IS NULL OR v_value = 'null'::jsonb OR v_value = '""'::jsonb THEN
+      IF v_field.required THEN
+        RAISE EXCEPTION '% is required', v_field.label USING ERRCODE = '23514';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF (v_field.field_type = 'number' AND jsonb_typeof(v_value) <> 'number')
+      OR (v_field.field_type = 'boolean' AND jsonb_typeof(v_value) <> 'boolean')
+      OR (v_field.field_type IN ('text', 'date', 'select') AND jsonb_typeof(v_value) <> 'string')
+      OR (v_field.field_type = 'date' AND (v_value #>> '{}') !~ '^\d{4}-\d{2}-\d{2}$')
+      OR (v_field.field_type = 'select' AND NOT ((v_value #>> '{}') = ANY (v_field.options))) THEN
+      RAISE EXCEPTION 'Invalid value for %', v_field.label USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_issue_custom_fields
+  BEFORE INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_custom_fields();
+
+CREATE INDEX idx_issues_custom_fields ON public.issues USING gin ((metadata -> 'custom_fields'));
+
+-- Starter fields matching the structured data already collected in seeded issues
+INSERT INTO public.category_fields (category_id, field_key, label, field_type, options, required, help_text, sort_order)
+SELECT c.id, f.field_key, f.label, f.field_type, f.options, f.required, f.help_text, f.sort_order
+FROM public.issue_categories c
+JOIN (VALUES
+  ('Workplace Harassment', 'frequency', 'How often does this happen?', 'select', ARRAY['once', 'weekly', 'daily', 'ongoing'], true, NULL, 1),
+  ('Workplace Harassment', 'witnesses', 'Were there witnesses?', 'boolean', '{}'::text[], false, NULL, 2),
+  ('Workplace Harassment', 'witness_count', 'Number of witnesses', 'number', '{}'::text[], false, 'Leave empty if unsure', 3),
+  ('Safety Concerns', 'room_number', 'Room number', 'text', '{}'::text[], false, 'For example B-205', 1),
+  ('Safety Concerns', 'date_observed', 'Date observed', 'date', '{}'::text[], true, NULL, 2),
+  ('Workplace Environment', 'room_number', 'Room number', 'text', '{}'::text[], false, 'For example B-205', 1),
+  ('Workplace Environment', 'affected_capacity', 'People affected', 'number', '{}'::text[], false, NULL, 2)
+) AS f(category_name, field_key, label, field_type, options, required, help_text, sort_order)
+  ON f.category_name = c.name;
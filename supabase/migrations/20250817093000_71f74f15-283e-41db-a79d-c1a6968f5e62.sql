@@ -0,0 +1,265 @@
+-- Routing rules: conditions on new issues and the actions to take when they match.
+-- Empty condition arrays and NULL patterns match anything.
+CREATE TABLE public.routing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Lower runs first; later rules see the changes made by earlier ones
+  priority INTEGER NOT NULL DEFAULT 100,
+  stop_processing BOOLEAN NOT NULL DEFAULT false,
+
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  department_ids UUID[] NOT NULL DEFAULT '{}',
+  severities TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (severities <@ ARRAY['low', 'medium', 'high', 'critical']),
+  location_pattern TEXT,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+
+  assign_to UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  set_department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  raise_severity_to TEXT CHECK (raise_severity_to IN ('medium', 'high', 'critical')),
+  watcher_ids UUID[] NOT NULL DEFAULT '{}',
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    assign_to IS NOT NULL
+    OR set_department_id IS NOT NULL
+    OR raise_severity_to IS NOT NULL
+    OR cardinality(watcher_ids) > 0
+  )
+);
+
+CREATE INDEX idx_routing_rules_priority ON public.routing_rules(priority, created_at) WHERE enabled;
+
+ALTER TABLE public.routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Administrators can manage routing rules" ON public.routing_rules
+  FOR ALL
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+
+CREATE TRIGGER update_routing_rules_updated_at
+  BEFORE UPDATE ON public.routing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Staff following an issue without being its assignee
+CREATE TABLE public.issue_watchers (
+  issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  routing_rule_id UUID REFERENCES public.routing_rules(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (issue_id, user_id)
+);
+
+CREATE INDEX idx_issue_watchers_user_id ON public.issue_watchers(user_id);
+
+ALTER TABLE public.issue_watchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view watchers of permitted issues" ON public.issue_watchers
+  FOR SELECT USING (public.can_view_issue(issue_id));
+-- Only other case handlers can be added, since watching grants access to the issue
+CREATE POLICY "Case handlers can add watchers" ON public.issue_watchers
+  FOR INSERT WITH CHECK (
+    public.has_permission('triage')
+    AND public.can_view_issue(issue_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.profiles p
+      JOIN public.role_permissions rp ON rp.role = p.role
+      WHERE p.user_id = issue_watchers.user_id
+      AND rp.permission = 'triage'
+    )
+  );
+CREATE POLICY "Case handlers and watchers can remove watchers" ON public.issue_watchers
+  FOR DELETE USING (
+    user_id = auth.uid()
+    OR (public.has_permission('triage') AND public.can_view_issue(issue_id))
+  );
+
+-- Watchers can see the issues they follow; issue, update and message policies all go through this
+CREATE OR REPLACE FUNCTION public.can_view_issue(p_issue_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.id = p_issue_id
+    AND (
+      public.has_permission('view_all')
+      OR (
+        public.has_permission('view_own')
+        AND (
+          auth.uid() IN (i.reporter_id, i.assigned_to)
+          OR EXISTS (
+            SELECT 1 FROM public.issue_watchers w
+            WHERE w.issue_id = i.id AND w.user_id = auth.uid()
+          )
+        )
+      )
+      OR (
+        public.has_permission('view_department')
+        AND i.department_id IS NOT NULL
+        AND i.department_id = public.current_user_department_id()
+      )
+    )
+  );
+$$;
+
+ALTER TABLE public.issue_updates DROP CONSTRAINT IF EXISTS issue_updates_update_type_check;
+ALTER TABLE public.issue_updates ADD CONSTRAINT issue_updates_update_type_check
+  CHECK (update_type IN ('status_change', 'comment', 'assignment', 'resolution', 'routing'));
+
+-- Changes made by other triggers (routing) were authorized by their own rules
+CREATE OR REPLACE FUNCTION public.enforce_issue_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to AND NOT public.has_permission('assign') THEN
+    RAISE EXCEPTION 'You do not have permission to assign issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('resolved', 'closed') AND NOT public.has_permission('resolve') THEN
+      RAISE EXCEPTION 'You do not have permission to resolve or close issues' USING ERRCODE = '42501';
+    ELSIF NEW.status NOT IN ('resolved', 'closed') AND NOT public.has_permission('triage') THEN
+      RAISE EXCEPTION 'You do not have permission to triage issues' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.severity_rank(p_severity TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE p_severity
+    WHEN 'low' THEN 1
+    WHEN 'medium' THEN 2
+    WHEN 'high' THEN 3
+    WHEN 'critical' THEN 4
+  END;
+$$;
+
+-- Evaluates enabled rules in priority order against a newly reported issue,
+-- applies their actions and logs one internal 'routing' update per applied rule.
+CREATE OR REPLACE FUNCTION public.apply_routing_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_assigned_to UUID := NEW.assigned_to;
+  v_department_id UUID := NEW.department_id;
+  v_severity TEXT := NEW.severity;
+  v_text TEXT := lower(NEW.title || ' ' || NEW.description);
+  v_actions TEXT[];
+  v_name TEXT;
+  v_watcher UUID;
+BEGIN
+  FOR v_rule IN
+    SELECT *
+    FROM public.routing_rules
+    WHERE enabled
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN cardinality(v_rule.category_ids) > 0
+      AND (NEW.category_id IS NULL OR NOT NEW.category_id = ANY (v_rule.category_ids));
+    CONTINUE WHEN cardinality(v_rule.department_ids) > 0
+      AND (v_department_id IS NULL OR NOT v_department_id = ANY (v_rule.department_ids));
+    CONTINUE WHEN cardinality(v_rule.severities) > 0
+      AND NOT v_severity = ANY (v_rule.severities);
+    CONTINUE WHEN NULLIF(btrim(v_rule.location_pattern), '') IS NOT NULL
+      AND COALESCE(NEW.location, '') NOT ILIKE '%' || btrim(v_rule.location_pattern) || '%';
+    CONTINUE WHEN cardinality(v_rule.keywords) > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest(v_rule.keywords) k
+        WHERE v_text LIKE '%' || lower(btrim(k)) || '%'
+      );
+
+    v_actions := '{}';
+
+    IF v_rule.assign_to IS NOT NULL AND v_rule.assign_to IS DISTINCT FROM v_assigned_to THEN
+      v_assigned_to := v_rule.assign_to;
+      SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+      FROM public.profiles WHERE user_id = v_rule.assign_to;
+      v_actions := v_actions || format('assigned to %s', v_name);
+    END IF;
+
+    IF v_rule.set_department_id IS NOT NULL AND v_rule.set_department_id IS DISTINCT FROM v_department_id THEN
+      v_department_id := v_rule.set_department_id;
+      SELECT name INTO v_name FROM public.departments WHERE id = v_rule.set_department_id;
+      v_actions := v_actions || format('routed to the %s queue', v_name);
+    END IF;
+
+    IF v_rule.raise_severity_to IS NOT NULL
+      AND public.severity_rank(v_rule.raise_severity_to) > public.severity_rank(v_severity) THEN
+      v_actions := v_actions || format('severity raised from %s to %s', v_severity, v_rule.raise_severity_to);
+      v_severity := v_rule.raise_severity_to;
+    END IF;
+
+    FOREACH v_watcher IN ARRAY v_rule.watcher_ids LOOP
+      INSERT INTO public.issue_watchers (issue_id, user_id, routing_rule_id)
+      SELECT NEW.id, p.user_id, v_rule.id
+      FROM public.profiles p
+      WHERE p.user_id = v_watcher
+      ON CONFLICT (issue_id, user_id) DO NOTHING;
+
+      IF FOUND THEN
+        SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+        FROM public.profiles WHERE user_id = v_watcher;
+        v_actions := v_actions || format('%s added as watcher', v_name);
+      END IF;
+    END LOOP;
+
+    IF cardinality(v_actions) > 0 THEN
+      INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public)
+      VALUES (
+        NEW.id,
+        'routing',
+        format('Rule "%s": %s', v_rule.name, array_to_string(v_actions, '; ')),
+        NULL,
+        false
+      );
+    END IF;
+
+    EXIT WHEN v_rule.stop_processing;
+  END LOOP;
+
+  IF v_assigned_to IS DISTINCT FROM NEW.assigned_to
+    OR v_department_id IS DISTINCT FROM NEW.department_id
+    OR v_severity IS DISTINCT FROM NEW.severity THEN
+    UPDATE public.issues
+    SET assigned_to = v_assigned_to,
+        department_id = v_department_id,
+        severity = v_severity
+    WHERE id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_routing_rules
+  AFTER INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_routing_rules();
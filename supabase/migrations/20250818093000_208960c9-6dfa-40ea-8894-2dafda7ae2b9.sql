@@ -0,0 +1,536 @@
+-- People a reporter has named as having a conflict of interest with their report.
+-- submit_issue writes these before the issue row so routing already sees them,
+-- hence the deferred foreign key.
+CREATE TABLE public.issue_exclusions (
+  issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (issue_id, user_id)
+);
+
+ALTER TABLE public.issue_exclusions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters and case handlers can view exclusions" ON public.issue_exclusions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.issues i
+      WHERE i.id = issue_exclusions.issue_id AND i.reporter_id = auth.uid()
+    )
+    OR (public.has_permission('triage') AND public.can_view_issue(issue_id))
+  );
+
+-- An administrator's decision to let a conflicted person handle the case anyway
+CREATE TABLE public.issue_exclusion_overrides (
+  issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  overridden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (issue_id, user_id)
+);
+
+ALTER TABLE public.issue_exclusion_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case handlers can view exclusion overrides" ON public.issue_exclusion_overrides
+  FOR SELECT USING (public.has_permission('triage') AND public.can_view_issue(issue_id));
+CREATE POLICY "Administrators can override exclusions" ON public.issue_exclusion_overrides
+  FOR INSERT WITH CHECK (
+    public.has_permission('administer')
+    AND public.can_view_issue(issue_id)
+    AND overridden_by = auth.uid()
+  );
+
+CREATE INDEX idx_profiles_manager_id ON public.profiles(manager_id);
+
+-- Everyone conflicted on an issue: the named people, their managers up the
+-- chain and everyone reporting to them directly or indirectly.
+-- UNION (not UNION ALL) keeps a manager_id cycle from recursing forever.
+CREATE OR REPLACE FUNCTION public.issue_conflict_user_ids(p_issue_id UUID)
+RETURNS TABLE (user_id UUID, relation TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH RECURSIVE named AS (
+    SELECT e.user_id FROM public.issue_exclusions e WHERE e.issue_id = p_issue_id
+  ),
+  managers AS (
+    SELECT p.manager_id AS user_id
+    FROM public.profiles p
+    JOIN named n ON n.user_id = p.user_id
+    WHERE p.manager_id IS NOT NULL
+    UNION
+    SELECT p.manager_id
+    FROM public.profiles p
+    JOIN managers m ON m.user_id = p.user_id
+    WHERE p.manager_id IS NOT NULL
+  ),
+  reports AS (
+    SELECT p.user_id
+    FROM public.profiles p
+    JOIN named n ON n.user_id = p.manager_id
+    UNION
+    SELECT p.user_id
+    FROM public.profiles p
+    JOIN reports r ON r.user_id = p.manager_id
+  )
+  SELECT DISTINCT ON (c.user_id) c.user_id, c.relation
+  FROM (
+    SELECT n.user_id, 'named' AS relation, 1 AS rank FROM named n
+    UNION ALL
+    SELECT m.user_id, 'manager', 2 FROM managers m
+    UNION ALL
+    SELECT r.user_id, 'report', 3 FROM reports r
+  ) c
+  ORDER BY c.user_id, c.rank;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_issue_conflict(p_issue_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.issue_exclusions WHERE issue_id = p_issue_id)
+    AND EXISTS (
+      SELECT 1 FROM public.issue_conflict_user_ids(p_issue_id) c
+      WHERE c.user_id = p_user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.issue_exclusion_overrides o
+      WHERE o.issue_id = p_issue_id AND o.user_id = p_user_id
+    );
+$$;
+
+-- Only reachable through the definer functions below; the raw chain is not for clients
+REVOKE EXECUTE ON FUNCTION public.issue_conflict_user_ids(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_issue_conflict(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Conflicted people never see the issue, whatever their role; the reporter
+-- always keeps access even when they report to the person they named.
+CREATE OR REPLACE FUNCTION public.can_view_issue(p_issue_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.id = p_issue_id
+    AND (
+      public.has_permission('view_all')
+      OR (
+        public.has_permission('view_own')
+        AND (
+          auth.uid() IN (i.reporter_id, i.assigned_to)
+          OR EXISTS (
+            SELECT 1 FROM public.issue_watchers w
+            WHERE w.issue_id = i.id AND w.user_id = auth.uid()
+          )
+        )
+      )
+      OR (
+        public.has_permission('view_department')
+        AND i.department_id IS NOT NULL
+        AND i.department_id = public.current_user_department_id()
+      )
+    )
+    AND (
+      auth.uid() IS NOT DISTINCT FROM i.reporter_id
+      OR NOT public.has_issue_conflict(i.id, auth.uid())
+    )
+  );
+$$;
+
+-- Conflicted staff on an issue with their relation to the named people, for
+-- case handlers choosing an assignee
+CREATE OR REPLACE FUNCTION public.get_issue_conflicts(p_issue_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  relation TEXT,
+  overridden BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    c.user_id,
+    COALESCE(NULLIF(p.display_name, ''), NULLIF(btrim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email),
+    c.relation,
+    o.user_id IS NOT NULL
+  FROM public.issue_conflict_user_ids(p_issue_id) c
+  JOIN public.profiles p ON p.user_id = c.user_id
+  LEFT JOIN public.issue_exclusion_overrides o ON o.issue_id = p_issue_id AND o.user_id = c.user_id
+  WHERE public.has_permission('triage')
+  AND public.can_view_issue(p_issue_id)
+  ORDER BY c.relation = 'named' DESC, 2;
+$$;
+
+-- People a signed-in reporter can name; only what is needed to recognise them
+CREATE OR REPLACE FUNCTION public.search_exclusion_candidates(p_query TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  job_title TEXT,
+  department_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    p.user_id,
+    COALESCE(NULLIF(p.display_name, ''), NULLIF(btrim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email),
+    p.job_title,
+    d.name
+  FROM public.profiles p
+  LEFT JOIN public.departments d ON d.id = p.department_id
+  WHERE auth.uid() IS NOT NULL
+  AND p.user_id <> auth.uid()
+  AND char_length(btrim(p_query)) >= 2
+  AND (
+    p.display_name ILIKE '%' || btrim(p_query) || '%'
+    OR concat_ws(' ', p.first_name, p.last_name) ILIKE '%' || btrim(p_query) || '%'
+    OR p.email ILIKE btrim(p_query) || '%'
+  )
+  ORDER BY 2
+  LIMIT 10;
+$$;
+
+-- Backstop for direct updates; assign_issue reports conflicts with a clearer message
+CREATE OR REPLACE FUNCTION public.prevent_conflicted_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    AND public.has_issue_conflict(NEW.id, NEW.assigned_to) THEN
+    RAISE EXCEPTION 'The assignee has a conflict of interest with this issue' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_conflicted_assignment
+  BEFORE UPDATE OF assigned_to ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_conflicted_assignment();
+
+CREATE OR REPLACE FUNCTION public.prevent_conflicted_watchers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF public.has_issue_conflict(NEW.issue_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'This person has a conflict of interest with the issue' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_conflicted_watchers
+  BEFORE INSERT ON public.issue_watchers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_conflicted_watchers();
+
+ALTER TABLE public.issue_updates DROP CONSTRAINT IF EXISTS issue_updates_update_type_check;
+ALTER TABLE public.issue_updates ADD CONSTRAINT issue_updates_update_type_check
+  CHECK (update_type IN ('status_change', 'comment', 'assignment', 'resolution', 'routing', 'conflict_override'));
+
+-- Routing skips conflicted assignees and watchers and says so in its log entry
+CREATE OR REPLACE FUNCTION public.apply_routing_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_assigned_to UUID := NEW.assigned_to;
+  v_department_id UUID := NEW.department_id;
+  v_severity TEXT := NEW.severity;
+  v_text TEXT := lower(NEW.title || ' ' || NEW.description);
+  v_actions TEXT[];
+  v_name TEXT;
+  v_watcher UUID;
+BEGIN
+  FOR v_rule IN
+    SELECT *
+    FROM public.routing_rules
+    WHERE enabled
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN cardinality(v_rule.category_ids) > 0
+      AND (NEW.category_id IS NULL OR NOT NEW.category_id = ANY (v_rule.category_ids));
+    CONTINUE WHEN cardinality(v_rule.department_ids) > 0
+      AND (v_department_id IS NULL OR NOT v_department_id = ANY (v_rule.department_ids));
+    CONTINUE WHEN cardinality(v_rule.severities) > 0
+      AND NOT v_severity = ANY (v_rule.severities);
+    CONTINUE WHEN NULLIF(btrim(v_rule.location_pattern), '') IS NOT NULL
+      AND COALESCE(NEW.location, '') NOT ILIKE '%' || btrim(v_rule.location_pattern) || '%';
+    CONTINUE WHEN cardinality(v_rule.keywords) > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest(v_rule.keywords) k
+        WHERE v_text LIKE '%' || lower(btrim(k)) || '%'
+      );
+
+    v_actions := '{}';
+
+    IF v_rule.assign_to IS NOT NULL AND v_rule.assign_to IS DISTINCT FROM v_assigned_to THEN
+      SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+      FROM public.profiles WHERE user_id = v_rule.assign_to;
+
+      IF public.has_issue_conflict(NEW.id, v_rule.assign_to) THEN
+        v_actions := v_actions || format('assignment to %s skipped (conflict of interest)', v_name);
+      ELSE
+        v_assigned_to := v_rule.assign_to;
+        v_actions := v_actions || format('assigned to %s', v_name);
+      END IF;
+    END IF;
+
+    IF v_rule.set_department_id IS NOT NULL AND v_rule.set_department_id IS DISTINCT FROM v_department_id THEN
+      v_department_id := v_rule.set_department_id;
+      SELECT name INTO v_name FROM public.departments WHERE id = v_rule.set_department_id;
+      v_actions := v_actions || format('routed to the %s queue', v_name);
+    END IF;
+
+    IF v_rule.raise_severity_to IS NOT NULL
+      AND public.severity_rank(v_rule.raise_severity_to) > public.severity_rank(v_severity) THEN
+      v_actions := v_actions || format('severity raised from %s to %s', v_severity, v_rule.raise_severity_to);
+      v_severity := v_rule.raise_severity_to;
+    END IF;
+
+    FOREACH v_watcher IN ARRAY v_rule.watcher_ids LOOP
+      SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+      FROM public.profiles WHERE user_id = v_watcher;
+      CONTINUE WHEN NOT FOUND;
+
+      IF public.has_issue_conflict(NEW.id, v_watcher) THEN
+        v_actions := v_actions || format('%s not added as watcher (conflict of interest)', v_name);
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.issue_watchers (issue_id, user_id, routing_rule_id)
+      VALUES (NEW.id, v_watcher, v_rule.id)
+      ON CONFLICT (issue_id, user_id) DO NOTHING;
+
+      IF FOUND THEN
+        v_actions := v_actions || format('%s added as watcher', v_name);
+      END IF;
+    END LOOP;
+
+    IF cardinality(v_actions) > 0 THEN
+      INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public)
+      VALUES (
+        NEW.id,
+        'routing',
+        format('Rule "%s": %s', v_rule.name, array_to_string(v_actions, '; ')),
+        NULL,
+        false
+      );
+    END IF;
+
+    EXIT WHEN v_rule.stop_processing;
+  END LOOP;
+
+  IF v_assigned_to IS DISTINCT FROM NEW.assigned_to
+    OR v_department_id IS DISTINCT FROM NEW.department_id
+    OR v_severity IS DISTINCT FROM NEW.severity THEN
+    UPDATE public.issues
+    SET assigned_to = v_assigned_to,
+        department_id = v_department_id,
+        severity = v_severity
+    WHERE id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- submit_issue gains the list of excluded people, so the old signature is replaced
+DROP FUNCTION IF EXISTS public.submit_issue(TEXT, TEXT, TEXT, UUID, UUID, TEXT, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.submit_issue(
+  p_title TEXT,
+  p_description TEXT,
+  p_severity TEXT,
+  p_category_id UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_anonymous BOOLEAN DEFAULT true,
+  p_excluded_user_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := gen_random_uuid();
+  v_token TEXT;
+  v_salt TEXT := encode(extensions.gen_random_bytes(16), 'hex');
+  v_token_days INTEGER;
+BEGIN
+  IF cardinality(p_excluded_user_ids) > 20 THEN
+    RAISE EXCEPTION 'At most 20 people can be excluded from a report' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT tracking_token_days INTO v_token_days FROM public.organization_settings WHERE id;
+
+  -- 32 random bytes as unpadded base64url
+  v_token := rtrim(translate(encode(extensions.gen_random_bytes(32), 'base64'), E'+/\n', '-_'), '=');
+
+  -- Before the issue itself, so routing rules already respect the exclusions
+  INSERT INTO public.issue_exclusions (issue_id, user_id)
+  SELECT DISTINCT v_issue_id, p.user_id
+  FROM public.profiles p
+  WHERE p.user_id = ANY (COALESCE(p_excluded_user_ids, '{}'))
+  AND p.user_id IS DISTINCT FROM auth.uid();
+
+  INSERT INTO public.issues (
+    id,
+    title,
+    description,
+    severity,
+    category_id,
+    department_id,
+    location,
+    metadata,
+    reporter_id
+  ) VALUES (
+    v_issue_id,
+    p_title,
+    p_description,
+    p_severity,
+    p_category_id,
+    p_department_id,
+    NULLIF(btrim(p_location), ''),
+    COALESCE(p_metadata, '{}'),
+    CASE WHEN p_anonymous THEN NULL ELSE auth.uid() END
+  );
+
+  INSERT INTO public.anonymous_tokens (issue_id, token_selector, token_salt, token_hash, expires_at)
+  VALUES (
+    v_issue_id,
+    left(v_token, 12),
+    v_salt,
+    encode(extensions.digest(v_salt || v_token, 'sha256'), 'hex'),
+    now() + make_interval(days => COALESCE(v_token_days, 90))
+  );
+
+  RETURN jsonb_build_object('issue_id', v_issue_id, 'token', v_token);
+END;
+$$;
+
+-- assign_issue can now override a conflict of interest; administrators only,
+-- with a reason that is kept with the override and on the timeline
+DROP FUNCTION IF EXISTS public.assign_issue(UUID, UUID, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.assign_issue(
+  p_issue_id UUID,
+  p_assignee_id UUID,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT false,
+  p_override_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old_assignee UUID;
+  v_assignee_name TEXT;
+  v_update_id UUID;
+  v_override_reason TEXT := NULLIF(btrim(p_override_reason), '');
+BEGIN
+  SELECT assigned_to INTO v_old_assignee
+  FROM public.issues
+  WHERE id = p_issue_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_old_assignee IS NOT DISTINCT FROM p_assignee_id THEN
+    RAISE EXCEPTION 'Issue already has this assignee' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_assignee_id IS NOT NULL THEN
+    SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_assignee_name
+    FROM public.profiles
+    WHERE user_id = p_assignee_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignee % has no profile', p_assignee_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.get_issue_conflicts(p_issue_id) c
+      WHERE c.user_id = p_assignee_id AND NOT c.overridden
+    ) THEN
+      IF v_override_reason IS NULL THEN
+        RAISE EXCEPTION '% has a conflict of interest with this issue', v_assignee_name USING ERRCODE = '42501';
+      ELSIF NOT public.has_permission('administer') THEN
+        RAISE EXCEPTION 'Only administrators can override a conflict of interest' USING ERRCODE = '42501';
+      END IF;
+
+      INSERT INTO public.issue_exclusion_overrides (issue_id, user_id, reason, overridden_by)
+      VALUES (p_issue_id, p_assignee_id, v_override_reason, auth.uid());
+
+      INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public)
+      VALUES (
+        p_issue_id,
+        'conflict_override',
+        format('Conflict of interest overridden for %s: %s', v_assignee_name, v_override_reason),
+        auth.uid(),
+        false
+      );
+    END IF;
+  END IF;
+
+  UPDATE public.issues
+  SET assigned_to = p_assignee_id
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update issue %', p_issue_id USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.issue_updates (
+    issue_id,
+    update_type,
+    content,
+    created_by,
+    is_public
+  ) VALUES (
+    p_issue_id,
+    'assignment',
+    COALESCE(
+      NULLIF(btrim(p_note), ''),
+      CASE WHEN p_assignee_id IS NULL THEN 'Assignment removed' ELSE format('Assigned to %s', v_assignee_name) END
+    ),
+    auth.uid(),
+    p_is_public
+  )
+  RETURNING id INTO v_update_id;
+
+  RETURN v_update_id;
+END;
+$$;
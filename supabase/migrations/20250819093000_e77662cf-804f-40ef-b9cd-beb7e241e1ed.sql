@@ -0,0 +1,402 @@
+-- Append-only record of who read or changed a case. Each event carries the
+-- hash of the one before it, so editing or removing an event breaks the chain
+-- from that point on; verify_audit_chain() walks it.
+CREATE TABLE public.audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- NULL for anonymous reporters and automated changes
+  actor_id UUID,
+  actor_role TEXT,
+  action TEXT NOT NULL CHECK (length(action) > 0),
+  target_type TEXT NOT NULL,
+  target_id UUID,
+  details JSONB NOT NULL DEFAULT '{}',
+  client_info JSONB,
+  prev_hash TEXT,
+  hash TEXT NOT NULL
+);
+
+CREATE INDEX idx_audit_events_occurred_at ON public.audit_events(occurred_at DESC);
+CREATE INDEX idx_audit_events_target_id ON public.audit_events(target_id);
+CREATE INDEX idx_audit_events_actor_id ON public.audit_events(actor_id);
+CREATE INDEX idx_audit_events_action ON public.audit_events(action);
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Writes only happen through record_audit_event, so there are no write policies
+CREATE POLICY "Administrators can view audit events" ON public.audit_events
+  FOR SELECT USING (public.has_permission('administer'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_events FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit events are append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_event_changes
+  BEFORE UPDATE OR DELETE ON public.audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_event_changes();
+
+CREATE TRIGGER prevent_audit_event_truncate
+  BEFORE TRUNCATE ON public.audit_events
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_audit_event_changes();
+
+-- jsonb text output is canonical, so the same event always hashes the same way
+CREATE OR REPLACE FUNCTION public.audit_event_hash(p_event public.audit_events)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT encode(extensions.digest(
+    COALESCE(p_event.prev_hash, '') || jsonb_build_object(
+      'id', p_event.id,
+      'occurred_at', to_char(p_event.occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+      'actor_id', p_event.actor_id,
+      'actor_role', p_event.actor_role,
+      'action', p_event.action,
+      'target_type', p_event.target_type,
+      'target_id', p_event.target_id,
+      'details', p_event.details,
+      'client_info', p_event.client_info
+    )::text,
+    'sha256'
+  ), 'hex');
+$$;
+
+-- Marks the rest of the transaction as done on behalf of an anonymous
+-- reporter: events then carry no actor and no client information.
+CREATE OR REPLACE FUNCTION public.audit_as_anonymous()
+RETURNS VOID
+LANGUAGE sql
+SET search_path = ''
+AS $$
+  SELECT set_config('candor.audit_anonymous', 'on', true);
+$$;
+
+-- Appends one event. The advisory lock serialises writers so ids, timestamps
+-- and the chain all advance in the same order.
+CREATE OR REPLACE FUNCTION public.record_audit_event(
+  p_action TEXT,
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_details JSONB DEFAULT '{}'
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_event public.audit_events;
+  v_anonymous BOOLEAN := COALESCE(current_setting('candor.audit_anonymous', true), '') = 'on';
+  v_headers JSONB;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('public.audit_events'));
+
+  IF NOT v_anonymous THEN
+    v_event.actor_id := auth.uid();
+    SELECT role INTO v_event.actor_role FROM public.profiles WHERE user_id = v_event.actor_id;
+
+    v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+    IF v_headers IS NOT NULL THEN
+      v_event.client_info := jsonb_strip_nulls(jsonb_build_object(
+        'ip', btrim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)),
+        'user_agent', v_headers ->> 'user-agent'
+      ));
+    END IF;
+  END IF;
+
+  v_event.id := nextval(pg_get_serial_sequence('public.audit_events', 'id'));
+  v_event.occurred_at := clock_timestamp();
+  v_event.action := p_action;
+  v_event.target_type := p_target_type;
+  v_event.target_id := p_target_id;
+  v_event.details := COALESCE(p_details, '{}');
+
+  SELECT hash INTO v_event.prev_hash
+  FROM public.audit_events
+  ORDER BY id DESC
+  LIMIT 1;
+
+  v_event.hash := public.audit_event_hash(v_event);
+
+  INSERT INTO public.audit_events VALUES (v_event.*);
+
+  RETURN v_event.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_audit_event(TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.audit_as_anonymous() FROM PUBLIC, anon, authenticated;
+
+-- Recomputes every hash in order and reports the first event that does not fit.
+-- Removing the newest events cannot be detected from the chain alone, so the
+-- result includes the latest hash for administrators to record elsewhere.
+CREATE OR REPLACE FUNCTION public.verify_audit_chain()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_event public.audit_events;
+  v_prev_hash TEXT;
+  v_last_id BIGINT;
+  v_checked BIGINT := 0;
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Only administrators can verify the audit log' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_event IN SELECT * FROM public.audit_events ORDER BY id LOOP
+    IF v_event.prev_hash IS DISTINCT FROM v_prev_hash THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'checked', v_checked,
+        'broken_at', v_event.id,
+        'reason', 'The event does not follow the one before it; an event was removed or reordered'
+      );
+    END IF;
+
+    IF v_event.hash IS DISTINCT FROM public.audit_event_hash(v_event) THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'checked', v_checked,
+        'broken_at', v_event.id,
+        'reason', 'The event no longer matches its hash; it was modified'
+      );
+    END IF;
+
+    v_prev_hash := v_event.hash;
+    v_last_id := v_event.id;
+    v_checked := v_checked + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'checked', v_checked,
+    'last_id', v_last_id,
+    'last_hash', v_prev_hash
+  );
+END;
+$$;
+
+-- Reads of full case details, reported by the client when an issue is opened
+CREATE OR REPLACE FUNCTION public.record_issue_view(p_issue_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.can_view_issue(p_issue_id) THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.record_audit_event('issue.view', 'issue', p_issue_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_issue_export(p_issue_ids UUID[], p_format TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+BEGIN
+  FOREACH v_issue_id IN ARRAY COALESCE(p_issue_ids, '{}') LOOP
+    IF NOT public.can_view_issue(v_issue_id) THEN
+      RAISE EXCEPTION 'Issue % not found', v_issue_id USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM public.record_audit_event('issue.export', 'issue', v_issue_id, jsonb_build_object('format', p_format));
+  END LOOP;
+END;
+$$;
+
+-- Logged before the row is written so the creation precedes anything routing
+-- does to the new issue; a failed insert rolls the event back with it.
+-- Anonymous submissions must not tie the reporter's account to the issue.
+CREATE OR REPLACE FUNCTION public.audit_issue_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.reporter_id IS NULL THEN
+    PERFORM public.audit_as_anonymous();
+  END IF;
+
+  PERFORM public.record_audit_event('issue.create', 'issue', NEW.id, jsonb_build_object(
+    'severity', NEW.severity,
+    'category_id', NEW.category_id,
+    'department_id', NEW.department_id,
+    'anonymous', NEW.reporter_id IS NULL
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_issue_submission
+  BEFORE INSERT ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_submission();
+
+CREATE OR REPLACE FUNCTION public.audit_issue_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_changes JSONB := '{}';
+  v_column TEXT;
+  v_action TEXT := 'issue.update';
+BEGIN
+  -- Only case-relevant columns; bookkeeping such as first_response_at is left out
+  FOREACH v_column IN ARRAY ARRAY[
+    'title', 'description', 'severity', 'status', 'category_id', 'department_id',
+    'location', 'assigned_to', 'attachments', 'metadata'
+  ] LOOP
+    IF to_jsonb(NEW) -> v_column IS DISTINCT FROM to_jsonb(OLD) -> v_column THEN
+      v_changes := v_changes || jsonb_build_object(v_column, jsonb_build_object(
+        'from', CASE WHEN v_column IN ('description', 'attachments', 'metadata') THEN NULL ELSE to_jsonb(OLD) -> v_column END,
+        'to', CASE WHEN v_column IN ('description', 'attachments', 'metadata') THEN NULL ELSE to_jsonb(NEW) -> v_column END
+      ));
+    END IF;
+  END LOOP;
+
+  IF v_changes = '{}' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_changes ? 'assigned_to' THEN
+    v_action := 'issue.assign';
+  ELSIF v_changes ? 'status' THEN
+    v_action := 'issue.status_change';
+  END IF;
+
+  PERFORM public.record_audit_event(v_action, 'issue', NEW.id, jsonb_build_object(
+    'changes', v_changes,
+    'automated', pg_trigger_depth() > 1
+  ));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_issue_changes
+  AFTER UPDATE ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_changes();
+
+CREATE OR REPLACE FUNCTION public.audit_issue_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'issue_updates' THEN
+      PERFORM public.record_audit_event('update.create', 'issue', NEW.issue_id, jsonb_build_object(
+        'update_id', NEW.id,
+        'update_type', NEW.update_type,
+        'is_public', NEW.is_public,
+        'automated', NEW.created_by IS NULL
+      ));
+    WHEN 'issue_messages' THEN
+      PERFORM public.record_audit_event('message.create', 'issue', NEW.issue_id, jsonb_build_object(
+        'message_id', NEW.id,
+        'sender_type', NEW.sender_type
+      ));
+    WHEN 'issue_exclusion_overrides' THEN
+      PERFORM public.record_audit_event('exclusion.override', 'issue', NEW.issue_id, jsonb_build_object(
+        'user_id', NEW.user_id,
+        'reason', NEW.reason
+      ));
+    WHEN 'issue_watchers' THEN
+      IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_audit_event('watcher.remove', 'issue', OLD.issue_id, jsonb_build_object('user_id', OLD.user_id));
+        RETURN NULL;
+      END IF;
+      PERFORM public.record_audit_event('watcher.add', 'issue', NEW.issue_id, jsonb_build_object(
+        'user_id', NEW.user_id,
+        'routing_rule_id', NEW.routing_rule_id
+      ));
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_issue_activity
+  AFTER INSERT ON public.issue_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_activity();
+
+CREATE TRIGGER audit_issue_activity
+  AFTER INSERT ON public.issue_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_activity();
+
+CREATE TRIGGER audit_issue_activity
+  AFTER INSERT ON public.issue_exclusion_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_activity();
+
+CREATE TRIGGER audit_issue_activity
+  AFTER INSERT OR DELETE ON public.issue_watchers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_activity();
+
+-- Token lookups are logged, successful or not, but always anonymously: a
+-- reporter's IP address or account must never be linked to their report.
+-- Every token RPC goes through here, so the functions that call it now write.
+CREATE OR REPLACE FUNCTION public.resolve_tracking_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_token public.anonymous_tokens;
+  v_issue_id UUID;
+BEGIN
+  PERFORM public.audit_as_anonymous();
+
+  IF p_token IS NOT NULL AND char_length(p_token) >= 16 THEN
+    SELECT * INTO v_token
+    FROM public.anonymous_tokens
+    WHERE token_selector = left(p_token, 12);
+
+    IF FOUND
+      AND v_token.token_hash = encode(extensions.digest(v_token.token_salt || p_token, 'sha256'), 'hex') THEN
+      v_issue_id := v_token.issue_id;
+    END IF;
+  END IF;
+
+  PERFORM public.record_audit_event('token.lookup', 'issue', v_issue_id, jsonb_build_object('found', v_issue_id IS NOT NULL));
+
+  RETURN v_issue_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_tracking_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+ALTER FUNCTION public.track_issue_by_token(TEXT) VOLATILE;
+ALTER FUNCTION public.get_reporter_messages(TEXT) VOLATILE;
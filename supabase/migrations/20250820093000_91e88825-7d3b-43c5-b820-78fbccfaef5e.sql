@@ -0,0 +1,27 @@
+-- Server-side paging, filtering and sorting for the issue list.
+
+-- Severity sorts by rank rather than alphabetically
+ALTER TABLE public.issues
+  ADD COLUMN severity_order SMALLINT GENERATED ALWAYS AS (public.severity_rank(severity)) STORED;
+
+-- One index per list filter and sort key; created_at is already indexed for analytics
+CREATE INDEX idx_issues_status ON public.issues (status);
+CREATE INDEX idx_issues_severity_order ON public.issues (severity_order, created_at);
+CREATE INDEX idx_issues_category_id ON public.issues (category_id);
+CREATE INDEX idx_issues_department_id ON public.issues (department_id);
+CREATE INDEX idx_issues_assigned_to ON public.issues (assigned_to);
+CREATE INDEX idx_issues_updated_at ON public.issues (updated_at);
+
+-- Per-status counts for the dashboard overview, so it no longer needs every
+-- issue on the client. SECURITY INVOKER, so callers only count what RLS shows them.
+CREATE OR REPLACE FUNCTION public.get_issue_status_counts()
+RETURNS TABLE(status TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT i.status, count(*)
+  FROM public.issues i
+  GROUP BY i.status;
+$$;
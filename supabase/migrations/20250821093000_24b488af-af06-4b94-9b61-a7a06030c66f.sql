@@ -0,0 +1,133 @@
+-- Full-text search over issues. Each issue's document combines its title,
+-- description, location, metadata values and the content of its public
+-- updates; internal notes are never indexed. Kept outside the issues table so
+-- reindexing does not touch updated_at or the audit trail.
+CREATE TABLE public.issue_search_index (
+  issue_id UUID NOT NULL PRIMARY KEY REFERENCES public.issues(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_issue_search_index_document ON public.issue_search_index USING gin (document);
+
+ALTER TABLE public.issue_search_index ENABLE ROW LEVEL SECURITY;
+
+-- Readable so the issue list can filter on it; written only by the triggers below
+CREATE POLICY "Users can view the index of issues they can view" ON public.issue_search_index
+  FOR SELECT USING (public.can_view_issue(issue_id));
+
+CREATE OR REPLACE FUNCTION public.refresh_issue_search_index(p_issue_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  INSERT INTO public.issue_search_index (issue_id, document, updated_at)
+  SELECT
+    i.id,
+    setweight(to_tsvector('english', i.title), 'A')
+      || setweight(to_tsvector('english', i.description), 'B')
+      || setweight(to_tsvector('english', COALESCE(i.location, '')), 'C')
+      || setweight(jsonb_to_tsvector('english', COALESCE(i.metadata, '{}'), '["string", "numeric"]'), 'C')
+      || setweight(to_tsvector('english', COALESCE((
+        SELECT string_agg(u.content, ' ')
+        FROM public.issue_updates u
+        WHERE u.issue_id = i.id AND u.is_public
+      ), '')), 'D'),
+    now()
+  FROM public.issues i
+  WHERE i.id = p_issue_id
+  ON CONFLICT (issue_id) DO UPDATE
+    SET document = EXCLUDED.document,
+        updated_at = EXCLUDED.updated_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_issue_search_index(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_issue_search_index()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'issues' THEN
+    PERFORM public.refresh_issue_search_index(NEW.id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_issue_search_index(OLD.issue_id);
+  ELSE
+    PERFORM public.refresh_issue_search_index(NEW.issue_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_issue_search_index
+  AFTER INSERT OR UPDATE OF title, description, location, metadata ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_issue_search_index();
+
+CREATE TRIGGER sync_issue_search_index
+  AFTER INSERT OR UPDATE OF content, is_public OR DELETE ON public.issue_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_issue_search_index();
+
+SELECT public.refresh_issue_search_index(id) FROM public.issues;
+
+-- Ranked matches among the issues the caller can view, best first. p_query
+-- takes web search syntax: quoted phrases, "or" and a leading "-" to exclude.
+-- Matched terms in the title and snippet are wrapped in [[[ and ]]].
+CREATE OR REPLACE FUNCTION public.search_issues(p_query TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE(
+  issue_id UUID,
+  title TEXT,
+  status TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH search AS (
+    SELECT websearch_to_tsquery('english', COALESCE(p_query, '')) AS query
+  ),
+  matches AS (
+    SELECT i.id, i.title, i.status, i.severity, i.created_at, i.description, i.location,
+           ts_rank_cd(s.document, search.query) AS rank, search.query
+    FROM search
+    JOIN public.issue_search_index s ON s.document @@ search.query
+    JOIN public.issues i ON i.id = s.issue_id
+    WHERE auth.uid() IS NOT NULL
+      AND public.can_view_issue(i.id)
+    ORDER BY rank DESC, i.created_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  )
+  -- Headlines are only built for the page of results, as they re-parse the text
+  SELECT
+    m.id,
+    m.title,
+    m.status,
+    m.severity,
+    m.created_at,
+    m.rank,
+    ts_headline('english', m.title, m.query, 'HighlightAll=true, StartSel=[[[, StopSel=]]]'),
+    ts_headline(
+      'english',
+      concat_ws(' … ', m.description, m.location, updates.content),
+      m.query,
+      'StartSel=[[[, StopSel=]]], MaxFragments=2, MinWords=8, MaxWords=20, FragmentDelimiter=" … "'
+    )
+  FROM matches m
+  LEFT JOIN LATERAL (
+    SELECT string_agg(u.content, ' … ' ORDER BY u.created_at) AS content
+    FROM public.issue_updates u
+    WHERE u.issue_id = m.id AND u.is_public
+  ) updates ON true
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
@@ -0,0 +1,80 @@
+-- Live updates. Staff subscribe to row changes on issues and their updates,
+-- which Realtime filters through the same RLS policies as ordinary reads.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.issues, public.issue_updates;
+
+-- Anonymous reporters cannot pass RLS and never learn their issue's id, so each
+-- tracking token gets its own unguessable broadcast topic instead. Only the
+-- holder of the token can look the topic up, and the broadcasts carry no
+-- content: they just prompt the tracking page to fetch again by token.
+ALTER TABLE public.anonymous_tokens
+  ADD COLUMN realtime_topic UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX idx_anonymous_tokens_realtime_topic ON public.anonymous_tokens (realtime_topic);
+
+CREATE OR REPLACE FUNCTION public.get_tracking_channel(p_token TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_topic UUID;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT realtime_topic INTO v_topic
+  FROM public.anonymous_tokens
+  WHERE issue_id = v_issue_id
+    AND token_selector = left(p_token, 12);
+
+  RETURN 'tracking:' || v_topic;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_tracking_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_topic UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'issues' THEN
+    v_issue_id := NEW.id;
+  ELSE
+    v_issue_id := NEW.issue_id;
+  END IF;
+
+  FOR v_topic IN
+    SELECT realtime_topic FROM public.anonymous_tokens WHERE issue_id = v_issue_id
+  LOOP
+    PERFORM realtime.send(jsonb_build_object('kind', TG_TABLE_NAME), 'activity', 'tracking:' || v_topic, false);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Staff changes the reporter can see: case fields, public updates and messages. The
+-- reporter's own uploads and replies are left out.
+CREATE TRIGGER notify_tracking_subscribers
+  AFTER UPDATE OF status, severity, category_id, department_id, resolved_at ON public.issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_tracking_subscribers();
+
+CREATE TRIGGER notify_tracking_subscribers
+  AFTER INSERT OR UPDATE OF content, is_public ON public.issue_updates
+  FOR EACH ROW
+  WHEN (NEW.is_public)
+  EXECUTE FUNCTION public.notify_tracking_subscribers();
+
+CREATE TRIGGER notify_tracking_subscribers
+  AFTER INSERT ON public.issue_messages
+  FOR EACH ROW
+  WHEN (NEW.sender_type = 'staff')
+  EXECUTE FUNCTION public.notify_tracking_subscribers();
@@ -0,0 +1,148 @@
+-- Bulk triage. One call applies the same changes to many issues; each issue
+-- is changed in its own savepoint, so one that fails (a disallowed transition,
+-- a conflicted assignee, missing permission) is reported and left untouched
+-- while the rest go through. Every changed issue gets a single timeline entry.
+ALTER TABLE public.issue_updates DROP CONSTRAINT IF EXISTS issue_updates_update_type_check;
+ALTER TABLE public.issue_updates ADD CONSTRAINT issue_updates_update_type_check
+  CHECK (update_type IN ('status_change', 'comment', 'assignment', 'resolution', 'routing', 'conflict_override', 'bulk_update'));
+
+-- p_changes may hold status, assigned_to (null to unassign), severity and
+-- department_id; keys that are absent are left alone. Runs as the caller, so
+-- RLS and the issue triggers apply exactly as for single changes.
+CREATE OR REPLACE FUNCTION public.bulk_update_issues(
+  p_issue_ids UUID[],
+  p_changes JSONB,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT false
+)
+RETURNS TABLE(issue_id UUID, update_id UUID, error TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_issue_id UUID;
+  v_issue public.issues;
+  v_status TEXT;
+  v_assignee UUID;
+  v_severity TEXT;
+  v_department UUID;
+  v_summary TEXT[];
+  v_name TEXT;
+BEGIN
+  IF p_changes IS NULL OR NOT (p_changes ?| ARRAY['status', 'assigned_to', 'severity', 'department_id']) THEN
+    RAISE EXCEPTION 'No changes given' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(p_issue_ids) > 500 THEN
+    RAISE EXCEPTION 'At most 500 issues can be updated at once' USING ERRCODE = '22023';
+  END IF;
+
+  FOREACH v_issue_id IN ARRAY COALESCE(p_issue_ids, '{}') LOOP
+    BEGIN
+      SELECT * INTO v_issue
+      FROM public.issues i
+      WHERE i.id = v_issue_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Issue % not found', v_issue_id USING ERRCODE = 'P0002';
+      END IF;
+
+      v_status := COALESCE(p_changes->>'status', v_issue.status);
+      v_assignee := CASE WHEN p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE v_issue.assigned_to END;
+      v_severity := COALESCE(p_changes->>'severity', v_issue.severity);
+      v_department := CASE WHEN p_changes ? 'department_id' THEN (p_changes->>'department_id')::UUID ELSE v_issue.department_id END;
+      v_summary := '{}';
+
+      IF v_status IS DISTINCT FROM v_issue.status THEN
+        v_summary := v_summary || format('Status changed from %s to %s', v_issue.status, v_status);
+      END IF;
+
+      IF v_assignee IS DISTINCT FROM v_issue.assigned_to THEN
+        IF v_assignee IS NULL THEN
+          v_summary := v_summary || 'Assignment removed'::TEXT;
+        ELSE
+          SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+          FROM public.profiles
+          WHERE user_id = v_assignee;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Assignee % has no profile', v_assignee USING ERRCODE = 'P0002';
+          END IF;
+
+          v_summary := v_summary || format('Assigned to %s', v_name);
+        END IF;
+      END IF;
+
+      IF v_severity IS DISTINCT FROM v_issue.severity THEN
+        v_summary := v_summary || format('Severity changed from %s to %s', v_issue.severity, v_severity);
+      END IF;
+
+      IF v_department IS DISTINCT FROM v_issue.department_id THEN
+        SELECT name INTO v_name FROM public.departments WHERE id = v_department;
+        v_summary := v_summary || format('Moved to %s', COALESCE(v_name, 'no department'));
+      END IF;
+
+      -- Nothing to do for this issue; reported as neither updated nor failed
+      IF cardinality(v_summary) = 0 THEN
+        issue_id := v_issue_id;
+        update_id := NULL;
+        error := NULL;
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+
+      PERFORM set_config('candor.status_note', COALESCE(v_note, ''), true);
+
+      UPDATE public.issues
+      SET
+        status = v_status,
+        resolved_at = CASE
+          WHEN v_status = v_issue.status THEN resolved_at
+          WHEN v_status = 'resolved' THEN now()
+          WHEN v_status IN ('open', 'triaged', 'investigating') THEN NULL
+          ELSE resolved_at
+        END,
+        assigned_to = v_assignee,
+        severity = v_severity,
+        department_id = v_department
+      WHERE id = v_issue_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not allowed to update issue %', v_issue_id USING ERRCODE = '42501';
+      END IF;
+
+      PERFORM set_config('candor.status_note', '', true);
+
+      INSERT INTO public.issue_updates (
+        issue_id,
+        update_type,
+        content,
+        old_status,
+        new_status,
+        created_by,
+        is_public
+      ) VALUES (
+        v_issue_id,
+        'bulk_update',
+        concat_ws(E'\n', v_note, array_to_string(v_summary, '; ')),
+        v_issue.status,
+        v_status,
+        auth.uid(),
+        p_is_public
+      )
+      RETURNING id INTO update_id;
+
+      issue_id := v_issue_id;
+      error := NULL;
+      RETURN NEXT;
+    EXCEPTION WHEN OTHERS THEN
+      issue_id := v_issue_id;
+      update_id := NULL;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,85 @@
+-- Saved views of the issue list. A view keeps the list's own URL query
+-- (filters, sort, layout and columns), so it follows the list as new filters
+-- are added. Views are private to their owner unless shared with one
+-- department or one role; either way the issues shown are those the viewer
+-- may see.
+CREATE TABLE public.saved_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  query TEXT NOT NULL DEFAULT '',
+  shared_department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  shared_role TEXT CHECK (shared_role IN ('employee', 'manager', 'hr', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (shared_department_id IS NULL OR shared_role IS NULL)
+);
+
+CREATE INDEX idx_saved_views_owner_id ON public.saved_views (owner_id);
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid();
+$$;
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared views" ON public.saved_views
+  FOR SELECT USING (
+    auth.uid() = owner_id
+    OR shared_department_id = public.current_user_department_id()
+    OR shared_role = public.current_user_role()
+  );
+CREATE POLICY "Users can create their own views" ON public.saved_views
+  FOR INSERT WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "Users can update their own views" ON public.saved_views
+  FOR UPDATE USING (auth.uid() = owner_id) WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "Users can delete their own views" ON public.saved_views
+  FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Computed columns for the built-in work queues; the issue list filters on them
+-- like ordinary columns. Both run as the caller, so RLS still applies.
+
+-- Still open and past a response or resolution target, by the rules of get_sla_compliance
+CREATE OR REPLACE FUNCTION public.is_breaching_sla(p_issue public.issues)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT p_issue.status NOT IN ('resolved', 'closed') AND EXISTS (
+    SELECT 1
+    FROM public.sla_targets t
+    WHERE t.severity = p_issue.severity
+      AND (
+        (p_issue.first_response_at IS NULL AND now() > p_issue.created_at + make_interval(hours => t.first_response_hours))
+        OR now() > p_issue.created_at + make_interval(hours => t.resolution_hours)
+      )
+  );
+$$;
+
+-- Still open and the latest secure message came from staff
+CREATE OR REPLACE FUNCTION public.is_awaiting_reporter(p_issue public.issues)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT p_issue.status NOT IN ('resolved', 'closed') AND COALESCE((
+    SELECT m.sender_type = 'staff'
+    FROM public.issue_messages m
+    WHERE m.issue_id = p_issue.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ), false);
+$$;
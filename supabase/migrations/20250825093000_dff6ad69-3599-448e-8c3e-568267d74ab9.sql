@@ -0,0 +1,569 @@
+-- Tags on issues. Unlike categories an issue can carry any number of tags, so
+-- related cases (a recurring problem in one building, say) can be grouped
+-- across categories. Tags are internal: only case handlers see them, and they
+-- are never indexed for search or shown to reporters.
+--
+-- Curated tags are maintained by administrators. Case handlers may also create
+-- free-form tags while tagging, unless the organization turns that off.
+ALTER TABLE public.organization_settings
+  ADD COLUMN allow_free_form_tags BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  is_curated BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX tags_name_key ON public.tags (lower(btrim(name)));
+
+CREATE TABLE public.issue_tags (
+  issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (issue_id, tag_id)
+);
+
+CREATE INDEX idx_issue_tags_tag_id ON public.issue_tags (tag_id);
+
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.issue_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case handlers can view tags" ON public.tags FOR SELECT USING (
+  public.has_permission('triage')
+  OR public.has_permission('administer')
+);
+CREATE POLICY "Case handlers can create free-form tags" ON public.tags FOR INSERT WITH CHECK (
+  public.has_permission('administer')
+  OR (
+    public.has_permission('triage')
+    AND NOT is_curated
+    AND (SELECT allow_free_form_tags FROM public.organization_settings WHERE id)
+  )
+);
+CREATE POLICY "Administrators can update tags" ON public.tags
+  FOR UPDATE
+  USING (public.has_permission('administer'))
+  WITH CHECK (public.has_permission('administer'));
+CREATE POLICY "Administrators can delete tags" ON public.tags
+  FOR DELETE USING (public.has_permission('administer'));
+
+CREATE POLICY "Case handlers can view issue tags" ON public.issue_tags FOR SELECT USING (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+);
+CREATE POLICY "Case handlers can tag issues" ON public.issue_tags FOR INSERT WITH CHECK (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+);
+CREATE POLICY "Case handlers can untag issues" ON public.issue_tags FOR DELETE USING (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+);
+
+-- Computed column for the issue list's tag filter. Runs as the caller, so
+-- anyone who cannot see tags gets an empty list.
+CREATE OR REPLACE FUNCTION public.issue_tag_ids(p_issue public.issues)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(array_agg(t.tag_id), '{}')
+  FROM public.issue_tags t
+  WHERE t.issue_id = p_issue.id;
+$$;
+
+-- Issue counts per tag for the admin console, across all issues regardless of RLS
+CREATE OR REPLACE FUNCTION public.get_tag_usage()
+RETURNS TABLE (
+  tag_id UUID,
+  issue_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage tags' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT t.id, (SELECT count(*)::integer FROM public.issue_tags it WHERE it.tag_id = t.id)
+  FROM public.tags t;
+END;
+$$;
+
+-- Tags every issue carrying the source with the target instead, then deletes
+-- the source. Renames need no equivalent: issues refer to tags by id. Returns
+-- the number of issues retagged.
+CREATE OR REPLACE FUNCTION public.merge_tags(p_source_id UUID, p_target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_moved INTEGER;
+BEGIN
+  IF NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Not allowed to manage tags' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a tag into itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tags WHERE id = p_source_id) THEN
+    RAISE EXCEPTION 'Tag not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tags WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Target tag not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT count(*) INTO v_moved FROM public.issue_tags WHERE tag_id = p_source_id;
+
+  -- Issues that already carry both keep the one target row
+  INSERT INTO public.issue_tags (issue_id, tag_id, created_by, created_at)
+  SELECT issue_id, p_target_id, created_by, created_at
+  FROM public.issue_tags
+  WHERE tag_id = p_source_id
+  ON CONFLICT (issue_id, tag_id) DO NOTHING;
+
+  DELETE FROM public.tags WHERE id = p_source_id;
+
+  RETURN v_moved;
+END;
+$$;
+
+-- Tagging and untagging join the issue's audit trail
+CREATE OR REPLACE FUNCTION public.audit_issue_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'issue_updates' THEN
+      PERFORM public.record_audit_event('update.create', 'issue', NEW.issue_id, jsonb_build_object(
+        'update_id', NEW.id,
+        'update_type', NEW.update_type,
+        'is_public', NEW.is_public,
+        'automated', NEW.created_by IS NULL
+      ));
+    WHEN 'issue_messages' THEN
+      PERFORM public.record_audit_event('message.create', 'issue', NEW.issue_id, jsonb_build_object(
+        'message_id', NEW.id,
+        'sender_type', NEW.sender_type
+      ));
+    WHEN 'issue_exclusion_overrides' THEN
+      PERFORM public.record_audit_event('exclusion.override', 'issue', NEW.issue_id, jsonb_build_object(
+        'user_id', NEW.user_id,
+        'reason', NEW.reason
+      ));
+    WHEN 'issue_watchers' THEN
+      IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_audit_event('watcher.remove', 'issue', OLD.issue_id, jsonb_build_object('user_id', OLD.user_id));
+        RETURN NULL;
+      END IF;
+      PERFORM public.record_audit_event('watcher.add', 'issue', NEW.issue_id, jsonb_build_object(
+        'user_id', NEW.user_id,
+        'routing_rule_id', NEW.routing_rule_id
+      ));
+    WHEN 'issue_tags' THEN
+      -- The tag itself may already be gone when a deleted tag cascades here
+      IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_audit_event('tag.remove', 'issue', OLD.issue_id, jsonb_build_object(
+          'tag_id', OLD.tag_id,
+          'tag', (SELECT name FROM public.tags WHERE id = OLD.tag_id)
+        ));
+        RETURN NULL;
+      END IF;
+      PERFORM public.record_audit_event('tag.add', 'issue', NEW.issue_id, jsonb_build_object(
+        'tag_id', NEW.tag_id,
+        'tag', (SELECT name FROM public.tags WHERE id = NEW.tag_id)
+      ));
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_issue_activity
+  AFTER INSERT OR DELETE ON public.issue_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_activity();
+
+-- Search gains a tag filter. Tag names stay out of the index, which reporters
+-- can match against; the filter is ignored for anyone who cannot see tags.
+DROP FUNCTION IF EXISTS public.search_issues(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_issues(p_query TEXT, p_limit INTEGER DEFAULT 20, p_tag_id UUID DEFAULT NULL)
+RETURNS TABLE(
+  issue_id UUID,
+  title TEXT,
+  status TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH search AS (
+    SELECT websearch_to_tsquery('english', COALESCE(p_query, '')) AS query
+  ),
+  matches AS (
+    SELECT i.id, i.title, i.status, i.severity, i.created_at, i.description, i.location,
+           ts_rank_cd(s.document, search.query) AS rank, search.query
+    FROM search
+    JOIN public.issue_search_index s ON s.document @@ search.query
+    JOIN public.issues i ON i.id = s.issue_id
+    WHERE auth.uid() IS NOT NULL
+      AND public.can_view_issue(i.id)
+      AND (
+        p_tag_id IS NULL
+        OR NOT public.has_permission('triage')
+        OR EXISTS (SELECT 1 FROM public.issue_tags t WHERE t.issue_id = i.id AND t.tag_id = p_tag_id)
+      )
+    ORDER BY rank DESC, i.created_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  )
+  -- Headlines are only built for the page of results, as they re-parse the text
+  SELECT
+    m.id,
+    m.title,
+    m.status,
+    m.severity,
+    m.created_at,
+    m.rank,
+    ts_headline('english', m.title, m.query, 'HighlightAll=true, StartSel=[[[, StopSel=]]]'),
+    ts_headline(
+      'english',
+      concat_ws(' … ', m.description, m.location, updates.content),
+      m.query,
+      'StartSel=[[[, StopSel=]]], MaxFragments=2, MinWords=8, MaxWords=20, FragmentDelimiter=" … "'
+    )
+  FROM matches m
+  LEFT JOIN LATERAL (
+    SELECT string_agg(u.content, ' … ' ORDER BY u.created_at) AS content
+    FROM public.issue_updates u
+    WHERE u.issue_id = m.id AND u.is_public
+  ) updates ON true
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
+
+-- Analytics gain a tag filter and a breakdown of the most used tags:
+--   tags: [{tag_id, name, color, count, open}] for issues created in the range,
+--         at most ten, most used first
+DROP FUNCTION IF EXISTS public.get_issue_analytics(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_issue_analytics(
+  p_bucket TEXT,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_category_id UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL,
+  p_severity TEXT DEFAULT NULL,
+  p_tag_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step INTERVAL;
+  v_result JSONB;
+BEGIN
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Bucket must be day, week or month' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'The end of the range must be after the start' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to - p_from > INTERVAL '3 years' THEN
+    RAISE EXCEPTION 'The range can be at most three years' USING ERRCODE = '22023';
+  END IF;
+
+  v_step := ('1 ' || p_bucket)::INTERVAL;
+
+  WITH filtered AS (
+    SELECT i.id, i.severity, i.status, i.created_at, i.resolved_at
+    FROM public.issues i
+    WHERE (p_category_id IS NULL OR i.category_id = p_category_id)
+    AND (p_department_id IS NULL OR i.department_id = p_department_id)
+    AND (p_severity IS NULL OR i.severity = p_severity)
+    AND (p_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.issue_tags t WHERE t.issue_id = i.id AND t.tag_id = p_tag_id
+    ))
+  ),
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_from),
+      p_to - INTERVAL '1 microsecond',
+      v_step
+    ) AS bucket
+  ),
+  created AS (
+    SELECT date_trunc(p_bucket, created_at) AS bucket, count(*) AS total
+    FROM filtered
+    WHERE created_at >= p_from AND created_at < p_to
+    GROUP BY 1
+  ),
+  resolved AS (
+    SELECT date_trunc(p_bucket, resolved_at) AS bucket, count(*) AS total
+    FROM filtered
+    WHERE resolved_at >= p_from AND resolved_at < p_to
+    GROUP BY 1
+  ),
+  periods AS (
+    SELECT 'current' AS period, p_from AS starts, p_to AS ends
+    UNION ALL
+    SELECT 'previous', p_from - (p_to - p_from), p_from
+  )
+  SELECT jsonb_build_object(
+    'trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'bucket', b.bucket,
+        'created', COALESCE(c.total, 0),
+        'resolved', COALESCE(r.total, 0)
+      ) ORDER BY b.bucket), '[]'::jsonb)
+      FROM buckets b
+      LEFT JOIN created c ON c.bucket = b.bucket
+      LEFT JOIN resolved r ON r.bucket = b.bucket
+    ),
+    'totals', (
+      SELECT jsonb_object_agg(p.period, (
+        SELECT jsonb_build_object(
+          'total', count(*),
+          'open', count(*) FILTER (WHERE f.status = 'open'),
+          'active', count(*) FILTER (WHERE f.status IN ('triaged', 'investigating')),
+          'resolved', count(*) FILTER (WHERE f.status IN ('resolved', 'closed')),
+          'critical', count(*) FILTER (WHERE f.severity = 'critical'),
+          'avg_resolution_hours', round((avg(EXTRACT(EPOCH FROM f.resolved_at - f.created_at)) / 3600)::NUMERIC, 1)
+        )
+        FROM filtered f
+        WHERE f.created_at >= p.starts AND f.created_at < p.ends
+      ))
+      FROM periods p
+    ),
+    'severity', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('severity', s.severity, 'count', s.total)), '[]'::jsonb)
+      FROM (
+        SELECT severity, count(*) AS total
+        FROM filtered
+        WHERE created_at >= p_from AND created_at < p_to
+        GROUP BY severity
+      ) s
+    ),
+    'tags', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'tag_id', t.id,
+        'name', t.name,
+        'color', t.color,
+        'count', u.total,
+        'open', u.open
+      ) ORDER BY u.total DESC, t.name), '[]'::jsonb)
+      FROM (
+        SELECT it.tag_id, count(*) AS total, count(*) FILTER (WHERE f.status NOT IN ('resolved', 'closed')) AS open
+        FROM filtered f
+        JOIN public.issue_tags it ON it.issue_id = f.id
+        WHERE f.created_at >= p_from AND f.created_at < p_to
+        GROUP BY it.tag_id
+        ORDER BY count(*) DESC
+        LIMIT 10
+      ) u
+      JOIN public.tags t ON t.id = u.tag_id
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Bulk triage can add tags too: p_changes may hold add_tag_ids, an array of
+-- tag ids added to each issue alongside the other changes.
+CREATE OR REPLACE FUNCTION public.bulk_update_issues(
+  p_issue_ids UUID[],
+  p_changes JSONB,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT false
+)
+RETURNS TABLE(issue_id UUID, update_id UUID, error TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_tag_ids UUID[];
+  v_issue_id UUID;
+  v_issue public.issues;
+  v_status TEXT;
+  v_assignee UUID;
+  v_severity TEXT;
+  v_department UUID;
+  v_summary TEXT[];
+  v_name TEXT;
+  v_tagged TEXT;
+BEGIN
+  IF p_changes IS NULL OR NOT (p_changes ?| ARRAY['status', 'assigned_to', 'severity', 'department_id', 'add_tag_ids']) THEN
+    RAISE EXCEPTION 'No changes given' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(p_issue_ids) > 500 THEN
+    RAISE EXCEPTION 'At most 500 issues can be updated at once' USING ERRCODE = '22023';
+  END IF;
+
+  v_tag_ids := ARRAY(
+    SELECT value::UUID
+    FROM jsonb_array_elements_text(COALESCE(p_changes->'add_tag_ids', '[]'::jsonb))
+  );
+
+  FOREACH v_issue_id IN ARRAY COALESCE(p_issue_ids, '{}') LOOP
+    BEGIN
+      SELECT * INTO v_issue
+      FROM public.issues i
+      WHERE i.id = v_issue_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Issue % not found', v_issue_id USING ERRCODE = 'P0002';
+      END IF;
+
+      v_status := COALESCE(p_changes->>'status', v_issue.status);
+      v_assignee := CASE WHEN p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE v_issue.assigned_to END;
+      v_severity := COALESCE(p_changes->>'severity', v_issue.severity);
+      v_department := CASE WHEN p_changes ? 'department_id' THEN (p_changes->>'department_id')::UUID ELSE v_issue.department_id END;
+      v_summary := '{}';
+
+      IF v_status IS DISTINCT FROM v_issue.status THEN
+        v_summary := v_summary || format('Status changed from %s to %s', v_issue.status, v_status);
+      END IF;
+
+      IF v_assignee IS DISTINCT FROM v_issue.assigned_to THEN
+        IF v_assignee IS NULL THEN
+          v_summary := v_summary || 'Assignment removed'::TEXT;
+        ELSE
+          SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+          FROM public.profiles
+          WHERE user_id = v_assignee;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Assignee % has no profile', v_assignee USING ERRCODE = 'P0002';
+          END IF;
+
+          v_summary := v_summary || format('Assigned to %s', v_name);
+        END IF;
+      END IF;
+
+      IF v_severity IS DISTINCT FROM v_issue.severity THEN
+        v_summary := v_summary || format('Severity changed from %s to %s', v_issue.severity, v_severity);
+      END IF;
+
+      IF v_department IS DISTINCT FROM v_issue.department_id THEN
+        SELECT name INTO v_name FROM public.departments WHERE id = v_department;
+        v_summary := v_summary || format('Moved to %s', COALESCE(v_name, 'no department'));
+      END IF;
+
+      -- Only tags the issue does not carry yet are added and mentioned
+      WITH added AS (
+        INSERT INTO public.issue_tags (issue_id, tag_id)
+        SELECT v_issue_id, t.id
+        FROM public.tags t
+        WHERE t.id = ANY(v_tag_ids)
+        ON CONFLICT DO NOTHING
+        RETURNING tag_id
+      )
+      SELECT string_agg(t.name, ', ' ORDER BY t.name) INTO v_tagged
+      FROM added a
+      JOIN public.tags t ON t.id = a.tag_id;
+
+      -- Nothing to do for this issue; reported as neither updated nor failed
+      IF cardinality(v_summary) = 0 AND v_tagged IS NULL THEN
+        issue_id := v_issue_id;
+        update_id := NULL;
+        error := NULL;
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+
+      PERFORM set_config('candor.status_note', COALESCE(v_note, ''), true);
+
+      UPDATE public.issues
+      SET
+        status = v_status,
+        resolved_at = CASE
+          WHEN v_status = v_issue.status THEN resolved_at
+          WHEN v_status = 'resolved' THEN now()
+          WHEN v_status IN ('open', 'triaged', 'investigating') THEN NULL
+          ELSE resolved_at
+        END,
+        assigned_to = v_assignee,
+        severity = v_severity,
+        department_id = v_department
+      WHERE id = v_issue_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not allowed to update issue %', v_issue_id USING ERRCODE = '42501';
+      END IF;
+
+      PERFORM set_config('candor.status_note', '', true);
+
+      INSERT INTO public.issue_updates (
+        issue_id,
+        update_type,
+        content,
+        old_status,
+        new_status,
+        created_by,
+        is_public
+      ) VALUES (
+        v_issue_id,
+        'bulk_update',
+        concat_ws(
+          E'\n',
+          v_note,
+          NULLIF(array_to_string(v_summary, '; '), ''),
+          CASE WHEN NOT p_is_public OR cardinality(v_summary) = 0 THEN 'Tagged ' || v_tagged END
+        ),
+        v_issue.status,
+        v_status,
+        auth.uid(),
+        -- Tags are internal: they are left out of public entries, and a tag-only change stays internal
+        p_is_public AND cardinality(v_summary) > 0
+      )
+      RETURNING id INTO update_id;
+
+      issue_id := v_issue_id;
+      error := NULL;
+      RETURN NEXT;
+    EXCEPTION WHEN OTHERS THEN
+      issue_id := v_issue_id;
+      update_id := NULL;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
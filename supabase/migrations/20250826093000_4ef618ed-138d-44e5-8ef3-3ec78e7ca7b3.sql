@@ -0,0 +1,421 @@
+-- Duplicate and related issues. Case handlers can link two issues as
+-- duplicate, related or parent and child, and are shown likely duplicates
+-- found by title similarity (trigrams) and shared words (full text). A
+-- duplicate can be merged into its primary: it is closed, but its tracking
+-- token keeps working and follows the primary's progress.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX idx_issues_title_trgm ON public.issues USING gin (title extensions.gin_trgm_ops);
+
+ALTER TABLE public.issues
+  ADD COLUMN merged_into_id UUID REFERENCES public.issues(id) ON DELETE SET NULL,
+  ADD CONSTRAINT issues_merged_into_other CHECK (merged_into_id <> id);
+
+CREATE INDEX idx_issues_merged_into_id ON public.issues (merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+-- issue_id is the duplicate, the related issue or the child; linked_issue_id
+-- is the primary, the other related issue or the parent. One link per pair.
+CREATE TABLE public.issue_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  linked_issue_id UUID NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('duplicate', 'related', 'parent')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (issue_id <> linked_issue_id)
+);
+
+CREATE UNIQUE INDEX issue_links_pair_key
+  ON public.issue_links (LEAST(issue_id, linked_issue_id), GREATEST(issue_id, linked_issue_id));
+CREATE INDEX idx_issue_links_linked_issue_id ON public.issue_links (linked_issue_id);
+
+ALTER TABLE public.issue_links ENABLE ROW LEVEL SECURITY;
+
+-- Links are internal; both issues must be visible to the case handler
+CREATE POLICY "Case handlers can view issue links" ON public.issue_links FOR SELECT USING (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+  AND public.can_view_issue(linked_issue_id)
+);
+CREATE POLICY "Case handlers can link issues" ON public.issue_links FOR INSERT WITH CHECK (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+  AND public.can_view_issue(linked_issue_id)
+);
+CREATE POLICY "Case handlers can unlink issues" ON public.issue_links FOR DELETE USING (
+  public.has_permission('triage')
+  AND public.can_view_issue(issue_id)
+  AND public.can_view_issue(linked_issue_id)
+);
+
+ALTER TABLE public.issue_updates DROP CONSTRAINT IF EXISTS issue_updates_update_type_check;
+ALTER TABLE public.issue_updates ADD CONSTRAINT issue_updates_update_type_check
+  CHECK (update_type IN ('status_change', 'comment', 'assignment', 'resolution', 'routing', 'conflict_override', 'bulk_update', 'merge'));
+
+-- Issues that probably describe the same thing, best first. Scores blend title
+-- similarity with full-text rank against any word of the title or description,
+-- from 0 to 1. Case handlers search every issue they can view; everyone else
+-- only the reports they submitted under their own name, so nothing is learnt
+-- about other people's reports. Already linked and merged issues are left out.
+CREATE OR REPLACE FUNCTION public.find_similar_issues(
+  p_title TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_exclude_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE(
+  issue_id UUID,
+  title TEXT,
+  status TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH input AS (
+    SELECT
+      btrim(COALESCE(p_title, '')) AS title,
+      (
+        SELECT to_tsquery('english', string_agg(quote_literal(word), ' | '))
+        FROM unnest(tsvector_to_array(to_tsvector('english', concat_ws(' ', p_title, p_description)))) AS word
+      ) AS query
+  ),
+  candidates AS (
+    SELECT
+      i.id,
+      i.title,
+      i.status,
+      i.severity,
+      i.created_at,
+      (
+        extensions.similarity(i.title, input.title) * 0.5
+        + COALESCE(ts_rank(s.document, input.query, 32), 0) * 0.5
+      )::REAL AS score
+    FROM input
+    CROSS JOIN public.issues i
+    JOIN public.issue_search_index s ON s.issue_id = i.id
+    WHERE auth.uid() IS NOT NULL
+      AND (s.document @@ input.query OR i.title OPERATOR(extensions.%) input.title)
+      AND i.id IS DISTINCT FROM p_exclude_id
+      AND i.merged_into_id IS NULL
+      AND public.can_view_issue(i.id)
+      AND (public.has_permission('triage') OR i.reporter_id = auth.uid())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.issue_links l
+        WHERE (l.issue_id = i.id AND l.linked_issue_id = p_exclude_id)
+          OR (l.issue_id = p_exclude_id AND l.linked_issue_id = i.id)
+      )
+  )
+  SELECT c.id, c.title, c.status, c.severity, c.created_at, c.score
+  FROM candidates c
+  WHERE c.score >= 0.2
+  ORDER BY c.score DESC, c.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 5), 1), 20);
+$$;
+
+-- Merging closes a duplicate whatever its state; reopening it separates it
+-- from its primary again
+CREATE OR REPLACE FUNCTION public.enforce_issue_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transition public.issue_status_transitions;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'closed' AND NEW.merged_into_id IS NOT NULL AND OLD.merged_into_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_transition
+  FROM public.issue_status_transitions
+  WHERE from_status = OLD.status
+  AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move an issue from % to %', OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+
+  IF v_transition.requires_note AND COALESCE(current_setting('candor.status_note', true), '') = '' THEN
+    RAISE EXCEPTION '% is required to move an issue from % to %',
+      COALESCE(v_transition.note_label, 'A note'), OLD.status, NEW.status
+      USING ERRCODE = '23502';
+  END IF;
+
+  IF NEW.status <> 'closed' THEN
+    NEW.merged_into_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Closes p_issue_id as a duplicate of p_primary_id and links the two. Issues
+-- already merged into the duplicate move on to the primary, so merges never
+-- chain. Runs as the caller: closing still needs the resolve permission.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_issue(
+  p_issue_id UUID,
+  p_primary_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_issue public.issues;
+  v_primary public.issues;
+BEGIN
+  IF NOT public.has_permission('resolve') THEN
+    RAISE EXCEPTION 'You do not have permission to merge issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_issue_id = p_primary_id THEN
+    RAISE EXCEPTION 'Cannot merge an issue into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_issue FROM public.issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_primary FROM public.issues WHERE id = p_primary_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_primary_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_issue.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This issue has already been merged' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_primary.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into an issue that was itself merged' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.issue_links
+  WHERE (issue_id = p_issue_id AND linked_issue_id = p_primary_id)
+    OR (issue_id = p_primary_id AND linked_issue_id = p_issue_id);
+
+  INSERT INTO public.issue_links (issue_id, linked_issue_id, link_type)
+  VALUES (p_issue_id, p_primary_id, 'duplicate');
+
+  UPDATE public.issues
+  SET merged_into_id = p_primary_id,
+      status = 'closed'
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update issue %', p_issue_id USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.issues
+  SET merged_into_id = p_primary_id
+  WHERE merged_into_id = p_issue_id;
+
+  INSERT INTO public.issue_updates (issue_id, update_type, content, old_status, new_status, created_by, is_public)
+  VALUES
+    (
+      p_issue_id,
+      'merge',
+      concat_ws(E'\n', v_note, format('Merged into "%s" as a duplicate', v_primary.title)),
+      v_issue.status,
+      'closed',
+      auth.uid(),
+      false
+    ),
+    (
+      p_primary_id,
+      'merge',
+      concat_ws(E'\n', v_note, format('"%s" merged in as a duplicate', v_issue.title)),
+      NULL,
+      NULL,
+      auth.uid(),
+      false
+    );
+END;
+$$;
+
+-- Reporters of a merged duplicate see the primary's status. Their own report,
+-- files and updates stay as they are: another reporter's case is never shown.
+CREATE OR REPLACE FUNCTION public.track_issue_by_token(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_primary public.issues;
+  v_result JSONB;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.* INTO v_primary
+  FROM public.issues i
+  JOIN public.issues p ON p.id = i.merged_into_id
+  WHERE i.id = v_issue_id;
+
+  SELECT jsonb_build_object(
+    'title', i.title,
+    'description', i.description,
+    'severity', i.severity,
+    'status', COALESCE(v_primary.status, i.status),
+    'location', i.location,
+    'created_at', i.created_at,
+    'updated_at', GREATEST(i.updated_at, v_primary.updated_at),
+    'resolved_at', CASE WHEN v_primary.id IS NULL THEN i.resolved_at ELSE v_primary.resolved_at END,
+    'category', (
+      SELECT jsonb_build_object('name', c.name, 'color', c.color, 'icon', c.icon)
+      FROM public.issue_categories c
+      WHERE c.id = i.category_id
+    ),
+    'department', (
+      SELECT jsonb_build_object('name', d.name)
+      FROM public.departments d
+      WHERE d.id = i.department_id
+    ),
+    'attachments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a ->> 'id',
+        'name', a ->> 'name',
+        'mime_type', a ->> 'mime_type',
+        'size', (a ->> 'size')::BIGINT,
+        'uploaded_at', a ->> 'uploaded_at'
+      ))
+      FROM jsonb_array_elements(i.attachments) a
+    ), '[]'::jsonb),
+    'updates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'update_type', u.update_type,
+        'content', u.content,
+        'old_status', u.old_status,
+        'new_status', u.new_status,
+        'created_at', u.created_at
+      ) ORDER BY u.created_at)
+      FROM public.issue_updates u
+      WHERE u.issue_id = i.id
+      AND u.is_public = true
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.issues i
+  WHERE i.id = v_issue_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- A status change on a primary also reaches the reporters of its duplicates
+CREATE OR REPLACE FUNCTION public.notify_tracking_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_topic UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'issues' THEN
+    v_issue_id := NEW.id;
+  ELSE
+    v_issue_id := NEW.issue_id;
+  END IF;
+
+  FOR v_topic IN
+    SELECT t.realtime_topic
+    FROM public.anonymous_tokens t
+    WHERE t.issue_id = v_issue_id
+      OR (
+        TG_TABLE_NAME = 'issues'
+        AND t.issue_id IN (SELECT id FROM public.issues WHERE merged_into_id = v_issue_id)
+      )
+  LOOP
+    PERFORM realtime.send(jsonb_build_object('kind', TG_TABLE_NAME), 'activity', 'tracking:' || v_topic, false);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Linking and unlinking join the audit trail of the first issue of the pair
+CREATE OR REPLACE FUNCTION public.audit_issue_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'issue_updates' THEN
+      PERFORM public.record_audit_event('update.create', 'issue', NEW.issue_id, jsonb_build_object(
+        'update_id', NEW.id,
+        'update_type', NEW.update_type,
+        'is_public', NEW.is_public,
+        'automated', NEW.created_by IS NULL
+      ));
+    WHEN 'issue_messages' THEN
+      PERFORM public.record_audit_event('message.create', 'issue', NEW.issue_id, jsonb_build_object(
+        'message_id', NEW.id,
+        'sender_type', NEW.sender_type
+      ));
+    WHEN 'issue_exclusion_overrides' THEN
+      PERFORM public.record_audit_event('exclusion.override', 'issue', NEW.issue_id, jsonb_build_object(
+        'user_id', NEW.user_id,
+        'reason', NEW.reason
+      ));
+    WHEN 'issue_watchers' THEN
+      IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_audit_event('watcher.remove', 'issue', OLD.issue_id, jsonb_build_object('user_id', OLD.user_id));
+        RETURN NULL;
+      END IF;
+      PERFORM public.record_audit_event('watcher.add', 'issue', NEW.issue_id, jsonb_build_object(
+        'user_id', NEW.user_id,
+        'routing_rule_id', NEW.routing_rule_id
+      ));
+    WHEN 'issue_tags' THEN
+      -- The tag itself may already be gone when a deleted tag cascades here
+      IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_audit_event('tag.remove', 'issue', OLD.issue_id, jsonb_build_object(
+          'tag_id', OLD.tag_id,
+          'tag', (SELECT name FROM public.tags WHERE id = OLD.tag_id)
+        ));
+        RETURN NULL;
+      END IF;
+      PERFORM public.record_audit_event('tag.add', 'issue', NEW.issue_id, jsonb_build_object(
+        'tag_id', NEW.tag_id,
+        'tag', (SELECT name FROM public.tags WHERE id = NEW.tag_id)
+      ));
+    WHEN 'issue_links' THEN
+      IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_audit_event('link.remove', 'issue', OLD.issue_id, jsonb_build_object(
+          'linked_issue_id', OLD.linked_issue_id,
+          'link_type', OLD.link_type
+        ));
+        RETURN NULL;
+      END IF;
+      PERFORM public.record_audit_event('link.add', 'issue', NEW.issue_id, jsonb_build_object(
+        'linked_issue_id', NEW.linked_issue_id,
+        'link_type', NEW.link_type
+      ));
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_issue_activity
+  AFTER INSERT OR DELETE ON public.issue_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_issue_activity();
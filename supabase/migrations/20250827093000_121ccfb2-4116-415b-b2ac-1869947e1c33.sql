@@ -0,0 +1,453 @@
+-- Merging and splitting cases. Merging now combines a duplicate into its
+-- primary: internal notes, files, tags, custom field values and the
+-- reporter's exclusions are carried over before the duplicate is closed.
+-- Splitting opens a child case from part of a report. Tracking tokens stay
+-- bound to the report they were issued for: a merged report follows its
+-- primary, and a split report lists the cases split out of it.
+ALTER TABLE public.issues
+  ADD COLUMN split_from_id UUID REFERENCES public.issues(id) ON DELETE SET NULL,
+  ADD CONSTRAINT issues_split_from_other CHECK (split_from_id <> id);
+
+CREATE INDEX idx_issues_split_from_id ON public.issues (split_from_id) WHERE split_from_id IS NOT NULL;
+
+-- Timeline entries copied onto a primary keep their author and time, and
+-- point at the issue they were written on
+ALTER TABLE public.issue_updates
+  ADD COLUMN merged_from_id UUID REFERENCES public.issues(id) ON DELETE SET NULL;
+
+ALTER TABLE public.issue_updates DROP CONSTRAINT IF EXISTS issue_updates_update_type_check;
+ALTER TABLE public.issue_updates ADD CONSTRAINT issue_updates_update_type_check
+  CHECK (update_type IN ('status_change', 'comment', 'assignment', 'resolution', 'routing', 'conflict_override', 'bulk_update', 'merge', 'split'));
+
+-- A note copied from a duplicate is not a response on the primary
+DROP TRIGGER IF EXISTS record_first_response ON public.issue_updates;
+
+CREATE TRIGGER record_first_response
+  AFTER INSERT ON public.issue_updates
+  FOR EACH ROW
+  WHEN (NEW.created_by IS NOT NULL AND NEW.merged_from_id IS NULL)
+  EXECUTE FUNCTION public.record_first_response();
+
+-- Replaced by merge_issues, which also combines the cases
+DROP FUNCTION IF EXISTS public.merge_duplicate_issue(UUID, UUID, TEXT);
+
+-- Closes each of p_issue_ids as a duplicate of p_primary_id after copying its
+-- internal notes, files, tags and custom field values onto the primary. The
+-- primary keeps its own values where both have one and takes the highest
+-- severity. People excluded by a duplicate's reporter are excluded from the
+-- primary too, so the merge is refused while one of them handles it. Files
+-- carried over are marked with merged_from and never shown to the primary's
+-- reporter.
+CREATE OR REPLACE FUNCTION public.merge_issues(
+  p_primary_id UUID,
+  p_issue_ids UUID[],
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_primary public.issues;
+  v_issue public.issues;
+  v_issue_id UUID;
+BEGIN
+  IF NOT public.has_permission('resolve') THEN
+    RAISE EXCEPTION 'You do not have permission to merge issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(cardinality(p_issue_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one issue to merge' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_primary FROM public.issues WHERE id = p_primary_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_view_issue(p_primary_id) THEN
+    RAISE EXCEPTION 'Issue % not found', p_primary_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_primary.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into an issue that was itself merged' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_issue_id IN SELECT DISTINCT unnest(p_issue_ids) LOOP
+    IF v_issue_id = p_primary_id THEN
+      RAISE EXCEPTION 'Cannot merge an issue into itself' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_issue FROM public.issues WHERE id = v_issue_id FOR UPDATE;
+    IF NOT FOUND OR NOT public.can_view_issue(v_issue_id) THEN
+      RAISE EXCEPTION 'Issue % not found', v_issue_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_issue.merged_into_id IS NOT NULL THEN
+      RAISE EXCEPTION '"%" has already been merged', v_issue.title USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM public.issue_exclusions e
+      WHERE e.issue_id = v_issue_id
+      AND (
+        e.user_id = v_primary.assigned_to
+        OR e.user_id IN (SELECT w.user_id FROM public.issue_watchers w WHERE w.issue_id = p_primary_id)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Someone handling "%" was excluded by the reporter of "%"', v_primary.title, v_issue.title
+        USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO public.issue_exclusions (issue_id, user_id)
+    SELECT p_primary_id, e.user_id
+    FROM public.issue_exclusions e
+    WHERE e.issue_id = v_issue_id
+    ON CONFLICT (issue_id, user_id) DO NOTHING;
+
+    -- Notes and resolutions only: workflow entries describe the duplicate's own handling
+    INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public, created_at, merged_from_id)
+    SELECT p_primary_id, u.update_type, u.content, u.created_by, false, u.created_at, COALESCE(u.merged_from_id, v_issue_id)
+    FROM public.issue_updates u
+    WHERE u.issue_id = v_issue_id
+    AND u.update_type IN ('comment', 'resolution')
+    AND COALESCE(u.content, '') <> '';
+
+    INSERT INTO public.issue_tags (issue_id, tag_id, created_by, created_at)
+    SELECT p_primary_id, t.tag_id, t.created_by, t.created_at
+    FROM public.issue_tags t
+    WHERE t.issue_id = v_issue_id
+    ON CONFLICT (issue_id, tag_id) DO NOTHING;
+
+    UPDATE public.issues
+    SET attachments = v_primary.attachments || COALESCE((
+          SELECT jsonb_agg(a || jsonb_build_object('merged_from', COALESCE(a ->> 'merged_from', v_issue_id::TEXT)))
+          FROM jsonb_array_elements(v_issue.attachments) a
+          WHERE NOT v_primary.attachments @> jsonb_build_array(jsonb_build_object('path', a -> 'path'))
+        ), '[]'::jsonb),
+        metadata = jsonb_set(
+          COALESCE(v_issue.metadata, '{}') || COALESCE(v_primary.metadata, '{}'),
+          '{custom_fields}',
+          COALESCE(v_issue.metadata -> 'custom_fields', '{}') || COALESCE(v_primary.metadata -> 'custom_fields', '{}')
+        ),
+        severity = CASE
+          WHEN public.severity_rank(v_issue.severity) > public.severity_rank(v_primary.severity) THEN v_issue.severity
+          ELSE v_primary.severity
+        END
+    WHERE id = p_primary_id
+    RETURNING * INTO v_primary;
+
+    DELETE FROM public.issue_links
+    WHERE (issue_id = v_issue_id AND linked_issue_id = p_primary_id)
+      OR (issue_id = p_primary_id AND linked_issue_id = v_issue_id);
+
+    INSERT INTO public.issue_links (issue_id, linked_issue_id, link_type)
+    VALUES (v_issue_id, p_primary_id, 'duplicate');
+
+    UPDATE public.issues
+    SET merged_into_id = p_primary_id,
+        status = 'closed'
+    WHERE id = v_issue_id;
+
+    -- Earlier merges into the duplicate move on, so merges never chain
+    UPDATE public.issues
+    SET merged_into_id = p_primary_id
+    WHERE merged_into_id = v_issue_id;
+
+    INSERT INTO public.issue_updates (issue_id, update_type, content, old_status, new_status, created_by, is_public)
+    VALUES
+      (
+        v_issue_id,
+        'merge',
+        concat_ws(E'\n', v_note, format('Merged into "%s" as a duplicate', v_primary.title)),
+        v_issue.status,
+        'closed',
+        auth.uid(),
+        false
+      ),
+      (
+        p_primary_id,
+        'merge',
+        concat_ws(E'\n', v_note, format('"%s" merged in as a duplicate', v_issue.title)),
+        NULL,
+        NULL,
+        auth.uid(),
+        false
+      );
+  END LOOP;
+END;
+$$;
+
+-- Opens a new case for part of p_issue_id's report, linked to it as its
+-- child. The child inherits the reporter, their exclusions, the category,
+-- department, location and custom field values, plus the chosen files, and is
+-- routed like a new report. The reporter sees its title and status when
+-- tracking the original report.
+CREATE OR REPLACE FUNCTION public.split_issue(
+  p_issue_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_severity TEXT DEFAULT NULL,
+  p_attachment_ids UUID[] DEFAULT '{}',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_title TEXT := NULLIF(btrim(p_title), '');
+  v_description TEXT := NULLIF(btrim(p_description), '');
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_parent public.issues;
+  v_child_id UUID := gen_random_uuid();
+BEGIN
+  IF NOT public.has_permission('triage') THEN
+    RAISE EXCEPTION 'You do not have permission to split issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_title IS NULL OR v_description IS NULL THEN
+    RAISE EXCEPTION 'A title and description are required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_parent FROM public.issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_view_issue(p_issue_id) THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_parent.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A merged issue cannot be split' USING ERRCODE = '22023';
+  END IF;
+
+  -- Before the issue itself, as in submit_issue, so routing respects them
+  INSERT INTO public.issue_exclusions (issue_id, user_id)
+  SELECT v_child_id, e.user_id
+  FROM public.issue_exclusions e
+  WHERE e.issue_id = p_issue_id;
+
+  INSERT INTO public.issues (
+    id,
+    title,
+    description,
+    severity,
+    category_id,
+    department_id,
+    location,
+    metadata,
+    reporter_id,
+    attachments,
+    split_from_id
+  ) VALUES (
+    v_child_id,
+    v_title,
+    v_description,
+    COALESCE(p_severity, v_parent.severity),
+    v_parent.category_id,
+    v_parent.department_id,
+    v_parent.location,
+    COALESCE(v_parent.metadata, '{}'),
+    v_parent.reporter_id,
+    COALESCE((
+      SELECT jsonb_agg(a)
+      FROM jsonb_array_elements(v_parent.attachments) a
+      WHERE (a ->> 'id')::UUID = ANY (COALESCE(p_attachment_ids, '{}'))
+    ), '[]'::jsonb),
+    p_issue_id
+  );
+
+  INSERT INTO public.issue_links (issue_id, linked_issue_id, link_type)
+  VALUES (v_child_id, p_issue_id, 'parent');
+
+  INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public)
+  VALUES
+    (p_issue_id, 'split', concat_ws(E'\n', v_note, format('Split out as "%s"', v_title)), auth.uid(), false),
+    (v_child_id, 'split', concat_ws(E'\n', v_note, format('Split from "%s"', v_parent.title)), auth.uid(), false);
+
+  RETURN v_child_id;
+END;
+$$;
+
+-- The attachment limit counts the reporter's own files, not those carried over
+-- from merged duplicates
+CREATE OR REPLACE FUNCTION public.add_issue_attachment(
+  p_token TEXT,
+  p_path TEXT,
+  p_name TEXT,
+  p_scan_status TEXT DEFAULT 'unscanned'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_object storage.objects;
+  v_attachment_id UUID := gen_random_uuid();
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_scan_status NOT IN ('clean', 'unscanned') THEN
+    RAISE EXCEPTION 'Files that failed the scan cannot be attached' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_object
+  FROM storage.objects o
+  WHERE o.bucket_id = 'issue-attachments'
+  AND o.name = p_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Uploaded file not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE attachments @> jsonb_build_array(jsonb_build_object('path', p_path))
+  ) THEN
+    RAISE EXCEPTION 'This file is already attached to an issue' USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.issues
+  SET attachments = attachments || jsonb_build_array(jsonb_build_object(
+    'id', v_attachment_id,
+    'path', p_path,
+    'name', left(btrim(p_name), 255),
+    'mime_type', v_object.metadata ->> 'mimetype',
+    'size', (v_object.metadata ->> 'size')::BIGINT,
+    'scan_status', p_scan_status,
+    'uploaded_at', now()
+  ))
+  WHERE id = v_issue_id
+  AND (SELECT count(*) FROM jsonb_array_elements(attachments) a WHERE NOT a ? 'merged_from') < 10;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'An issue can have at most 10 attachments' USING ERRCODE = '54000';
+  END IF;
+
+  RETURN v_attachment_id;
+END;
+$$;
+
+-- merged tells the reporter their report was combined with another; its
+-- status is the combined case's. split_cases lists the cases split out of the
+-- report by title and status. Files carried over from other reports are left out.
+CREATE OR REPLACE FUNCTION public.track_issue_by_token(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_primary public.issues;
+  v_result JSONB;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.* INTO v_primary
+  FROM public.issues i
+  JOIN public.issues p ON p.id = i.merged_into_id
+  WHERE i.id = v_issue_id;
+
+  SELECT jsonb_build_object(
+    'title', i.title,
+    'description', i.description,
+    'severity', i.severity,
+    'status', COALESCE(v_primary.status, i.status),
+    'location', i.location,
+    'created_at', i.created_at,
+    'updated_at', GREATEST(i.updated_at, v_primary.updated_at),
+    'resolved_at', CASE WHEN v_primary.id IS NULL THEN i.resolved_at ELSE v_primary.resolved_at END,
+    'merged', v_primary.id IS NOT NULL,
+    'category', (
+      SELECT jsonb_build_object('name', c.name, 'color', c.color, 'icon', c.icon)
+      FROM public.issue_categories c
+      WHERE c.id = i.category_id
+    ),
+    'department', (
+      SELECT jsonb_build_object('name', d.name)
+      FROM public.departments d
+      WHERE d.id = i.department_id
+    ),
+    'attachments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a ->> 'id',
+        'name', a ->> 'name',
+        'mime_type', a ->> 'mime_type',
+        'size', (a ->> 'size')::BIGINT,
+        'uploaded_at', a ->> 'uploaded_at'
+      ))
+      FROM jsonb_array_elements(i.attachments) a
+      WHERE NOT a ? 'merged_from'
+    ), '[]'::jsonb),
+    'updates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'update_type', u.update_type,
+        'content', u.content,
+        'old_status', u.old_status,
+        'new_status', u.new_status,
+        'created_at', u.created_at
+      ) ORDER BY u.created_at)
+      FROM public.issue_updates u
+      WHERE u.issue_id = i.id
+      AND u.is_public = true
+    ), '[]'::jsonb),
+    'split_cases', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'title', s.title,
+        'status', COALESCE(sp.status, s.status),
+        'created_at', s.created_at,
+        'updated_at', GREATEST(s.updated_at, sp.updated_at)
+      ) ORDER BY s.created_at)
+      FROM public.issues s
+      LEFT JOIN public.issues sp ON sp.id = s.merged_into_id
+      WHERE s.split_from_id = i.id
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.issues i
+  WHERE i.id = v_issue_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Changes to a case split out of a report also reach that report's reporter
+CREATE OR REPLACE FUNCTION public.notify_tracking_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_topic UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'issues' THEN
+    v_issue_id := NEW.id;
+  ELSE
+    v_issue_id := NEW.issue_id;
+  END IF;
+
+  FOR v_topic IN
+    SELECT t.realtime_topic
+    FROM public.anonymous_tokens t
+    WHERE t.issue_id = v_issue_id
+      OR (
+        TG_TABLE_NAME = 'issues'
+        AND (
+          t.issue_id IN (SELECT id FROM public.issues WHERE merged_into_id = v_issue_id)
+          OR t.issue_id = (SELECT split_from_id FROM public.issues WHERE id = v_issue_id)
+        )
+      )
+  LOOP
+    PERFORM realtime.send(jsonb_build_object('kind', TG_TABLE_NAME), 'activity', 'tracking:' || v_topic, false);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- Tokens seeded before tokens were hashed are 15 characters long ('hr_' or
+-- 'it_' and 12 random characters), one short of the old minimum, so their
+-- reporters could no longer track their cases. The length check is only a
+-- cheap pre-filter: the selector lookup and the salted hash decide.
+CREATE OR REPLACE FUNCTION public.resolve_tracking_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_token public.anonymous_tokens;
+  v_issue_id UUID;
+BEGIN
+  PERFORM public.audit_as_anonymous();
+
+  IF p_token IS NOT NULL AND char_length(p_token) >= 15 THEN
+    SELECT * INTO v_token
+    FROM public.anonymous_tokens
+    WHERE token_selector = left(p_token, 12);
+
+    IF FOUND
+      AND v_token.token_hash = encode(extensions.digest(v_token.token_salt || p_token, 'sha256'), 'hex') THEN
+      v_issue_id := v_token.issue_id;
+    END IF;
+  END IF;
+
+  PERFORM public.record_audit_event('token.lookup', 'issue', v_issue_id, jsonb_build_object('found', v_issue_id IS NOT NULL));
+
+  RETURN v_issue_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_tracking_token(TEXT) FROM PUBLIC, anon, authenticated;
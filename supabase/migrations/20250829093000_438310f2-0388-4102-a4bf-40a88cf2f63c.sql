@@ -0,0 +1,73 @@
+-- Sign-up no longer chooses a role: 'hr' alone can read every report. Every
+-- new account is an employee until an administrator grants more.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (
+    user_id,
+    email,
+    role,
+    display_name,
+    first_name,
+    last_name,
+    company,
+    job_title
+  )
+  VALUES (
+    NEW.id,
+    NEW.email,
+    'employee',
+    COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1)),
+    NEW.raw_user_meta_data ->> 'first_name',
+    NEW.raw_user_meta_data ->> 'last_name',
+    NEW.raw_user_meta_data ->> 'company',
+    NEW.raw_user_meta_data ->> 'job_title'
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Department and manager decide which cases view_department reaches and who
+-- counts as a conflict of interest, so like the role only administrators set them
+CREATE OR REPLACE FUNCTION public.prevent_role_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.has_permission('administer') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only administrators can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.department_id IS DISTINCT FROM OLD.department_id OR NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+    RAISE EXCEPTION 'Only administrators can change departments and managers' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_role_self_assignment ON public.profiles;
+
+CREATE TRIGGER prevent_role_self_assignment
+  BEFORE UPDATE OF role, department_id, manager_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_self_assignment();
+
+-- Profiles created by hand start without a department or manager too
+DROP POLICY IF EXISTS "Users can create their own profile" ON public.profiles;
+
+CREATE POLICY "Users can create their own profile" ON public.profiles FOR INSERT WITH CHECK (
+  user_id = auth.uid()
+  AND role = 'employee'
+  AND department_id IS NULL
+  AND manager_id IS NULL
+);
@@ -0,0 +1,299 @@
+-- Attachments are scanned on the server. The reporter uploads under a prefix
+-- only their token can obtain, links the object, and the scan-attachment edge
+-- function scans the stored bytes with the service role. Until it reports the
+-- file clean the entry stays 'pending': unreadable and left out of every list.
+-- Files that fail, or that could not be scanned, are removed.
+
+ALTER TABLE public.anonymous_tokens
+  ADD COLUMN upload_prefix UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX idx_anonymous_tokens_upload_prefix ON public.anonymous_tokens (upload_prefix);
+
+-- Files linked before scanning moved to the server were never checked
+UPDATE public.issues
+SET attachments = (
+  SELECT jsonb_agg(
+    CASE WHEN a ->> 'scan_status' = 'clean' THEN a ELSE jsonb_set(a, '{scan_status}', '"pending"') END
+    ORDER BY t.ord
+  )
+  FROM jsonb_array_elements(attachments) WITH ORDINALITY AS t(a, ord)
+)
+WHERE EXISTS (
+  SELECT 1 FROM jsonb_array_elements(attachments) a WHERE a ->> 'scan_status' IS DISTINCT FROM 'clean'
+);
+
+-- The folder a reporter's uploads must go in
+CREATE OR REPLACE FUNCTION public.get_attachment_upload_prefix(p_token TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_prefix UUID;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT upload_prefix INTO v_prefix
+  FROM public.anonymous_tokens
+  WHERE issue_id = v_issue_id
+    AND token_selector = left(p_token, 12);
+
+  RETURN v_prefix::TEXT;
+END;
+$$;
+
+-- Used by the upload policy, which anonymous reporters are subject to
+CREATE OR REPLACE FUNCTION public.is_attachment_upload_prefix(p_prefix TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.anonymous_tokens
+    WHERE upload_prefix = CASE
+      WHEN p_prefix ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN p_prefix::UUID
+    END
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can upload issue attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can read attachments of permitted issues" ON storage.objects;
+
+CREATE POLICY "Reporters can upload issue attachments under their prefix" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'issue-attachments'
+  AND array_length(storage.foldername(name), 1) = 1
+  AND public.is_attachment_upload_prefix((storage.foldername(name))[1])
+);
+CREATE POLICY "Users can read scanned attachments of permitted issues" ON storage.objects FOR SELECT USING (
+  bucket_id = 'issue-attachments'
+  AND EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.attachments @> jsonb_build_array(jsonb_build_object('path', storage.objects.name, 'scan_status', 'clean'))
+    AND public.can_view_issue(i.id)
+  )
+);
+
+-- The scan result and the file name no longer come from the client. Files are
+-- named by their position so the original name cannot identify the reporter.
+DROP FUNCTION IF EXISTS public.add_issue_attachment(TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.add_issue_attachment(p_token TEXT, p_path TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_prefix UUID;
+  v_object storage.objects;
+  v_attachment_id UUID := gen_random_uuid();
+  v_count INTEGER;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid tracking token' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT upload_prefix INTO v_prefix
+  FROM public.anonymous_tokens
+  WHERE issue_id = v_issue_id
+    AND token_selector = left(p_token, 12);
+
+  IF split_part(p_path, '/', 1) IS DISTINCT FROM v_prefix::TEXT THEN
+    RAISE EXCEPTION 'Only files uploaded for this report can be attached' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_object
+  FROM storage.objects o
+  WHERE o.bucket_id = 'issue-attachments'
+  AND o.name = p_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Uploaded file not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.issues
+    WHERE attachments @> jsonb_build_array(jsonb_build_object('path', p_path))
+  ) THEN
+    RAISE EXCEPTION 'This file is already attached to an issue' USING ERRCODE = '23505';
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM public.issues i, jsonb_array_elements(i.attachments) a
+  WHERE i.id = v_issue_id
+  AND NOT a ? 'merged_from';
+
+  UPDATE public.issues
+  SET attachments = attachments || jsonb_build_array(jsonb_build_object(
+    'id', v_attachment_id,
+    'path', p_path,
+    'name', 'attachment-' || (v_count + 1) || COALESCE('.' || substring(p_path FROM '\.([A-Za-z0-9]+)$'), ''),
+    'mime_type', v_object.metadata ->> 'mimetype',
+    'size', (v_object.metadata ->> 'size')::BIGINT,
+    'scan_status', 'pending',
+    'uploaded_at', now()
+  ))
+  WHERE id = v_issue_id
+  AND (SELECT count(*) FROM jsonb_array_elements(attachments) a WHERE NOT a ? 'merged_from') < 10;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'An issue can have at most 10 attachments' USING ERRCODE = '54000';
+  END IF;
+
+  RETURN v_attachment_id;
+END;
+$$;
+
+-- Called by the edge function before it downloads anything: the issue behind
+-- the token when the path is one of its files still waiting for a scan
+CREATE OR REPLACE FUNCTION public.get_pending_attachment_issue(p_token TEXT, p_path TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1
+  FROM public.issues
+  WHERE id = v_issue_id
+  AND attachments @> jsonb_build_array(jsonb_build_object('path', p_path, 'scan_status', 'pending'));
+
+  RETURN CASE WHEN FOUND THEN v_issue_id END;
+END;
+$$;
+
+-- Clean files are released; anything else is unlinked and the edge function
+-- deletes the object
+CREATE OR REPLACE FUNCTION public.record_attachment_scan(p_issue_id UUID, p_path TEXT, p_verdict TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_verdict NOT IN ('clean', 'infected', 'unavailable') THEN
+    RAISE EXCEPTION 'Unknown scan verdict' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.issues
+  SET attachments = COALESCE((
+    SELECT jsonb_agg(
+      CASE WHEN a ->> 'path' = p_path THEN jsonb_set(a, '{scan_status}', '"clean"') ELSE a END
+      ORDER BY t.ord
+    )
+    FROM jsonb_array_elements(attachments) WITH ORDINALITY AS t(a, ord)
+    WHERE p_verdict = 'clean' OR a ->> 'path' <> p_path
+  ), '[]'::jsonb)
+  WHERE id = p_issue_id
+  AND attachments @> jsonb_build_array(jsonb_build_object('path', p_path, 'scan_status', 'pending'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No attachment is waiting for this scan' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.record_audit_event('attachment.scan', 'issue', p_issue_id, jsonb_build_object('verdict', p_verdict));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pending_attachment_issue(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_attachment_scan(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Reporters only see their files once they have passed the scan
+CREATE OR REPLACE FUNCTION public.track_issue_by_token(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := public.resolve_tracking_token(p_token);
+  v_primary public.issues;
+  v_result JSONB;
+BEGIN
+  IF v_issue_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.* INTO v_primary
+  FROM public.issues i
+  JOIN public.issues p ON p.id = i.merged_into_id
+  WHERE i.id = v_issue_id;
+
+  SELECT jsonb_build_object(
+    'title', i.title,
+    'description', i.description,
+    'severity', i.severity,
+    'status', COALESCE(v_primary.status, i.status),
+    'location', i.location,
+    'created_at', i.created_at,
+    'updated_at', GREATEST(i.updated_at, v_primary.updated_at),
+    'resolved_at', CASE WHEN v_primary.id IS NULL THEN i.resolved_at ELSE v_primary.resolved_at END,
+    'merged', v_primary.id IS NOT NULL,
+    'category', (
+      SELECT jsonb_build_object('name', c.name, 'color', c.color, 'icon', c.icon)
+      FROM public.issue_categories c
+      WHERE c.id = i.category_id
+    ),
+    'department', (
+      SELECT jsonb_build_object('name', d.name)
+      FROM public.departments d
+      WHERE d.id = i.department_id
+    ),
+    'attachments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a ->> 'id',
+        'name', a ->> 'name',
+        'mime_type', a ->> 'mime_type',
+        'size', (a ->> 'size')::BIGINT,
+        'uploaded_at', a ->> 'uploaded_at'
+      ))
+      FROM jsonb_array_elements(i.attachments) a
+      WHERE NOT a ? 'merged_from'
+      AND a ->> 'scan_status' = 'clean'
+    ), '[]'::jsonb),
+    'updates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'update_type', u.update_type,
+        'content', u.content,
+        'old_status', u.old_status,
+        'new_status', u.new_status,
+        'created_at', u.created_at
+      ) ORDER BY u.created_at)
+      FROM public.issue_updates u
+      WHERE u.issue_id = i.id
+      AND u.is_public = true
+    ), '[]'::jsonb),
+    'split_cases', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'title', s.title,
+        'status', COALESCE(sp.status, s.status),
+        'created_at', s.created_at,
+        'updated_at', GREATEST(s.updated_at, sp.updated_at)
+      ) ORDER BY s.created_at)
+      FROM public.issues s
+      LEFT JOIN public.issues sp ON sp.id = s.merged_into_id
+      WHERE s.split_from_id = i.id
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.issues i
+  WHERE i.id = v_issue_id;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- Tokens stop working once they expire. Every token RPC (tracking, messages,
+-- attachments, the live channel) goes through the resolver, so an expired token
+-- is treated like an unknown one everywhere.
+CREATE OR REPLACE FUNCTION public.resolve_tracking_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_token public.anonymous_tokens;
+  v_issue_id UUID;
+  v_expired BOOLEAN := false;
+BEGIN
+  PERFORM public.audit_as_anonymous();
+
+  IF p_token IS NOT NULL AND char_length(p_token) >= 15 THEN
+    SELECT * INTO v_token
+    FROM public.anonymous_tokens
+    WHERE token_selector = left(p_token, 12);
+
+    IF FOUND
+      AND v_token.token_hash = encode(extensions.digest(v_token.token_salt || p_token, 'sha256'), 'hex') THEN
+      IF v_token.expires_at > now() THEN
+        v_issue_id := v_token.issue_id;
+      ELSE
+        v_expired := true;
+      END IF;
+    END IF;
+  END IF;
+
+  PERFORM public.record_audit_event(
+    'token.lookup',
+    'issue',
+    COALESCE(v_issue_id, CASE WHEN v_expired THEN v_token.issue_id END),
+    jsonb_build_object('found', v_issue_id IS NOT NULL, 'expired', v_expired)
+  );
+
+  RETURN v_issue_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_tracking_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Uploads need a live token too
+CREATE OR REPLACE FUNCTION public.is_attachment_upload_prefix(p_prefix TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.anonymous_tokens
+    WHERE upload_prefix = CASE
+      WHEN p_prefix ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN p_prefix::UUID
+    END
+    AND expires_at > now()
+  );
+$$;
+
+-- Nobody can open a tracking channel with an expired token, so stop sending to it
+CREATE OR REPLACE FUNCTION public.notify_tracking_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_topic UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'issues' THEN
+    v_issue_id := NEW.id;
+  ELSE
+    v_issue_id := NEW.issue_id;
+  END IF;
+
+  FOR v_topic IN
+    SELECT t.realtime_topic
+    FROM public.anonymous_tokens t
+    WHERE t.expires_at > now()
+    AND (
+      t.issue_id = v_issue_id
+      OR (
+        TG_TABLE_NAME = 'issues'
+        AND (
+          t.issue_id IN (SELECT id FROM public.issues WHERE merged_into_id = v_issue_id)
+          OR t.issue_id = (SELECT split_from_id FROM public.issues WHERE id = v_issue_id)
+        )
+      )
+    )
+  LOOP
+    PERFORM realtime.send(jsonb_build_object('kind', TG_TABLE_NAME), 'activity', 'tracking:' || v_topic, false);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
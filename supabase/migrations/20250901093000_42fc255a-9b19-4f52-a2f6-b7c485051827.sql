@@ -0,0 +1,303 @@
+-- Reading a case is only possible through get_issue_detail, which records the
+-- view in the same call. Clients lose SELECT on the columns that make up the
+-- report itself (description, location, attachments); lists read the
+-- issue_summaries view, which leaves them out.
+
+REVOKE SELECT ON public.issues FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  title,
+  status,
+  severity,
+  severity_order,
+  category_id,
+  department_id,
+  assigned_to,
+  reporter_id,
+  metadata,
+  merged_into_id,
+  split_from_id,
+  first_response_at,
+  resolved_at,
+  created_at,
+  updated_at
+) ON public.issues TO anon, authenticated;
+
+-- Runs as the caller, so RLS on issues still decides which rows appear
+CREATE VIEW public.issue_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  title,
+  status,
+  severity,
+  severity_order,
+  category_id,
+  department_id,
+  assigned_to,
+  reporter_id,
+  metadata,
+  merged_into_id,
+  split_from_id,
+  first_response_at,
+  resolved_at,
+  created_at,
+  updated_at
+FROM public.issues;
+
+GRANT SELECT ON public.issue_summaries TO authenticated;
+
+-- The list's computed columns, for rows of the view
+CREATE OR REPLACE FUNCTION public.is_breaching_sla(p_issue public.issue_summaries)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT p_issue.status NOT IN ('resolved', 'closed') AND EXISTS (
+    SELECT 1
+    FROM public.sla_targets t
+    WHERE t.severity = p_issue.severity
+      AND (
+        (p_issue.first_response_at IS NULL AND now() > p_issue.created_at + make_interval(hours => t.first_response_hours))
+        OR now() > p_issue.created_at + make_interval(hours => t.resolution_hours)
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_awaiting_reporter(p_issue public.issue_summaries)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT p_issue.status NOT IN ('resolved', 'closed') AND COALESCE((
+    SELECT m.sender_type = 'staff'
+    FROM public.issue_messages m
+    WHERE m.issue_id = p_issue.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_tag_ids(p_issue public.issue_summaries)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(array_agg(t.tag_id), '{}')
+  FROM public.issue_tags t
+  WHERE t.issue_id = p_issue.id;
+$$;
+
+-- The whole issue row for a permitted reader, logged as a view. Related rows
+-- (timeline, watchers, tags) are embedded by the client and keep their own RLS.
+CREATE OR REPLACE FUNCTION public.get_issue_detail(p_issue_id UUID)
+RETURNS SETOF public.issues
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.can_view_issue(p_issue_id) THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.record_audit_event('issue.view', 'issue', p_issue_id);
+
+  RETURN QUERY
+  SELECT * FROM public.issues WHERE id = p_issue_id;
+END;
+$$;
+
+-- The storage policy runs as the caller, who can no longer read attachments
+CREATE OR REPLACE FUNCTION public.can_read_attachment(p_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.issues i
+    WHERE i.attachments @> jsonb_build_array(jsonb_build_object('path', p_path, 'scan_status', 'clean'))
+    AND public.can_view_issue(i.id)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Users can read scanned attachments of permitted issues" ON storage.objects;
+
+CREATE POLICY "Users can read scanned attachments of permitted issues" ON storage.objects FOR SELECT USING (
+  bucket_id = 'issue-attachments'
+  AND public.can_read_attachment(name)
+);
+
+-- Bulk triage runs as the caller, so it reads only the columns it needs
+CREATE OR REPLACE FUNCTION public.bulk_update_issues(
+  p_issue_ids UUID[],
+  p_changes JSONB,
+  p_note TEXT DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT false
+)
+RETURNS TABLE(issue_id UUID, update_id UUID, error TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_tag_ids UUID[];
+  v_issue_id UUID;
+  v_issue public.issues;
+  v_status TEXT;
+  v_assignee UUID;
+  v_severity TEXT;
+  v_department UUID;
+  v_summary TEXT[];
+  v_name TEXT;
+  v_tagged TEXT;
+BEGIN
+  IF p_changes IS NULL OR NOT (p_changes ?| ARRAY['status', 'assigned_to', 'severity', 'department_id', 'add_tag_ids']) THEN
+    RAISE EXCEPTION 'No changes given' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(p_issue_ids) > 500 THEN
+    RAISE EXCEPTION 'At most 500 issues can be updated at once' USING ERRCODE = '22023';
+  END IF;
+
+  v_tag_ids := ARRAY(
+    SELECT value::UUID
+    FROM jsonb_array_elements_text(COALESCE(p_changes->'add_tag_ids', '[]'::jsonb))
+  );
+
+  FOREACH v_issue_id IN ARRAY COALESCE(p_issue_ids, '{}') LOOP
+    BEGIN
+      SELECT i.id, i.status, i.assigned_to, i.severity, i.department_id
+      INTO v_issue.id, v_issue.status, v_issue.assigned_to, v_issue.severity, v_issue.department_id
+      FROM public.issues i
+      WHERE i.id = v_issue_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Issue % not found', v_issue_id USING ERRCODE = 'P0002';
+      END IF;
+
+      v_status := COALESCE(p_changes->>'status', v_issue.status);
+      v_assignee := CASE WHEN p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE v_issue.assigned_to END;
+      v_severity := COALESCE(p_changes->>'severity', v_issue.severity);
+      v_department := CASE WHEN p_changes ? 'department_id' THEN (p_changes->>'department_id')::UUID ELSE v_issue.department_id END;
+      v_summary := '{}';
+
+      IF v_status IS DISTINCT FROM v_issue.status THEN
+        v_summary := v_summary || format('Status changed from %s to %s', v_issue.status, v_status);
+      END IF;
+
+      IF v_assignee IS DISTINCT FROM v_issue.assigned_to THEN
+        IF v_assignee IS NULL THEN
+          v_summary := v_summary || 'Assignment removed'::TEXT;
+        ELSE
+          SELECT COALESCE(NULLIF(display_name, ''), email) INTO v_name
+          FROM public.profiles
+          WHERE user_id = v_assignee;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Assignee % has no profile', v_assignee USING ERRCODE = 'P0002';
+          END IF;
+
+          v_summary := v_summary || format('Assigned to %s', v_name);
+        END IF;
+      END IF;
+
+      IF v_severity IS DISTINCT FROM v_issue.severity THEN
+        v_summary := v_summary || format('Severity changed from %s to %s', v_issue.severity, v_severity);
+      END IF;
+
+      IF v_department IS DISTINCT FROM v_issue.department_id THEN
+        SELECT name INTO v_name FROM public.departments WHERE id = v_department;
+        v_summary := v_summary || format('Moved to %s', COALESCE(v_name, 'no department'));
+      END IF;
+
+      -- Only tags the issue does not carry yet are added and mentioned
+      WITH added AS (
+        INSERT INTO public.issue_tags (issue_id, tag_id)
+        SELECT v_issue_id, t.id
+        FROM public.tags t
+        WHERE t.id = ANY(v_tag_ids)
+        ON CONFLICT DO NOTHING
+        RETURNING tag_id
+      )
+      SELECT string_agg(t.name, ', ' ORDER BY t.name) INTO v_tagged
+      FROM added a
+      JOIN public.tags t ON t.id = a.tag_id;
+
+      -- Nothing to do for this issue; reported as neither updated nor failed
+      IF cardinality(v_summary) = 0 AND v_tagged IS NULL THEN
+        issue_id := v_issue_id;
+        update_id := NULL;
+        error := NULL;
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+
+      PERFORM set_config('candor.status_note', COALESCE(v_note, ''), true);
+
+      UPDATE public.issues
+      SET
+        status = v_status,
+        resolved_at = CASE
+          WHEN v_status = v_issue.status THEN resolved_at
+          WHEN v_status = 'resolved' THEN now()
+          WHEN v_status IN ('open', 'triaged', 'investigating') THEN NULL
+          ELSE resolved_at
+        END,
+        assigned_to = v_assignee,
+        severity = v_severity,
+        department_id = v_department
+      WHERE id = v_issue_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not allowed to update issue %', v_issue_id USING ERRCODE = '42501';
+      END IF;
+
+      PERFORM set_config('candor.status_note', '', true);
+
+      INSERT INTO public.issue_updates (
+        issue_id,
+        update_type,
+        content,
+        old_status,
+        new_status,
+        created_by,
+        is_public
+      ) VALUES (
+        v_issue_id,
+        'bulk_update',
+        concat_ws(
+          E'\n',
+          v_note,
+          NULLIF(array_to_string(v_summary, '; '), ''),
+          CASE WHEN NOT p_is_public OR cardinality(v_summary) = 0 THEN 'Tagged ' || v_tagged END
+        ),
+        v_issue.status,
+        v_status,
+        auth.uid(),
+        -- Tags are internal: they are left out of public entries, and a tag-only change stays internal
+        p_is_public AND cardinality(v_summary) > 0
+      )
+      RETURNING id INTO update_id;
+
+      issue_id := v_issue_id;
+      error := NULL;
+      RETURN NEXT;
+    EXCEPTION WHEN OTHERS THEN
+      issue_id := v_issue_id;
+      update_id := NULL;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
+
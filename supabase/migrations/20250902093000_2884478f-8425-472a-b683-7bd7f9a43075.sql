@@ -0,0 +1,305 @@
+-- Case merge and split fixes.
+--
+-- merge_issues checked the duplicate's exclusions against the primary's
+-- handlers by name only. The exclusions are now copied first and checked with
+-- has_issue_conflict, which also covers the named people's managers and reports.
+CREATE OR REPLACE FUNCTION public.merge_issues(
+  p_primary_id UUID,
+  p_issue_ids UUID[],
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_primary public.issues;
+  v_issue public.issues;
+  v_issue_id UUID;
+BEGIN
+  IF NOT public.has_permission('resolve') THEN
+    RAISE EXCEPTION 'You do not have permission to merge issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(cardinality(p_issue_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one issue to merge' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_primary FROM public.issues WHERE id = p_primary_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_view_issue(p_primary_id) THEN
+    RAISE EXCEPTION 'Issue % not found', p_primary_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_primary.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into an issue that was itself merged' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_issue_id IN SELECT DISTINCT unnest(p_issue_ids) LOOP
+    IF v_issue_id = p_primary_id THEN
+      RAISE EXCEPTION 'Cannot merge an issue into itself' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_issue FROM public.issues WHERE id = v_issue_id FOR UPDATE;
+    IF NOT FOUND OR NOT public.can_view_issue(v_issue_id) THEN
+      RAISE EXCEPTION 'Issue % not found', v_issue_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_issue.merged_into_id IS NOT NULL THEN
+      RAISE EXCEPTION '"%" has already been merged', v_issue.title USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.issue_exclusions (issue_id, user_id)
+    SELECT p_primary_id, e.user_id
+    FROM public.issue_exclusions e
+    WHERE e.issue_id = v_issue_id
+    ON CONFLICT (issue_id, user_id) DO NOTHING;
+
+    -- With the exclusions in place, so their managers and reports count too
+    IF public.has_issue_conflict(p_primary_id, v_primary.assigned_to)
+      OR EXISTS (
+        SELECT 1
+        FROM public.issue_watchers w
+        WHERE w.issue_id = p_primary_id
+        AND public.has_issue_conflict(p_primary_id, w.user_id)
+      ) THEN
+      RAISE EXCEPTION 'Someone handling "%" has a conflict of interest with the reporter of "%"', v_primary.title, v_issue.title
+        USING ERRCODE = '23514';
+    END IF;
+
+    -- Notes and resolutions only: workflow entries describe the duplicate's own handling
+    INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public, created_at, merged_from_id)
+    SELECT p_primary_id, u.update_type, u.content, u.created_by, false, u.created_at, COALESCE(u.merged_from_id, v_issue_id)
+    FROM public.issue_updates u
+    WHERE u.issue_id = v_issue_id
+    AND u.update_type IN ('comment', 'resolution')
+    AND COALESCE(u.content, '') <> '';
+
+    INSERT INTO public.issue_tags (issue_id, tag_id, created_by, created_at)
+    SELECT p_primary_id, t.tag_id, t.created_by, t.created_at
+    FROM public.issue_tags t
+    WHERE t.issue_id = v_issue_id
+    ON CONFLICT (issue_id, tag_id) DO NOTHING;
+
+    UPDATE public.issues
+    SET attachments = v_primary.attachments || COALESCE((
+          SELECT jsonb_agg(a || jsonb_build_object('merged_from', COALESCE(a ->> 'merged_from', v_issue_id::TEXT)))
+          FROM jsonb_array_elements(v_issue.attachments) a
+          WHERE NOT v_primary.attachments @> jsonb_build_array(jsonb_build_object('path', a -> 'path'))
+        ), '[]'::jsonb),
+        metadata = jsonb_set(
+          COALESCE(v_issue.metadata, '{}') || COALESCE(v_primary.metadata, '{}'),
+          '{custom_fields}',
+          COALESCE(v_issue.metadata -> 'custom_fields', '{}') || COALESCE(v_primary.metadata -> 'custom_fields', '{}')
+        ),
+        severity = CASE
+          WHEN public.severity_rank(v_issue.severity) > public.severity_rank(v_primary.severity) THEN v_issue.severity
+          ELSE v_primary.severity
+        END
+    WHERE id = p_primary_id
+    RETURNING * INTO v_primary;
+
+    DELETE FROM public.issue_links
+    WHERE (issue_id = v_issue_id AND linked_issue_id = p_primary_id)
+      OR (issue_id = p_primary_id AND linked_issue_id = v_issue_id);
+
+    INSERT INTO public.issue_links (issue_id, linked_issue_id, link_type)
+    VALUES (v_issue_id, p_primary_id, 'duplicate');
+
+    UPDATE public.issues
+    SET merged_into_id = p_primary_id,
+        status = 'closed'
+    WHERE id = v_issue_id;
+
+    -- Earlier merges into the duplicate move on, so merges never chain
+    UPDATE public.issues
+    SET merged_into_id = p_primary_id
+    WHERE merged_into_id = v_issue_id;
+
+    INSERT INTO public.issue_updates (issue_id, update_type, content, old_status, new_status, created_by, is_public)
+    VALUES
+      (
+        v_issue_id,
+        'merge',
+        concat_ws(E'\n', v_note, format('Merged into "%s" as a duplicate', v_primary.title)),
+        v_issue.status,
+        'closed',
+        auth.uid(),
+        false
+      ),
+      (
+        p_primary_id,
+        'merge',
+        concat_ws(E'\n', v_note, format('"%s" merged in as a duplicate', v_issue.title)),
+        NULL,
+        NULL,
+        auth.uid(),
+        false
+      );
+  END LOOP;
+END;
+$$;
+
+-- split_issue copies the parent's custom field values, which were valid when
+-- the report came in. It skips the validation for that copy.
+CREATE OR REPLACE FUNCTION public.validate_custom_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_values JSONB := COALESCE(NEW.metadata -> 'custom_fields', '{}');
+  v_field RECORD;
+  v_value JSONB;
+BEGIN
+  IF COALESCE(current_setting('candor.skip_field_validation', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(v_values) <> 'object' THEN
+    RAISE EXCEPTION 'custom_fields must be an object' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_field IN
+    SELECT field_key, label, field_type, options, required
+    FROM public.category_fields
+    WHERE category_id = NEW.category_id
+  LOOP
+    v_value := v_values -> v_field.field_key;
+
+    IF v_value IS NULL OR v_value = 'null'::jsonb OR v_value = '""'::jsonb THEN
+      IF v_field.required THEN
+        RAISE EXCEPTION '% is required', v_field.label USING ERRCODE = '23514';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF (v_field.field_type = 'number' AND jsonb_typeof(v_value) <> 'number')
+      OR (v_field.field_type = 'boolean' AND jsonb_typeof(v_value) <> 'boolean')
+      OR (v_field.field_type IN ('text', 'date', 'select') AND jsonb_typeof(v_value) <> 'string')
+      OR (v_field.field_type = 'date' AND (v_value #>> '{}') !~ '^\d{4}-\d{2}-\d{2}$')
+      OR (v_field.field_type = 'select' AND NOT ((v_value #>> '{}') = ANY (v_field.options))) THEN
+      RAISE EXCEPTION 'Invalid value for %', v_field.label USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.split_issue(
+  p_issue_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_severity TEXT DEFAULT NULL,
+  p_attachment_ids UUID[] DEFAULT '{}',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_title TEXT := NULLIF(btrim(p_title), '');
+  v_description TEXT := NULLIF(btrim(p_description), '');
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_parent public.issues;
+  v_child_id UUID := gen_random_uuid();
+BEGIN
+  IF NOT public.has_permission('triage') THEN
+    RAISE EXCEPTION 'You do not have permission to split issues' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_title IS NULL OR v_description IS NULL THEN
+    RAISE EXCEPTION 'A title and description are required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_parent FROM public.issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_view_issue(p_issue_id) THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_parent.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A merged issue cannot be split' USING ERRCODE = '22023';
+  END IF;
+
+  -- Before the issue itself, as in submit_issue, so routing respects them
+  INSERT INTO public.issue_exclusions (issue_id, user_id)
+  SELECT v_child_id, e.user_id
+  FROM public.issue_exclusions e
+  WHERE e.issue_id = p_issue_id;
+
+  -- The values were checked when the report came in; fields added to the
+  -- category since then must not block the split
+  PERFORM set_config('candor.skip_field_validation', 'on', true);
+
+  INSERT INTO public.issues (
+    id,
+    title,
+    description,
+    severity,
+    category_id,
+    department_id,
+    location,
+    metadata,
+    reporter_id,
+    attachments,
+    split_from_id
+  ) VALUES (
+    v_child_id,
+    v_title,
+    v_description,
+    COALESCE(p_severity, v_parent.severity),
+    v_parent.category_id,
+    v_parent.department_id,
+    v_parent.location,
+    COALESCE(v_parent.metadata, '{}'),
+    v_parent.reporter_id,
+    COALESCE((
+      SELECT jsonb_agg(a)
+      FROM jsonb_array_elements(v_parent.attachments) a
+      WHERE (a ->> 'id')::UUID = ANY (COALESCE(p_attachment_ids, '{}'))
+    ), '[]'::jsonb),
+    p_issue_id
+  );
+
+  PERFORM set_config('candor.skip_field_validation', '', true);
+
+  INSERT INTO public.issue_links (issue_id, linked_issue_id, link_type)
+  VALUES (v_child_id, p_issue_id, 'parent');
+
+  INSERT INTO public.issue_updates (issue_id, update_type, content, created_by, is_public)
+  VALUES
+    (p_issue_id, 'split', concat_ws(E'\n', v_note, format('Split out as "%s"', v_title)), auth.uid(), false),
+    (v_child_id, 'split', concat_ws(E'\n', v_note, format('Split from "%s"', v_parent.title)), auth.uid(), false);
+
+  RETURN v_child_id;
+END;
+$$;
+
+-- A case split out of an anonymous report has no reporter either, but staff
+-- open it. Logging its creation anonymously also made every later event in the
+-- transaction anonymous, so the split's own entries lost their actor.
+CREATE OR REPLACE FUNCTION public.audit_issue_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.reporter_id IS NULL AND NEW.split_from_id IS NULL THEN
+    PERFORM public.audit_as_anonymous();
+  END IF;
+
+  PERFORM public.record_audit_event('issue.create', 'issue', NEW.id, jsonb_build_object(
+    'severity', NEW.severity,
+    'category_id', NEW.category_id,
+    'department_id', NEW.department_id,
+    'anonymous', NEW.reporter_id IS NULL
+  ));
+
+  RETURN NEW;
+END;
+$$;
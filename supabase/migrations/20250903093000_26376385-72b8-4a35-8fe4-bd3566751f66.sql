@@ -0,0 +1,156 @@
+-- Tracking tokens no longer expire. A reporter on a case that is still open
+-- must not lose status tracking, the secure thread or evidence uploads, so the
+-- configurable lifetime and every expiry check are removed until expiry can be
+-- introduced with a notice to reporters.
+ALTER TABLE public.organization_settings DROP COLUMN tracking_token_days;
+
+CREATE OR REPLACE FUNCTION public.submit_issue(
+  p_title TEXT,
+  p_description TEXT,
+  p_severity TEXT,
+  p_category_id UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_anonymous BOOLEAN DEFAULT true,
+  p_excluded_user_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID := gen_random_uuid();
+  v_token TEXT;
+  v_salt TEXT := encode(extensions.gen_random_bytes(16), 'hex');
+BEGIN
+  IF cardinality(p_excluded_user_ids) > 20 THEN
+    RAISE EXCEPTION 'At most 20 people can be excluded from a report' USING ERRCODE = '22023';
+  END IF;
+
+  -- 32 random bytes as unpadded base64url
+  v_token := rtrim(translate(encode(extensions.gen_random_bytes(32), 'base64'), E'+/\n', '-_'), '=');
+
+  -- Before the issue itself, so routing rules already respect the exclusions
+  INSERT INTO public.issue_exclusions (issue_id, user_id)
+  SELECT DISTINCT v_issue_id, p.user_id
+  FROM public.profiles p
+  WHERE p.user_id = ANY (COALESCE(p_excluded_user_ids, '{}'))
+  AND p.user_id IS DISTINCT FROM auth.uid();
+
+  INSERT INTO public.issues (
+    id,
+    title,
+    description,
+    severity,
+    category_id,
+    department_id,
+    location,
+    metadata,
+    reporter_id
+  ) VALUES (
+    v_issue_id,
+    p_title,
+    p_description,
+    p_severity,
+    p_category_id,
+    p_department_id,
+    NULLIF(btrim(p_location), ''),
+    COALESCE(p_metadata, '{}'),
+    CASE WHEN p_anonymous THEN NULL ELSE auth.uid() END
+  );
+
+  INSERT INTO public.anonymous_tokens (issue_id, token_selector, token_salt, token_hash)
+  VALUES (
+    v_issue_id,
+    left(v_token, 12),
+    v_salt,
+    encode(extensions.digest(v_salt || v_token, 'sha256'), 'hex')
+  );
+
+  RETURN jsonb_build_object('issue_id', v_issue_id, 'token', v_token);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_tracking_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_token public.anonymous_tokens;
+  v_issue_id UUID;
+BEGIN
+  PERFORM public.audit_as_anonymous();
+
+  IF p_token IS NOT NULL AND char_length(p_token) >= 15 THEN
+    SELECT * INTO v_token
+    FROM public.anonymous_tokens
+    WHERE token_selector = left(p_token, 12);
+
+    IF FOUND
+      AND v_token.token_hash = encode(extensions.digest(v_token.token_salt || p_token, 'sha256'), 'hex') THEN
+      v_issue_id := v_token.issue_id;
+    END IF;
+  END IF;
+
+  PERFORM public.record_audit_event('token.lookup', 'issue', v_issue_id, jsonb_build_object('found', v_issue_id IS NOT NULL));
+
+  RETURN v_issue_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_tracking_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_attachment_upload_prefix(p_prefix TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.anonymous_tokens
+    WHERE upload_prefix = CASE
+      WHEN p_prefix ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN p_prefix::UUID
+    END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_tracking_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_issue_id UUID;
+  v_topic UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'issues' THEN
+    v_issue_id := NEW.id;
+  ELSE
+    v_issue_id := NEW.issue_id;
+  END IF;
+
+  FOR v_topic IN
+    SELECT t.realtime_topic
+    FROM public.anonymous_tokens t
+    WHERE t.issue_id = v_issue_id
+      OR (
+        TG_TABLE_NAME = 'issues'
+        AND (
+          t.issue_id IN (SELECT id FROM public.issues WHERE merged_into_id = v_issue_id)
+          OR t.issue_id = (SELECT split_from_id FROM public.issues WHERE id = v_issue_id)
+        )
+      )
+  LOOP
+    PERFORM realtime.send(jsonb_build_object('kind', TG_TABLE_NAME), 'activity', 'tracking:' || v_topic, false);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Operators verify the chain without the admin console: through the service
+-- role (npm run verify:audit) or from psql, where no request role is set.
+-- Requests from the app still need the administer permission.
+CREATE OR REPLACE FUNCTION public.verify_audit_chain()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_event public.audit_events;
+  v_prev_hash TEXT;
+  v_last_id BIGINT;
+  v_checked BIGINT := 0;
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT public.has_permission('administer') THEN
+    RAISE EXCEPTION 'Only administrators can verify the audit log' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_event IN SELECT * FROM public.audit_events ORDER BY id LOOP
+    IF v_event.prev_hash IS DISTINCT FROM v_prev_hash THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'checked', v_checked,
+        'broken_at', v_event.id,
+        'reason', 'The event does not follow the one before it; an event was removed or reordered'
+      );
+    END IF;
+
+    IF v_event.hash IS DISTINCT FROM public.audit_event_hash(v_event) THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'checked', v_checked,
+        'broken_at', v_event.id,
+        'reason', 'The event no longer matches its hash; it was modified'
+      );
+    END IF;
+
+    v_prev_hash := v_event.hash;
+    v_last_id := v_event.id;
+    v_checked := v_checked + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'checked', v_checked,
+    'last_id', v_last_id,
+    'last_hash', v_prev_hash
+  );
+END;
+$$;
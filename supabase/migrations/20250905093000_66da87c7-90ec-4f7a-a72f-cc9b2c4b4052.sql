@@ -0,0 +1,38 @@
+-- Anonymous reporters who are not signed in can name conflicted people too.
+-- The search reveals as little of the staff directory as it can: a display
+-- name and department only, never email or job title, and only for queries of
+-- at least three characters that start a word of someone's name.
+DROP FUNCTION IF EXISTS public.search_exclusion_candidates(TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_exclusion_candidates(p_query TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  department_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH search AS (
+    -- LIKE wildcards in the query match literally
+    SELECT replace(replace(replace(btrim(p_query), '\', '\\'), '%', '\%'), '_', '\_') AS term
+  ),
+  people AS (
+    SELECT
+      p.user_id,
+      COALESCE(NULLIF(btrim(p.display_name), ''), NULLIF(btrim(concat_ws(' ', p.first_name, p.last_name)), '')) AS name,
+      d.name AS department_name
+    FROM public.profiles p
+    LEFT JOIN public.departments d ON d.id = p.department_id
+    WHERE p.user_id IS DISTINCT FROM auth.uid()
+  )
+  SELECT people.user_id, people.name, people.department_name
+  FROM people, search
+  WHERE char_length(btrim(p_query)) >= 3
+  AND people.name IS NOT NULL
+  AND (people.name ILIKE search.term || '%' OR people.name ILIKE '% ' || search.term || '%')
+  ORDER BY 2
+  LIMIT 10;
+$$;
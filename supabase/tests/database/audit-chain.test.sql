@@ -0,0 +1,100 @@
+-- Audit chain: events cannot be changed in place, and verify_audit_chain
+-- reports the first event that was modified or that follows a removed one.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+SELECT public.record_audit_event('test.event', 'issue', NULL, jsonb_build_object('step', step))
+FROM generate_series(1, 3) step;
+
+CREATE TEMP TABLE recorded AS
+SELECT id, details
+FROM public.audit_events
+WHERE action = 'test.event'
+ORDER BY id;
+
+CREATE FUNCTION pg_temp.event_id(p_step INT)
+RETURNS BIGINT
+LANGUAGE sql
+AS $$
+  SELECT id FROM recorded WHERE (details ->> 'step')::INT = p_step;
+$$;
+
+-- Staff without the administer permission
+INSERT INTO auth.users (id, email) VALUES ('5c1e7a34-0d4f-4b0e-9b8f-6f2d0c4a1e11', 'employee@audit.test');
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "5c1e7a34-0d4f-4b0e-9b8f-6f2d0c4a1e11", "role": "authenticated"}',
+  true
+);
+SELECT throws_ok(
+  'SELECT public.verify_audit_chain()',
+  '42501',
+  'Only administrators can verify the audit log',
+  'staff without the administer permission cannot verify the chain'
+);
+
+-- An operator from psql, with no request role
+SELECT set_config('request.jwt.claims', '', true);
+
+SELECT is(public.verify_audit_chain() ->> 'valid', 'true', 'an untouched chain verifies');
+SELECT is(
+  public.verify_audit_chain() ->> 'last_hash',
+  (SELECT hash FROM public.audit_events ORDER BY id DESC LIMIT 1),
+  'verification ends at the latest event'
+);
+
+SELECT throws_ok(
+  format('UPDATE public.audit_events SET details = ''{}'' WHERE id = %s', pg_temp.event_id(2)),
+  '42501',
+  'Audit events are append-only',
+  'events cannot be changed'
+);
+SELECT throws_ok(
+  format('DELETE FROM public.audit_events WHERE id = %s', pg_temp.event_id(2)),
+  '42501',
+  'Audit events are append-only',
+  'events cannot be removed'
+);
+
+-- Someone with direct database access gets past the trigger
+ALTER TABLE public.audit_events DISABLE TRIGGER prevent_audit_event_changes;
+
+UPDATE public.audit_events
+SET details = jsonb_build_object('step', 20)
+WHERE id = pg_temp.event_id(2);
+
+SELECT is(public.verify_audit_chain() ->> 'valid', 'false', 'a modified event breaks the chain');
+SELECT is(
+  public.verify_audit_chain() - 'checked' - 'valid',
+  jsonb_build_object(
+    'broken_at', pg_temp.event_id(2),
+    'reason', 'The event no longer matches its hash; it was modified'
+  ),
+  'the modified event is reported'
+);
+
+UPDATE public.audit_events
+SET details = jsonb_build_object('step', 2)
+WHERE id = pg_temp.event_id(2);
+
+SELECT is(public.verify_audit_chain() ->> 'valid', 'true', 'restoring the event restores the chain');
+
+DELETE FROM public.audit_events WHERE id = pg_temp.event_id(2);
+
+SELECT is(public.verify_audit_chain() ->> 'valid', 'false', 'a removed event breaks the chain');
+SELECT is(
+  public.verify_audit_chain() - 'checked' - 'valid',
+  jsonb_build_object(
+    'broken_at', pg_temp.event_id(3),
+    'reason', 'The event does not follow the one before it; an event was removed or reordered'
+  ),
+  'the event after the removed one is reported'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
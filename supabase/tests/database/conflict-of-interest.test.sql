@@ -0,0 +1,127 @@
+-- Conflict of interest: the people a reporter names, their managers up the
+-- chain and their reports never see the issue, whatever their role. The
+-- reporter keeps access, and an administrator's override restores it.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO public.departments (name) VALUES ('Conflict Test Operations');
+
+-- director <- named <- team_lead, and the reporter also reports to named
+CREATE TEMP TABLE people (name TEXT PRIMARY KEY, user_id UUID NOT NULL DEFAULT gen_random_uuid(), role TEXT NOT NULL);
+
+INSERT INTO people (name, role) VALUES
+  ('director', 'manager'),
+  ('named', 'manager'),
+  ('team_lead', 'manager'),
+  ('reporter', 'employee'),
+  ('investigator', 'hr');
+
+INSERT INTO auth.users (id, email)
+SELECT user_id, name || '@conflict.test' FROM people;
+
+UPDATE public.profiles p
+SET role = people.role,
+    department_id = (SELECT id FROM public.departments WHERE name = 'Conflict Test Operations')
+FROM people
+WHERE p.user_id = people.user_id;
+
+UPDATE public.profiles
+SET manager_id = (SELECT user_id FROM people WHERE name = 'director')
+WHERE user_id = (SELECT user_id FROM people WHERE name = 'named');
+
+UPDATE public.profiles
+SET manager_id = (SELECT user_id FROM people WHERE name = 'named')
+WHERE user_id IN (SELECT user_id FROM people WHERE name IN ('team_lead', 'reporter'));
+
+CREATE FUNCTION pg_temp.sign_in_as(p_name TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT set_config(
+    'request.jwt.claims',
+    jsonb_build_object('sub', user_id, 'role', 'authenticated')::TEXT,
+    true
+  )
+  FROM people
+  WHERE name = p_name;
+$$;
+
+-- Two reports to the department from the same reporter, one naming their manager
+SELECT pg_temp.sign_in_as('reporter');
+
+CREATE TEMP TABLE reports AS
+SELECT
+  (public.submit_issue(
+    'Overtime approvals',
+    'Overtime requests from the team go unanswered',
+    'low',
+    p_department_id => (SELECT id FROM public.departments WHERE name = 'Conflict Test Operations'),
+    p_anonymous => false
+  ) ->> 'issue_id')::UUID AS unrelated_id,
+  (public.submit_issue(
+    'Harassment by my manager',
+    'My manager has repeatedly made demeaning remarks in team meetings',
+    'high',
+    p_department_id => (SELECT id FROM public.departments WHERE name = 'Conflict Test Operations'),
+    p_anonymous => false,
+    p_excluded_user_ids => ARRAY[(SELECT user_id FROM people WHERE name = 'named')]
+  ) ->> 'issue_id')::UUID AS conflicted_id;
+
+SELECT pg_temp.sign_in_as('named');
+SELECT ok(
+  public.can_view_issue((SELECT unrelated_id FROM reports)),
+  'a manager sees their department''s issues'
+);
+SELECT ok(
+  NOT public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'the named person does not see the issue naming them'
+);
+
+SELECT pg_temp.sign_in_as('director');
+SELECT ok(
+  NOT public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'the named person''s manager does not see it'
+);
+
+SELECT pg_temp.sign_in_as('team_lead');
+SELECT ok(
+  NOT public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'people reporting to the named person do not see it'
+);
+
+SELECT pg_temp.sign_in_as('reporter');
+SELECT ok(
+  public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'the reporter sees it although they report to the named person'
+);
+
+SELECT pg_temp.sign_in_as('investigator');
+SELECT ok(
+  public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'an unrelated investigator sees it'
+);
+
+SELECT set_config('request.jwt.claims', '', true);
+
+INSERT INTO public.issue_exclusion_overrides (issue_id, user_id, reason)
+SELECT conflicted_id, (SELECT user_id FROM people WHERE name = 'director'), 'The only senior manager available'
+FROM reports;
+
+SELECT pg_temp.sign_in_as('director');
+SELECT ok(
+  public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'an override lets the manager see it'
+);
+
+SELECT pg_temp.sign_in_as('named');
+SELECT ok(
+  NOT public.can_view_issue((SELECT conflicted_id FROM reports)),
+  'an override for one person does not lift the others'' exclusion'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
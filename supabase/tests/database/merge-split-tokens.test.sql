@@ -0,0 +1,111 @@
+-- Merging and splitting cases: every tracking token keeps resolving to the
+-- report it was issued for, and the reporter only learns that it was combined
+-- with another or split up, never what the other case is about.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+CREATE TEMP TABLE submissions AS
+SELECT name, (r ->> 'issue_id')::UUID AS issue_id, r ->> 'token' AS token
+FROM (
+  VALUES
+    ('primary', public.submit_issue('Blocked fire exit', 'The fire exit behind the warehouse is blocked by pallets', 'high')),
+    ('duplicate', public.submit_issue('Pallets in the corridor', 'Pallets are stacked against the rear exit door', 'medium'))
+) AS s (name, r);
+
+CREATE FUNCTION pg_temp.submission(p_name TEXT)
+RETURNS submissions
+LANGUAGE sql
+AS $$
+  SELECT * FROM submissions WHERE name = p_name;
+$$;
+
+-- A case handler who can merge and split
+INSERT INTO auth.users (id, email) VALUES ('8b6f2f0e-3c1d-4d7a-a0a5-2e9c4b7d5f21', 'handler@merge.test');
+UPDATE public.profiles SET role = 'hr' WHERE user_id = '8b6f2f0e-3c1d-4d7a-a0a5-2e9c4b7d5f21';
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "8b6f2f0e-3c1d-4d7a-a0a5-2e9c4b7d5f21", "role": "authenticated"}',
+  true
+);
+
+SELECT public.merge_issues(
+  (pg_temp.submission('primary')).issue_id,
+  ARRAY[(pg_temp.submission('duplicate')).issue_id]
+);
+
+CREATE TEMP TABLE split AS
+SELECT public.split_issue(
+  (pg_temp.submission('primary')).issue_id,
+  'Fire door alarm disabled',
+  'The alarm on the rear fire door has been switched off'
+) AS issue_id;
+
+-- From here on the reporters track their reports
+SELECT set_config('request.jwt.claims', '', true);
+
+SELECT is(
+  public.resolve_tracking_token((pg_temp.submission('duplicate')).token),
+  (pg_temp.submission('duplicate')).issue_id,
+  'the merged report''s token still resolves to it'
+);
+SELECT is(
+  public.resolve_tracking_token((pg_temp.submission('primary')).token),
+  (pg_temp.submission('primary')).issue_id,
+  'the primary report''s token still resolves to it'
+);
+SELECT is_empty(
+  'SELECT 1 FROM public.anonymous_tokens WHERE issue_id = (SELECT issue_id FROM split)',
+  'the split case has no token of its own'
+);
+
+CREATE TEMP TABLE tracked AS
+SELECT name, public.track_issue_by_token(token) AS view
+FROM submissions;
+
+SELECT is(
+  (SELECT view ->> 'title' FROM tracked WHERE name = 'duplicate'),
+  'Pallets in the corridor',
+  'the merged report''s reporter still sees their own report'
+);
+SELECT is(
+  (SELECT view ->> 'merged' FROM tracked WHERE name = 'duplicate'),
+  'true',
+  'they are told it was combined with another'
+);
+SELECT is(
+  (SELECT view ->> 'status' FROM tracked WHERE name = 'duplicate'),
+  (SELECT status FROM public.issues WHERE id = (pg_temp.submission('primary')).issue_id),
+  'they follow the status of the case it was combined with'
+);
+SELECT ok(
+  (SELECT strpos(view::TEXT, 'Blocked fire exit') = 0 FROM tracked WHERE name = 'duplicate'),
+  'they do not see the other report'
+);
+
+SELECT is(
+  (SELECT view ->> 'merged' FROM tracked WHERE name = 'primary'),
+  'false',
+  'the primary report is not shown as merged'
+);
+SELECT ok(
+  (SELECT strpos(view::TEXT, 'Pallets in the corridor') = 0 FROM tracked WHERE name = 'primary'),
+  'its reporter does not see the merged report'
+);
+SELECT is(
+  (SELECT jsonb_agg(c ->> 'title') FROM tracked, jsonb_array_elements(view -> 'split_cases') c WHERE name = 'primary'),
+  '["Fire door alarm disabled"]'::jsonb,
+  'its reporter sees the case split from it'
+);
+SELECT is(
+  (SELECT jsonb_array_length(view -> 'split_cases') FROM tracked WHERE name = 'duplicate'),
+  0,
+  'the merged report has no split cases'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
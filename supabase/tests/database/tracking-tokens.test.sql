@@ -0,0 +1,71 @@
+-- Tracking tokens: only a salted hash is stored, resolve_tracking_token finds
+-- the issue from the raw token alone, and every lookup is audited anonymously.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- An anonymous report, submitted as the report form does it
+CREATE TEMP TABLE submission AS
+SELECT (r ->> 'issue_id')::UUID AS issue_id, r ->> 'token' AS token
+FROM public.submit_issue('Loose handrail', 'The handrail on the east stairs is loose', 'medium') r;
+
+SELECT ok(
+  (SELECT char_length(token) >= 40 FROM submission),
+  'submit_issue returns the raw token to the reporter'
+);
+
+SELECT is_empty(
+  $$
+    SELECT 1
+    FROM public.anonymous_tokens t, submission s
+    WHERE strpos(to_jsonb(t)::TEXT, s.token) > 0
+  $$,
+  'the raw token is not stored'
+);
+
+SELECT is(
+  (SELECT public.resolve_tracking_token(token) FROM submission),
+  (SELECT issue_id FROM submission),
+  'the token resolves to its issue'
+);
+
+SELECT is(
+  (SELECT public.resolve_tracking_token(left(token, 12) || repeat('x', char_length(token) - 12)) FROM submission),
+  NULL,
+  'a token with the right selector but the wrong secret does not resolve'
+);
+
+SELECT is(
+  (SELECT public.resolve_tracking_token(left(token, 12)) FROM submission),
+  NULL,
+  'a bare selector does not resolve'
+);
+
+SELECT is(public.resolve_tracking_token(NULL), NULL, 'a missing token does not resolve');
+
+SELECT results_eq(
+  $$
+    SELECT details ->> 'found'
+    FROM public.audit_events
+    WHERE action = 'token.lookup'
+    ORDER BY id
+  $$,
+  ARRAY['true', 'false', 'false', 'false'],
+  'every lookup is audited, found or not'
+);
+
+SELECT is_empty(
+  $$
+    SELECT 1
+    FROM public.audit_events
+    WHERE action = 'token.lookup'
+    AND (actor_id IS NOT NULL OR client_info IS NOT NULL)
+  $$,
+  'lookups are audited without an actor or client information'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;